@@ -0,0 +1,867 @@
+#!/usr/bin/env node
+// Builds src/lib/database.types.ts by replaying the DDL in supabase/migrations in order.
+//
+//   npm run db:types          rewrite the types file
+//   npm run db:types:check    exit 1 when the types file no longer matches the migrations
+//
+// Only the statements that shape the public schema are interpreted (tables, columns, CHECK ... IN
+// lists, foreign keys, enum types and RPC functions). Anything the generator can't type, such as a
+// view or an unknown column type, stops it with an error rather than producing a silently wrong file.
+
+import { readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const MIGRATIONS_DIR = join(ROOT, 'supabase', 'migrations');
+const OUTPUT_FILE = join(ROOT, 'src', 'lib', 'database.types.ts');
+
+// CHECK (column IN (...)) constraints exported under a name instead of as an inline union.
+// Every listed column must allow exactly the same values.
+const NAMED_UNIONS = {
+  UserRole: ['user_ranches.role'],
+  AnimalSource: ['animals.source'],
+  AnimalStatus: ['animals.status'],
+  AnimalType: ['animals.animal_type', 'drugs.animal_type', 'ranch_settings.default_animal_type'],
+  LicenseType: ['ranches.license_type', 'license_keys.license_type'],
+  BreedingMethod: ['breeding_records.breeding_method'],
+  PregnancyStatus: ['breeding_records.pregnancy_status'],
+  BreedingOutcome: ['breeding_records.outcome'],
+  WithdrawalOverrideStatus: ['withdrawal_overrides.status'],
+  TreatmentRoute: ['medical_history.route', 'treatment_protocol_items.route'],
+};
+
+// Columns the database leaves as plain text but the app only ever writes from a fixed list.
+const APP_UNIONS = {
+  // The sex CHECK was dropped in 20251219184949 so each species can use its own terms; these are
+  // the upper-cased ANIMAL_SEX_OPTIONS from animalTypes.ts plus the generic CSV import values.
+  AnimalSex: {
+    columns: ['animals.sex'],
+    values: [
+      'BULL', 'STEER', 'COW', 'HEIFER',
+      'STALLION', 'GELDING', 'MARE', 'FILLY', 'COLT',
+      'RAM', 'WETHER', 'EWE', 'LAMB',
+      'BUCK', 'DOE', 'KID',
+      'BOAR', 'BARROW', 'SOW', 'GILT', 'PIGLET',
+      'MALE', 'CASTRATED_MALE', 'FEMALE', 'N/A',
+    ],
+  },
+};
+
+// Row shortcuts exported at the bottom of the file
+const ROW_ALIASES = {
+  Animal: 'animals',
+  MedicalHistory: 'medical_history',
+  Injection: 'medical_history',
+  WeightRecord: 'weight_records',
+  BreedingRecord: 'breeding_records',
+  Drug: 'drugs',
+  DrugLot: 'drug_lots',
+  WithdrawalOverride: 'withdrawal_overrides',
+  CountReportSnapshot: 'count_report_snapshots',
+  Expense: 'expenses',
+  ExpenseAllocation: 'expense_allocations',
+  Sale: 'sales',
+  Pasture: 'pastures',
+  AnimalMove: 'animal_moves',
+  GrazingPlan: 'grazing_plans',
+  TreatmentProtocol: 'treatment_protocols',
+  TreatmentProtocolItem: 'treatment_protocol_items',
+  CustomField: 'custom_field_definitions',
+  CustomFieldValue: 'custom_field_values',
+  Fence: 'fences',
+  FenceInspection: 'fence_inspections',
+  FenceInspectionPhoto: 'fence_inspection_photos',
+  Movie: 'movies',
+  Message: 'messages',
+  Invitation: 'invitations',
+  LicenseKey: 'license_keys',
+  Ranch: 'ranches',
+  TipTrick: 'tips_tricks',
+  User: 'users',
+};
+
+const NUMBER_TYPES = new Set([
+  'smallint', 'integer', 'int', 'int2', 'int4', 'int8', 'bigint', 'serial', 'bigserial', 'smallserial',
+  'real', 'float4', 'float8', 'double precision', 'numeric', 'decimal',
+]);
+const STRING_TYPES = new Set([
+  'text', 'varchar', 'character varying', 'char', 'character', 'uuid', 'citext', 'inet', 'interval', 'bytea',
+  'date', 'time', 'timetz', 'timestamp', 'timestamptz', 'time with time zone', 'time without time zone',
+  'timestamp with time zone', 'timestamp without time zone',
+]);
+const BOOLEAN_TYPES = new Set(['boolean', 'bool']);
+const JSON_TYPES = new Set(['json', 'jsonb']);
+
+const DDL_START = /\b(CREATE\s+(?:OR\s+REPLACE\s+)?(?:TABLE|TYPE|FUNCTION|VIEW|MATERIALIZED\s+VIEW)|ALTER\s+(?:TABLE|TYPE)|DROP\s+(?:TABLE|TYPE|FUNCTION|VIEW))\b/i;
+
+class MigrationError extends Error {}
+
+function fail(message) {
+  throw new MigrationError(message);
+}
+
+// ---------------------------------------------------------------------------------------------
+// SQL text handling
+
+const DOLLAR_TAG = /\$[A-Za-z_]*\$/y;
+
+function matchDollarTag(sql, index) {
+  DOLLAR_TAG.lastIndex = index;
+  return DOLLAR_TAG.exec(sql);
+}
+
+function stripComments(sql) {
+  let out = '';
+  let i = 0;
+  let dollarTag = null;
+
+  while (i < sql.length) {
+    if (dollarTag) {
+      if (sql.startsWith(dollarTag, i)) {
+        out += dollarTag;
+        i += dollarTag.length;
+        dollarTag = null;
+        continue;
+      }
+    } else {
+      const tag = matchDollarTag(sql, i);
+      if (tag) {
+        dollarTag = tag[0];
+        out += dollarTag;
+        i += dollarTag.length;
+        continue;
+      }
+    }
+
+    const ch = sql[i];
+    if (ch === "'") {
+      const end = findQuoteEnd(sql, i);
+      out += sql.slice(i, end);
+      i = end;
+    } else if (sql.startsWith('--', i)) {
+      while (i < sql.length && sql[i] !== '\n') i++;
+    } else if (sql.startsWith('/*', i)) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      out += ' ';
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+
+  return out;
+}
+
+function findQuoteEnd(sql, start) {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === "'") {
+      if (sql[i + 1] === "'") {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+function splitStatements(sql) {
+  const statements = [];
+  let current = '';
+  let i = 0;
+  let dollarTag = null;
+
+  while (i < sql.length) {
+    if (dollarTag) {
+      if (sql.startsWith(dollarTag, i)) {
+        current += dollarTag;
+        i += dollarTag.length;
+        dollarTag = null;
+      } else {
+        current += sql[i++];
+      }
+      continue;
+    }
+
+    const tag = matchDollarTag(sql, i);
+    if (tag) {
+      dollarTag = tag[0];
+      current += dollarTag;
+      i += dollarTag.length;
+    } else if (sql[i] === "'") {
+      const end = findQuoteEnd(sql, i);
+      current += sql.slice(i, end);
+      i = end;
+    } else if (sql[i] === ';') {
+      if (current.trim()) statements.push(current.trim());
+      current = '';
+      i++;
+    } else {
+      current += sql[i++];
+    }
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+// Splits on commas that are not nested in parentheses or quotes
+function splitTopLevel(text) {
+  const parts = [];
+  let depth = 0;
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'") {
+      const end = findQuoteEnd(text, i);
+      current += text.slice(i, end);
+      i = end - 1;
+      continue;
+    }
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// Returns the text inside the parenthesis that opens at or after `from`, and the index after it
+function readParenGroup(text, from) {
+  const open = text.indexOf('(', from);
+  if (open === -1) return null;
+
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === "'") {
+      i = findQuoteEnd(text, i) - 1;
+      continue;
+    }
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') {
+      depth--;
+      if (depth === 0) return { inner: text.slice(open + 1, i), end: i + 1 };
+    }
+  }
+  return null;
+}
+
+function normalizeSpace(text) {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function unquoteIdent(name) {
+  return name.replace(/"/g, '');
+}
+
+// "public.animals" -> "animals"; other schemas (auth, storage) are outside the generated types
+function publicName(qualified) {
+  const parts = unquoteIdent(qualified).split('.');
+  if (parts.length === 1) return parts[0];
+  return parts[0].toLowerCase() === 'public' ? parts[1] : null;
+}
+
+function parseStringList(text) {
+  return [...text.matchAll(/'((?:[^']|'')*)'/g)].map(m => m[1].replace(/''/g, "'"));
+}
+
+function columnList(text) {
+  return text.split(',').map(c => unquoteIdent(c.trim()));
+}
+
+// ---------------------------------------------------------------------------------------------
+// Schema model
+
+const schema = {
+  tables: new Map(),
+  enums: new Map(),
+  functions: new Map(),
+};
+
+function getTable(name, statement) {
+  const table = schema.tables.get(name);
+  if (!table) fail(`Table "${name}" does not exist at: ${statement}`);
+  return table;
+}
+
+function newTable() {
+  return {
+    columns: new Map(),
+    primaryKey: [],
+    uniques: [],
+    checks: new Map(),
+    foreignKeys: new Map(),
+  };
+}
+
+const TYPE_PATTERN = new RegExp(
+  '^(' +
+    [
+      'double precision',
+      'character varying',
+      'bit varying',
+      'time(?:stamp)?(?:\\s*\\(\\d+\\))?\\s+with(?:out)?\\s+time\\s+zone',
+      '[\\w."]+',
+    ].join('|') +
+    ')(\\s*\\([^)]*\\))?((?:\\s*\\[\\])*)',
+  'i'
+);
+
+function parseColumnDefinition(table, tableName, definition) {
+  const match = definition.match(/^("[^"]+"|\w+)\s+([\s\S]*)$/);
+  if (!match) fail(`Cannot read column definition: ${definition}`);
+
+  const name = unquoteIdent(match[1]);
+  const rest = match[2];
+  const typeMatch = rest.match(TYPE_PATTERN);
+  if (!typeMatch) fail(`Cannot read type of ${tableName}.${name}: ${definition}`);
+
+  const type = normalizeSpace(typeMatch[1] + (typeMatch[3] || '')).toLowerCase();
+  const constraints = rest.slice(typeMatch[0].length);
+
+  const column = {
+    name,
+    type,
+    notNull: /\bNOT\s+NULL\b/i.test(constraints),
+    hasDefault: /\bDEFAULT\b/i.test(constraints) || /serial$/.test(type) || /\bGENERATED\b/i.test(constraints),
+  };
+  table.columns.set(name, column);
+
+  if (/\bPRIMARY\s+KEY\b/i.test(constraints)) {
+    table.primaryKey = [name];
+  }
+  if (/\bUNIQUE\b/i.test(constraints)) {
+    table.uniques.push([name]);
+  }
+
+  const reference = constraints.match(/\bREFERENCES\s+([\w."]+)\s*(?:\(\s*("?\w+"?)\s*\))?/i);
+  if (reference) {
+    addForeignKey(table, tableName, `${tableName}_${name}_fkey`, [name], reference[1], reference[2] ? [unquoteIdent(reference[2])] : ['id']);
+  }
+
+  const checkIndex = constraints.search(/\bCHECK\s*\(/i);
+  if (checkIndex !== -1) {
+    const group = readParenGroup(constraints, checkIndex);
+    table.checks.set(`${tableName}_${name}_check`, group.inner);
+  }
+}
+
+function addForeignKey(table, tableName, constraintName, columns, referenced, referencedColumns) {
+  const relation = publicName(referenced);
+  if (!relation) return;
+  table.foreignKeys.set(constraintName, { columns, relation, referencedColumns });
+}
+
+function addTableConstraint(table, tableName, text) {
+  let body = text;
+  let name = null;
+
+  const named = body.match(/^CONSTRAINT\s+("?\w+"?)\s+([\s\S]*)$/i);
+  if (named) {
+    name = unquoteIdent(named[1]);
+    body = named[2];
+  }
+
+  if (/^PRIMARY\s+KEY/i.test(body)) {
+    table.primaryKey = columnList(readParenGroup(body, 0).inner);
+  } else if (/^UNIQUE/i.test(body)) {
+    table.uniques.push(columnList(readParenGroup(body, 0).inner));
+  } else if (/^CHECK/i.test(body)) {
+    const expression = readParenGroup(body, 0).inner;
+    const column = expression.match(/^\s*\(?\s*(\w+)/)?.[1];
+    table.checks.set(name || `${tableName}_${column}_check`, expression);
+  } else if (/^FOREIGN\s+KEY/i.test(body)) {
+    const local = readParenGroup(body, 0);
+    const reference = body.slice(local.end).match(/REFERENCES\s+([\w."]+)\s*(?:\(([^)]*)\))?/i);
+    const columns = columnList(local.inner);
+    addForeignKey(
+      table,
+      tableName,
+      name || `${tableName}_${columns.join('_')}_fkey`,
+      columns,
+      reference[1],
+      reference[2] ? columnList(reference[2]) : ['id']
+    );
+  } else if (!/^EXCLUDE/i.test(body)) {
+    fail(`Unsupported table constraint on ${tableName}: ${text}`);
+  }
+}
+
+const TABLE_CONSTRAINT_START = /^(CONSTRAINT|PRIMARY\s+KEY|UNIQUE|CHECK|FOREIGN\s+KEY|EXCLUDE)\b/i;
+
+function createTable(statement) {
+  const match = statement.match(/^CREATE\s+TABLE\s+(IF\s+NOT\s+EXISTS\s+)?([\w."]+)\s*\(/i);
+  const name = publicName(match[2]);
+  if (!name) return;
+
+  if (schema.tables.has(name)) {
+    if (match[1]) return;
+    fail(`Table "${name}" is created twice`);
+  }
+
+  const table = newTable();
+  for (const element of splitTopLevel(readParenGroup(statement, match[0].length - 1).inner)) {
+    if (TABLE_CONSTRAINT_START.test(element)) {
+      addTableConstraint(table, name, element);
+    } else {
+      parseColumnDefinition(table, name, element);
+    }
+  }
+  schema.tables.set(name, table);
+}
+
+function dropTable(statement) {
+  const match = statement.match(/^DROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?([\s\S]+?)(\s+CASCADE|\s+RESTRICT)?$/i);
+  const cascade = /CASCADE/i.test(match[2] || '');
+
+  for (const qualified of match[1].split(',')) {
+    const name = publicName(qualified.trim());
+    if (!name || !schema.tables.delete(name)) continue;
+
+    // CASCADE removes the foreign keys other tables had to the dropped table
+    if (cascade) {
+      for (const table of schema.tables.values()) {
+        for (const [key, foreignKey] of table.foreignKeys) {
+          if (foreignKey.relation === name) table.foreignKeys.delete(key);
+        }
+      }
+    }
+  }
+}
+
+function alterTable(statement) {
+  const match = statement.match(/^ALTER\s+TABLE\s+(?:IF\s+EXISTS\s+)?(?:ONLY\s+)?([\w."]+)\s+([\s\S]+)$/i);
+  const name = publicName(match[1]);
+  if (!name) return;
+
+  if (/^RENAME\s+TO\s+/i.test(match[2])) {
+    const newName = unquoteIdent(match[2].replace(/^RENAME\s+TO\s+/i, '').trim());
+    schema.tables.set(newName, getTable(name, statement));
+    schema.tables.delete(name);
+    return;
+  }
+
+  const table = getTable(name, statement);
+  for (const action of splitTopLevel(match[2])) {
+    alterTableAction(table, name, action, statement);
+  }
+}
+
+function alterTableAction(table, tableName, action, statement) {
+  let m;
+
+  if ((m = action.match(/^ADD\s+COLUMN\s+(IF\s+NOT\s+EXISTS\s+)?([\s\S]+)$/i))) {
+    const columnName = unquoteIdent(m[2].match(/^("[^"]+"|\w+)/)[1]);
+    // Migrations guard ADD COLUMN with IF NOT EXISTS checks, so an existing column is left alone
+    if (!table.columns.has(columnName)) parseColumnDefinition(table, tableName, m[2]);
+  } else if ((m = action.match(/^ADD\s+([\s\S]+)$/i)) && TABLE_CONSTRAINT_START.test(m[1])) {
+    addTableConstraint(table, tableName, m[1]);
+  } else if ((m = action.match(/^DROP\s+COLUMN\s+(?:IF\s+EXISTS\s+)?("?\w+"?)/i))) {
+    const columnName = unquoteIdent(m[1]);
+    table.columns.delete(columnName);
+    for (const [key, foreignKey] of table.foreignKeys) {
+      if (foreignKey.columns.includes(columnName)) table.foreignKeys.delete(key);
+    }
+    for (const key of [...table.checks.keys()]) {
+      if (key === `${tableName}_${columnName}_check`) table.checks.delete(key);
+    }
+  } else if ((m = action.match(/^DROP\s+CONSTRAINT\s+(?:IF\s+EXISTS\s+)?("?\w+"?)/i))) {
+    const constraintName = unquoteIdent(m[1]);
+    table.checks.delete(constraintName);
+    table.foreignKeys.delete(constraintName);
+  } else if ((m = action.match(/^ALTER\s+(?:COLUMN\s+)?("?\w+"?)\s+([\s\S]+)$/i))) {
+    const column = table.columns.get(unquoteIdent(m[1]));
+    if (!column) fail(`Column ${tableName}.${m[1]} does not exist at: ${statement}`);
+    const change = m[2];
+
+    if (/^(SET\s+DATA\s+)?TYPE\s+/i.test(change)) {
+      const typeText = change.replace(/^(SET\s+DATA\s+)?TYPE\s+/i, '').replace(/\s+USING[\s\S]*$/i, '');
+      const typeMatch = typeText.match(TYPE_PATTERN);
+      column.type = normalizeSpace(typeMatch[1] + (typeMatch[3] || '')).toLowerCase();
+    } else if (/^SET\s+NOT\s+NULL/i.test(change)) {
+      column.notNull = true;
+    } else if (/^DROP\s+NOT\s+NULL/i.test(change)) {
+      column.notNull = false;
+    } else if (/^SET\s+DEFAULT/i.test(change)) {
+      column.hasDefault = true;
+    } else if (/^DROP\s+DEFAULT/i.test(change)) {
+      column.hasDefault = false;
+    }
+  } else if ((m = action.match(/^RENAME\s+(?:COLUMN\s+)?("?\w+"?)\s+TO\s+("?\w+"?)$/i))) {
+    const column = table.columns.get(unquoteIdent(m[1]));
+    if (!column) fail(`Column ${tableName}.${m[1]} does not exist at: ${statement}`);
+    table.columns.delete(column.name);
+    column.name = unquoteIdent(m[2]);
+    table.columns.set(column.name, column);
+  } else if (/^ADD\s+/i.test(action)) {
+    const definition = action.replace(/^ADD\s+/i, '');
+    const columnName = unquoteIdent(definition.match(/^("[^"]+"|\w+)/)[1]);
+    if (!table.columns.has(columnName)) parseColumnDefinition(table, tableName, definition);
+  }
+  // ENABLE ROW LEVEL SECURITY, OWNER TO and the like don't change the types
+}
+
+function createType(statement) {
+  const match = statement.match(/^CREATE\s+TYPE\s+([\w."]+)\s+AS\s+ENUM\s*\(([\s\S]*)\)$/i);
+  if (!match) fail(`Only enum types are supported: ${statement}`);
+  const name = publicName(match[1]);
+  if (name && !schema.enums.has(name)) schema.enums.set(name, parseStringList(match[2]));
+}
+
+function alterType(statement) {
+  const match = statement.match(/^ALTER\s+TYPE\s+([\w."]+)\s+ADD\s+VALUE\s+(?:IF\s+NOT\s+EXISTS\s+)?'([^']*)'/i);
+  if (!match) fail(`Unsupported ALTER TYPE: ${statement}`);
+  const values = schema.enums.get(publicName(match[1]));
+  if (values && !values.includes(match[2])) values.push(match[2]);
+}
+
+function dropType(statement) {
+  const match = statement.match(/^DROP\s+TYPE\s+(?:IF\s+EXISTS\s+)?([\w."]+)/i);
+  schema.enums.delete(publicName(match[1]));
+}
+
+function createFunction(statement) {
+  const match = statement.match(/^CREATE\s+(?:OR\s+REPLACE\s+)?FUNCTION\s+([\w."]+)\s*\(/i);
+  const name = publicName(match[1]);
+  if (!name) return;
+
+  const args = readParenGroup(statement, match[0].length - 1);
+  const returns = statement.slice(args.end).match(/^\s*RETURNS\s+(SETOF\s+)?([\w."]+(?:\s+precision)?)((?:\s*\[\])*)/i);
+  if (!returns) fail(`Cannot read return type of function ${name}`);
+
+  const returnType = returns[2].toLowerCase();
+  if (returnType === 'trigger' || returnType === 'event_trigger') return;
+  if (returns[1] || returnType === 'table') fail(`Set-returning function ${name} is not supported`);
+
+  schema.functions.set(name, {
+    args: args.inner.trim() ? splitTopLevel(args.inner).map(parseFunctionArg) : [],
+    returns: returnType + (returns[3] || '').replace(/\s/g, ''),
+  });
+}
+
+function parseFunctionArg(text) {
+  const match = text.match(/^(?:IN\s+)?("?\w+"?)\s+([\s\S]+?)(?:\s+(?:DEFAULT|=)\s+([\s\S]+))?$/i);
+  if (!match) fail(`Cannot read function argument: ${text}`);
+  const typeMatch = match[2].match(TYPE_PATTERN);
+  return {
+    name: unquoteIdent(match[1]),
+    type: normalizeSpace(typeMatch[1] + (typeMatch[3] || '')).toLowerCase(),
+    defaultValue: match[3] ? match[3].trim() : null,
+  };
+}
+
+function dropFunction(statement) {
+  const match = statement.match(/^DROP\s+FUNCTION\s+(?:IF\s+EXISTS\s+)?([\w."]+)/i);
+  schema.functions.delete(publicName(match[1]));
+}
+
+function applyStatement(statement) {
+  const text = statement.trim();
+
+  if (/^CREATE\s+TABLE\b/i.test(text)) return createTable(text);
+  if (/^DROP\s+TABLE\b/i.test(text)) return dropTable(text);
+  if (/^ALTER\s+TABLE\b/i.test(text)) return alterTable(text);
+  if (/^CREATE\s+TYPE\b/i.test(text)) return createType(text);
+  if (/^ALTER\s+TYPE\b/i.test(text)) return alterType(text);
+  if (/^DROP\s+TYPE\b/i.test(text)) return dropType(text);
+  if (/^CREATE\s+(OR\s+REPLACE\s+)?FUNCTION\b/i.test(text)) return createFunction(text);
+  if (/^DROP\s+FUNCTION\b/i.test(text)) return dropFunction(text);
+  if (/^(CREATE|DROP)\s+(OR\s+REPLACE\s+)?(MATERIALIZED\s+)?VIEW\b/i.test(text)) {
+    fail(`Views are not supported by the generator yet: ${normalizeSpace(text).slice(0, 80)}`);
+  }
+}
+
+// DO blocks wrap DDL in IF NOT EXISTS checks and exception handlers; the DDL inside is applied
+// as if the guard passed, which is what happened on every database the migrations ran against.
+function applyDoBlock(statement) {
+  const body = statement.match(/^DO\s+(\$[A-Za-z_]*\$)([\s\S]*)\1/i);
+  if (!body) return;
+
+  for (const chunk of splitStatements(body[2])) {
+    const start = chunk.search(DDL_START);
+    if (start !== -1) applyStatement(chunk.slice(start));
+  }
+}
+
+function applyMigration(file) {
+  const sql = stripComments(readFileSync(join(MIGRATIONS_DIR, file), 'utf8'));
+
+  for (const statement of splitStatements(sql)) {
+    try {
+      if (/^DO\b/i.test(statement)) {
+        applyDoBlock(statement);
+      } else {
+        applyStatement(statement);
+      }
+    } catch (error) {
+      if (error instanceof MigrationError) error.message = `${file}: ${error.message}`;
+      throw error;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------------------------
+// TypeScript output
+
+function literalUnion(values) {
+  return values.map(v => `'${v.replace(/'/g, "\\'")}'`).join(' | ');
+}
+
+function sameValues(a, b) {
+  return a.length === b.length && a.every(v => b.includes(v));
+}
+
+// CHECK (col IN (...)) or CHECK (col IS NULL OR col IN (...))
+function checkValues(table, columnName) {
+  for (const expression of table.checks.values()) {
+    const normalized = normalizeSpace(expression).replace(/^\((.*)\)$/, '$1');
+    const match = normalized.match(/^(?:(\w+) IS NULL OR )?(\w+) IN \(((?:\s*'(?:[^']|'')*'\s*,?)+)\)$/i);
+    if (match && match[2] === columnName && (!match[1] || match[1] === columnName)) {
+      return parseStringList(match[3]);
+    }
+  }
+  return null;
+}
+
+function resolveUnions() {
+  const columnAliases = new Map();
+  const aliases = [];
+
+  for (const [alias, columns] of Object.entries(NAMED_UNIONS)) {
+    let values = null;
+    for (const key of columns) {
+      const [tableName, columnName] = key.split('.');
+      const table = schema.tables.get(tableName);
+      const found = table && table.columns.has(columnName) ? checkValues(table, columnName) : null;
+      if (!found) fail(`${alias}: ${key} has no CHECK (... IN (...)) constraint`);
+      if (values && !sameValues(values, found)) {
+        fail(`${alias}: ${key} allows ${literalUnion(found)} but ${columns[0]} allows ${literalUnion(values)}`);
+      }
+      values = values || found;
+      columnAliases.set(key, alias);
+    }
+    aliases.push([alias, values]);
+  }
+
+  for (const [alias, { columns, values }] of Object.entries(APP_UNIONS)) {
+    for (const key of columns) {
+      const [tableName, columnName] = key.split('.');
+      const table = schema.tables.get(tableName);
+      if (!table || !table.columns.has(columnName)) fail(`${alias}: column ${key} does not exist`);
+      if (checkValues(table, columnName)) fail(`${alias}: ${key} now has a CHECK constraint - move it to NAMED_UNIONS`);
+      columnAliases.set(key, alias);
+    }
+    aliases.push([alias, values]);
+  }
+
+  return { columnAliases, aliases };
+}
+
+function baseTsType(pgType, context) {
+  const isArray = pgType.endsWith('[]');
+  const base = pgType.replace(/(\[\])+$/, '').replace(/^public\./, '').replace(/"/g, '');
+  let ts;
+
+  if (NUMBER_TYPES.has(base)) ts = 'number';
+  else if (STRING_TYPES.has(base)) ts = 'string';
+  else if (BOOLEAN_TYPES.has(base)) ts = 'boolean';
+  else if (JSON_TYPES.has(base)) ts = 'Json';
+  else if (base === 'void') ts = 'undefined';
+  else if (schema.enums.has(base)) ts = `Database['public']['Enums']['${base}']`;
+  else fail(`Unsupported type "${pgType}" for ${context}`);
+
+  return isArray ? `${ts}[]` : ts;
+}
+
+function columnTsType(tableName, table, column, columnAliases) {
+  const key = `${tableName}.${column.name}`;
+  if (columnAliases.has(key)) return columnAliases.get(key);
+
+  const values = checkValues(table, column.name);
+  if (values) return literalUnion(values);
+
+  return baseTsType(column.type, key);
+}
+
+function isNullable(table, column) {
+  return !column.notNull && !table.primaryKey.includes(column.name);
+}
+
+function sortedByName(map) {
+  return [...map.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+function isOneToOne(table, columns) {
+  const sameColumns = keys => keys.length === columns.length && keys.every(k => columns.includes(k));
+  return sameColumns(table.primaryKey) || table.uniques.some(sameColumns);
+}
+
+function renderTable(lines, tableName, table, columnAliases) {
+  const columns = sortedByName(table.columns).map(([, column]) => ({
+    column,
+    type: columnTsType(tableName, table, column, columnAliases),
+    nullable: isNullable(table, column),
+  }));
+
+  lines.push(`      ${tableName}: {`);
+
+  lines.push('        Row: {');
+  for (const { column, type, nullable } of columns) {
+    lines.push(`          ${column.name}: ${type}${nullable ? ' | null' : ''};`);
+  }
+  lines.push('        };');
+
+  lines.push('        Insert: {');
+  for (const { column, type, nullable } of columns) {
+    const optional = nullable || column.hasDefault;
+    lines.push(`          ${column.name}${optional ? '?' : ''}: ${type}${nullable ? ' | null' : ''};`);
+  }
+  lines.push('        };');
+
+  lines.push('        Update: {');
+  for (const { column, type, nullable } of columns) {
+    lines.push(`          ${column.name}?: ${type}${nullable ? ' | null' : ''};`);
+  }
+  lines.push('        };');
+
+  const foreignKeys = sortedByName(table.foreignKeys).filter(([, fk]) => schema.tables.has(fk.relation));
+  if (foreignKeys.length === 0) {
+    lines.push('        Relationships: [];');
+  } else {
+    lines.push('        Relationships: [');
+    for (const [name, fk] of foreignKeys) {
+      lines.push('          {');
+      lines.push(`            foreignKeyName: '${name}';`);
+      lines.push(`            columns: [${fk.columns.map(c => `'${c}'`).join(', ')}];`);
+      lines.push(`            isOneToOne: ${isOneToOne(table, fk.columns)};`);
+      lines.push(`            referencedRelation: '${fk.relation}';`);
+      lines.push(`            referencedColumns: [${fk.referencedColumns.map(c => `'${c}'`).join(', ')}];`);
+      lines.push('          },');
+    }
+    lines.push('        ];');
+  }
+
+  lines.push('      };');
+}
+
+function renderFunction(lines, name, fn) {
+  lines.push(`      ${name}: {`);
+  if (fn.args.length === 0) {
+    lines.push('        Args: Record<PropertyKey, never>;');
+  } else {
+    lines.push('        Args: {');
+    for (const arg of fn.args) {
+      const type = baseTsType(arg.type, `${name}(${arg.name})`);
+      const defaultsToNull = arg.defaultValue !== null && /^null$/i.test(arg.defaultValue);
+      const optional = arg.defaultValue !== null ? '?' : '';
+      lines.push(`          ${arg.name}${optional}: ${type}${defaultsToNull ? ' | null' : ''};`);
+    }
+    lines.push('        };');
+  }
+  lines.push(`        Returns: ${baseTsType(fn.returns, `${name}() return`)};`);
+  lines.push('      };');
+}
+
+function render() {
+  const { columnAliases, aliases } = resolveUnions();
+  const lines = [
+    '// Generated by scripts/generate-db-types.mjs from supabase/migrations - do not edit by hand.',
+    '// Run `npm run db:types` after adding a migration; `npm run db:types:check` fails when this file is stale.',
+    '',
+    'export type Json =',
+    '  | string',
+    '  | number',
+    '  | boolean',
+    '  | null',
+    '  | { [key: string]: Json | undefined }',
+    '  | Json[];',
+    '',
+  ];
+
+  for (const [alias, values] of aliases) {
+    lines.push(`export type ${alias} = ${literalUnion(values)};`);
+  }
+
+  lines.push('', 'export type Database = {', '  public: {', '    Tables: {');
+  for (const [name, table] of sortedByName(schema.tables)) {
+    renderTable(lines, name, table, columnAliases);
+  }
+  lines.push('    };', '    Views: {', '      [_ in never]: never;', '    };');
+
+  lines.push('    Functions: {');
+  for (const [name, fn] of sortedByName(schema.functions)) {
+    renderFunction(lines, name, fn);
+  }
+  lines.push('    };');
+
+  lines.push('    Enums: {');
+  for (const [name, values] of sortedByName(schema.enums)) {
+    lines.push(`      ${name}: ${literalUnion(values)};`);
+  }
+  lines.push('    };', '    CompositeTypes: {', '      [_ in never]: never;', '    };', '  };', '};', '');
+
+  for (const [alias, tableName] of Object.entries(ROW_ALIASES)) {
+    if (!schema.tables.has(tableName)) fail(`Row alias ${alias}: table ${tableName} does not exist`);
+    lines.push(`export type ${alias} = Database['public']['Tables']['${tableName}']['Row'];`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------------------------
+
+function main() {
+  const check = process.argv.includes('--check');
+  const files = readdirSync(MIGRATIONS_DIR).filter(f => f.endsWith('.sql')).sort();
+
+  let output;
+  try {
+    files.forEach(applyMigration);
+    output = render();
+  } catch (error) {
+    if (!(error instanceof MigrationError)) throw error;
+    console.error(`Could not generate database types: ${error.message}`);
+    process.exit(1);
+  }
+
+  const target = relative(ROOT, OUTPUT_FILE);
+
+  if (check) {
+    let current = '';
+    try {
+      current = readFileSync(OUTPUT_FILE, 'utf8');
+    } catch {
+      // Missing file is reported as drift below
+    }
+
+    if (current !== output) {
+      const currentLines = current.split('\n');
+      const outputLines = output.split('\n');
+      const line = outputLines.findIndex((text, i) => text !== currentLines[i]);
+      console.error(`${target} does not match supabase/migrations (first difference at line ${line + 1}):`);
+      console.error(`  file:       ${currentLines[line] ?? '<end of file>'}`);
+      console.error(`  migrations: ${outputLines[line] ?? '<end of file>'}`);
+      console.error('Run `npm run db:types` and commit the result.');
+      process.exit(1);
+    }
+
+    console.log(`${target} is up to date with ${files.length} migrations.`);
+    return;
+  }
+
+  writeFileSync(OUTPUT_FILE, output);
+  console.log(`Wrote ${target} from ${files.length} migrations.`);
+}
+
+main();
@@ -2,6 +2,9 @@ import { useEffect, useState } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { RanchProvider, useRanch } from './contexts/RanchContext';
 import { ToastProvider } from './contexts/ToastContext';
+import { SyncProvider } from './contexts/SyncContext';
+import { DataProvider } from './contexts/DataContext';
+import { FenceScheduleProvider } from './contexts/FenceScheduleContext';
 import { LoginPage } from './pages/LoginPage';
 import { SignUpPage } from './pages/SignUpPage';
 import { InvitationRedemptionPage } from './pages/InvitationRedemptionPage';
@@ -14,6 +17,10 @@ import LicenseManagementPage from './pages/LicenseManagementPage';
 import { LicenseHelpPage } from './pages/LicenseHelpPage';
 import { MoviesPage } from './pages/MoviesPage';
 import { CheckFencesPage } from './pages/CheckFencesPage';
+import { ChutePage } from './pages/ChutePage';
+import { PasturesPage } from './pages/PasturesPage';
+import { GrazingPage } from './pages/GrazingPage';
+import { MapPage } from './pages/MapPage';
 import { TermsModal } from './components/TermsModal';
 
 function AppContent() {
@@ -96,6 +103,18 @@ function AppContent() {
   if (currentRoute.endsWith('/check-fences')) {
     return <CheckFencesPage />;
   }
+  if (currentRoute.endsWith('/chute')) {
+    return <ChutePage />;
+  }
+  if (currentRoute.endsWith('/pastures')) {
+    return <PasturesPage />;
+  }
+  if (currentRoute.endsWith('/grazing')) {
+    return <GrazingPage />;
+  }
+  if (currentRoute.endsWith('/map')) {
+    return <MapPage />;
+  }
   return <AnimalsPage />;
 }
 
@@ -103,9 +122,15 @@ function App() {
   return (
     <AuthProvider>
       <RanchProvider>
-        <ToastProvider>
-          <AppContent />
-        </ToastProvider>
+        <SyncProvider>
+          <ToastProvider>
+            <DataProvider>
+              <FenceScheduleProvider>
+                <AppContent />
+              </FenceScheduleProvider>
+            </DataProvider>
+          </ToastProvider>
+        </SyncProvider>
       </RanchProvider>
     </AuthProvider>
   );
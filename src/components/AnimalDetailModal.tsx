@@ -1,20 +1,31 @@
-import { useState, useEffect, useRef } from 'react';
-import { X, CreditCard as Edit2, Save, Trash2, FileText, Camera, Trash, Upload, Image as ImageIcon, Syringe } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { X, CreditCard as Edit2, Save, Trash2, FileText, Camera, Trash, Upload, Image as ImageIcon, Syringe, Heart, GitBranch } from 'lucide-react';
 import { MedicalHistoryModal } from './MedicalHistoryModal';
 import { InjectionModal } from './InjectionModal';
+import { BreedingModal } from './BreedingModal';
+import { PedigreeModal } from './PedigreeModal';
 import { CameraCapture } from './CameraCapture';
 import { PhotoGallery } from './PhotoGallery';
+import { WeightHistoryPanel } from './WeightHistoryPanel';
+import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { useRanch } from '../contexts/RanchContext';
+import { useSync } from '../contexts/SyncContext';
+import { useData } from '../contexts/DataContext';
 import { ANIMAL_TYPES, getSexOptions, type AnimalType } from '../utils/animalTypes';
-import { parseLocalDate } from '../utils/printHelpers';
-import type { Database } from '../lib/database.types';
-
-type Animal = Database['public']['Tables']['animals']['Row'];
-type AnimalPhoto = Database['public']['Tables']['animal_photos']['Row'];
-type CustomFieldDefinition = Database['public']['Tables']['custom_field_definitions']['Row'];
-type CustomFieldValue = Database['public']['Tables']['custom_field_values']['Row'];
+import { getTodayLocalDate, parseLocalDate } from '../utils/printHelpers';
+import { WITHDRAWAL_RESTRICTED_STATUSES, isWithinWithdrawal } from '../utils/withdrawal';
+import {
+  calculateCalfBreedComposition,
+  formatBreedComposition,
+  getBreedComposition,
+  parseBreedComposition,
+  resolveBreedFields,
+  toBreedComposition,
+} from '../utils/breedComposition';
+import { CALVING_EASE_LABELS, getCalfPerformance } from '../utils/calfPerformance';
+import { FEMALE_SEXES, createInbreedingCalculator, formatInbreedingCoefficient } from '../utils/pedigree';
+import type { Animal, AnimalPhoto, CustomField as CustomFieldDefinition } from '../data/types';
 
 interface AnimalDetailModalProps {
   animal: Animal;
@@ -26,14 +37,21 @@ interface AnimalDetailModalProps {
   isDemoMode?: boolean;
 }
 
-export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnimals, isReadOnly = false, isDemoMode = false }: AnimalDetailModalProps) {
+export function AnimalDetailModal({ animal: initialAnimal, onClose, onUpdate, onDelete, allAnimals, isReadOnly = false, isDemoMode = false }: AnimalDetailModalProps) {
+  const { user } = useAuth();
   const { showToast } = useToast();
   const { currentRanch } = useRanch();
+  const { isOnline } = useSync();
+  const { data, handleError } = useData();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Saved edits land here; the list behind the modal reloads through onUpdate when it closes
+  const [animal, setAnimal] = useState(initialAnimal);
   const [isEditing, setIsEditing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [showMedical, setShowMedical] = useState(false);
   const [showInjection, setShowInjection] = useState(false);
+  const [showBreeding, setShowBreeding] = useState(false);
+  const [showPedigree, setShowPedigree] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
   const [showGallery, setShowGallery] = useState(false);
   const [photos, setPhotos] = useState<AnimalPhoto[]>([]);
@@ -43,119 +61,164 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
   const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
   const [customFieldValues, setCustomFieldValues] = useState<Record<string, string>>({});
   const [injectionFeatureEnabled, setInjectionFeatureEnabled] = useState(false);
+  const [weightHistoryKey, setWeightHistoryKey] = useState(0);
 
   const [formData, setFormData] = useState({
     tag_number: animal.tag_number || '',
     tag_color: animal.tag_color || '',
     name: animal.name || '',
-    animal_type: ((animal as any).animal_type || 'Cattle') as AnimalType,
+    animal_type: animal.animal_type || 'Cattle',
     sex: animal.sex,
     source: animal.source,
+    purchase_date: animal.purchase_date || '',
+    purchase_price: animal.purchase_price != null ? animal.purchase_price.toString() : '',
+    seller: animal.seller || '',
     status: animal.status,
     birth_date: animal.birth_date || '',
     weaning_date: animal.weaning_date || '',
     exit_date: animal.exit_date || '',
-    sale_price: (animal as any).sale_price || '',
+    sale_price: animal.sale_price || '',
     mother_id: animal.mother_id || '',
-    father_id: (animal as any).father_id || '',
-    weight_lbs: (animal as any).weight_lbs || '',
+    father_id: animal.father_id || '',
+    weight_lbs: animal.weight_lbs || '',
     notes: animal.notes || '',
     description: animal.description || '',
+    breed: animal.breed || '',
+    percentage_blood: animal.percentage_blood != null ? String(animal.percentage_blood) : '',
+    breed_composition: formatBreedComposition(toBreedComposition(animal.breed_composition)),
+    registry_name: animal.registry_name || '',
+    registration_number: animal.registration_number || '',
+    calving_ease: animal.calving_ease ? String(animal.calving_ease) : '',
+    birth_weight_lbs: animal.birth_weight_lbs != null ? String(animal.birth_weight_lbs) : '',
+    weaning_weight_lbs: animal.weaning_weight_lbs != null ? String(animal.weaning_weight_lbs) : '',
   });
 
 
   const handleSave = async () => {
-    if (isDemoMode) {
-      setIsEditing(false);
-      showToast('Demonstration Mode - Animal was not edited.', 'info');
+    let withdrawalOverrideReason: string | null = null;
+    const exitDate = formData.exit_date || getTodayLocalDate();
+    const statusOrExitChanged = formData.status !== animal.status || formData.exit_date !== (animal.exit_date || '');
+    const isRestrictedStatus = (WITHDRAWAL_RESTRICTED_STATUSES as readonly string[]).includes(formData.status || '');
+
+    if (statusOrExitChanged && isRestrictedStatus && isWithinWithdrawal(animal.meat_withdrawal_clear_date, exitDate)) {
+      const reason = prompt(
+        `This animal is within a drug withdrawal period and is not clear for sale or slaughter until ${formatDate(animal.meat_withdrawal_clear_date)}.\n\nTo mark it ${formData.status} on ${formatDate(exitDate)} anyway, enter a reason for the override:`
+      );
+
+      if (!reason || !reason.trim()) {
+        showToast('Animal was not saved - it is still within its withdrawal period', 'error');
+        return;
+      }
+
+      withdrawalOverrideReason = reason.trim();
+    }
+
+    if (formData.breed_composition.trim() && !parseBreedComposition(formData.breed_composition)) {
+      showToast('Breed composition should look like "Angus 75%, Hereford 25%" and total no more than 100%', 'error');
+      return;
+    }
+
+    const breedFields = resolveBreedFields(
+      formData,
+      allAnimals.find(a => a.id === formData.father_id),
+      allAnimals.find(a => a.id === formData.mother_id)
+    );
+
+    const updates = {
+      tag_number: formData.tag_number || null,
+      tag_color: formData.tag_color || null,
+      name: formData.name || null,
+      animal_type: formData.animal_type,
+      sex: formData.sex,
+      source: formData.source,
+      purchase_date: formData.source === 'PURCHASED' ? formData.purchase_date || null : null,
+      purchase_price: formData.source === 'PURCHASED' && formData.purchase_price ? parseFloat(formData.purchase_price) : null,
+      seller: formData.source === 'PURCHASED' ? formData.seller.trim() || null : null,
+      status: formData.status,
+      birth_date: formData.birth_date || null,
+      weaning_date: formData.weaning_date || null,
+      exit_date: formData.exit_date || null,
+      sale_price: formData.sale_price ? parseFloat(formData.sale_price as string) : null,
+      mother_id: formData.mother_id || null,
+      father_id: formData.father_id || null,
+      description: formData.description || null,
+      notes: formData.notes || null,
+      ...breedFields,
+      registry_name: formData.registry_name || null,
+      registration_number: formData.registration_number || null,
+      calving_ease: formData.calving_ease ? parseInt(formData.calving_ease) : null,
+      birth_weight_lbs: formData.birth_weight_lbs ? parseFloat(formData.birth_weight_lbs) : null,
+      weaning_weight_lbs: formData.weaning_weight_lbs ? parseFloat(formData.weaning_weight_lbs) : null,
+    };
+
+    const newWeight = formData.weight_lbs ? parseFloat(formData.weight_lbs as string) : null;
+    const currentWeight = animal.weight_lbs != null ? Number(animal.weight_lbs) : null;
+    const weightChanged = newWeight !== null && !isNaN(newWeight) && newWeight !== currentWeight;
+
+    if (!isOnline && (weightChanged || withdrawalOverrideReason)) {
+      showToast('Weight changes and withdrawal overrides need a connection - try again when back online', 'error');
       return;
     }
 
     setSaving(true);
     try {
-      const { error } = await supabase
-        .from('animals')
-        .update({
-          tag_number: formData.tag_number || null,
-          tag_color: formData.tag_color || null,
-          name: formData.name || null,
-          animal_type: formData.animal_type,
-          sex: formData.sex,
-          source: formData.source,
-          status: formData.status,
-          birth_date: formData.birth_date || null,
-          weaning_date: formData.weaning_date || null,
-          exit_date: formData.exit_date || null,
-          sale_price: formData.sale_price ? parseFloat(formData.sale_price as string) : null,
-          mother_id: formData.mother_id || null,
-          father_id: formData.father_id || null,
-          weight_lbs: formData.weight_lbs ? parseFloat(formData.weight_lbs as string) : null,
-          description: formData.description || null,
-          notes: formData.notes || null,
-        })
-        .eq('id', animal.id);
-
-      if (error) throw error;
-
-      for (const field of customFields) {
-        const value = customFieldValues[field.id] || null;
-
-        if (value) {
-          const { error: upsertError } = await supabase
-            .from('custom_field_values')
-            .upsert({
-              animal_id: animal.id,
-              field_id: field.id,
-              value: value,
-              updated_at: new Date().toISOString(),
-            }, {
-              onConflict: 'animal_id,field_id'
-            });
-
-          if (upsertError) throw upsertError;
-        } else {
-          await supabase
-            .from('custom_field_values')
-            .delete()
-            .eq('animal_id', animal.id)
-            .eq('field_id', field.id);
-        }
+      setAnimal(await data.animals.update(animal.id, updates));
+
+      if (!isOnline) {
+        setIsEditing(false);
+        showToast('Saved offline - will sync when back online', 'warning');
+        return;
       }
 
+      if (withdrawalOverrideReason && animal.meat_withdrawal_clear_date) {
+        await data.withdrawalOverrides.create({
+          ranch_id: animal.ranch_id,
+          animal_id: animal.id,
+          status: formData.status as 'SOLD' | 'BUTCHERED',
+          exit_date: exitDate,
+          meat_withdrawal_clear_date: animal.meat_withdrawal_clear_date,
+          reason: withdrawalOverrideReason,
+          overridden_by_user_id: user?.id || null,
+        });
+      }
+
+      if (weightChanged) {
+        await data.weights.create({
+          animal_id: animal.id,
+          ranch_id: animal.ranch_id,
+          weigh_date: getTodayLocalDate(),
+          weight_lbs: newWeight,
+          created_by_user_id: user?.id || null,
+        });
+      }
+
+      await data.customFields.saveValues(
+        animal.id,
+        Object.fromEntries(customFields.map(field => [field.id, customFieldValues[field.id] || null]))
+      );
+
       setIsEditing(false);
       await refreshAnimalData();
       showToast('Animal updated successfully', 'success');
-    } catch (error: any) {
-      console.error('Error updating animal:', error);
-      alert(`Failed to update animal: ${error?.message || 'Unknown error'}`);
+    } catch (error) {
+      handleError(error, 'update animal');
     } finally {
       setSaving(false);
     }
   };
 
   const handleDelete = async () => {
-    if (isDemoMode) {
-      showToast('Demonstration Mode - Animal was not deleted.', 'info');
-      return;
-    }
-
     if (!confirm('Are you sure you want to permanently delete this animal and all its history? This action cannot be undone.')) {
       return;
     }
 
     try {
-      const { error } = await supabase
-        .from('animals')
-        .delete()
-        .eq('id', animal.id);
-
-      if (error) throw error;
+      await data.animals.delete(animal.id);
 
       onDelete();
       onClose();
-    } catch (error: any) {
-      console.error('Error deleting animal:', error);
-      alert(`Failed to delete animal: ${error?.message || 'Unknown error'}`);
+    } catch (error) {
+      handleError(error, 'delete animal');
     }
   };
 
@@ -188,12 +251,18 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
   };
 
   const getFather = () => {
-    if (!(animal as any).father_id) return null;
-    return allAnimals.find(a => a.id === (animal as any).father_id);
+    if (!animal.father_id) return null;
+    return allAnimals.find(a => a.id === animal.father_id);
   };
 
   const mother = getMother();
   const father = getFather();
+  const isFemale = FEMALE_SEXES.includes(animal.sex.toUpperCase());
+  const calfPerformance = getCalfPerformance(animal, mother);
+  const inbreedingCoefficient = useMemo(
+    () => createInbreedingCalculator(allAnimals).coefficient(animal.id),
+    [allAnimals, animal.id]
+  );
 
   useEffect(() => {
     loadPhotos();
@@ -205,14 +274,8 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
     if (!currentRanch) return;
 
     try {
-      const { data, error } = await supabase
-        .from('ranch_settings')
-        .select('enable_injection_feature')
-        .eq('ranch_id', currentRanch.id)
-        .maybeSingle();
-
-      if (error) throw error;
-      setInjectionFeatureEnabled((data as any)?.enable_injection_feature || false);
+      const settings = await data.settings.get(currentRanch.id);
+      setInjectionFeatureEnabled(settings?.enable_injection_feature || false);
     } catch (error) {
       console.error('Error loading injection feature setting:', error);
       setInjectionFeatureEnabled(false);
@@ -221,24 +284,12 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
 
   const loadCustomFields = async () => {
     try {
-      const { data: fieldDefs, error: fieldError } = await supabase
-        .from('custom_field_definitions')
-        .select('*')
-        .eq('ranch_id', animal.ranch_id)
-        .order('display_order', { ascending: true });
-
-      if (fieldError) throw fieldError;
-      setCustomFields(fieldDefs || []);
-
-      const { data: fieldVals, error: valError } = await supabase
-        .from('custom_field_values')
-        .select('*')
-        .eq('animal_id', animal.id);
+      setCustomFields(await data.customFields.listDefinitions(animal.ranch_id));
 
-      if (valError) throw valError;
+      const fieldVals = await data.customFields.listValues([animal.id]);
 
       const values: Record<string, string> = {};
-      (fieldVals || []).forEach((val) => {
+      fieldVals.forEach((val) => {
         values[val.field_id] = val.value || '';
       });
       setCustomFieldValues(values);
@@ -249,14 +300,7 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
 
   const loadPhotos = async () => {
     try {
-      const { data, error } = await supabase
-        .from('animal_photos')
-        .select('*')
-        .eq('animal_id', animal.id)
-        .order('created_at', { ascending: true });
-
-      if (error) throw error;
-      setPhotos(data || []);
+      setPhotos(await data.photos.listForAnimal(animal.id));
     } catch (error: any) {
       console.error('Error loading photos:', error);
     } finally {
@@ -266,34 +310,40 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
 
   const refreshAnimalData = async () => {
     try {
-      const { data, error } = await supabase
-        .from('animals')
-        .select('*')
-        .eq('id', animal.id)
-        .maybeSingle();
+      const refreshed = await data.animals.get(animal.id);
 
-      if (error) throw error;
-
-      if (data) {
-        Object.assign(animal, data);
+      if (refreshed) {
+        setAnimal(refreshed);
         setFormData({
-          tag_number: data.tag_number || '',
-          tag_color: data.tag_color || '',
-          name: data.name || '',
-          animal_type: ((data as any).animal_type || 'Cattle') as AnimalType,
-          sex: data.sex,
-          source: data.source,
-          status: data.status,
-          birth_date: data.birth_date || '',
-          weaning_date: data.weaning_date || '',
-          exit_date: data.exit_date || '',
-          sale_price: (data as any).sale_price || '',
-          mother_id: data.mother_id || '',
-          father_id: (data as any).father_id || '',
-          weight_lbs: (data as any).weight_lbs || '',
-          notes: data.notes || '',
-          description: data.description || '',
+          tag_number: refreshed.tag_number || '',
+          tag_color: refreshed.tag_color || '',
+          name: refreshed.name || '',
+          animal_type: refreshed.animal_type || 'Cattle',
+          sex: refreshed.sex,
+          source: refreshed.source,
+          purchase_date: refreshed.purchase_date || '',
+          purchase_price: refreshed.purchase_price != null ? refreshed.purchase_price.toString() : '',
+          seller: refreshed.seller || '',
+          status: refreshed.status,
+          birth_date: refreshed.birth_date || '',
+          weaning_date: refreshed.weaning_date || '',
+          exit_date: refreshed.exit_date || '',
+          sale_price: refreshed.sale_price || '',
+          mother_id: refreshed.mother_id || '',
+          father_id: refreshed.father_id || '',
+          weight_lbs: refreshed.weight_lbs || '',
+          notes: refreshed.notes || '',
+          description: refreshed.description || '',
+          breed: refreshed.breed || '',
+          percentage_blood: refreshed.percentage_blood != null ? String(refreshed.percentage_blood) : '',
+          breed_composition: formatBreedComposition(toBreedComposition(refreshed.breed_composition)),
+          registry_name: refreshed.registry_name || '',
+          registration_number: refreshed.registration_number || '',
+          calving_ease: refreshed.calving_ease ? String(refreshed.calving_ease) : '',
+          birth_weight_lbs: refreshed.birth_weight_lbs != null ? String(refreshed.birth_weight_lbs) : '',
+          weaning_weight_lbs: refreshed.weaning_weight_lbs != null ? String(refreshed.weaning_weight_lbs) : '',
         });
+        setWeightHistoryKey(prev => prev + 1);
       }
     } catch (error: any) {
       console.error('Error refreshing animal data:', error);
@@ -303,47 +353,22 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
   const handlePhotoCapture = async (blob: Blob) => {
     setShowCamera(false);
 
-    if (isDemoMode) {
-      showToast('Demonstration Mode - Photo was not saved.', 'info');
-      return;
-    }
-
     setUploading(true);
 
     try {
-      const timestamp = Date.now();
-      const fileName = `${animal.ranch_id}/${animal.id}/${timestamp}.jpg`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('animal-photos')
-        .upload(fileName, blob, {
-          contentType: 'image/jpeg',
-          upsert: false
-        });
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('animal-photos')
-        .getPublicUrl(fileName);
-
-      const { error: dbError } = await supabase
-        .from('animal_photos')
-        .insert({
-          animal_id: animal.id,
-          ranch_id: animal.ranch_id,
-          storage_url: publicUrl,
-          is_primary: photos.length === 0,
-          file_size_bytes: blob.size
-        });
-
-      if (dbError) throw dbError;
+      await data.photos.upload({
+        animalId: animal.id,
+        ranchId: animal.ranch_id,
+        file: blob,
+        fileExtension: 'jpg',
+        contentType: 'image/jpeg',
+        isPrimary: photos.length === 0,
+      });
 
       showToast('Photo added successfully', 'success');
       await loadPhotos();
-    } catch (error: any) {
-      console.error('Error uploading photo:', error);
-      showToast(`Failed to upload photo: ${error?.message || 'Unknown error'}`, 'error');
+    } catch (error) {
+      handleError(error, 'upload photo');
     } finally {
       setUploading(false);
     }
@@ -416,74 +441,29 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
     }, 1000);
 
     try {
-      const timestamp = Date.now();
       const fileExtension = file.name.split('.').pop() || 'jpg';
-      const fileName = `${animal.ranch_id}/${animal.id}/${timestamp}.${fileExtension}`;
 
-      console.log('Uploading to storage:', fileName);
       console.log('Starting upload at:', new Date().toISOString());
 
       showToast(`Uploading ${isVideo ? 'video' : 'photo'} (${fileSizeMB.toFixed(0)}MB)... This may take several minutes`, 'info');
 
-      const uploadPromise = supabase.storage
-        .from('animal-photos')
-        .upload(fileName, file, {
-          contentType: file.type,
-          upsert: false
-        });
-
       const timeoutMs = fileSizeMB > 100 ? 300000 : 180000;
-      const timeoutMinutes = Math.floor(timeoutMs / 60000);
 
-      console.log(`Upload timeout set to ${timeoutMinutes} minutes for ${fileSizeMB.toFixed(0)}MB file`);
+      console.log(`Upload timeout set to ${Math.floor(timeoutMs / 60000)} minutes for ${fileSizeMB.toFixed(0)}MB file`);
 
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => {
-          console.error(`Upload timed out after ${timeoutMinutes} minutes`);
-          reject(new Error(`Upload timeout after ${timeoutMinutes} minutes - file too large or connection too slow`));
-        }, timeoutMs);
+      await data.photos.upload({
+        animalId: animal.id,
+        ranchId: animal.ranch_id,
+        file,
+        fileExtension,
+        contentType: file.type,
+        isPrimary: photos.length === 0,
+        timeoutMs,
       });
 
-      const { error: uploadError } = await Promise.race([uploadPromise, timeoutPromise]) as any;
-
       console.log('Upload completed at:', new Date().toISOString());
 
-      if (uploadError) {
-        console.error('Storage upload error:', uploadError);
-        console.error('Upload error details:', {
-          message: uploadError?.message,
-          statusCode: uploadError?.statusCode,
-          error: uploadError?.error
-        });
-        throw uploadError;
-      }
-
       clearInterval(progressInterval);
-      setUploadProgress(98);
-
-      console.log('Storage upload successful, getting public URL');
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('animal-photos')
-        .getPublicUrl(fileName);
-
-      console.log('Inserting to database:', { publicUrl });
-
-      const { error: dbError } = await supabase
-        .from('animal_photos')
-        .insert({
-          animal_id: animal.id,
-          ranch_id: animal.ranch_id,
-          storage_url: publicUrl,
-          is_primary: photos.length === 0,
-          file_size_bytes: file.size
-        });
-
-      if (dbError) {
-        console.error('Database insert error:', dbError);
-        throw dbError;
-      }
-
       setUploadProgress(100);
       console.log('Upload complete, reloading photos');
 
@@ -540,21 +520,7 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
 
   const handleDeletePhoto = async (photo: AnimalPhoto) => {
     try {
-      const urlParts = photo.storage_url.split('/animal-photos/');
-      const filePath = urlParts[1];
-
-      const { error: storageError } = await supabase.storage
-        .from('animal-photos')
-        .remove([filePath]);
-
-      if (storageError) throw storageError;
-
-      const { error: dbError } = await supabase
-        .from('animal_photos')
-        .delete()
-        .eq('id', photo.id);
-
-      if (dbError) throw dbError;
+      await data.photos.delete(photo);
 
       showToast('Photo deleted successfully', 'success');
       await loadPhotos();
@@ -562,9 +528,8 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
       if (photos.length <= 1) {
         setShowGallery(false);
       }
-    } catch (error: any) {
-      console.error('Error deleting media:', error);
-      showToast(`Failed to delete photo: ${error?.message || 'Unknown error'}`, 'error');
+    } catch (error) {
+      handleError(error, 'delete photo');
     }
   };
 
@@ -629,6 +594,22 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                 >
                   <FileText className="w-5 h-5" />
                 </button>
+                <button
+                  onClick={() => setShowPedigree(true)}
+                  className="p-2 text-teal-600 hover:bg-teal-50 rounded-lg transition"
+                  title="Pedigree"
+                >
+                  <GitBranch className="w-5 h-5" />
+                </button>
+                {isFemale && (
+                  <button
+                    onClick={() => setShowBreeding(true)}
+                    className="p-2 text-pink-600 hover:bg-pink-50 rounded-lg transition"
+                    title="Breeding & Pregnancy"
+                  >
+                    <Heart className="w-5 h-5" />
+                  </button>
+                )}
                 {(!isReadOnly || isDemoMode) && (
                   <>
                     <button
@@ -715,7 +696,7 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
 
               <div>
                 <h3 className="text-sm font-medium text-gray-500 mb-1">Animal Type</h3>
-                <p className="text-gray-900">{(animal as any).animal_type || 'Cattle'}</p>
+                <p className="text-gray-900">{animal.animal_type || 'Cattle'}</p>
               </div>
 
               <div>
@@ -728,6 +709,23 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                 <p className="text-gray-900">{animal.source}</p>
               </div>
 
+              {animal.source === 'PURCHASED' && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 mb-1">Purchase Date</h3>
+                  <p className="text-gray-900">{formatDate(animal.purchase_date)}</p>
+                </div>
+              )}
+
+              {animal.source === 'PURCHASED' && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 mb-1">Purchase Price</h3>
+                  <p className="text-gray-900">
+                    {animal.purchase_price != null ? `$${Number(animal.purchase_price).toFixed(2)}` : 'Not set'}
+                    {animal.seller && ` from ${animal.seller}`}
+                  </p>
+                </div>
+              )}
+
               <div>
                 <h3 className="text-sm font-medium text-gray-500 mb-1">Status</h3>
                 <p className="text-gray-900">{animal.status}</p>
@@ -744,15 +742,52 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                 <p className="text-gray-900">{formatDate(animal.weaning_date)}</p>
               </div>
 
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">Birth / Weaning Weight</h3>
+                <p className="text-gray-900">
+                  {calfPerformance.birthWeight !== null ? `${calfPerformance.birthWeight} lbs` : '-'}
+                  {' / '}
+                  {calfPerformance.weaningWeight !== null ? `${calfPerformance.weaningWeight} lbs` : '-'}
+                </p>
+                {calfPerformance.adjusted205DayWeight !== null && (
+                  <p className="text-sm text-gray-500">Adjusted 205-day: {calfPerformance.adjusted205DayWeight} lbs</p>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">Calving Ease</h3>
+                <p className="text-gray-900">{animal.calving_ease ? CALVING_EASE_LABELS[animal.calving_ease] : '-'}</p>
+                {calfPerformance.damAgeAtCalving !== null && (
+                  <p className="text-sm text-gray-500">Dam age at calving: {calfPerformance.damAgeAtCalving} years</p>
+                )}
+              </div>
+
               <div>
                 <h3 className="text-sm font-medium text-gray-500 mb-1">Exit Date</h3>
                 <p className="text-gray-900">{formatDate(animal.exit_date)}</p>
               </div>
 
+              {(animal.meat_withdrawal_clear_date || animal.milk_withdrawal_clear_date) && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 mb-1">Withdrawal Clear Date</h3>
+                  {animal.meat_withdrawal_clear_date && (
+                    <p className={isWithinWithdrawal(animal.meat_withdrawal_clear_date, getTodayLocalDate()) ? 'text-red-600 font-semibold' : 'text-gray-900'}>
+                      Meat: {formatDate(animal.meat_withdrawal_clear_date)}
+                    </p>
+                  )}
+                  {animal.milk_withdrawal_clear_date && (
+                    <p className={isWithinWithdrawal(animal.milk_withdrawal_clear_date, getTodayLocalDate()) ? 'text-red-600 font-semibold' : 'text-gray-900'}>
+                      Milk: {formatDate(animal.milk_withdrawal_clear_date)}
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <h3 className="text-sm font-medium text-gray-500 mb-1">Sale Price</h3>
                 <p className="text-gray-900">
-                  {(animal as any).sale_price ? `$${parseFloat((animal as any).sale_price).toFixed(2)}` : '-'}
+                  {animal.sale_price ? `$${Number(animal.sale_price).toFixed(2)}` : '-'}
+                  {animal.sale_weight_lbs != null && ` at ${Number(animal.sale_weight_lbs)} lbs`}
                 </p>
               </div>
 
@@ -771,9 +806,35 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
               </div>
 
               <div>
-                <h3 className="text-sm font-medium text-gray-500 mb-1">Weight</h3>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">Inbreeding Coefficient</h3>
                 <p className="text-gray-900">
-                  {(animal as any).weight_lbs ? `${(animal as any).weight_lbs} lbs` : '-'}
+                  {mother && father ? formatInbreedingCoefficient(inbreedingCoefficient) : '-'}
+                </p>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">Breed</h3>
+                <p className="text-gray-900">
+                  {animal.breed
+                    ? `${animal.breed}${animal.percentage_blood != null ? ` (${Number(animal.percentage_blood)}%)` : ''}`
+                    : '-'}
+                </p>
+                {animal.breed_composition && (
+                  <p className="text-sm text-gray-500">{formatBreedComposition(getBreedComposition(animal))}</p>
+                )}
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">Registration</h3>
+                <p className="text-gray-900">
+                  {[animal.registry_name, animal.registration_number].filter(Boolean).join(' #') || '-'}
+                </p>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">Latest Weight</h3>
+                <p className="text-gray-900">
+                  {animal.weight_lbs ? `${animal.weight_lbs} lbs` : '-'}
                 </p>
               </div>
 
@@ -885,10 +946,49 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                   </select>
                 </div>
 
+                {formData.source === 'PURCHASED' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Purchase Date</label>
+                    <input
+                      type="date"
+                      value={formData.purchase_date}
+                      onChange={(e) => setFormData({ ...formData, purchase_date: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {formData.source === 'PURCHASED' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Purchase Price</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.purchase_price}
+                      onChange={(e) => setFormData({ ...formData, purchase_price: e.target.value })}
+                      placeholder="Including commission"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {formData.source === 'PURCHASED' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Seller</label>
+                    <input
+                      type="text"
+                      value={formData.seller}
+                      onChange={(e) => setFormData({ ...formData, seller: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Status</label>
                   <select
-                    value={formData.status}
+                    value={formData.status || 'PRESENT'}
                     onChange={(e) => setFormData({ ...formData, status: e.target.value as any })}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                     required
@@ -920,6 +1020,45 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Calving Ease</label>
+                  <select
+                    value={formData.calving_ease}
+                    onChange={(e) => setFormData({ ...formData, calving_ease: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    <option value="">Not recorded</option>
+                    {Object.entries(CALVING_EASE_LABELS).map(([score, label]) => (
+                      <option key={score} value={score}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Birth Weight (lbs)</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={formData.birth_weight_lbs}
+                    onChange={(e) => setFormData({ ...formData, birth_weight_lbs: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Weaning Weight (lbs)</label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    value={formData.weaning_weight_lbs}
+                    onChange={(e) => setFormData({ ...formData, weaning_weight_lbs: e.target.value })}
+                    placeholder="Weight on the weaning date"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Exit Date</label>
                   <input
@@ -943,6 +1082,9 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                       className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                     />
                   </div>
+                  {animal.sale_id && (
+                    <p className="text-xs text-gray-500 mt-1">This animal's share of a recorded sale; the sale sheet keeps the original net</p>
+                  )}
                 </div>
 
                 <div>
@@ -955,10 +1097,10 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                     <option value="">Select mother...</option>
                     {allAnimals
                       .filter(a => {
-                        const animalType = (a as any).animal_type || 'Cattle';
+                        const animalType = a.animal_type || 'Cattle';
                         if (animalType !== formData.animal_type) return false;
                         const sex = a.sex.toUpperCase();
-                        return ['COW', 'HEIFER', 'MARE', 'FILLY', 'EWE', 'DOE', 'SOW', 'GILT'].includes(sex);
+                        return FEMALE_SEXES.includes(sex);
                       })
                       .map(a => (
                         <option key={a.id} value={a.id}>
@@ -978,7 +1120,7 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                     <option value="">Select father...</option>
                     {allAnimals
                       .filter(a => {
-                        const animalType = (a as any).animal_type || 'Cattle';
+                        const animalType = a.animal_type || 'Cattle';
                         if (animalType !== formData.animal_type) return false;
                         const sex = a.sex.toUpperCase();
                         return ['BULL', 'STEER', 'STALLION', 'GELDING', 'COLT', 'RAM', 'WETHER', 'BUCK', 'BOAR', 'BARROW'].includes(sex);
@@ -991,6 +1133,85 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Breed</label>
+                  <input
+                    type="text"
+                    value={formData.breed}
+                    onChange={(e) => setFormData({ ...formData, breed: e.target.value })}
+                    placeholder="e.g., Angus"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Percentage Blood</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData.percentage_blood}
+                    onChange={(e) => setFormData({ ...formData, percentage_blood: e.target.value })}
+                    placeholder="Percent of the breed above"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Breed Composition</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={formData.breed_composition}
+                      onChange={(e) => setFormData({ ...formData, breed_composition: e.target.value })}
+                      placeholder="e.g., Angus 75%, Hereford 25%"
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => {
+                        const composition = calculateCalfBreedComposition(
+                          allAnimals.find(a => a.id === formData.father_id),
+                          allAnimals.find(a => a.id === formData.mother_id)
+                        );
+                        if (!composition) {
+                          showToast('Both parents need a breed or breed composition on record', 'warning');
+                          return;
+                        }
+                        setFormData({ ...formData, breed_composition: formatBreedComposition(composition) });
+                      }}
+                      className="px-4 py-2 text-green-700 border border-green-600 hover:bg-green-50 rounded-lg transition"
+                    >
+                      From Parents
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Left blank, calves born on the ranch get the average of their parents' compositions.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Registry</label>
+                  <input
+                    type="text"
+                    value={formData.registry_name}
+                    onChange={(e) => setFormData({ ...formData, registry_name: e.target.value })}
+                    placeholder="e.g., American Angus Association"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Registration Number</label>
+                  <input
+                    type="text"
+                    value={formData.registration_number}
+                    onChange={(e) => setFormData({ ...formData, registration_number: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">Weight (lbs)</label>
                   <input
@@ -1001,6 +1222,7 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
                     placeholder="Enter weight in pounds"
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   />
+                  <p className="text-xs text-gray-500 mt-1">A changed weight is saved as a weigh-in dated today</p>
                 </div>
               </div>
 
@@ -1102,6 +1324,16 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
             </form>
           )}
 
+          {!isEditing && (
+            <WeightHistoryPanel
+              key={weightHistoryKey}
+              animalId={animal.id}
+              ranchId={animal.ranch_id}
+              onWeightChange={refreshAnimalData}
+              isReadOnly={isReadOnly}
+              isDemoMode={isDemoMode}
+            />
+          )}
         </div>
 
         {showMedical && (
@@ -1110,10 +1342,27 @@ export function AnimalDetailModal({ animal, onClose, onUpdate, onDelete, allAnim
             animalName={animal.name || animal.tag_number || 'Unknown'}
             ranchId={animal.ranch_id}
             onClose={() => setShowMedical(false)}
+          />
+        )}
+
+        {showBreeding && (
+          <BreedingModal
+            dam={animal}
+            allAnimals={allAnimals}
+            onClose={() => setShowBreeding(false)}
+            isReadOnly={isReadOnly}
             isDemoMode={isDemoMode}
           />
         )}
 
+        {showPedigree && (
+          <PedigreeModal
+            animal={animal}
+            allAnimals={allAnimals}
+            onClose={() => setShowPedigree(false)}
+          />
+        )}
+
         {showInjection && (
           <InjectionModal
             animal={animal}
@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import { X, Syringe, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
+import { useToast } from '../contexts/ToastContext';
+import { getTodayLocalDate } from '../utils/printHelpers';
+import { buildProtocolDosePreview, type ProtocolDrug, type ProtocolDoseItem, type ProtocolDoseAnimal } from '../utils/treatmentProtocols';
+import type { Animal, TreatmentProtocol, TreatmentProtocolItem } from '../data/types';
+
+interface ApplyProtocolModalProps {
+  animals: Animal[];
+  ranchId: string;
+  isDemoMode?: boolean;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+export function ApplyProtocolModal({ animals, ranchId, isDemoMode = false, onClose, onApplied }: ApplyProtocolModalProps) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { data, handleError } = useData();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [protocols, setProtocols] = useState<TreatmentProtocol[]>([]);
+  const [protocolItems, setProtocolItems] = useState<TreatmentProtocolItem[]>([]);
+  const [drugs, setDrugs] = useState<ProtocolDrug[]>([]);
+  const [protocolId, setProtocolId] = useState('');
+  const [treatmentDate, setTreatmentDate] = useState(getTodayLocalDate());
+  const [administeredBy, setAdministeredBy] = useState('');
+  const [reason, setReason] = useState('');
+
+  const doseAnimals: ProtocolDoseAnimal[] = animals.map(animal => ({
+    id: animal.id,
+    tag_number: animal.tag_number,
+    name: animal.name,
+    animal_type: animal.animal_type || 'Cattle',
+    weight_lbs: animal.weight_lbs,
+  }));
+
+  useEffect(() => {
+    loadData();
+  }, [ranchId, data]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [loadedProtocols, loadedDrugs, userName] = await Promise.all([
+        data.treatmentProtocols.list(ranchId),
+        data.drugs.list(ranchId),
+        user ? data.users.getName(user.id) : Promise.resolve(null),
+      ]);
+
+      setProtocols(loadedProtocols);
+      setProtocolItems(await data.treatmentProtocols.listItems(loadedProtocols.map(p => p.id)));
+      setDrugs(loadedDrugs);
+      setAdministeredBy(userName || '');
+
+      const selectedTypes = new Set(doseAnimals.map(a => a.animal_type));
+      const firstMatch = loadedProtocols.find(p => selectedTypes.has(p.animal_type)) || loadedProtocols[0];
+      setProtocolId(firstMatch?.id || '');
+    } catch (error) {
+      handleError(error, 'load protocols');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedProtocol = protocols.find(p => p.id === protocolId);
+  const items: ProtocolDoseItem[] = protocolItems
+    .filter(item => item.protocol_id === protocolId)
+    .map(item => ({
+      drug: drugs.find(d => d.id === item.drug_id)!,
+      route: item.route,
+      injection_site: item.injection_site,
+    }))
+    .filter(item => item.drug);
+
+  const preview = selectedProtocol
+    ? buildProtocolDosePreview(doseAnimals, items, selectedProtocol.animal_type)
+    : [];
+  const eligible = preview.filter(row => !row.wrongAnimalType);
+  const skippedCount = preview.length - eligible.length;
+  const missingWeight = eligible.filter(row => row.lines.some(line => line.needsWeight));
+
+  const getAnimalLabel = (animal: { tag_number: string | null; name: string | null }) =>
+    [animal.tag_number, animal.name].filter(Boolean).join(' - ') || 'Unknown';
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!selectedProtocol || items.length === 0) {
+      showToast('Please select a protocol with at least one drug', 'error');
+      return;
+    }
+
+    if (eligible.length === 0) {
+      showToast(`None of the selected animals are ${selectedProtocol.animal_type}`, 'error');
+      return;
+    }
+
+    if (missingWeight.length > 0) {
+      showToast(`${missingWeight.length} animal${missingWeight.length === 1 ? ' has' : 's have'} no weight recorded`, 'error');
+      return;
+    }
+
+    if (isDemoMode) {
+      alert(
+        `Demonstration Mode - The following treatments were not added:\n\nProtocol: ${selectedProtocol.name}\nDate: ${treatmentDate}\nAnimals: ${eligible.length}\nTreatments: ${eligible.length * items.length}`
+      );
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const count = await data.treatmentProtocols.apply({
+        protocolId: selectedProtocol.id,
+        animalIds: eligible.map(row => row.animal.id),
+        date: treatmentDate,
+        administeredBy: administeredBy.trim() || null,
+        reason: reason.trim() || selectedProtocol.name,
+      });
+
+      showToast(`${selectedProtocol.name}: recorded ${count} treatment${count === 1 ? '' : 's'} for ${eligible.length} animal${eligible.length === 1 ? '' : 's'}`, 'success');
+      onApplied();
+      onClose();
+    } catch (error) {
+      handleError(error, 'apply protocol');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Apply Protocol</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {animals.length} animal{animals.length === 1 ? '' : 's'} selected
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-green-600 border-t-transparent"></div>
+            <p className="text-gray-600 mt-4">Loading protocols...</p>
+          </div>
+        ) : protocols.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600">No protocols defined</p>
+            <p className="text-sm text-gray-500 mt-2">Create protocols in Settings under Drugs & Medications</p>
+          </div>
+        ) : (
+          <form onSubmit={handleApply} className="p-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Protocol <span className="text-red-500">*</span>
+                </label>
+                <select
+                  value={protocolId}
+                  onChange={(e) => setProtocolId(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  {protocols.map(protocol => (
+                    <option key={protocol.id} value={protocol.id}>
+                      {`${protocol.name} (${protocol.animal_type})`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Date <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  value={treatmentDate}
+                  onChange={(e) => setTreatmentDate(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Administered By</label>
+                <input
+                  type="text"
+                  value={administeredBy}
+                  onChange={(e) => setAdministeredBy(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={selectedProtocol?.name}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            {(skippedCount > 0 || missingWeight.length > 0) && (
+              <div className="bg-amber-50 border border-amber-300 rounded-lg p-4 text-sm text-amber-900 space-y-1">
+                <div className="flex items-center gap-2 font-semibold">
+                  <AlertTriangle className="w-5 h-5" />
+                  Check before applying
+                </div>
+                {skippedCount > 0 && (
+                  <p>
+                    {skippedCount} selected animal{skippedCount === 1 ? ' is' : 's are'} not {selectedProtocol?.animal_type} and will be skipped.
+                  </p>
+                )}
+                {missingWeight.length > 0 && (
+                  <p>
+                    No weight recorded for {missingWeight.map(row => getAnimalLabel(row.animal)).join(', ')}.
+                    Record a weigh-in before applying a protocol with per-pound doses.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {items.length > 0 && eligible.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Animal</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Weight</th>
+                      {items.map((item, index) => (
+                        <th key={index} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {item.drug.drug_name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {eligible.map(row => (
+                      <tr key={row.animal.id}>
+                        <td className="px-4 py-2 text-sm text-gray-900 whitespace-nowrap">{getAnimalLabel(row.animal)}</td>
+                        <td className="px-4 py-2 text-sm text-gray-600 whitespace-nowrap">
+                          {row.animal.weight_lbs !== null ? `${Number(row.animal.weight_lbs)} lbs` : '-'}
+                        </td>
+                        {row.lines.map((line, index) => (
+                          <td
+                            key={index}
+                            className={`px-4 py-2 text-sm whitespace-nowrap ${line.needsWeight ? 'text-red-600 font-semibold' : 'text-gray-900'}`}
+                          >
+                            {line.dose !== null ? `${line.dose.toFixed(2)} ml` : 'Needs weight'}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving || items.length === 0 || eligible.length === 0 || missingWeight.length > 0}
+                className="inline-flex items-center px-6 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+              >
+                <Syringe className="w-4 h-4 mr-2" />
+                {saving ? 'Applying...' : `Apply to ${eligible.length} Animal${eligible.length === 1 ? '' : 's'}`}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
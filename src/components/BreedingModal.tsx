@@ -0,0 +1,495 @@
+import { useState, useEffect, useMemo } from 'react';
+import { X, Plus, Edit2, Trash2, Save, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useData } from '../contexts/DataContext';
+import { getTodayLocalDate, parseLocalDate } from '../utils/printHelpers';
+import { calculateExpectedDueDate } from '../utils/animalTypes';
+import {
+  createInbreedingCalculator,
+  formatInbreedingCoefficient,
+  getInbreedingLevel,
+  getMatingCandidates,
+} from '../utils/pedigree';
+import type { BreedingMethod, PregnancyStatus, BreedingOutcome } from '../lib/database.types';
+import type { Animal, BreedingRecord } from '../data/types';
+
+interface BreedingModalProps {
+  dam: Animal;
+  allAnimals: Animal[];
+  onClose: () => void;
+  isReadOnly?: boolean;
+  isDemoMode?: boolean;
+}
+
+const BREEDING_METHOD_LABELS: Record<BreedingMethod, string> = {
+  NATURAL: 'Natural Service',
+  AI: 'Artificial Insemination',
+  EMBRYO_TRANSFER: 'Embryo Transfer',
+};
+
+const PREGNANCY_STATUS_LABELS: Record<PregnancyStatus, string> = {
+  UNCHECKED: 'Not Checked',
+  PREGNANT: 'Pregnant',
+  OPEN: 'Open',
+};
+
+const OUTCOME_LABELS: Record<BreedingOutcome, string> = {
+  PENDING: 'Pending',
+  BIRTH: 'Birth Recorded',
+  LOST: 'Lost / Aborted',
+};
+
+const emptyForm = () => ({
+  breeding_method: 'NATURAL' as BreedingMethod,
+  breeding_date: getTodayLocalDate(),
+  sire_id: '',
+  sire_identifier: '',
+  technician: '',
+  pregnancy_status: 'UNCHECKED' as PregnancyStatus,
+  pregnancy_check_date: '',
+  outcome: 'PENDING' as BreedingOutcome,
+  notes: '',
+});
+
+export function BreedingModal({ dam, allAnimals, onClose, isReadOnly = false, isDemoMode = false }: BreedingModalProps) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { data, handleError } = useData();
+  const [records, setRecords] = useState<BreedingRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+
+  const damType = dam.animal_type || 'Cattle';
+  const damName = dam.name || dam.tag_number || 'Unknown';
+
+  useEffect(() => {
+    fetchRecords();
+  }, [dam.id, data]);
+
+  const fetchRecords = async () => {
+    setLoading(true);
+    try {
+      setRecords(await data.breeding.listForDam(dam.id));
+    } catch (error) {
+      console.error('Error fetching breeding records:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const buildPayload = () => ({
+    breeding_method: formData.breeding_method,
+    breeding_date: formData.breeding_date,
+    sire_id: formData.sire_id || null,
+    sire_identifier: formData.sire_identifier || null,
+    technician: formData.technician || null,
+    pregnancy_status: formData.pregnancy_status,
+    pregnancy_check_date: formData.pregnancy_check_date || null,
+    notes: formData.notes || null,
+  });
+
+  const resetForm = () => {
+    setShowAddForm(false);
+    setEditingId(null);
+    setFormData(emptyForm());
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isDemoMode) {
+      resetForm();
+      showToast('Demonstration Mode - Breeding record was not added.', 'warning');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await data.breeding.create({
+        ...buildPayload(),
+        ranch_id: dam.ranch_id,
+        dam_id: dam.id,
+        created_by_user_id: user?.id || null,
+      });
+
+      resetForm();
+      await fetchRecords();
+    } catch (error) {
+      handleError(error, 'add breeding record');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (record: BreedingRecord) => {
+    if (isDemoMode) {
+      resetForm();
+      showToast('Demonstration Mode - Breeding record was not updated.', 'warning');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const closesRecord = record.outcome === 'PENDING' && formData.outcome === 'LOST';
+      const reopensRecord = record.outcome === 'LOST' && formData.outcome === 'PENDING';
+
+      await data.breeding.update(record.id, {
+        ...buildPayload(),
+        ...(record.outcome !== 'BIRTH' && { outcome: formData.outcome }),
+        ...(closesRecord && { closed_date: getTodayLocalDate() }),
+        ...(reopensRecord && { closed_date: null }),
+      });
+
+      resetForm();
+      await fetchRecords();
+    } catch (error) {
+      handleError(error, 'update breeding record');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (isDemoMode) {
+      showToast('Demonstration Mode - Breeding record was not deleted.', 'warning');
+      return;
+    }
+
+    if (!confirm('Are you sure you want to delete this breeding record?')) {
+      return;
+    }
+
+    try {
+      await data.breeding.delete(id);
+      await fetchRecords();
+    } catch (error) {
+      handleError(error, 'delete breeding record');
+    }
+  };
+
+  const startEdit = (record: BreedingRecord) => {
+    setEditingId(record.id);
+    setShowAddForm(false);
+    setFormData({
+      breeding_method: record.breeding_method,
+      breeding_date: record.breeding_date,
+      sire_id: record.sire_id || '',
+      sire_identifier: record.sire_identifier || '',
+      technician: record.technician || '',
+      pregnancy_status: record.pregnancy_status,
+      pregnancy_check_date: record.pregnancy_check_date || '',
+      outcome: record.outcome,
+      notes: record.notes || '',
+    });
+  };
+
+  const formatDate = (date: string | null) => {
+    if (!date) return '-';
+    return parseLocalDate(date).toLocaleDateString();
+  };
+
+  const describeAnimal = (id: string | null) => {
+    if (!id) return null;
+    const match = allAnimals.find(a => a.id === id);
+    if (!match) return null;
+    return `${match.tag_number ? `#${match.tag_number} ` : ''}${match.name || match.description || ''}`.trim() || 'Unknown';
+  };
+
+  const sireCandidates = getMatingCandidates(dam, allAnimals);
+  const calculator = useMemo(() => createInbreedingCalculator(allAnimals), [allAnimals]);
+  const matingCoefficient = formData.sire_id ? calculator.kinship(formData.sire_id, dam.id) : null;
+  const matingLevel = matingCoefficient === null ? 'none' : getInbreedingLevel(matingCoefficient);
+
+  const sireIdentifierLabel =
+    formData.breeding_method === 'AI' ? 'Straw / AI Sire ID' :
+    formData.breeding_method === 'EMBRYO_TRANSFER' ? 'Embryo ID / Genetics' :
+    'Outside Sire (if not on ranch)';
+
+  const renderForm = (onSubmit: (e: React.FormEvent) => void, isEdit: boolean, record?: BreedingRecord) => (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Method <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={formData.breeding_method}
+            onChange={(e) => setFormData({ ...formData, breeding_method: e.target.value as BreedingMethod })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            required
+          >
+            {(Object.keys(BREEDING_METHOD_LABELS) as BreedingMethod[]).map(method => (
+              <option key={method} value={method}>{BREEDING_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Breeding Date <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="date"
+            value={formData.breeding_date}
+            onChange={(e) => setFormData({ ...formData, breeding_date: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Sire on Ranch</label>
+          <select
+            value={formData.sire_id}
+            onChange={(e) => setFormData({ ...formData, sire_id: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            <option value="">None / outside sire</option>
+            {sireCandidates.map(a => (
+              <option key={a.id} value={a.id}>
+                {a.tag_number ? `#${a.tag_number}` : ''} {a.name || a.description || 'Unknown'} (F {formatInbreedingCoefficient(calculator.kinship(a.id, dam.id))})
+              </option>
+            ))}
+          </select>
+          {matingCoefficient !== null && (
+            <p className={`mt-1 text-sm flex items-center gap-1 ${
+              matingLevel === 'high' ? 'text-red-600 font-semibold' : matingLevel === 'warning' ? 'text-yellow-700' : 'text-gray-600'
+            }`}>
+              {(matingLevel === 'high' || matingLevel === 'warning') && <AlertTriangle className="w-4 h-4" />}
+              Offspring inbreeding coefficient: {formatInbreedingCoefficient(matingCoefficient)}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{sireIdentifierLabel}</label>
+          <input
+            type="text"
+            value={formData.sire_identifier}
+            onChange={(e) => setFormData({ ...formData, sire_identifier: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+
+        {formData.breeding_method !== 'NATURAL' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Technician</label>
+            <input
+              type="text"
+              value={formData.technician}
+              onChange={(e) => setFormData({ ...formData, technician: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Pregnancy Check</label>
+          <select
+            value={formData.pregnancy_status}
+            onChange={(e) => {
+              const status = e.target.value as PregnancyStatus;
+              setFormData({
+                ...formData,
+                pregnancy_status: status,
+                pregnancy_check_date: status !== 'UNCHECKED' && !formData.pregnancy_check_date
+                  ? getTodayLocalDate()
+                  : formData.pregnancy_check_date,
+              });
+            }}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            {(Object.keys(PREGNANCY_STATUS_LABELS) as PregnancyStatus[]).map(status => (
+              <option key={status} value={status}>{PREGNANCY_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+
+        {formData.pregnancy_status !== 'UNCHECKED' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Check Date</label>
+            <input
+              type="date"
+              value={formData.pregnancy_check_date}
+              onChange={(e) => setFormData({ ...formData, pregnancy_check_date: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+        )}
+
+        {isEdit && record?.outcome !== 'BIRTH' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Outcome</label>
+            <select
+              value={formData.outcome}
+              onChange={(e) => setFormData({ ...formData, outcome: e.target.value as BreedingOutcome })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              <option value="PENDING">{OUTCOME_LABELS.PENDING}</option>
+              <option value="LOST">{OUTCOME_LABELS.LOST}</option>
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Births close the record automatically when the offspring is added</p>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+        <textarea
+          value={formData.notes}
+          onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+          rows={2}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={resetForm}
+          className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+          disabled={saving}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center px-6 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : isEdit ? 'Save' : 'Add Breeding'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Breeding & Pregnancy</h2>
+            <p className="text-sm text-gray-600 mt-1">{damName}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {(!isReadOnly || isDemoMode) && (
+              <button
+                onClick={() => {
+                  setShowAddForm(!showAddForm);
+                  setEditingId(null);
+                  setFormData(emptyForm());
+                }}
+                className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Breeding
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {showAddForm && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Add Breeding Record</h3>
+              {renderForm(handleAdd, false)}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-green-600 border-t-transparent"></div>
+              <p className="text-gray-600 mt-4">Loading breeding records...</p>
+            </div>
+          ) : records.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-600">No breeding records found</p>
+              <p className="text-sm text-gray-500 mt-2">Click "Add Breeding" to record a service, AI or embryo transfer</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {records.map((record) => {
+                const dueDate = calculateExpectedDueDate(damType, record.breeding_date);
+                const sireName = describeAnimal(record.sire_id);
+                const offspringName = describeAnimal(record.offspring_id);
+
+                return (
+                  <div key={record.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                    {editingId === record.id ? (
+                      renderForm((e) => { e.preventDefault(); handleUpdate(record); }, true, record)
+                    ) : (
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                          <div>
+                            <span className="font-semibold text-gray-900">{formatDate(record.breeding_date)}</span>{' '}
+                            <span className="text-gray-700">{BREEDING_METHOD_LABELS[record.breeding_method]}</span>
+                          </div>
+                          <div>
+                            <span className="font-medium text-gray-700">Sire:</span>{' '}
+                            {[sireName, record.sire_identifier].filter(Boolean).join(' / ') || '-'}
+                          </div>
+                          <div>
+                            <span className="font-medium text-gray-700">Pregnancy:</span>{' '}
+                            {PREGNANCY_STATUS_LABELS[record.pregnancy_status]}
+                            {record.pregnancy_check_date && ` (${formatDate(record.pregnancy_check_date)})`}
+                          </div>
+                          <div>
+                            <span className="font-medium text-gray-700">Expected Due:</span>{' '}
+                            {record.pregnancy_status === 'OPEN' ? '-' : formatDate(dueDate)}
+                          </div>
+                          <div>
+                            <span className="font-medium text-gray-700">Outcome:</span>{' '}
+                            {OUTCOME_LABELS[record.outcome]}
+                            {record.closed_date && ` (${formatDate(record.closed_date)})`}
+                            {offspringName && ` - ${offspringName}`}
+                          </div>
+                          {record.technician && (
+                            <div>
+                              <span className="font-medium text-gray-700">Technician:</span> {record.technician}
+                            </div>
+                          )}
+                          {record.notes && (
+                            <div className="md:col-span-2 text-gray-700 whitespace-pre-wrap">{record.notes}</div>
+                          )}
+                        </div>
+                        {(!isReadOnly || isDemoMode) && (
+                          <div className="flex gap-2 ml-4">
+                            <button
+                              onClick={() => startEdit(record)}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                              title="Edit / Record Pregnancy Check"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(record.id)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                              title="Delete"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { formatDateForDisplay, parseLocalDate } from '../utils/printHelpers';
+import type { CountField, CountSnapshot } from '../utils/countSnapshots';
+
+interface CountTrendChartProps {
+  snapshots: CountSnapshot[];
+  field: CountField;
+  label: string;
+}
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 180;
+const CHART_PADDING = { top: 16, right: 16, bottom: 32, left: 40 };
+
+export function CountTrendChart({ snapshots, field, label }: CountTrendChartProps) {
+  if (snapshots.length < 2) return null;
+
+  const times = snapshots.map(s => parseLocalDate(s.date).getTime());
+  const values = snapshots.map(s => s.counts[field]);
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const yMax = Math.max(...values, 1);
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+
+  const x = (time: number) =>
+    CHART_PADDING.left + (maxTime === minTime ? plotWidth / 2 : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+  const y = (value: number) =>
+    CHART_PADDING.top + plotHeight - (value / yMax) * plotHeight;
+
+  const points = snapshots.map((_, i) => `${x(times[i])},${y(values[i])}`).join(' ');
+  const gridValues = yMax > 1 ? [0, Math.round(yMax / 2), yMax] : [0, yMax];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 break-inside-avoid">
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">{label}</h4>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto bg-white"
+        role="img"
+        aria-label={`${label} over time`}
+      >
+        {gridValues.map((value) => (
+          <g key={value}>
+            <line
+              x1={CHART_PADDING.left}
+              x2={CHART_WIDTH - CHART_PADDING.right}
+              y1={y(value)}
+              y2={y(value)}
+              stroke="#e5e7eb"
+              strokeDasharray="4 4"
+            />
+            <text x={CHART_PADDING.left - 8} y={y(value) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+              {value}
+            </text>
+          </g>
+        ))}
+        <text x={x(minTime)} y={CHART_HEIGHT - 10} textAnchor="start" fontSize="11" fill="#6b7280">
+          {formatDateForDisplay(snapshots[0].date)}
+        </text>
+        <text x={x(maxTime)} y={CHART_HEIGHT - 10} textAnchor="end" fontSize="11" fill="#6b7280">
+          {formatDateForDisplay(snapshots[snapshots.length - 1].date)}
+        </text>
+        <polyline points={points} fill="none" stroke="#16a34a" strokeWidth="2.5" />
+        {snapshots.map((snapshot, i) => (
+          <circle key={snapshot.id} cx={x(times[i])} cy={y(values[i])} r="3.5" fill="#16a34a">
+            <title>{`${formatDateForDisplay(snapshot.date)}: ${values[i]}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Edit2, Trash2, Save } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { getTodayLocalDate, parseLocalDate } from '../utils/printHelpers';
+import { isLotExpired, isLotExpiringSoon } from '../utils/drugInventory';
+import type { DrugLot } from '../data/types';
+
+interface DrugLotsModalProps {
+  drug: { id: string; drug_name: string };
+  ranchId: string;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const emptyForm = () => ({
+  lot_number: '',
+  received_date: getTodayLocalDate(),
+  expiration_date: '',
+  bottles_received: '1',
+  bottle_size_ml: '',
+  volume_on_hand_ml: '',
+  cost_per_ml: '',
+  notes: '',
+});
+
+export function DrugLotsModal({ drug, ranchId, onClose, onChange }: DrugLotsModalProps) {
+  const { data, handleError } = useData();
+  const [lots, setLots] = useState<DrugLot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+
+  const today = getTodayLocalDate();
+
+  useEffect(() => {
+    fetchLots();
+  }, [drug.id, data]);
+
+  const fetchLots = async () => {
+    setLoading(true);
+    try {
+      setLots(await data.drugLots.listForDrug(drug.id));
+    } catch (error) {
+      console.error('Error fetching drug lots:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setShowAddForm(false);
+    setEditingId(null);
+    setFormData(emptyForm());
+  };
+
+  const buildPayload = () => {
+    const bottles = parseInt(formData.bottles_received, 10) || 0;
+    const bottleSize = formData.bottle_size_ml ? parseFloat(formData.bottle_size_ml) : null;
+    const receivedVolume = bottleSize !== null ? bottles * bottleSize : 0;
+
+    return {
+      lot_number: formData.lot_number.trim(),
+      received_date: formData.received_date,
+      expiration_date: formData.expiration_date || null,
+      bottles_received: bottles,
+      bottle_size_ml: bottleSize,
+      volume_on_hand_ml: formData.volume_on_hand_ml ? parseFloat(formData.volume_on_hand_ml) : receivedVolume,
+      cost_per_ml: formData.cost_per_ml ? parseFloat(formData.cost_per_ml) : null,
+      notes: formData.notes.trim() || null,
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent, lot?: DrugLot) => {
+    e.preventDefault();
+
+    if (!formData.lot_number.trim()) {
+      alert('Lot number is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (lot) {
+        await data.drugLots.update(lot.id, buildPayload());
+      } else {
+        await data.drugLots.create({
+          ...buildPayload(),
+          ranch_id: ranchId,
+          drug_id: drug.id,
+        });
+      }
+
+      resetForm();
+      await fetchLots();
+      onChange();
+    } catch (error) {
+      handleError(error, 'save lot');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this lot? Treatments drawn from it will keep their lot number.')) {
+      return;
+    }
+
+    try {
+      await data.drugLots.delete(id);
+      await fetchLots();
+      onChange();
+    } catch (error) {
+      handleError(error, 'delete lot');
+    }
+  };
+
+  const startEdit = (lot: DrugLot) => {
+    setEditingId(lot.id);
+    setShowAddForm(false);
+    setFormData({
+      lot_number: lot.lot_number,
+      received_date: lot.received_date,
+      expiration_date: lot.expiration_date || '',
+      bottles_received: lot.bottles_received.toString(),
+      bottle_size_ml: lot.bottle_size_ml?.toString() || '',
+      volume_on_hand_ml: lot.volume_on_hand_ml.toString(),
+      cost_per_ml: lot.cost_per_ml?.toString() || '',
+      notes: lot.notes || '',
+    });
+  };
+
+  const formatDate = (date: string | null) => {
+    if (!date) return '-';
+    return parseLocalDate(date).toLocaleDateString();
+  };
+
+  const renderForm = (lot?: DrugLot) => (
+    <form onSubmit={(e) => handleSubmit(e, lot)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Lot Number <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="text"
+            value={formData.lot_number}
+            onChange={(e) => setFormData({ ...formData, lot_number: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Received Date <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="date"
+            value={formData.received_date}
+            onChange={(e) => setFormData({ ...formData, received_date: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Expiration Date</label>
+          <input
+            type="date"
+            value={formData.expiration_date}
+            onChange={(e) => setFormData({ ...formData, expiration_date: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Cost per mL ($)</label>
+          <input
+            type="number"
+            step="0.0001"
+            min="0"
+            value={formData.cost_per_ml}
+            onChange={(e) => setFormData({ ...formData, cost_per_ml: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Bottles Received</label>
+          <input
+            type="number"
+            step="1"
+            min="0"
+            value={formData.bottles_received}
+            onChange={(e) => setFormData({ ...formData, bottles_received: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Bottle Size (mL)</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={formData.bottle_size_ml}
+            onChange={(e) => setFormData({ ...formData, bottle_size_ml: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Volume on Hand (mL)</label>
+          <input
+            type="number"
+            step="0.01"
+            value={formData.volume_on_hand_ml}
+            onChange={(e) => setFormData({ ...formData, volume_on_hand_ml: e.target.value })}
+            placeholder={lot ? undefined : 'Defaults to bottles × bottle size'}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <p className="text-xs text-gray-500 mt-1">Reduced automatically as doses are administered</p>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+        <textarea
+          value={formData.notes}
+          onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+          rows={2}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+      </div>
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={resetForm}
+          className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+          disabled={saving}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="inline-flex items-center px-6 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : lot ? 'Save' : 'Add Lot'}
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Inventory</h2>
+            <p className="text-sm text-gray-600 mt-1">{drug.drug_name}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                setShowAddForm(!showAddForm);
+                setEditingId(null);
+                setFormData(emptyForm());
+              }}
+              className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Receive Lot
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {showAddForm && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Receive Lot</h3>
+              {renderForm()}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-green-600 border-t-transparent"></div>
+              <p className="text-gray-600 mt-4">Loading inventory...</p>
+            </div>
+          ) : lots.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-600">No lots on record</p>
+              <p className="text-sm text-gray-500 mt-2">Click "Receive Lot" when bottles of this drug arrive</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {lots.map((lot) => {
+                const expired = isLotExpired(lot, today);
+                const expiringSoon = isLotExpiringSoon(lot, today);
+
+                return (
+                  <div key={lot.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                    {editingId === lot.id ? (
+                      renderForm(lot)
+                    ) : (
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                          <div>
+                            <span className="font-semibold text-gray-900">Lot {lot.lot_number}</span>{' '}
+                            <span className="text-gray-600">received {formatDate(lot.received_date)}</span>
+                          </div>
+                          <div className={expired ? 'text-red-600 font-semibold' : expiringSoon ? 'text-amber-600 font-semibold' : ''}>
+                            <span className="font-medium text-gray-700">Expires:</span>{' '}
+                            {formatDate(lot.expiration_date)}
+                            {expired && ' (expired)'}
+                            {expiringSoon && ' (expiring soon)'}
+                          </div>
+                          <div>
+                            <span className="font-medium text-gray-700">On Hand:</span>{' '}
+                            {Number(lot.volume_on_hand_ml).toFixed(2)} mL
+                          </div>
+                          <div>
+                            <span className="font-medium text-gray-700">Received:</span>{' '}
+                            {lot.bottles_received} bottle{lot.bottles_received === 1 ? '' : 's'}
+                            {lot.bottle_size_ml !== null && ` × ${lot.bottle_size_ml} mL`}
+                          </div>
+                          {lot.cost_per_ml !== null && (
+                            <div>
+                              <span className="font-medium text-gray-700">Cost:</span>{' '}
+                              ${Number(lot.cost_per_ml).toFixed(4)}/mL
+                            </div>
+                          )}
+                          {lot.notes && (
+                            <div className="md:col-span-2 text-gray-700 whitespace-pre-wrap">{lot.notes}</div>
+                          )}
+                        </div>
+                        <div className="flex gap-2 ml-4">
+                          <button
+                            onClick={() => startEdit(lot)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                            title="Edit"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(lot.id)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { X, Receipt } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useData } from '../contexts/DataContext';
+import { getTodayLocalDate } from '../utils/printHelpers';
+import {
+  EXPENSE_ALLOCATION_LABELS,
+  EXPENSE_CATEGORY_LABELS,
+  getHerdOnDate,
+  splitAmountEvenly,
+} from '../utils/profitLoss';
+import type { Expense } from '../lib/database.types';
+import type { Animal } from '../data/types';
+
+interface ExpenseModalProps {
+  // Animals picked on the Animals page; empty when the expense is for the whole herd
+  animals: Animal[];
+  // Every animal on the ranch; the whole-herd option is only offered when given
+  allAnimals?: Animal[];
+  ranchId: string;
+  isDemoMode?: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function ExpenseModal({ animals, allAnimals, ranchId, isDemoMode = false, onClose, onSaved }: ExpenseModalProps) {
+  const { showToast } = useToast();
+  const { data, handleError } = useData();
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    expense_date: getTodayLocalDate(),
+    category: 'FEED' as Expense['category'],
+    description: '',
+    amount: '',
+    allocation: (animals.length === 0 ? 'HERD' : animals.length === 1 ? 'ANIMAL' : 'GROUP') as Expense['allocation'],
+    group_name: '',
+  });
+
+  const allocationOptions: Expense['allocation'][] = [
+    ...(animals.length === 1 ? ['ANIMAL' as const] : []),
+    ...(animals.length > 1 ? ['GROUP' as const] : []),
+    ...(allAnimals ? ['HERD' as const] : []),
+  ];
+
+  const chargedAnimals = formData.allocation === 'HERD'
+    ? getHerdOnDate(allAnimals || [], formData.expense_date)
+    : animals;
+  const amount = parseFloat(formData.amount);
+  const shares = amount > 0 ? splitAmountEvenly(amount, chargedAnimals.length) : [];
+
+  const getAnimalLabel = (animal: Animal) =>
+    [animal.tag_number, animal.name].filter(Boolean).join(' - ') || 'Unknown';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!(amount > 0)) {
+      showToast('Please enter an amount greater than zero', 'error');
+      return;
+    }
+
+    if (chargedAnimals.length === 0) {
+      showToast('There are no animals to charge this expense to', 'error');
+      return;
+    }
+
+    if (formData.allocation === 'GROUP' && !formData.group_name.trim()) {
+      showToast('Please name the group so its profit/loss can be reported', 'error');
+      return;
+    }
+
+    if (isDemoMode) {
+      alert(
+        `Demonstration Mode - The following expense was not added:\n\n${EXPENSE_CATEGORY_LABELS[formData.category]}: $${amount.toFixed(2)}\nAnimals: ${chargedAnimals.length}`
+      );
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await data.expenses.record({
+        ranchId,
+        expenseDate: formData.expense_date,
+        category: formData.category,
+        amount,
+        allocation: formData.allocation,
+        animalIds: chargedAnimals.map(a => a.id),
+        description: formData.description.trim() || null,
+        groupName: formData.allocation === 'GROUP' ? formData.group_name.trim() : null,
+      });
+
+      showToast(`Recorded $${amount.toFixed(2)} across ${chargedAnimals.length} animal${chargedAnimals.length === 1 ? '' : 's'}`, 'success');
+      onSaved();
+      onClose();
+    } catch (error) {
+      handleError(error, 'record expense');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-green-100 p-2 rounded-lg">
+              <Receipt className="w-6 h-6 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Record Expense</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                The amount is split evenly across the animals it is charged to
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Date <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                value={formData.expense_date}
+                onChange={(e) => setFormData({ ...formData, expense_date: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Category <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value as Expense['category'] })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                {Object.entries(EXPENSE_CATEGORY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Amount <span className="text-red-500">*</span>
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  placeholder="0.00"
+                  className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Charge To</label>
+              <select
+                value={formData.allocation}
+                onChange={(e) => setFormData({ ...formData, allocation: e.target.value as Expense['allocation'] })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                {allocationOptions.map(option => (
+                  <option key={option} value={option}>
+                    {option === 'HERD' ? EXPENSE_ALLOCATION_LABELS.HERD : `${EXPENSE_ALLOCATION_LABELS[option]} (${animals.length} selected)`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {formData.allocation === 'GROUP' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Group Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={formData.group_name}
+                onChange={(e) => setFormData({ ...formData, group_name: e.target.value })}
+                placeholder="e.g., 2025 fall calves"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+              <p className="text-xs text-gray-500 mt-1">Expenses with the same group name are reported together</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <input
+              type="text"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              placeholder="e.g., 12 tons of hay"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+            <h3 className="font-semibold text-gray-900 mb-2">
+              Charged to {chargedAnimals.length} animal{chargedAnimals.length === 1 ? '' : 's'}
+              {formData.allocation === 'HERD' && ` present on ${formData.expense_date}`}
+            </h3>
+            {shares.length > 0 && (
+              <p className="text-sm text-green-800 mb-2">
+                ${shares[shares.length - 1].toFixed(2)} per animal
+                {shares[0] !== shares[shares.length - 1] && ` (${shares.filter(s => s === shares[0]).length} at $${shares[0].toFixed(2)})`}
+              </p>
+            )}
+            <div className="text-sm text-gray-600 max-h-32 overflow-y-auto">
+              {chargedAnimals.map(getAnimalLabel).join(', ') || 'No animals'}
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Record Expense'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
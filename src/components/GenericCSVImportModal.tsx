@@ -3,7 +3,7 @@ import { X, Upload, FileText, AlertCircle, CheckCircle, HelpCircle } from 'lucid
 import { supabase } from '../lib/supabase';
 import { useRanch } from '../contexts/RanchContext';
 import { parseCSV } from '../utils/csvImport';
-import type { Database } from '../lib/database.types';
+import type { AnimalSex, AnimalType, Database } from '../lib/database.types';
 
 type Animal = Database['public']['Tables']['animals']['Insert'];
 
@@ -250,13 +250,13 @@ export function GenericCSVImportModal({ onClose, onComplete }: GenericCSVImportM
         const salePrice = getColumnValue(row, 'sale_price');
         const parsedSalePrice = salePrice ? parseFloat(salePrice.replace(/[^0-9.]/g, '')) : null;
 
-        const animal: Partial<Animal> = {
+        const animal: Animal = {
           ranch_id: currentRanch.id,
           tag_number: getColumnValue(row, 'tag_number'),
           tag_color: getColumnValue(row, 'tag_color'),
           name: getColumnValue(row, 'name'),
-          animal_type: animalType as any,
-          sex: sex as any,
+          animal_type: animalType as AnimalType,
+          sex: sex as AnimalSex,
           source: normalizeSource(getColumnValue(row, 'source') || 'BORN'),
           status: normalizeStatus(getColumnValue(row, 'status') || 'PRESENT'),
           birth_date: normalizeDate(getColumnValue(row, 'birth_date') || ''),
@@ -269,7 +269,7 @@ export function GenericCSVImportModal({ onClose, onComplete }: GenericCSVImportM
 
         const { error } = await supabase
           .from('animals')
-          .insert(animal as any);
+          .insert(animal);
 
         if (error) throw error;
 
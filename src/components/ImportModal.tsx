@@ -106,10 +106,10 @@ export function ImportModal({ onClose, onComplete }: ImportModalProps) {
 
               const animalData = convertRanchRAnimal(row, currentRanch.id, primaryIdToIdMap);
 
-              const { data, error } = await retryWithBackoff(async () => {
+              const { data } = await retryWithBackoff(async () => {
                 const result = await supabase
                   .from('animals')
-                  .insert(animalData as any)
+                  .insert(animalData)
                   .select('id, legacy_uid')
                   .single();
 
@@ -120,11 +120,6 @@ export function ImportModal({ onClose, onComplete }: ImportModalProps) {
                 return result;
               });
 
-              if (error) {
-                console.error('Supabase error for cattle:', row.primaryId, error);
-                throw new Error(`${error.message}${error.details ? ` (${error.details})` : ''}`);
-              }
-
               if (data && row.primaryId) {
                 primaryIdToIdMap.set(row.primaryId, data.id);
               }
@@ -154,10 +149,10 @@ export function ImportModal({ onClose, onComplete }: ImportModalProps) {
 
               const animalData = convertRanchRAnimal(row, currentRanch.id, primaryIdToIdMap);
 
-              const { data, error } = await retryWithBackoff(async () => {
+              const { data } = await retryWithBackoff(async () => {
                 const result = await supabase
                   .from('animals')
-                  .insert(animalData as any)
+                  .insert(animalData)
                   .select('id, legacy_uid')
                   .single();
 
@@ -168,11 +163,6 @@ export function ImportModal({ onClose, onComplete }: ImportModalProps) {
                 return result;
               });
 
-              if (error) {
-                console.error('Supabase error for calf:', row.primaryId, error);
-                throw new Error(`${error.message}${error.details ? ` (${error.details})` : ''}`);
-              }
-
               if (data && row.primaryId) {
                 primaryIdToIdMap.set(row.primaryId, data.id);
               }
@@ -253,7 +243,7 @@ export function ImportModal({ onClose, onComplete }: ImportModalProps) {
               }
 
               const { error } = await retryWithBackoff(async () => {
-                const result = await supabase.from('medical_history').insert(medicalData as any);
+                const result = await supabase.from('medical_history').insert(medicalData);
 
                 if (result.error) {
                   throw result.error;
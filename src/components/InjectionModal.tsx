@@ -1,22 +1,14 @@
 import { useState, useEffect } from 'react';
 import { X, Syringe, Calculator } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
 import { useToast } from '../contexts/ToastContext';
-import { getTodayLocalDate, parseLocalDate } from '../utils/printHelpers';
-import type { Database } from '../lib/database.types';
-
-type Animal = Database['public']['Tables']['animals']['Row'];
-type MedicalHistory = Database['public']['Tables']['medical_history']['Row'];
-
-interface Drug {
-  id: string;
-  drug_name: string;
-  animal_type: string;
-  ccs_per_pound: number | null;
-  fixed_dose_ml: number | null;
-  notes: string | null;
-}
+import { getTodayLocalDate, parseLocalDate, formatDateForDisplay } from '../utils/printHelpers';
+import { calculateWithdrawalClearDate, laterClearDate } from '../utils/withdrawal';
+import { TREATMENT_ROUTES, TREATMENT_ROUTE_LABELS, calculateDrugDose } from '../utils/medicalRecords';
+import { isLotExpired, selectLotForAdministration } from '../utils/drugInventory';
+import type { TreatmentRoute } from '../lib/database.types';
+import type { Animal, Drug, DrugLot, MedicalRecord as MedicalHistory } from '../data/types';
 
 interface InjectionModalProps {
   animal: Animal;
@@ -29,17 +21,25 @@ interface InjectionModalProps {
 export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode = false }: InjectionModalProps) {
   const { user } = useAuth();
   const { showToast } = useToast();
+  const { data, handleError } = useData();
   const [loading, setLoading] = useState(true);
   const [medicalHistory, setMedicalHistory] = useState<MedicalHistory[]>([]);
   const [drugs, setDrugs] = useState<Drug[]>([]);
+  const [drugLots, setDrugLots] = useState<DrugLot[]>([]);
+  const [selectedLotId, setSelectedLotId] = useState<string>('');
   const [saving, setSaving] = useState(false);
 
   const [estimatedWeight, setEstimatedWeight] = useState<string>(
-    (animal as any).weight_lbs?.toString() || ''
+    animal.weight_lbs?.toString() || ''
   );
   const [selectedDrugId, setSelectedDrugId] = useState<string>('');
   const [injectionDate, setInjectionDate] = useState<string>(getTodayLocalDate());
   const [adminNotes, setAdminNotes] = useState<string>('');
+  const [route, setRoute] = useState<TreatmentRoute | ''>('');
+  const [injectionSite, setInjectionSite] = useState<string>('');
+  const [lotNumber, setLotNumber] = useState<string>('');
+  const [administeredBy, setAdministeredBy] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
 
   const [showWeightCalculator, setShowWeightCalculator] = useState(false);
   const [heartGirth, setHeartGirth] = useState<string>('');
@@ -47,41 +47,40 @@ export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode
 
   useEffect(() => {
     loadData();
-  }, [animal.id, ranchId]);
+  }, [animal.id, ranchId, data]);
 
   const loadData = async () => {
     setLoading(true);
     try {
-      const animalType = (animal as any).animal_type || 'Cattle';
-
-      const [historyResult, drugsResult] = await Promise.all([
-        supabase
-          .from('medical_history')
-          .select('*')
-          .eq('animal_id', animal.id)
-          .order('date', { ascending: false }),
-        supabase
-          .from('drugs')
-          .select('*')
-          .eq('ranch_id', ranchId)
-          .eq('animal_type', animalType)
-          .order('drug_name', { ascending: true })
-      ]);
+      const animalType = animal.animal_type || 'Cattle';
 
-      if (historyResult.error) throw historyResult.error;
-      if (drugsResult.error) throw drugsResult.error;
+      const [history, ranchDrugs, lots, userName] = await Promise.all([
+        data.medicalHistory.listForAnimal(animal.id),
+        data.drugs.list(ranchId),
+        data.drugLots.listForRanch(ranchId),
+        user ? data.users.getName(user.id) : Promise.resolve(null),
+      ]);
 
-      setMedicalHistory(historyResult.data || []);
-      setDrugs(drugsResult.data || []);
-    } catch (error: any) {
-      console.error('Error loading data:', error);
-      showToast(`Failed to load data: ${error?.message || 'Unknown error'}`, 'error');
+      setMedicalHistory(history);
+      setDrugs(ranchDrugs.filter(d => d.animal_type === animalType));
+      setDrugLots(lots);
+      setAdministeredBy(userName || '');
+    } catch (error) {
+      handleError(error, 'load data');
     } finally {
       setLoading(false);
     }
   };
 
   const selectedDrug = drugs.find(d => d.id === selectedDrugId);
+  const selectedDrugLots = drugLots.filter(lot => lot.drug_id === selectedDrugId);
+  const selectedLot = selectedDrugLots.find(lot => lot.id === selectedLotId);
+
+  const handleDrugChange = (drugId: string) => {
+    setSelectedDrugId(drugId);
+    const lot = selectLotForAdministration(drugLots.filter(l => l.drug_id === drugId), injectionDate);
+    setSelectedLotId(lot?.id || '');
+  };
 
   const calculateDose = (): number | null => {
     if (!selectedDrug || !estimatedWeight) return null;
@@ -89,15 +88,7 @@ export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode
     const weight = parseFloat(estimatedWeight);
     if (isNaN(weight)) return null;
 
-    if (selectedDrug.fixed_dose_ml !== null) {
-      return selectedDrug.fixed_dose_ml;
-    }
-
-    if (selectedDrug.ccs_per_pound !== null) {
-      return weight * selectedDrug.ccs_per_pound;
-    }
-
-    return null;
+    return calculateDrugDose(selectedDrug, weight);
   };
 
   const dose = calculateDose();
@@ -121,6 +112,12 @@ export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode
       return;
     }
 
+    if (selectedLot && isLotExpired(selectedLot, injectionDate)) {
+      if (!confirm(`Lot ${selectedLot.lot_number} expired on ${parseLocalDate(selectedLot.expiration_date!).toLocaleDateString()}. Administer from this lot anyway?`)) {
+        return;
+      }
+    }
+
     if (isDemoMode) {
       const description = `${selectedDrug.drug_name} - ${dose.toFixed(2)} ml${adminNotes ? '\n' + adminNotes : ''}`;
       const demoMessage = `Demonstration Mode - The following medical history was not added:\n\nDate: ${injectionDate}\nDrug: ${selectedDrug.drug_name}\nDose: ${dose.toFixed(2)} ml\nWeight: ${weight} lbs${adminNotes ? '\nNotes: ' + adminNotes : ''}`;
@@ -134,38 +131,63 @@ export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode
     try {
       const description = `${selectedDrug.drug_name} - ${dose.toFixed(2)} ml${adminNotes ? '\n' + adminNotes : ''}`;
 
-      const { error: historyError } = await supabase.from('medical_history').insert({
+      await data.medicalHistory.create({
         animal_id: animal.id,
         ranch_id: ranchId,
         date: injectionDate,
         description,
+        drug_id: selectedDrug.id,
+        drug_name: selectedDrug.drug_name,
+        dose: Number(dose.toFixed(2)),
+        dose_units: 'ml',
+        route: route || null,
+        injection_site: injectionSite.trim() || null,
+        drug_lot_id: selectedLot?.id || null,
+        lot_number: selectedLot?.lot_number || lotNumber.trim() || null,
+        administered_by: administeredBy.trim() || null,
+        reason: reason.trim() || null,
         created_by_user_id: user?.id || null,
       });
 
-      if (historyError) throw historyError;
+      const meatClearDate = laterClearDate(
+        animal.meat_withdrawal_clear_date,
+        calculateWithdrawalClearDate(injectionDate, selectedDrug.meat_withdrawal_days)
+      );
+      const milkClearDate = laterClearDate(
+        animal.milk_withdrawal_clear_date,
+        calculateWithdrawalClearDate(injectionDate, selectedDrug.milk_withdrawal_days)
+      );
+
+      if (meatClearDate !== animal.meat_withdrawal_clear_date || milkClearDate !== animal.milk_withdrawal_clear_date) {
+        await data.animals.update(animal.id, {
+          meat_withdrawal_clear_date: meatClearDate,
+          milk_withdrawal_clear_date: milkClearDate,
+        });
+      }
 
-      const currentAnimalWeight = (animal as any).weight_lbs;
+      const currentAnimalWeight = animal.weight_lbs;
       if (currentAnimalWeight !== weight) {
         const shouldUpdate = window.confirm(
-          `Save your weight estimate as the animal's new weight?\n\nCurrent weight: ${currentAnimalWeight || 'Not set'} lbs\nNew weight: ${weight} lbs`
+          `Save your weight estimate as a weigh-in for this animal?\n\nCurrent weight: ${currentAnimalWeight || 'Not set'} lbs\nNew weight: ${weight} lbs`
         );
 
         if (shouldUpdate) {
-          const { error: updateError } = await supabase
-            .from('animals')
-            .update({ weight_lbs: weight })
-            .eq('id', animal.id);
-
-          if (updateError) throw updateError;
+          await data.weights.create({
+            animal_id: animal.id,
+            ranch_id: ranchId,
+            weigh_date: injectionDate,
+            weight_lbs: weight,
+            notes: `Estimated when administering ${selectedDrug.drug_name}`,
+            created_by_user_id: user?.id || null,
+          });
         }
       }
 
       showToast('Injection administered successfully', 'success');
       onUpdate();
       onClose();
-    } catch (error: any) {
-      console.error('Error administering injection:', error);
-      showToast(`Failed to administer injection: ${error?.message || 'Unknown error'}`, 'error');
+    } catch (error) {
+      handleError(error, 'administer injection');
     } finally {
       setSaving(false);
     }
@@ -219,7 +241,7 @@ export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode
     }
   };
 
-  const animalType = (animal as any).animal_type || 'Cattle';
+  const animalType = animal.animal_type || 'Cattle';
   const weightFormula = getWeightFormula(animalType);
 
   const handleCalculateWeight = () => {
@@ -342,7 +364,7 @@ export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode
                   ) : (
                     <select
                       value={selectedDrugId}
-                      onChange={(e) => setSelectedDrugId(e.target.value)}
+                      onChange={(e) => handleDrugChange(e.target.value)}
                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                       required
                     >
@@ -372,6 +394,16 @@ export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode
                           <span className="font-medium">Dosage:</span> {selectedDrug.fixed_dose_ml} ml (fixed dose)
                         </p>
                       ) : null}
+                      {(selectedDrug.meat_withdrawal_days > 0 || selectedDrug.milk_withdrawal_days > 0) && (
+                        <p>
+                          <span className="font-medium">Withdrawal:</span>{' '}
+                          {selectedDrug.meat_withdrawal_days > 0 &&
+                            `Meat ${selectedDrug.meat_withdrawal_days} days (clear ${formatDateForDisplay(calculateWithdrawalClearDate(injectionDate, selectedDrug.meat_withdrawal_days))})`}
+                          {selectedDrug.meat_withdrawal_days > 0 && selectedDrug.milk_withdrawal_days > 0 && ', '}
+                          {selectedDrug.milk_withdrawal_days > 0 &&
+                            `Milk ${selectedDrug.milk_withdrawal_days} days (clear ${formatDateForDisplay(calculateWithdrawalClearDate(injectionDate, selectedDrug.milk_withdrawal_days))})`}
+                        </p>
+                      )}
                       {selectedDrug.notes && (
                         <p>
                           <span className="font-medium">Notes:</span> {selectedDrug.notes}
@@ -386,6 +418,84 @@ export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode
                   </div>
                 )}
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Route</label>
+                    <select
+                      value={route}
+                      onChange={(e) => setRoute(e.target.value as TreatmentRoute | '')}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    >
+                      <option value="">Not recorded</option>
+                      {TREATMENT_ROUTES.map((r) => (
+                        <option key={r} value={r}>{TREATMENT_ROUTE_LABELS[r]}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Injection Site</label>
+                    <input
+                      type="text"
+                      value={injectionSite}
+                      onChange={(e) => setInjectionSite(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder="e.g., Left neck"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Lot Number</label>
+                    {selectedDrugLots.length > 0 ? (
+                      <select
+                        value={selectedLotId}
+                        onChange={(e) => setSelectedLotId(e.target.value)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      >
+                        <option value="">Not from inventory</option>
+                        {selectedDrugLots.map((lot) => (
+                          <option key={lot.id} value={lot.id}>
+                            {`${lot.lot_number} - ${Number(lot.volume_on_hand_ml).toFixed(2)} mL on hand`}
+                            {lot.expiration_date ? `, exp ${parseLocalDate(lot.expiration_date).toLocaleDateString()}` : ''}
+                            {isLotExpired(lot, injectionDate) ? ' (EXPIRED)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={lotNumber}
+                        onChange={(e) => setLotNumber(e.target.value)}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      />
+                    )}
+                    {selectedLot && dose !== null && Number(selectedLot.volume_on_hand_ml) < dose && (
+                      <p className="text-xs text-amber-600 mt-1">Lot has less on hand than the calculated dose</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Administered By</label>
+                    <input
+                      type="text"
+                      value={administeredBy}
+                      onChange={(e) => setAdministeredBy(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                    <input
+                      type="text"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder="e.g., Pneumonia, Annual vaccination"
+                    />
+                  </div>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Administration Notes (optional)
@@ -395,7 +505,7 @@ export function InjectionModal({ animal, ranchId, onClose, onUpdate, isDemoMode
                     onChange={(e) => setAdminNotes(e.target.value)}
                     rows={3}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
-                    placeholder="e.g., Administered in left hindquarter, animal was calm"
+                    placeholder="e.g., Animal was calm"
                   />
                 </div>
 
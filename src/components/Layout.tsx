@@ -1,10 +1,13 @@
 import { ReactNode, useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { useRanch } from '../contexts/RanchContext';
-import { LogOut, Home, Search, FileText, Settings, Menu, X, HelpCircle } from 'lucide-react';
+import { useSync } from '../contexts/SyncContext';
+import { useFenceSchedule } from '../contexts/FenceScheduleContext';
+import { LogOut, Home, Search, FileText, Settings, Menu, X, HelpCircle, Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
 import LicenseWarningBanner from './LicenseWarningBanner';
 import { DemoModeWelcomeModal } from './DemoModeWelcomeModal';
 import { BackupWarningModal } from './BackupWarningModal';
+import { SyncStatusPanel } from './SyncStatusPanel';
 
 interface LayoutProps {
   children: ReactNode;
@@ -14,6 +17,9 @@ interface LayoutProps {
 export function Layout({ children, currentPage }: LayoutProps) {
   const { signOut } = useAuth();
   const { currentRanch, userRanches, selectRanch, isDemoMode } = useRanch();
+  const { isOnline, syncing, pendingCount, conflicts } = useSync();
+  const { overdueFenceCount } = useFenceSchedule();
+  const [showSyncStatus, setShowSyncStatus] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [showRanchSelector, setShowRanchSelector] = useState(false);
   const [showDemoWelcome, setShowDemoWelcome] = useState(false);
@@ -72,11 +78,11 @@ export function Layout({ children, currentPage }: LayoutProps) {
   };
 
   const navigation = [
-    { name: 'Animals', icon: Home, page: 'animals', href: '/dashboard' },
-    { name: 'Search', icon: Search, page: 'search', href: '/search' },
-    { name: 'Reports', icon: FileText, page: 'reports', href: '/reports' },
-    { name: 'Ranch', icon: HelpCircle, page: 'ranch', href: '/license-help' },
-    { name: 'Settings', icon: Settings, page: 'settings', href: '/settings' },
+    { name: 'Animals', icon: Home, page: 'animals', href: '/dashboard', badge: 0 },
+    { name: 'Search', icon: Search, page: 'search', href: '/search', badge: 0 },
+    { name: 'Reports', icon: FileText, page: 'reports', href: '/reports', badge: 0 },
+    { name: 'Ranch', icon: HelpCircle, page: 'ranch', href: '/license-help', badge: overdueFenceCount },
+    { name: 'Settings', icon: Settings, page: 'settings', href: '/settings', badge: 0 },
   ];
 
   return (
@@ -110,12 +116,58 @@ export function Layout({ children, currentPage }: LayoutProps) {
                   >
                     <item.icon className="w-4 h-4 mr-2" />
                     {item.name}
+                    {item.badge > 0 && (
+                      <span
+                        className="ml-2 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800"
+                        title={`${item.badge} fence${item.badge === 1 ? '' : 's'} overdue for a check`}
+                      >
+                        {item.badge}
+                      </span>
+                    )}
                   </a>
                 ))}
               </div>
             </div>
 
             <div className="flex items-center gap-4">
+              <button
+                onClick={() => setShowSyncStatus(true)}
+                className={`inline-flex items-center px-3 py-2 text-sm font-medium rounded-lg transition ${
+                  conflicts.length > 0
+                    ? 'text-red-700 bg-red-50 hover:bg-red-100'
+                    : !isOnline
+                    ? 'text-amber-700 bg-amber-50 hover:bg-amber-100'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+                title="Sync status"
+              >
+                {conflicts.length > 0 ? (
+                  <AlertTriangle className="w-4 h-4" />
+                ) : syncing ? (
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                ) : isOnline ? (
+                  <Cloud className={`w-4 h-4 ${pendingCount === 0 ? 'text-green-600' : ''}`} />
+                ) : (
+                  <CloudOff className="w-4 h-4" />
+                )}
+                <span className="hidden sm:inline ml-2">
+                  {conflicts.length > 0
+                    ? `${conflicts.length} to review`
+                    : syncing
+                    ? 'Syncing'
+                    : !isOnline
+                    ? 'Offline'
+                    : pendingCount > 0
+                    ? 'Waiting to sync'
+                    : 'Synced'}
+                </span>
+                {pendingCount > 0 && (
+                  <span className="ml-2 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-amber-200 text-amber-900">
+                    {pendingCount}
+                  </span>
+                )}
+              </button>
+
               {currentRanch && (
                 <button
                   onClick={() => setShowRanchSelector(!showRanchSelector)}
@@ -151,6 +203,11 @@ export function Layout({ children, currentPage }: LayoutProps) {
                 >
                   <item.icon className="w-5 h-5 mr-3" />
                   {item.name}
+                  {item.badge > 0 && (
+                    <span className="ml-2 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                      {item.badge} overdue
+                    </span>
+                  )}
                 </a>
               ))}
 
@@ -212,6 +269,10 @@ export function Layout({ children, currentPage }: LayoutProps) {
         {children}
       </main>
 
+      {showSyncStatus && (
+        <SyncStatusPanel onClose={() => setShowSyncStatus(false)} />
+      )}
+
       {showDemoWelcome && (
         <DemoModeWelcomeModal onClose={handleCloseDemoWelcome} />
       )}
@@ -1,49 +1,87 @@
 import { useState, useEffect } from 'react';
 import { X, Plus, Edit2, Trash2, Save } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
+import { useSync } from '../contexts/SyncContext';
+import { useData } from '../contexts/DataContext';
 import { getTodayLocalDate, parseLocalDate } from '../utils/printHelpers';
-import type { Database } from '../lib/database.types';
+import { DOSE_UNITS, TREATMENT_ROUTES, TREATMENT_ROUTE_LABELS, formatTreatmentDetails } from '../utils/medicalRecords';
+import type { TreatmentRoute } from '../lib/database.types';
+import type { Drug, MedicalRecord as MedicalHistory } from '../data/types';
 
-type MedicalHistory = Database['public']['Tables']['medical_history']['Row'];
+function getEmptyFormData() {
+  return {
+    date: getTodayLocalDate(),
+    description: '',
+    drug_name: '',
+    dose: '',
+    dose_units: 'ml',
+    route: '' as TreatmentRoute | '',
+    injection_site: '',
+    lot_number: '',
+    administered_by: '',
+    reason: '',
+  };
+}
 
 interface MedicalHistoryModalProps {
   animalId: string;
   animalName: string;
   ranchId: string;
   onClose: () => void;
-  isDemoMode?: boolean;
 }
 
-export function MedicalHistoryModal({ animalId, animalName, ranchId, onClose, isDemoMode = false }: MedicalHistoryModalProps) {
+export function MedicalHistoryModal({ animalId, animalName, ranchId, onClose }: MedicalHistoryModalProps) {
   const { user } = useAuth();
   const { showToast } = useToast();
+  const { isOnline } = useSync();
+  const { data, handleError } = useData();
   const [records, setRecords] = useState<MedicalHistory[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
-  const [formData, setFormData] = useState({
-    date: getTodayLocalDate(),
-    description: '',
-  });
+  const [drugs, setDrugs] = useState<Drug[]>([]);
+  const [formData, setFormData] = useState(getEmptyFormData());
 
   useEffect(() => {
     fetchRecords();
-  }, [animalId]);
+  }, [animalId, data]);
+
+  useEffect(() => {
+    fetchDrugs();
+  }, [ranchId, data]);
+
+  const fetchDrugs = async () => {
+    try {
+      setDrugs(await data.drugs.list(ranchId));
+    } catch (error) {
+      console.error('Error fetching drugs:', error);
+    }
+  };
+
+  const getTreatmentData = (existing?: MedicalHistory) => {
+    const drugName = formData.drug_name.trim();
+    const matchingDrug = drugs.find(d => d.drug_name.toLowerCase() === drugName.toLowerCase());
+    const dose = formData.dose ? parseFloat(formData.dose) : null;
+
+    return {
+      drug_id: matchingDrug?.id || (existing && existing.drug_name === drugName ? existing.drug_id : null),
+      drug_name: drugName || null,
+      dose: dose !== null && !isNaN(dose) ? dose : null,
+      dose_units: dose !== null && !isNaN(dose) ? formData.dose_units || null : null,
+      route: formData.route || null,
+      injection_site: formData.injection_site.trim() || null,
+      lot_number: formData.lot_number.trim() || null,
+      administered_by: formData.administered_by.trim() || null,
+      reason: formData.reason.trim() || null,
+    };
+  };
 
   const fetchRecords = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('medical_history')
-        .select('*')
-        .eq('animal_id', animalId)
-        .order('date', { ascending: false });
-
-      if (error) throw error;
-      setRecords(data || []);
+      setRecords(await data.medicalHistory.listForAnimal(animalId));
     } catch (error) {
       console.error('Error fetching medical history:', error);
     } finally {
@@ -54,38 +92,27 @@ export function MedicalHistoryModal({ animalId, animalName, ranchId, onClose, is
   const handleAdd = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (isDemoMode) {
-      setShowAddForm(false);
-      setFormData({
-        date: getTodayLocalDate(),
-        description: '',
-      });
-      showToast('Demonstration Mode - Medical record was not added.', 'info');
-      return;
-    }
-
     setSaving(true);
 
     try {
-      const { error } = await supabase.from('medical_history').insert({
+      await data.medicalHistory.create({
         animal_id: animalId,
         ranch_id: ranchId,
         date: formData.date,
         description: formData.description,
+        ...getTreatmentData(),
         created_by_user_id: user?.id || null,
       });
 
-      if (error) throw error;
+      if (!isOnline) {
+        showToast('Saved offline - will sync when back online', 'warning');
+      }
 
       setShowAddForm(false);
-      setFormData({
-        date: getTodayLocalDate(),
-        description: '',
-      });
+      setFormData(getEmptyFormData());
       await fetchRecords();
-    } catch (error: any) {
-      console.error('Error adding medical record:', error);
-      alert(`Failed to add medical record: ${error?.message || 'Unknown error'}`);
+    } catch (error) {
+      handleError(error, 'add medical record');
     } finally {
       setSaving(false);
     }
@@ -95,63 +122,42 @@ export function MedicalHistoryModal({ animalId, animalName, ranchId, onClose, is
     const record = records.find(r => r.id === id);
     if (!record) return;
 
-    if (isDemoMode) {
-      setEditingId(null);
-      setFormData({
-        date: getTodayLocalDate(),
-        description: '',
-      });
-      showToast('Demonstration Mode - Medical record was not updated.', 'info');
-      return;
-    }
-
     setSaving(true);
     try {
-      const { error } = await supabase
-        .from('medical_history')
-        .update({
-          date: formData.date,
-          description: formData.description,
-        })
-        .eq('id', id);
+      await data.medicalHistory.update(id, {
+        date: formData.date,
+        description: formData.description,
+        ...getTreatmentData(record),
+      });
 
-      if (error) throw error;
+      if (!isOnline) {
+        showToast('Saved offline - will sync when back online', 'warning');
+      }
 
       setEditingId(null);
-      setFormData({
-        date: getTodayLocalDate(),
-        description: '',
-      });
+      setFormData(getEmptyFormData());
       await fetchRecords();
-    } catch (error: any) {
-      console.error('Error updating medical record:', error);
-      alert(`Failed to update medical record: ${error?.message || 'Unknown error'}`);
+    } catch (error) {
+      handleError(error, 'update medical record');
     } finally {
       setSaving(false);
     }
   };
 
   const handleDelete = async (id: string) => {
-    if (isDemoMode) {
-      showToast('Demonstration Mode - Medical record was not deleted.', 'info');
-      return;
-    }
-
     if (!confirm('Are you sure you want to delete this medical record?')) {
       return;
     }
 
     try {
-      const { error } = await supabase
-        .from('medical_history')
-        .delete()
-        .eq('id', id);
+      await data.medicalHistory.delete(id);
 
-      if (error) throw error;
+      if (!isOnline) {
+        showToast('Deleted offline - will sync when back online', 'warning');
+      }
       await fetchRecords();
-    } catch (error: any) {
-      console.error('Error deleting medical record:', error);
-      alert(`Failed to delete medical record: ${error?.message || 'Unknown error'}`);
+    } catch (error) {
+      handleError(error, 'delete medical record');
     }
   };
 
@@ -160,22 +166,126 @@ export function MedicalHistoryModal({ animalId, animalName, ranchId, onClose, is
     setFormData({
       date: record.date,
       description: record.description,
+      drug_name: record.drug_name || '',
+      dose: record.dose !== null ? record.dose.toString() : '',
+      dose_units: record.dose_units || 'ml',
+      route: record.route || '',
+      injection_site: record.injection_site || '',
+      lot_number: record.lot_number || '',
+      administered_by: record.administered_by || '',
+      reason: record.reason || '',
     });
     setShowAddForm(false);
   };
 
   const cancelEdit = () => {
     setEditingId(null);
-    setFormData({
-      date: getTodayLocalDate(),
-      description: '',
-    });
+    setFormData(getEmptyFormData());
   };
 
   const formatDate = (date: string) => {
     return parseLocalDate(date).toLocaleDateString();
   };
 
+  const renderTreatmentFields = () => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Drug</label>
+        <input
+          type="text"
+          list="medical-history-drugs"
+          value={formData.drug_name}
+          onChange={(e) => setFormData({ ...formData, drug_name: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          placeholder="Optional"
+        />
+        <datalist id="medical-history-drugs">
+          {drugs.map((drug) => (
+            <option key={drug.id} value={drug.drug_name} />
+          ))}
+        </datalist>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Dose</label>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={formData.dose}
+            onChange={(e) => setFormData({ ...formData, dose: e.target.value })}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+          <select
+            value={formData.dose_units}
+            onChange={(e) => setFormData({ ...formData, dose_units: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          >
+            {DOSE_UNITS.map((unit) => (
+              <option key={unit} value={unit}>{unit}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Route</label>
+        <select
+          value={formData.route}
+          onChange={(e) => setFormData({ ...formData, route: e.target.value as TreatmentRoute | '' })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        >
+          <option value="">Not recorded</option>
+          {TREATMENT_ROUTES.map((r) => (
+            <option key={r} value={r}>{TREATMENT_ROUTE_LABELS[r]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Injection Site</label>
+        <input
+          type="text"
+          value={formData.injection_site}
+          onChange={(e) => setFormData({ ...formData, injection_site: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Lot Number</label>
+        <input
+          type="text"
+          value={formData.lot_number}
+          onChange={(e) => setFormData({ ...formData, lot_number: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Administered By</label>
+        <input
+          type="text"
+          value={formData.administered_by}
+          onChange={(e) => setFormData({ ...formData, administered_by: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+        />
+      </div>
+
+      <div className="md:col-span-2">
+        <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+        <input
+          type="text"
+          value={formData.reason}
+          onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          placeholder="e.g., Pneumonia, Annual vaccination"
+        />
+      </div>
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
@@ -189,10 +299,7 @@ export function MedicalHistoryModal({ animalId, animalName, ranchId, onClose, is
               onClick={() => {
                 setShowAddForm(!showAddForm);
                 setEditingId(null);
-                setFormData({
-                  date: getTodayLocalDate(),
-                  description: '',
-                });
+                setFormData(getEmptyFormData());
               }}
               className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition"
             >
@@ -240,15 +347,14 @@ export function MedicalHistoryModal({ animalId, animalName, ranchId, onClose, is
                   />
                 </div>
 
+                {renderTreatmentFields()}
+
                 <div className="flex justify-end gap-3">
                   <button
                     type="button"
                     onClick={() => {
                       setShowAddForm(false);
-                      setFormData({
-                        date: getTodayLocalDate(),
-                        description: '',
-                      });
+                      setFormData(getEmptyFormData());
                     }}
                     className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
                     disabled={saving}
@@ -311,6 +417,8 @@ export function MedicalHistoryModal({ animalId, animalName, ranchId, onClose, is
                         />
                       </div>
 
+                      {renderTreatmentFields()}
+
                       <div className="flex justify-end gap-3">
                         <button
                           type="button"
@@ -338,6 +446,9 @@ export function MedicalHistoryModal({ animalId, animalName, ranchId, onClose, is
                             <span className="text-sm font-semibold text-gray-900">{formatDate(record.date)}</span>
                           </div>
                           <p className="text-gray-900 whitespace-pre-wrap">{record.description}</p>
+                          {formatTreatmentDetails(record) && (
+                            <p className="text-sm text-gray-600 mt-1">{formatTreatmentDetails(record)}</p>
+                          )}
                         </div>
                         <div className="flex gap-2 ml-4">
                           <button
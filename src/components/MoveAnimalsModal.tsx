@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import { X, MapPin } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useData } from '../contexts/DataContext';
+import { getTodayLocalDate } from '../utils/printHelpers';
+import { getPastureLabel, getPastureName, sortPastures } from '../utils/pastures';
+import type { Pasture } from '../lib/database.types';
+import type { Animal } from '../data/types';
+
+interface MoveAnimalsModalProps {
+  animals: Animal[];
+  pastures: Pasture[];
+  ranchId: string;
+  isDemoMode?: boolean;
+  onClose: () => void;
+  onMoved: () => void;
+}
+
+export function MoveAnimalsModal({ animals, pastures, ranchId, isDemoMode = false, onClose, onMoved }: MoveAnimalsModalProps) {
+  const { showToast } = useToast();
+  const { data, handleError } = useData();
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    to_pasture_id: '',
+    moved_on: getTodayLocalDate(),
+    notes: '',
+  });
+
+  const destination = pastures.find(p => p.id === formData.to_pasture_id);
+  const currentLocations = Array.from(new Set(animals.map(a => a.current_pasture_id)))
+    .map(id => `${getPastureName(id, pastures)} (${animals.filter(a => a.current_pasture_id === id).length})`);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!destination) {
+      showToast('Please choose where the animals are going', 'error');
+      return;
+    }
+
+    if (isDemoMode) {
+      alert(
+        `Demonstration Mode - The following move was not recorded:\n\n${animals.length} animal${animals.length === 1 ? '' : 's'} to ${destination.name} on ${formData.moved_on}`
+      );
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await data.animalMoves.moveAnimals({
+        ranchId,
+        animalIds: animals.map(a => a.id),
+        toPastureId: destination.id,
+        movedOn: formData.moved_on,
+        notes: formData.notes.trim() || null,
+      });
+
+      showToast(`Moved ${animals.length} animal${animals.length === 1 ? '' : 's'} to ${getPastureLabel(destination, pastures)}`, 'success');
+      onMoved();
+      onClose();
+    } catch (error) {
+      handleError(error, 'move animals');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-green-100 p-2 rounded-lg">
+              <MapPin className="w-6 h-6 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Move Animals</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {animals.length} animal{animals.length === 1 ? '' : 's'} from {currentLocations.join(', ')}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {pastures.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No pastures yet. Add pastures from the Ranch page before moving animals.
+            </p>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Move To <span className="text-red-500">*</span>
+              </label>
+              <select
+                value={formData.to_pasture_id}
+                onChange={(e) => setFormData({ ...formData, to_pasture_id: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                required
+              >
+                <option value="">Select a pasture...</option>
+                {sortPastures(pastures).map(pasture => (
+                  <option key={pasture.id} value={pasture.id}>{getPastureLabel(pasture, pastures)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Date <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="date"
+              value={formData.moved_on}
+              onChange={(e) => setFormData({ ...formData, moved_on: e.target.value })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+            <input
+              type="text"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="e.g., Turned out after weaning"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || pastures.length === 0}
+              className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+            >
+              {saving ? 'Moving...' : `Move ${animals.length} Animal${animals.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
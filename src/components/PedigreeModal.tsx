@@ -0,0 +1,228 @@
+import { useState, useMemo } from 'react';
+import { X, GitBranch, AlertTriangle, ArrowLeft } from 'lucide-react';
+import {
+  PEDIGREE_GENERATIONS,
+  buildPedigreeTree,
+  createInbreedingCalculator,
+  formatInbreedingCoefficient,
+  getInbreedingLevel,
+  getMatingCandidates,
+  type PedigreeNode,
+} from '../utils/pedigree';
+import type { Animal } from '../data/types';
+
+interface PedigreeModalProps {
+  animal: Animal;
+  allAnimals: Animal[];
+  onClose: () => void;
+}
+
+const LEVEL_CLASSES = {
+  none: 'bg-gray-100 text-gray-700',
+  low: 'bg-green-100 text-green-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+const MATING_MESSAGES = {
+  none: 'No common ancestors on record.',
+  low: 'These animals share distant ancestors.',
+  warning: 'These animals are related (about first cousins). Consider another mate.',
+  high: 'These animals are closely related (half siblings or closer). Avoid this cross.',
+};
+
+const describeAnimal = (animal: Animal) =>
+  `${animal.tag_number ? `#${animal.tag_number} ` : ''}${animal.name || animal.description || ''}`.trim() || 'Unknown';
+
+// Flattens the tree into one list per generation, keeping empty slots so each column lines up
+// with the parents of the column before it.
+function toGenerationColumns(root: PedigreeNode, generations: number): (PedigreeNode | null)[][] {
+  const columns: (PedigreeNode | null)[][] = [[root]];
+  for (let generation = 1; generation <= generations; generation++) {
+    columns.push(columns[generation - 1].flatMap(node => [node?.sire || null, node?.dam || null]));
+  }
+  return columns;
+}
+
+export function PedigreeModal({ animal, allAnimals, onClose }: PedigreeModalProps) {
+  const [focusId, setFocusId] = useState(animal.id);
+  const [generations, setGenerations] = useState(PEDIGREE_GENERATIONS);
+  const [mateId, setMateId] = useState('');
+
+  const animalsById = useMemo(() => new Map(allAnimals.map(a => [a.id, a])), [allAnimals]);
+  const calculator = useMemo(() => createInbreedingCalculator(allAnimals), [allAnimals]);
+
+  const focus = animalsById.get(focusId) || animal;
+  const tree = useMemo(() => buildPedigreeTree(focus.id, animalsById, generations), [focus.id, animalsById, generations]);
+  const columns = toGenerationColumns(tree, generations);
+  const focusCoefficient = calculator.coefficient(focus.id);
+
+  const mateCandidates = useMemo(
+    () => getMatingCandidates(focus, allAnimals)
+      .filter(a => a.status === 'PRESENT')
+      .map(a => ({ animal: a, coefficient: calculator.kinship(focus.id, a.id) }))
+      .sort((a, b) => a.coefficient - b.coefficient || describeAnimal(a.animal).localeCompare(describeAnimal(b.animal))),
+    [focus, allAnimals, calculator]
+  );
+  const selectedMate = mateCandidates.find(c => c.animal.id === mateId);
+  const mateLevel = selectedMate ? getInbreedingLevel(selectedMate.coefficient) : 'none';
+
+  const changeFocus = (id: string) => {
+    setFocusId(id);
+    setMateId('');
+  };
+
+  const renderCoefficient = (coefficient: number) => (
+    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-semibold ${LEVEL_CLASSES[getInbreedingLevel(coefficient)]}`}>
+      F = {formatInbreedingCoefficient(coefficient)}
+    </span>
+  );
+
+  const renderNode = (node: PedigreeNode | null, generation: number, index: number) => {
+    const role = generation === 0 ? '' : index % 2 === 0 ? 'Sire' : 'Dam';
+
+    if (!node) {
+      return (
+        <div key={index} className="border border-dashed border-gray-200 rounded-lg px-3 py-2 text-xs text-gray-400">
+          {role ? `${role}: unknown` : 'Unknown'}
+        </div>
+      );
+    }
+
+    if (!node.animal) {
+      return (
+        <div key={index} className="border border-gray-200 bg-gray-50 rounded-lg px-3 py-2 text-xs text-gray-500">
+          {role && <span className="font-medium">{role}: </span>}
+          Not in herd records
+        </div>
+      );
+    }
+
+    const nodeAnimal = node.animal;
+    const birthYear = nodeAnimal.birth_date ? nodeAnimal.birth_date.slice(0, 4) : null;
+
+    return (
+      <button
+        key={index}
+        type="button"
+        onClick={() => changeFocus(nodeAnimal.id)}
+        disabled={generation === 0}
+        className={`text-left border rounded-lg px-3 py-2 transition ${
+          generation === 0
+            ? 'border-green-500 bg-green-50 cursor-default'
+            : 'border-gray-300 bg-white hover:border-green-500 hover:bg-green-50'
+        }`}
+        title={generation === 0 ? undefined : 'Show pedigree for this animal'}
+      >
+        {role && <p className="text-xs font-medium text-gray-500">{role}</p>}
+        <p className="text-sm font-semibold text-gray-900 truncate">{describeAnimal(nodeAnimal)}</p>
+        <p className="text-xs text-gray-600">
+          {nodeAnimal.sex}{birthYear && ` · ${birthYear}`}
+        </p>
+        <div className="mt-1">{renderCoefficient(calculator.coefficient(nodeAnimal.id))}</div>
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-6xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <GitBranch className="w-6 h-6 text-green-600" />
+              Pedigree
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">{describeAnimal(focus)}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {focus.id !== animal.id && (
+              <button
+                onClick={() => changeFocus(animal.id)}
+                className="inline-flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 rounded-lg transition"
+              >
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                Back to {describeAnimal(animal)}
+              </button>
+            )}
+            <select
+              value={generations}
+              onChange={(e) => setGenerations(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              {[4, 5, 6].map(count => (
+                <option key={count} value={count}>{count} generations</option>
+              ))}
+            </select>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm font-medium text-gray-700">Inbreeding coefficient:</span>
+            {renderCoefficient(focusCoefficient)}
+            <span className="text-xs text-gray-500">
+              Calculated from every recorded ancestor, not just the generations shown.
+            </span>
+          </div>
+
+          <div className="overflow-x-auto">
+            <div className="flex gap-3 min-w-max">
+              {columns.map((column, generation) => (
+                <div key={generation} className="flex flex-col justify-around gap-2 w-44">
+                  {column.map((node, index) => renderNode(node, generation, index))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-t border-gray-200 pt-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Mating Check</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Shows the inbreeding coefficient offspring of a planned cross with {describeAnimal(focus)} would have.
+            </p>
+
+            {mateCandidates.length === 0 ? (
+              <p className="text-sm text-gray-500">No present animals of the opposite sex to check against.</p>
+            ) : (
+              <div className="space-y-3">
+                <select
+                  value={mateId}
+                  onChange={(e) => setMateId(e.target.value)}
+                  className="w-full md:w-1/2 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  <option value="">Select a mate...</option>
+                  {mateCandidates.map(({ animal: candidate, coefficient }) => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {describeAnimal(candidate)} ({formatInbreedingCoefficient(coefficient)})
+                    </option>
+                  ))}
+                </select>
+
+                {selectedMate && (
+                  <div className={`flex items-start gap-2 rounded-lg p-4 ${LEVEL_CLASSES[mateLevel]}`}>
+                    {(mateLevel === 'warning' || mateLevel === 'high') && (
+                      <AlertTriangle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+                    )}
+                    <div>
+                      <p className="font-semibold">
+                        Offspring inbreeding coefficient: {formatInbreedingCoefficient(selectedMate.coefficient)}
+                      </p>
+                      <p className="text-sm mt-1">{MATING_MESSAGES[mateLevel]}</p>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
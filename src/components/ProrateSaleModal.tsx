@@ -1,10 +1,18 @@
 import { useState } from 'react';
-import { X, DollarSign } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { X, DollarSign, Plus, Trash2 } from 'lucide-react';
 import { useToast } from '../contexts/ToastContext';
-import type { Database } from '../lib/database.types';
+import { useData } from '../contexts/DataContext';
+import { splitAmountEvenly } from '../utils/profitLoss';
+import { calculateCwtValue, getCwtPriceClass, splitAmountByWeight, type CwtPriceClass } from '../utils/saleProceeds';
+import type { Animal } from '../data/types';
 
-type Animal = Database['public']['Tables']['animals']['Row'];
+type ProrateMode = 'EVEN' | 'WEIGHT' | 'CWT';
+
+const PRORATE_MODE_LABELS: Record<ProrateMode, string> = {
+  EVEN: 'Evenly per head',
+  WEIGHT: 'By weight',
+  CWT: 'By price per cwt',
+};
 
 interface ProrateSaleModalProps {
   onClose: () => void;
@@ -14,12 +22,38 @@ interface ProrateSaleModalProps {
 
 export function ProrateSaleModal({ onClose, onSuccess, ranchId }: ProrateSaleModalProps) {
   const { showToast } = useToast();
+  const { data, handleError } = useData();
   const [saleDate, setSaleDate] = useState('');
   const [totalAmount, setTotalAmount] = useState('');
+  const [mode, setMode] = useState<ProrateMode>('EVEN');
+  const [priceClasses, setPriceClasses] = useState([{ minWeight: '0', pricePerCwt: '' }]);
+  const [weights, setWeights] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
   const [previewAnimals, setPreviewAnimals] = useState<Animal[]>([]);
   const [showPreview, setShowPreview] = useState(false);
 
+  const total = parseFloat(totalAmount) || 0;
+  const usesWeight = mode !== 'EVEN';
+
+  const cwtClasses: CwtPriceClass[] = priceClasses
+    .map(c => ({ minWeight: parseFloat(c.minWeight) || 0, pricePerCwt: parseFloat(c.pricePerCwt) }))
+    .filter(c => c.pricePerCwt > 0);
+
+  const animalWeights = previewAnimals.map(a => parseFloat(weights[a.id] || '') || 0);
+  const unweighedCount = usesWeight ? animalWeights.filter(w => w <= 0).length : 0;
+  const cwtValues = mode === 'CWT' ? animalWeights.map(w => (w > 0 ? calculateCwtValue(w, cwtClasses) : null)) : [];
+  const unpricedCount = cwtValues.filter(v => v === null).length;
+  const cwtTotal = cwtValues.reduce<number>((sum, v) => sum + (v || 0), 0);
+
+  // CWT spreads the check in proportion to what each animal brings at its class price, so the shares
+  // equal the cwt prices when the check matches them and absorb any commission when it doesn't
+  const shares = previewAnimals.length === 0 || total <= 0 || unweighedCount > 0 || unpricedCount > 0
+    ? []
+    : mode === 'EVEN'
+      ? splitAmountEvenly(total, previewAnimals.length)
+      : splitAmountByWeight(total, mode === 'WEIGHT' ? animalWeights : (cwtValues as number[]));
+  const sharesTotal = shares.reduce((sum, share) => sum + Math.round(share * 100), 0) / 100;
+
   const handlePreview = async () => {
     if (!saleDate) {
       showToast('Please select a sale date', 'error');
@@ -33,26 +67,24 @@ export function ProrateSaleModal({ onClose, onSuccess, ranchId }: ProrateSaleMod
 
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('animals')
-        .select('*')
-        .eq('ranch_id', ranchId)
-        .eq('status', 'SOLD')
-        .eq('exit_date', saleDate);
+      const sold = (await data.animals.list(ranchId, { status: 'SOLD', includeOther: true }))
+        .filter(a => a.exit_date === saleDate && !a.sale_id);
 
-      if (error) throw error;
-
-      if (!data || data.length === 0) {
-        showToast(`No animals found sold on ${saleDate}`, 'error');
+      if (sold.length === 0) {
+        showToast(`No animals found sold on ${saleDate} outside a recorded sale`, 'error');
         setShowPreview(false);
         return;
       }
 
-      setPreviewAnimals(data);
+      // Prefer the weight the animal sold at, then its latest weigh-in
+      setWeights(Object.fromEntries(sold.map(a => {
+        const weight = a.sale_weight_lbs ?? a.weight_lbs;
+        return [a.id, weight != null ? String(weight) : ''];
+      })));
+      setPreviewAnimals(sold);
       setShowPreview(true);
-    } catch (error: any) {
-      console.error('Error fetching animals:', error);
-      showToast(`Failed to fetch animals: ${error?.message || 'Unknown error'}`, 'error');
+    } catch (error) {
+      handleError(error, 'fetch animals');
     } finally {
       setLoading(false);
     }
@@ -61,39 +93,47 @@ export function ProrateSaleModal({ onClose, onSuccess, ranchId }: ProrateSaleMod
   const handleApply = async () => {
     if (previewAnimals.length === 0) return;
 
-    const total = parseFloat(totalAmount);
-    const pricePerAnimal = total / previewAnimals.length;
+    if (unweighedCount > 0) {
+      showToast(`Enter a weight for ${unweighedCount} animal${unweighedCount !== 1 ? 's' : ''} to prorate by weight`, 'error');
+      return;
+    }
+
+    if (unpricedCount > 0) {
+      showToast('Every animal needs a price per cwt - add a weight class that covers the lightest animals', 'error');
+      return;
+    }
+
+    if (shares.length !== previewAnimals.length) return;
 
     setLoading(true);
     try {
-      const updates = previewAnimals.map(animal => ({
+      const updates = previewAnimals.map((animal, i) => ({
         id: animal.id,
-        sale_price: pricePerAnimal
+        sale_price: shares[i],
+        sale_weight_lbs: usesWeight ? animalWeights[i] : animal.sale_weight_lbs,
       }));
 
       for (const update of updates) {
-        const { error } = await supabase
-          .from('animals')
-          .update({ sale_price: update.sale_price })
-          .eq('id', update.id);
-
-        if (error) throw error;
+        await data.animals.update(update.id, { sale_price: update.sale_price, sale_weight_lbs: update.sale_weight_lbs });
       }
 
       showToast(`Successfully prorated $${total.toFixed(2)} across ${previewAnimals.length} animals`, 'success');
       onSuccess();
       onClose();
-    } catch (error: any) {
-      console.error('Error updating sale prices:', error);
-      showToast(`Failed to update sale prices: ${error?.message || 'Unknown error'}`, 'error');
+    } catch (error) {
+      handleError(error, 'update sale prices');
     } finally {
       setLoading(false);
     }
   };
 
+  const updatePriceClass = (index: number, field: 'minWeight' | 'pricePerCwt', value: string) => {
+    setPriceClasses(priceClasses.map((c, i) => (i === index ? { ...c, [field]: value } : c)));
+  };
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
-      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="bg-green-100 p-2 rounded-lg">
@@ -102,7 +142,7 @@ export function ProrateSaleModal({ onClose, onSuccess, ranchId }: ProrateSaleMod
             <div>
               <h2 className="text-2xl font-bold text-gray-900">Prorate Sale</h2>
               <p className="text-sm text-gray-600 mt-1">
-                Distribute total sale amount across all animals sold on a specific date
+                Distribute total sale amount across animals sold on a specific date that aren't part of a recorded sale
               </p>
             </div>
           </div>
@@ -120,8 +160,8 @@ export function ProrateSaleModal({ onClose, onSuccess, ranchId }: ProrateSaleMod
             <ol className="text-sm text-blue-800 space-y-1 list-decimal list-inside">
               <li>Select the date when animals were sold</li>
               <li>Enter the total check amount received</li>
-              <li>Preview which animals will be updated</li>
-              <li>Apply to evenly distribute the amount across all animals</li>
+              <li>Choose how to split it: evenly, by weight, or by price per cwt for each weight class</li>
+              <li>Preview each animal's share, then apply</li>
             </ol>
           </div>
 
@@ -155,10 +195,7 @@ export function ProrateSaleModal({ onClose, onSuccess, ranchId }: ProrateSaleMod
                   step="0.01"
                   min="0"
                   value={totalAmount}
-                  onChange={(e) => {
-                    setTotalAmount(e.target.value);
-                    setShowPreview(false);
-                  }}
+                  onChange={(e) => setTotalAmount(e.target.value)}
                   placeholder="0.00"
                   className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   required
@@ -166,6 +203,66 @@ export function ProrateSaleModal({ onClose, onSuccess, ranchId }: ProrateSaleMod
               </div>
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Prorate</label>
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as ProrateMode)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                {Object.entries(PRORATE_MODE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {mode === 'CWT' && (
+              <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <h3 className="text-sm font-medium text-gray-700">Weight Classes</h3>
+                {priceClasses.map((priceClass, i) => (
+                  <div key={i} className="flex items-center gap-2 text-sm">
+                    <span className="text-gray-600">From</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={priceClass.minWeight}
+                      onChange={(e) => updatePriceClass(i, 'minWeight', e.target.value)}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                    <span className="text-gray-600">lbs at $</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={priceClass.pricePerCwt}
+                      onChange={(e) => updatePriceClass(i, 'pricePerCwt', e.target.value)}
+                      placeholder="0.00"
+                      className="w-28 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                    <span className="text-gray-600">/cwt</span>
+                    {priceClasses.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setPriceClasses(priceClasses.filter((_, j) => j !== i))}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                        title="Remove weight class"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setPriceClasses([...priceClasses, { minWeight: '', pricePerCwt: '' }])}
+                  className="inline-flex items-center text-sm text-green-700 hover:text-green-800 font-medium"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Weight Class
+                </button>
+              </div>
+            )}
+
             <button
               type="button"
               onClick={handlePreview}
@@ -183,50 +280,101 @@ export function ProrateSaleModal({ onClose, onSuccess, ranchId }: ProrateSaleMod
               </h3>
 
               <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-4">
-                <div className="text-sm text-green-800">
-                  <div className="flex justify-between mb-1">
+                <div className="text-sm text-green-800 space-y-1">
+                  <div className="flex justify-between">
                     <span className="font-medium">Total Amount:</span>
-                    <span className="font-bold">${parseFloat(totalAmount).toFixed(2)}</span>
+                    <span className="font-bold">${total.toFixed(2)}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="font-medium">Price Per Animal:</span>
-                    <span className="font-bold">
-                      ${(parseFloat(totalAmount) / previewAnimals.length).toFixed(2)}
-                    </span>
+                    <span className="font-medium">Total of Shares:</span>
+                    <span className="font-bold">{shares.length > 0 ? `$${sharesTotal.toFixed(2)}` : '-'}</span>
                   </div>
+                  {usesWeight && (
+                    <div className="flex justify-between">
+                      <span className="font-medium">Total Weight:</span>
+                      <span className="font-bold">{animalWeights.reduce((sum, w) => sum + w, 0).toLocaleString()} lbs</span>
+                    </div>
+                  )}
+                  {mode === 'CWT' && unpricedCount === 0 && Math.abs(cwtTotal - total) >= 0.005 && (
+                    <p className="text-xs pt-1">
+                      The weight class prices come to ${cwtTotal.toFixed(2)}; the ${Math.abs(cwtTotal - total).toFixed(2)} difference
+                      is spread in proportion to each animal's value.
+                    </p>
+                  )}
                 </div>
               </div>
 
-              <div className="space-y-2 max-h-60 overflow-y-auto">
-                {previewAnimals.map(animal => (
-                  <div
-                    key={animal.id}
-                    className="flex items-center justify-between p-3 bg-white rounded border border-gray-200"
-                  >
-                    <div className="flex-1">
-                      <div className="font-medium text-gray-900">
-                        {animal.tag_number ? `Tag #${animal.tag_number}` : 'No Tag'}
-                        {animal.name && ` - ${animal.name}`}
-                      </div>
-                      <div className="text-sm text-gray-600">
-                        {animal.sex} • Exit Date: {animal.exit_date}
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-sm text-gray-500">Will be set to:</div>
-                      <div className="font-semibold text-green-600">
-                        ${(parseFloat(totalAmount) / previewAnimals.length).toFixed(2)}
-                      </div>
-                    </div>
-                  </div>
-                ))}
+              {unweighedCount > 0 && (
+                <p className="text-sm text-red-600 mb-3">
+                  Enter a weight for {unweighedCount} animal{unweighedCount !== 1 ? 's' : ''} to prorate by weight.
+                </p>
+              )}
+              {unweighedCount === 0 && unpricedCount > 0 && (
+                <p className="text-sm text-red-600 mb-3">
+                  {unpricedCount} animal{unpricedCount !== 1 ? 's are' : ' is'} lighter than every weight class with a price.
+                </p>
+              )}
+
+              <div className="max-h-72 overflow-y-auto border border-gray-200 rounded bg-white">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-700">Animal</th>
+                      {usesWeight && <th className="px-3 py-2 text-left font-medium text-gray-700">Weight (lbs)</th>}
+                      {mode === 'CWT' && <th className="px-3 py-2 text-right font-medium text-gray-700">$/cwt</th>}
+                      {mode === 'CWT' && <th className="px-3 py-2 text-right font-medium text-gray-700">Value</th>}
+                      <th className="px-3 py-2 text-right font-medium text-gray-700">Share</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {previewAnimals.map((animal, i) => {
+                      const priceClass = mode === 'CWT' && animalWeights[i] > 0 ? getCwtPriceClass(animalWeights[i], cwtClasses) : null;
+                      return (
+                        <tr key={animal.id}>
+                          <td className="px-3 py-2">
+                            <div className="font-medium text-gray-900">
+                              {animal.tag_number ? `Tag #${animal.tag_number}` : 'No Tag'}
+                              {animal.name && ` - ${animal.name}`}
+                            </div>
+                            <div className="text-xs text-gray-600">{animal.sex}</div>
+                          </td>
+                          {usesWeight && (
+                            <td className="px-3 py-2">
+                              <input
+                                type="number"
+                                step="0.1"
+                                min="0"
+                                value={weights[animal.id] || ''}
+                                onChange={(e) => setWeights({ ...weights, [animal.id]: e.target.value })}
+                                className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                              />
+                            </td>
+                          )}
+                          {mode === 'CWT' && (
+                            <td className="px-3 py-2 text-right text-gray-700">
+                              {priceClass ? `$${priceClass.pricePerCwt.toFixed(2)}` : '-'}
+                            </td>
+                          )}
+                          {mode === 'CWT' && (
+                            <td className="px-3 py-2 text-right text-gray-700">
+                              {cwtValues[i] != null ? `$${cwtValues[i]!.toFixed(2)}` : '-'}
+                            </td>
+                          )}
+                          <td className="px-3 py-2 text-right font-semibold text-green-600">
+                            {shares.length > 0 ? `$${shares[i].toFixed(2)}` : '-'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
               </div>
 
               <div className="mt-4 pt-4 border-t border-gray-200">
                 <button
                   type="button"
                   onClick={handleApply}
-                  disabled={loading}
+                  disabled={loading || shares.length === 0}
                   className="w-full px-4 py-3 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white font-semibold rounded-lg transition shadow-md hover:shadow-lg"
                 >
                   {loading ? 'Applying...' : `Apply Prorated Prices to ${previewAnimals.length} Animals`}
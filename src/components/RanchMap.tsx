@@ -0,0 +1,274 @@
+import { useRef, useState } from 'react';
+import { Plus, Minus, Maximize2 } from 'lucide-react';
+import { createProjection, getBounds, type MapFeature, type MapGeometry, type Position } from '../utils/mapGeometry';
+
+interface RanchMapProps {
+  features: MapFeature[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+}
+
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 500;
+const MAP_PADDING = 32;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 32;
+
+const FEET_PER_METER = 3.28084;
+const FEET_PER_MILE = 5280;
+const SCALE_BAR_TARGET = 120;
+const SCALE_BAR_STEPS_FEET = [50, 100, 250, 500, 1000, 2640];
+const SCALE_BAR_STEPS_MILES = [1, 2, 5, 10, 25, 50, 100];
+
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const INITIAL_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+// Picks a round distance close to the target bar length, in feet under a mile and miles above
+function getScaleBar(metersPerUnit: number): { width: number; label: string } {
+  const targetFeet = SCALE_BAR_TARGET * metersPerUnit * FEET_PER_METER;
+  if (targetFeet < FEET_PER_MILE) {
+    const feet = SCALE_BAR_STEPS_FEET.filter(step => step <= targetFeet).pop() ?? SCALE_BAR_STEPS_FEET[0];
+    return {
+      width: feet / FEET_PER_METER / metersPerUnit,
+      label: feet === 2640 ? '½ mi' : `${feet} ft`,
+    };
+  }
+
+  const miles = SCALE_BAR_STEPS_MILES.filter(step => step * FEET_PER_MILE <= targetFeet).pop() || 1;
+  return {
+    width: (miles * FEET_PER_MILE) / FEET_PER_METER / metersPerUnit,
+    label: `${miles} mi`,
+  };
+}
+
+export function RanchMap({ features, selectedId, onSelect }: RanchMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const dragRef = useRef<{ clientX: number; clientY: number; view: View; moved: boolean } | null>(null);
+
+  const bounds = getBounds(features.map(f => f.geometry));
+
+  if (!bounds) {
+    return (
+      <div className="flex items-center justify-center h-64 border border-dashed border-gray-300 rounded-lg bg-gray-50">
+        <p className="text-sm text-gray-500">Nothing to map yet - import a GeoJSON or KML file to add shapes</p>
+      </div>
+    );
+  }
+
+  const { project, metersPerUnit } = createProjection(bounds, MAP_WIDTH, MAP_HEIGHT, MAP_PADDING);
+  const scaleBar = getScaleBar(metersPerUnit / view.zoom);
+
+  const toPath = (positions: Position[], closed: boolean) =>
+    positions.map((p, i) => `${i === 0 ? 'M' : 'L'}${project(p).map(n => n.toFixed(1)).join(' ')}`).join(' ') + (closed ? ' Z' : '');
+
+  const geometryPath = (geometry: MapGeometry): string => {
+    switch (geometry.type) {
+      case 'LineString':
+        return toPath(geometry.coordinates, false);
+      case 'MultiLineString':
+        return geometry.coordinates.map(line => toPath(line, false)).join(' ');
+      case 'Polygon':
+        return geometry.coordinates.map(ring => toPath(ring, true)).join(' ');
+      case 'MultiPolygon':
+        return geometry.coordinates.flat().map(ring => toPath(ring, true)).join(' ');
+      default:
+        return '';
+    }
+  };
+
+  // Labels sit at the middle of the pasture's outer ring
+  const labelPoint = (geometry: MapGeometry): [number, number] => {
+    const ring = geometry.type === 'Polygon' ? geometry.coordinates[0]
+      : geometry.type === 'MultiPolygon' ? geometry.coordinates[0][0]
+      : [];
+    const points = ring.map(project);
+    return [
+      points.reduce((sum, p) => sum + p[0], 0) / (points.length || 1),
+      points.reduce((sum, p) => sum + p[1], 0) / (points.length || 1),
+    ];
+  };
+
+  const zoomBy = (factor: number) => {
+    setView(current => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom * factor));
+      // Keep the middle of the map where it is
+      const cx = MAP_WIDTH / 2;
+      const cy = MAP_HEIGHT / 2;
+      return {
+        zoom,
+        x: cx - ((cx - current.x) * zoom) / current.zoom,
+        y: cy - ((cy - current.y) * zoom) / current.zoom,
+      };
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { clientX: e.clientX, clientY: e.clientY, view, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !svgRef.current) return;
+
+    const unitsPerPixel = MAP_WIDTH / svgRef.current.getBoundingClientRect().width;
+    const dx = (e.clientX - drag.clientX) * unitsPerPixel;
+    const dy = (e.clientY - drag.clientY) * unitsPerPixel;
+    if (!drag.moved && Math.hypot(dx, dy) < 3) return;
+
+    drag.moved = true;
+    setView({ ...drag.view, x: drag.view.x + dx, y: drag.view.y + dy });
+  };
+
+  const handlePointerUp = () => {
+    // A click without a drag on empty ground clears the selection
+    if (dragRef.current && !dragRef.current.moved) onSelect(null);
+    dragRef.current = null;
+  };
+
+  const handleFeatureClick = (e: React.PointerEvent, id: string) => {
+    if (dragRef.current?.moved) return;
+    e.stopPropagation();
+    dragRef.current = null;
+    onSelect(id);
+  };
+
+  const pastures = features.filter(f => f.kind === 'pasture');
+  const fences = features.filter(f => f.kind === 'fence');
+  const points = features.filter(f => f.kind === 'infrastructure');
+
+  return (
+    <div className="relative border border-gray-200 rounded-lg overflow-hidden bg-stone-50">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+        className="w-full h-auto cursor-grab active:cursor-grabbing touch-none select-none"
+        role="img"
+        aria-label="Ranch map"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => { dragRef.current = null; }}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.zoom})`}>
+          {pastures.map(feature => (
+            <path
+              key={feature.id}
+              d={geometryPath(feature.geometry)}
+              fill={feature.id === selectedId ? '#fde68a' : '#bbf7d0'}
+              fillOpacity={0.6}
+              fillRule="evenodd"
+              stroke={feature.id === selectedId ? '#b45309' : '#15803d'}
+              strokeWidth={feature.id === selectedId ? 3 : 1.5}
+              vectorEffect="non-scaling-stroke"
+              className="cursor-pointer"
+              onPointerUp={(e) => handleFeatureClick(e, feature.id)}
+            >
+              <title>{feature.name}</title>
+            </path>
+          ))}
+
+          {fences.map(feature => (
+            <path
+              key={feature.id}
+              d={geometryPath(feature.geometry)}
+              fill="none"
+              stroke={feature.id === selectedId ? '#dc2626' : '#78350f'}
+              strokeWidth={feature.id === selectedId ? 4 : 2.5}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              vectorEffect="non-scaling-stroke"
+              className="cursor-pointer"
+              onPointerUp={(e) => handleFeatureClick(e, feature.id)}
+            >
+              <title>{feature.name}</title>
+            </path>
+          ))}
+
+          {pastures.map(feature => {
+            const [x, y] = labelPoint(feature.geometry);
+            return (
+              <text
+                key={`label-${feature.id}`}
+                x={x}
+                y={y}
+                textAnchor="middle"
+                fontSize={12 / view.zoom}
+                fontWeight="600"
+                fill="#14532d"
+                pointerEvents="none"
+              >
+                {feature.name}
+              </text>
+            );
+          })}
+
+          {points.map(feature => {
+            if (feature.geometry.type !== 'Point') return null;
+            const [x, y] = project(feature.geometry.coordinates);
+            const selected = feature.id === selectedId;
+            return (
+              <g
+                key={feature.id}
+                className="cursor-pointer"
+                onPointerUp={(e) => handleFeatureClick(e, feature.id)}
+              >
+                <title>{feature.name}</title>
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={(selected ? 8 : 6) / view.zoom}
+                  fill={selected ? '#dc2626' : '#2563eb'}
+                  stroke="#ffffff"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <text
+                  x={x + 10 / view.zoom}
+                  y={y + 4 / view.zoom}
+                  fontSize={11 / view.zoom}
+                  fill="#1e3a8a"
+                  pointerEvents="none"
+                >
+                  {feature.name}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+
+        <g transform={`translate(16 ${MAP_HEIGHT - 20})`} pointerEvents="none">
+          <rect x={-6} y={-22} width={scaleBar.width + 12} height={30} fill="#ffffff" fillOpacity={0.8} rx={4} />
+          <line x1={0} x2={scaleBar.width} y1={0} y2={0} stroke="#374151" strokeWidth={2} />
+          <line x1={0} x2={0} y1={-5} y2={0} stroke="#374151" strokeWidth={2} />
+          <line x1={scaleBar.width} x2={scaleBar.width} y1={-5} y2={0} stroke="#374151" strokeWidth={2} />
+          <text x={scaleBar.width / 2} y={-8} textAnchor="middle" fontSize="11" fill="#374151">
+            {scaleBar.label}
+          </text>
+        </g>
+
+        <g transform={`translate(${MAP_WIDTH - 28} 36)`} pointerEvents="none">
+          <path d="M0 -16 L7 4 L0 0 L-7 4 Z" fill="#374151" />
+          <text y={18} textAnchor="middle" fontSize="12" fontWeight="700" fill="#374151">N</text>
+        </g>
+      </svg>
+
+      <div className="absolute top-3 left-3 flex flex-col bg-white border border-gray-300 rounded-lg shadow-sm overflow-hidden">
+        <button onClick={() => zoomBy(2)} className="p-2 hover:bg-gray-100 transition" title="Zoom in">
+          <Plus className="w-4 h-4" />
+        </button>
+        <button onClick={() => zoomBy(0.5)} className="p-2 hover:bg-gray-100 border-t border-gray-200 transition" title="Zoom out">
+          <Minus className="w-4 h-4" />
+        </button>
+        <button onClick={() => setView(INITIAL_VIEW)} className="p-2 hover:bg-gray-100 border-t border-gray-200 transition" title="Show everything">
+          <Maximize2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
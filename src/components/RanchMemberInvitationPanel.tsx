@@ -7,9 +7,10 @@ import {
   getRanchInvitations,
   deleteInvitation,
   type Invitation,
+  type InvitationRole,
 } from '../utils/invitations';
 
-const AVAILABLE_ROLES = [
+const AVAILABLE_ROLES: { value: InvitationRole; label: string; description: string }[] = [
   { value: 'MANAGER', label: 'Manager', description: 'Can manage ranch and invite users' },
   { value: 'RANCHHAND', label: 'Ranch Hand', description: 'Can manage animals and records' },
   { value: 'VIEWER', label: 'Viewer', description: 'Can view data only' },
@@ -24,7 +25,7 @@ export function RanchMemberInvitationPanel() {
   const [creating, setCreating] = useState(false);
   const [showForm, setShowForm] = useState(false);
 
-  const [selectedRole, setSelectedRole] = useState('RANCHHAND');
+  const [selectedRole, setSelectedRole] = useState<InvitationRole>('RANCHHAND');
   const [restrictedEmail, setRestrictedEmail] = useState('');
   const [expiresInDays, setExpiresInDays] = useState('7');
 
@@ -149,7 +150,7 @@ export function RanchMemberInvitationPanel() {
             </label>
             <select
               value={selectedRole}
-              onChange={(e) => setSelectedRole(e.target.value)}
+              onChange={(e) => setSelectedRole(e.target.value as InvitationRole)}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
               required
             >
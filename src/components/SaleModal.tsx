@@ -0,0 +1,339 @@
+import { useState } from 'react';
+import { X, DollarSign, AlertTriangle } from 'lucide-react';
+import { useToast } from '../contexts/ToastContext';
+import { useData } from '../contexts/DataContext';
+import { getTodayLocalDate, formatDateForDisplay } from '../utils/printHelpers';
+import { isWithinWithdrawal } from '../utils/withdrawal';
+import {
+  SALE_DEDUCTIONS,
+  SALE_SPLIT_METHOD_LABELS,
+  calculateSaleNet,
+  splitSaleProceeds,
+  type SaleDeduction,
+} from '../utils/saleProceeds';
+import type { Sale } from '../lib/database.types';
+import type { Animal } from '../data/types';
+
+interface SaleModalProps {
+  animals: Animal[];
+  ranchId: string;
+  isDemoMode?: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function SaleModal({ animals, ranchId, isDemoMode = false, onClose, onSaved }: SaleModalProps) {
+  const { showToast } = useToast();
+  const { data, handleError } = useData();
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    sale_date: getTodayLocalDate(),
+    buyer: '',
+    sale_barn: '',
+    gross_amount: '',
+    commission: '',
+    yardage: '',
+    checkoff: '',
+    trucking: '',
+    notes: '',
+  });
+  const [splitMethod, setSplitMethod] = useState<Sale['split_method']>('EVEN');
+  const [weights, setWeights] = useState<Record<string, string>>(() =>
+    Object.fromEntries(animals.map(a => [a.id, a.weight_lbs != null ? String(a.weight_lbs) : '']))
+  );
+  const [manualPrices, setManualPrices] = useState<Record<string, string>>({});
+  const [overrideReason, setOverrideReason] = useState('');
+
+  const parseAmount = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+  const gross = parseAmount(formData.gross_amount) || 0;
+  const net = calculateSaleNet({
+    gross_amount: gross,
+    ...Object.fromEntries(SALE_DEDUCTIONS.map(({ key }) => [key, parseAmount(formData[key]) || 0])) as Record<SaleDeduction, number>,
+  });
+  const entries = animals.map(a => ({
+    weight: parseAmount(weights[a.id] || ''),
+    manualPrice: splitMethod === 'MANUAL' ? parseAmount(manualPrices[a.id] || '') : null,
+  }));
+  const split = splitSaleProceeds(net, splitMethod, entries);
+  const totalWeight = entries.reduce((sum, e) => sum + (e.weight || 0), 0);
+
+  const alreadySold = animals.filter(a => a.sale_id || a.status === 'DEAD' || a.status === 'BUTCHERED');
+  const inWithdrawal = animals.filter(a => isWithinWithdrawal(a.meat_withdrawal_clear_date, formData.sale_date));
+
+  const getAnimalLabel = (animal: Animal) =>
+    [animal.tag_number ? `#${animal.tag_number}` : null, animal.name].filter(Boolean).join(' - ') || 'Unknown';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (gross <= 0) {
+      showToast('Please enter the gross amount of the sale', 'error');
+      return;
+    }
+
+    if (alreadySold.length > 0) {
+      showToast(`${alreadySold.map(getAnimalLabel).join(', ')} can't be added to this sale`, 'error');
+      return;
+    }
+
+    if (split.problem) {
+      showToast(split.problem, 'error');
+      return;
+    }
+
+    if (inWithdrawal.length > 0 && !overrideReason.trim()) {
+      showToast('Enter a reason to sell animals that are still within their withdrawal period', 'error');
+      return;
+    }
+
+    if (isDemoMode) {
+      alert(
+        `Demonstration Mode - The following sale was not added:\n\nDate: ${formData.sale_date}\nNet: $${net.toFixed(2)}\nAnimals: ${animals.length}`
+      );
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await data.sales.record({
+        ranchId,
+        saleDate: formData.sale_date,
+        grossAmount: gross,
+        commission: parseAmount(formData.commission) || 0,
+        yardage: parseAmount(formData.yardage) || 0,
+        checkoff: parseAmount(formData.checkoff) || 0,
+        trucking: parseAmount(formData.trucking) || 0,
+        splitMethod,
+        animalIds: animals.map(a => a.id),
+        salePrices: split.shares,
+        saleWeights: entries.map(e => e.weight || 0),
+        buyer: formData.buyer.trim() || null,
+        saleBarn: formData.sale_barn.trim() || null,
+        notes: formData.notes.trim() || null,
+        withdrawalOverrideReason: inWithdrawal.length > 0 ? overrideReason.trim() : null,
+      });
+
+      showToast(`Recorded sale of ${animals.length} animal${animals.length === 1 ? '' : 's'} - print the sale sheet from Reports`, 'success');
+      onSaved();
+      onClose();
+    } catch (error) {
+      handleError(error, 'record sale');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+  const renderMoneyInput = (field: 'gross_amount' | SaleDeduction, label: string, required = false) => (
+    <div key={field}>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label} {required && <span className="text-red-500">*</span>}
+      </label>
+      <div className="relative">
+        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">$</span>
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={formData[field]}
+          onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+          placeholder="0.00"
+          className="w-full pl-8 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          required={required}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-green-100 p-2 rounded-lg">
+              <DollarSign className="w-6 h-6 text-green-600" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Record Sale</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Marks the selected animals sold and splits the net check across them
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Sale Date <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                value={formData.sale_date}
+                onChange={(e) => setFormData({ ...formData, sale_date: e.target.value })}
+                className={inputClassName}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Buyer</label>
+              <input
+                type="text"
+                value={formData.buyer}
+                onChange={(e) => setFormData({ ...formData, buyer: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Sale Barn</label>
+              <input
+                type="text"
+                value={formData.sale_barn}
+                onChange={(e) => setFormData({ ...formData, sale_barn: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {renderMoneyInput('gross_amount', 'Gross', true)}
+            {SALE_DEDUCTIONS.map(({ key, label }) => renderMoneyInput(key, label))}
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="md:w-1/3">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Split Net Proceeds</label>
+              <select
+                value={splitMethod}
+                onChange={(e) => setSplitMethod(e.target.value as Sale['split_method'])}
+                className={inputClassName}
+              >
+                {Object.entries(SALE_SPLIT_METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex-1 bg-green-50 border border-green-200 rounded-lg px-4 py-2 text-sm text-green-800">
+              <span className="font-medium">Net Proceeds:</span>{' '}
+              <span className="font-bold">${net.toFixed(2)}</span>
+              {totalWeight > 0 && ` • ${totalWeight.toLocaleString()} lbs total`}
+            </div>
+          </div>
+
+          {alreadySold.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+              Already part of a sale, dead or butchered: {alreadySold.map(getAnimalLabel).join(', ')}
+            </div>
+          )}
+
+          {inWithdrawal.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 space-y-2">
+              <div className="flex items-start gap-2 text-sm text-yellow-800">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  Not clear for sale on {formatDateForDisplay(formData.sale_date)}:{' '}
+                  {inWithdrawal.map(a => `${getAnimalLabel(a)} (until ${formatDateForDisplay(a.meat_withdrawal_clear_date)})`).join(', ')}
+                </span>
+              </div>
+              <input
+                type="text"
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                placeholder="Reason for selling during the withdrawal period"
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">Animal</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">Sex</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-700">Sale Weight (lbs)</th>
+                  {splitMethod === 'MANUAL' && (
+                    <th className="px-4 py-2 text-left font-medium text-gray-700">Manual Price</th>
+                  )}
+                  <th className="px-4 py-2 text-right font-medium text-gray-700">Share</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {animals.map((animal, i) => (
+                  <tr key={animal.id}>
+                    <td className="px-4 py-2 text-gray-900">{getAnimalLabel(animal)}</td>
+                    <td className="px-4 py-2 text-gray-600">{animal.sex}</td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={weights[animal.id] || ''}
+                        onChange={(e) => setWeights({ ...weights, [animal.id]: e.target.value })}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      />
+                    </td>
+                    {splitMethod === 'MANUAL' && (
+                      <td className="px-4 py-2">
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={manualPrices[animal.id] || ''}
+                          onChange={(e) => setManualPrices({ ...manualPrices, [animal.id]: e.target.value })}
+                          placeholder="Split rest"
+                          className="w-28 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                        />
+                      </td>
+                    )}
+                    <td className="px-4 py-2 text-right font-semibold text-green-700">
+                      {split.shares.length > 0 ? `$${split.shares[i].toFixed(2)}` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {split.problem && <p className="text-sm text-red-600">{split.problem}</p>}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : `Record Sale of ${animals.length} Animal${animals.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { X, RefreshCw } from 'lucide-react';
+import { useSync } from '../contexts/SyncContext';
+import { useData } from '../contexts/DataContext';
+import type { OfflineTable, QueuedMutation } from '../lib/offlineStore';
+
+interface SyncStatusPanelProps {
+  onClose: () => void;
+}
+
+const TABLE_LABELS: Record<OfflineTable, string> = {
+  animals: 'Animal',
+  medical_history: 'Medical record',
+  fences: 'Fence',
+  fence_inspections: 'Fence inspection',
+  pastures: 'Pasture',
+  grazing_plans: 'Grazing plan',
+  ranch_settings: 'Ranch settings',
+};
+
+const OPERATION_LABELS: Record<QueuedMutation['operation'], string> = {
+  insert: 'added',
+  update: 'edited',
+  delete: 'deleted',
+};
+
+function describeMutation(mutation: QueuedMutation): string {
+  const payload = mutation.payload as Record<string, string | null | undefined>;
+  const label = payload.tag_number || payload.name || payload.description || mutation.record_id.slice(0, 8);
+  return `${TABLE_LABELS[mutation.table]} ${label} ${OPERATION_LABELS[mutation.operation]}`;
+}
+
+export function SyncStatusPanel({ onClose }: SyncStatusPanelProps) {
+  const { isOnline, syncing, pendingCount, conflicts, lastSyncedAt, syncNow, resolveConflict } = useSync();
+  const { handleError } = useData();
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+
+  const handleResolve = async (mutation: QueuedMutation, keep: 'mine' | 'theirs') => {
+    setResolvingId(mutation.id!);
+    try {
+      await resolveConflict(mutation, keep);
+    } catch (error) {
+      handleError(error, 'resolve sync conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Sync Status</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="text-sm text-gray-700 space-y-1">
+            <p>
+              <span className="font-medium">Connection:</span> {isOnline ? 'Online' : 'Offline - edits are saved on this device'}
+            </p>
+            <p>
+              <span className="font-medium">Waiting to sync:</span> {pendingCount} edit{pendingCount === 1 ? '' : 's'}
+            </p>
+            <p>
+              <span className="font-medium">Last synced:</span>{' '}
+              {lastSyncedAt ? new Date(lastSyncedAt).toLocaleString() : 'Never on this device'}
+            </p>
+          </div>
+
+          <button
+            onClick={syncNow}
+            disabled={!isOnline || syncing}
+            className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+            {syncing ? 'Syncing...' : 'Sync Now'}
+          </button>
+
+          {conflicts.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="font-semibold text-gray-900">Needs Review</h3>
+              {conflicts.map(mutation => (
+                <div key={mutation.id} className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm">
+                  <p className="font-medium text-gray-900">{describeMutation(mutation)}</p>
+                  <p className="text-gray-600">Saved offline {new Date(mutation.queued_at).toLocaleString()}</p>
+                  <p className="text-red-700 mt-1">{mutation.error}</p>
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      onClick={() => handleResolve(mutation, 'mine')}
+                      disabled={resolvingId !== null || !isOnline}
+                      className="px-3 py-1 bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 rounded transition disabled:opacity-50"
+                    >
+                      Keep Mine
+                    </button>
+                    <button
+                      onClick={() => handleResolve(mutation, 'theirs')}
+                      disabled={resolvingId !== null}
+                      className="px-3 py-1 bg-white border border-gray-300 hover:bg-gray-50 text-gray-800 rounded transition disabled:opacity-50"
+                    >
+                      {mutation.status === 'conflict' ? 'Keep Theirs' : 'Discard'}
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+import { useState, useEffect } from 'react';
+import { X, Plus, Edit2, Trash2, Save } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { ANIMAL_TYPES, type AnimalType } from '../utils/animalTypes';
+import { TREATMENT_ROUTES, TREATMENT_ROUTE_LABELS } from '../utils/medicalRecords';
+import type { ProtocolDrug } from '../utils/treatmentProtocols';
+import type { TreatmentRoute } from '../lib/database.types';
+import type { TreatmentProtocol, TreatmentProtocolItem } from '../data/types';
+
+interface TreatmentProtocolsModalProps {
+  drugs: ProtocolDrug[];
+  ranchId: string;
+  onClose: () => void;
+}
+
+interface ItemForm {
+  drug_id: string;
+  route: TreatmentRoute | '';
+  injection_site: string;
+}
+
+const emptyItem = (): ItemForm => ({
+  drug_id: '',
+  route: '',
+  injection_site: '',
+});
+
+const emptyForm = () => ({
+  name: '',
+  animal_type: 'Cattle' as AnimalType,
+  notes: '',
+  items: [emptyItem()],
+});
+
+export function TreatmentProtocolsModal({ drugs, ranchId, onClose }: TreatmentProtocolsModalProps) {
+  const { data, handleError } = useData();
+  const [protocols, setProtocols] = useState<TreatmentProtocol[]>([]);
+  const [items, setItems] = useState<TreatmentProtocolItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+
+  useEffect(() => {
+    fetchProtocols();
+  }, [ranchId, data]);
+
+  const fetchProtocols = async () => {
+    setLoading(true);
+    try {
+      const protocolData = await data.treatmentProtocols.list(ranchId);
+      setItems(await data.treatmentProtocols.listItems(protocolData.map(p => p.id)));
+      setProtocols(protocolData);
+    } catch (error) {
+      console.error('Error fetching treatment protocols:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setShowAddForm(false);
+    setEditingId(null);
+    setFormData(emptyForm());
+  };
+
+  const getDrugName = (drugId: string) => drugs.find(d => d.id === drugId)?.drug_name || 'Unknown drug';
+
+  const updateItem = (index: number, changes: Partial<ItemForm>) => {
+    setFormData({
+      ...formData,
+      items: formData.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent, protocol?: TreatmentProtocol) => {
+    e.preventDefault();
+
+    const chosenItems = formData.items.filter(item => item.drug_id);
+    if (!formData.name.trim()) {
+      alert('Protocol name is required');
+      return;
+    }
+    if (chosenItems.length === 0) {
+      alert('Add at least one drug to the protocol');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const protocolData = {
+        name: formData.name.trim(),
+        animal_type: formData.animal_type,
+        notes: formData.notes.trim() || null,
+      };
+
+      const itemData = chosenItems.map(item => ({
+        drug_id: item.drug_id,
+        route: item.route || null,
+        injection_site: item.injection_site.trim() || null,
+      }));
+
+      if (protocol) {
+        await data.treatmentProtocols.update(protocol.id, protocolData, itemData);
+      } else {
+        await data.treatmentProtocols.create({ ...protocolData, ranch_id: ranchId }, itemData);
+      }
+
+      resetForm();
+      await fetchProtocols();
+    } catch (error) {
+      handleError(error, 'save protocol');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this protocol? Treatments already given will not be affected.')) {
+      return;
+    }
+
+    try {
+      await data.treatmentProtocols.delete(id);
+      await fetchProtocols();
+    } catch (error) {
+      handleError(error, 'delete protocol');
+    }
+  };
+
+  const startEdit = (protocol: TreatmentProtocol) => {
+    const protocolItems = items.filter(item => item.protocol_id === protocol.id);
+    setEditingId(protocol.id);
+    setShowAddForm(false);
+    setFormData({
+      name: protocol.name,
+      animal_type: (protocol.animal_type || 'Cattle') as AnimalType,
+      notes: protocol.notes || '',
+      items: protocolItems.length > 0
+        ? protocolItems.map(item => ({
+            drug_id: item.drug_id,
+            route: item.route || '',
+            injection_site: item.injection_site || '',
+          }))
+        : [emptyItem()],
+    });
+  };
+
+  const renderForm = (protocol?: TreatmentProtocol) => {
+    const typeDrugs = drugs.filter(d => (d.animal_type || 'Cattle') === formData.animal_type);
+
+    return (
+      <form onSubmit={(e) => handleSubmit(e, protocol)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Protocol Name <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="e.g., Spring branding"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Animal Type</label>
+            <select
+              value={formData.animal_type}
+              onChange={(e) => setFormData({ ...formData, animal_type: e.target.value as AnimalType, items: [emptyItem()] })}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            >
+              {ANIMAL_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Drugs <span className="text-red-500">*</span>
+          </label>
+          {typeDrugs.length === 0 ? (
+            <p className="text-sm text-gray-500">No {formData.animal_type} drugs defined. Add drugs in Drugs & Medications first.</p>
+          ) : (
+            <div className="space-y-2">
+              {formData.items.map((item, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1.5fr_1.5fr_auto] gap-2">
+                  <select
+                    value={item.drug_id}
+                    onChange={(e) => updateItem(index, { drug_id: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    <option value="">Select a drug...</option>
+                    {typeDrugs.map(drug => (
+                      <option key={drug.id} value={drug.id}>
+                        {drug.ccs_per_pound !== null
+                          ? `${drug.drug_name} (${drug.ccs_per_pound} ml/lb)`
+                          : drug.fixed_dose_ml !== null
+                          ? `${drug.drug_name} (${drug.fixed_dose_ml} ml)`
+                          : drug.drug_name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={item.route}
+                    onChange={(e) => updateItem(index, { route: e.target.value as TreatmentRoute | '' })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    <option value="">Route...</option>
+                    {TREATMENT_ROUTES.map(r => (
+                      <option key={r} value={r}>{TREATMENT_ROUTE_LABELS[r]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    value={item.injection_site}
+                    onChange={(e) => updateItem(index, { injection_site: e.target.value })}
+                    placeholder="Injection site"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, items: formData.items.filter((_, i) => i !== index) })}
+                    disabled={formData.items.length === 1}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition disabled:opacity-30"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, items: [...formData.items, emptyItem()] })}
+                className="inline-flex items-center px-3 py-1 text-sm text-green-700 hover:bg-green-50 rounded transition"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Drug
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+          <textarea
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            rows={2}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={resetForm}
+            className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+            disabled={saving}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center px-6 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : protocol ? 'Save' : 'Add Protocol'}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Treatment Protocols</h2>
+            <p className="text-sm text-gray-600 mt-1">Named groups of drugs given together, such as a branding or weaning workup</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => {
+                setShowAddForm(!showAddForm);
+                setEditingId(null);
+                setFormData(emptyForm());
+              }}
+              className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Protocol
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          {showAddForm && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">New Protocol</h3>
+              {renderForm()}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-green-600 border-t-transparent"></div>
+              <p className="text-gray-600 mt-4">Loading protocols...</p>
+            </div>
+          ) : protocols.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-600">No protocols defined</p>
+              <p className="text-sm text-gray-500 mt-2">Click "New Protocol" to group drugs that are given together</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {protocols.map((protocol) => (
+                <div key={protocol.id} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  {editingId === protocol.id ? (
+                    renderForm(protocol)
+                  ) : (
+                    <div className="flex justify-between items-start">
+                      <div className="flex-1 text-sm">
+                        <div>
+                          <span className="font-semibold text-gray-900">{protocol.name}</span>{' '}
+                          <span className="text-gray-600">({protocol.animal_type})</span>
+                        </div>
+                        <ul className="mt-2 space-y-1 list-disc list-inside text-gray-700">
+                          {items
+                            .filter(item => item.protocol_id === protocol.id)
+                            .map(item => (
+                              <li key={item.id}>
+                                {[
+                                  getDrugName(item.drug_id),
+                                  item.route ? TREATMENT_ROUTE_LABELS[item.route] : null,
+                                  item.injection_site ? `Site: ${item.injection_site}` : null,
+                                ].filter(Boolean).join(', ')}
+                              </li>
+                            ))}
+                        </ul>
+                        {protocol.notes && (
+                          <div className="mt-2 text-gray-700 whitespace-pre-wrap">{protocol.notes}</div>
+                        )}
+                      </div>
+                      <div className="flex gap-2 ml-4">
+                        <button
+                          onClick={() => startEdit(protocol)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                          title="Edit"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(protocol.id)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
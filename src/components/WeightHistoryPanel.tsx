@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Scale } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useData } from '../contexts/DataContext';
+import { getTodayLocalDate, parseLocalDate } from '../utils/printHelpers';
+import {
+  sortWeightRecords,
+  calculateWeightGains,
+  calculateOverallAverageDailyGain,
+} from '../utils/weightHistory';
+import type { WeightRecord } from '../data/types';
+
+interface WeightHistoryPanelProps {
+  animalId: string;
+  ranchId: string;
+  onWeightChange: () => void;
+  isReadOnly?: boolean;
+  isDemoMode?: boolean;
+}
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 220;
+const CHART_PADDING = { top: 16, right: 16, bottom: 32, left: 56 };
+
+export function WeightHistoryPanel({ animalId, ranchId, onWeightChange, isReadOnly = false, isDemoMode = false }: WeightHistoryPanelProps) {
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { data, handleError } = useData();
+  const [records, setRecords] = useState<WeightRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    weigh_date: getTodayLocalDate(),
+    weight_lbs: '',
+    notes: '',
+  });
+
+  useEffect(() => {
+    fetchRecords();
+  }, [animalId, data]);
+
+  const fetchRecords = async () => {
+    setLoading(true);
+    try {
+      setRecords(await data.weights.listForAnimal(animalId));
+    } catch (error) {
+      console.error('Error fetching weight history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setShowAddForm(false);
+    setFormData({
+      weigh_date: getTodayLocalDate(),
+      weight_lbs: '',
+      notes: '',
+    });
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const weight = parseFloat(formData.weight_lbs);
+    if (isNaN(weight) || weight < 1 || weight > 6000) {
+      showToast('Please enter a valid weight between 1 and 6000 lbs', 'error');
+      return;
+    }
+
+    if (isDemoMode) {
+      resetForm();
+      showToast('Demonstration Mode - Weigh-in was not added.', 'warning');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await data.weights.create({
+        animal_id: animalId,
+        ranch_id: ranchId,
+        weigh_date: formData.weigh_date,
+        weight_lbs: weight,
+        notes: formData.notes || null,
+        created_by_user_id: user?.id || null,
+      });
+
+      resetForm();
+      await fetchRecords();
+      onWeightChange();
+      showToast('Weigh-in recorded', 'success');
+    } catch (error) {
+      handleError(error, 'add weigh-in');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (isDemoMode) {
+      showToast('Demonstration Mode - Weigh-in was not deleted.', 'warning');
+      return;
+    }
+
+    if (!confirm('Are you sure you want to delete this weigh-in?')) {
+      return;
+    }
+
+    try {
+      await data.weights.delete(id);
+
+      await fetchRecords();
+      onWeightChange();
+    } catch (error) {
+      handleError(error, 'delete weigh-in');
+    }
+  };
+
+  const formatDate = (date: string) => {
+    return parseLocalDate(date).toLocaleDateString();
+  };
+
+  const formatGain = (value: number) => {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+  };
+
+  const sortedRecords = sortWeightRecords(records);
+  const gains = calculateWeightGains(records);
+  const overallAdg = calculateOverallAverageDailyGain(records);
+
+  const renderChart = () => {
+    if (sortedRecords.length < 2) return null;
+
+    const times = sortedRecords.map(r => parseLocalDate(r.weigh_date).getTime());
+    const weights = sortedRecords.map(r => Number(r.weight_lbs));
+    const minTime = Math.min(...times);
+    const maxTime = Math.max(...times);
+    const minWeight = Math.min(...weights);
+    const maxWeight = Math.max(...weights);
+    const weightPad = Math.max((maxWeight - minWeight) * 0.1, 10);
+    const yMin = Math.max(0, minWeight - weightPad);
+    const yMax = maxWeight + weightPad;
+
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+
+    const x = (time: number) =>
+      CHART_PADDING.left + (maxTime === minTime ? plotWidth / 2 : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+    const y = (weight: number) =>
+      CHART_PADDING.top + plotHeight - ((weight - yMin) / (yMax - yMin)) * plotHeight;
+
+    const points = sortedRecords.map((_, i) => `${x(times[i])},${y(weights[i])}`).join(' ');
+    const gridWeights = [yMin, (yMin + yMax) / 2, yMax];
+
+    return (
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto bg-white border border-gray-200 rounded-lg"
+        role="img"
+        aria-label="Weight growth curve"
+      >
+        {gridWeights.map((w) => (
+          <g key={w}>
+            <line
+              x1={CHART_PADDING.left}
+              x2={CHART_WIDTH - CHART_PADDING.right}
+              y1={y(w)}
+              y2={y(w)}
+              stroke="#e5e7eb"
+              strokeDasharray="4 4"
+            />
+            <text x={CHART_PADDING.left - 8} y={y(w) + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+              {Math.round(w)}
+            </text>
+          </g>
+        ))}
+        <text x={x(minTime)} y={CHART_HEIGHT - 10} textAnchor="start" fontSize="11" fill="#6b7280">
+          {formatDate(sortedRecords[0].weigh_date)}
+        </text>
+        <text x={x(maxTime)} y={CHART_HEIGHT - 10} textAnchor="end" fontSize="11" fill="#6b7280">
+          {formatDate(sortedRecords[sortedRecords.length - 1].weigh_date)}
+        </text>
+        <polyline points={points} fill="none" stroke="#16a34a" strokeWidth="2.5" />
+        {sortedRecords.map((record, i) => (
+          <circle key={record.id} cx={x(times[i])} cy={y(weights[i])} r="4" fill="#16a34a">
+            <title>{`${formatDate(record.weigh_date)}: ${Number(record.weight_lbs)} lbs`}</title>
+          </circle>
+        ))}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Scale className="w-5 h-5 text-green-600" />
+          Weight History
+        </h3>
+        {(!isReadOnly || isDemoMode) && !showAddForm && (
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="inline-flex items-center px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Weigh-In
+          </button>
+        )}
+      </div>
+
+      {showAddForm && (
+        <form onSubmit={handleAdd} className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input
+                type="date"
+                value={formData.weigh_date}
+                onChange={(e) => setFormData({ ...formData, weigh_date: e.target.value })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Weight (lbs)</label>
+              <input
+                type="number"
+                step="0.1"
+                min="1"
+                max="6000"
+                value={formData.weight_lbs}
+                onChange={(e) => setFormData({ ...formData, weight_lbs: e.target.value })}
+                placeholder="Enter weight in pounds"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+            <input
+              type="text"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              placeholder="e.g., Scale at weaning, tape estimate"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Weigh-In'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-gray-600 text-sm">Loading weight history...</p>
+      ) : sortedRecords.length === 0 ? (
+        <p className="text-gray-600 text-sm">No weigh-ins on record</p>
+      ) : (
+        <div className="space-y-4">
+          {renderChart()}
+
+          {overallAdg !== null && (
+            <p className="text-sm text-gray-700">
+              <span className="font-medium">Average daily gain (first to latest weigh-in):</span>{' '}
+              {formatGain(overallAdg)} lbs/day
+            </p>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 pr-4 font-medium">Weight</th>
+                  <th className="py-2 pr-4 font-medium">Gain</th>
+                  <th className="py-2 pr-4 font-medium">ADG</th>
+                  <th className="py-2 pr-4 font-medium">Notes</th>
+                  {!isReadOnly && <th className="py-2 font-medium"></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {[...sortedRecords].reverse().map((record) => {
+                  const gain = gains.find(g => g.recordId === record.id);
+                  return (
+                    <tr key={record.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDate(record.weigh_date)}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">{Number(record.weight_lbs)} lbs</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {gain ? `${formatGain(gain.gainLbs)} lbs in ${gain.days} days` : '-'}
+                      </td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        {gain?.averageDailyGain != null ? `${formatGain(gain.averageDailyGain)} lbs/day` : '-'}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{record.notes || ''}</td>
+                      {!isReadOnly && (
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => handleDelete(record.id)}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                            title="Delete weigh-in"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { createContext, useContext, useMemo, useCallback, ReactNode } from 'react';
+import { useRanch } from './RanchContext';
+import { useToast } from './ToastContext';
+import { useSync } from './SyncContext';
+import { createDataStore, type CachedDataStore } from '../data/dataStore';
+import { getErrorToast, isDemoModeError } from '../data/errors';
+import type { DataStore } from '../data/types';
+
+interface DataContextType {
+  data: CachedDataStore;
+  // Shows the right toast for a failed data call; `action` completes "Failed to ..."
+  handleError: (error: unknown, action: string) => void;
+}
+
+const DataContext = createContext<DataContextType | undefined>(undefined);
+
+export function DataProvider({ children, store }: { children: ReactNode; store?: DataStore }) {
+  const { isDemoMode, currentRanch } = useRanch();
+  const { showToast } = useToast();
+  const { isOnline, queueMutation } = useSync();
+  const ranchId = currentRanch?.id;
+
+  // A new store per ranch also drops anything cached for the previous ranch
+  const data = useMemo(
+    () => createDataStore({
+      isDemoMode,
+      store,
+      offline: ranchId ? { ranchId, isOnline, queueMutation } : undefined,
+    }),
+    [isDemoMode, store, ranchId, isOnline, queueMutation]
+  );
+
+  const handleError = useCallback((error: unknown, action: string) => {
+    if (!isDemoModeError(error)) {
+      console.error(`Error trying to ${action}:`, error);
+    }
+    const toast = getErrorToast(error, action);
+    showToast(toast.message, toast.type);
+  }, [showToast]);
+
+  return (
+    <DataContext.Provider value={{ data, handleError }}>
+      {children}
+    </DataContext.Provider>
+  );
+}
+
+export function useData() {
+  const context = useContext(DataContext);
+  if (context === undefined) {
+    throw new Error('useData must be used within a DataProvider');
+  }
+  return context;
+}
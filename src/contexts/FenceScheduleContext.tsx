@@ -0,0 +1,57 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useRanch } from './RanchContext';
+import { useData } from './DataContext';
+import { getFenceCheckStatuses, isFenceOverdue } from '../utils/fenceSchedule';
+import { getTodayInTimeZone } from '../utils/printHelpers';
+
+interface FenceScheduleContextType {
+  overdueFenceCount: number;
+  // Call after saving a fence or inspection so the nav badge stays current
+  refreshOverdueFences: () => Promise<void>;
+}
+
+const FenceScheduleContext = createContext<FenceScheduleContextType | undefined>(undefined);
+
+export function FenceScheduleProvider({ children }: { children: ReactNode }) {
+  const { currentRanch } = useRanch();
+  const { data } = useData();
+  const [overdueFenceCount, setOverdueFenceCount] = useState(0);
+  const ranchId = currentRanch?.id;
+
+  const refreshOverdueFences = useCallback(async () => {
+    if (!ranchId) {
+      setOverdueFenceCount(0);
+      return;
+    }
+
+    try {
+      const [fences, inspections, settings] = await Promise.all([
+        data.fences.list(ranchId),
+        data.fenceInspections.listForRanch(ranchId),
+        data.settings.get(ranchId),
+      ]);
+      const today = getTodayInTimeZone(settings?.time_zone);
+      setOverdueFenceCount(getFenceCheckStatuses(fences, inspections, today).filter(isFenceOverdue).length);
+    } catch (error) {
+      console.error('Error loading fence schedule:', error);
+    }
+  }, [ranchId, data]);
+
+  useEffect(() => {
+    refreshOverdueFences();
+  }, [refreshOverdueFences]);
+
+  return (
+    <FenceScheduleContext.Provider value={{ overdueFenceCount, refreshOverdueFences }}>
+      {children}
+    </FenceScheduleContext.Provider>
+  );
+}
+
+export function useFenceSchedule() {
+  const context = useContext(FenceScheduleContext);
+  if (context === undefined) {
+    throw new Error('useFenceSchedule must be used within a FenceScheduleProvider');
+  }
+  return context;
+}
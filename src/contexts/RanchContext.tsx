@@ -3,6 +3,7 @@ import { supabase } from '../lib/supabase';
 import { useAuth } from './AuthContext';
 import type { Database } from '../lib/database.types';
 import { checkLicenseStatus, type LicenseInfo } from '../utils/licenseEnforcement';
+import { isNetworkError } from '../utils/offlineSync';
 
 type Ranch = Database['public']['Tables']['ranches']['Row'];
 type UserRanch = Database['public']['Tables']['user_ranches']['Row'];
@@ -22,6 +23,8 @@ interface RanchContextType {
 
 const RanchContext = createContext<RanchContextType | undefined>(undefined);
 
+const CACHED_RANCHES_KEY = 'cachedUserRanches';
+
 export function RanchProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth();
   const [currentRanch, setCurrentRanch] = useState<Ranch | null>(null);
@@ -55,25 +58,36 @@ export function RanchProvider({ children }: { children: ReactNode }) {
         ranch: ur.ranch as unknown as Ranch
       }));
 
-      setUserRanches(ranches);
-
-      const savedRanchId = localStorage.getItem('currentRanchId');
-      if (savedRanchId && ranches.find(r => r.ranch_id === savedRanchId)) {
-        const ranch = ranches.find(r => r.ranch_id === savedRanchId);
-        setCurrentRanch(ranch?.ranch || null);
-        setCurrentUserRole(ranch?.role || null);
-      } else if (ranches.length > 0) {
-        setCurrentRanch(ranches[0].ranch);
-        setCurrentUserRole(ranches[0].role);
-        localStorage.setItem('currentRanchId', ranches[0].ranch_id);
-      }
+      localStorage.setItem(`${CACHED_RANCHES_KEY}:${user.id}`, JSON.stringify(ranches));
+      applyUserRanches(ranches);
     } catch (error) {
-      console.error('Error fetching ranches:', error);
+      const cached = localStorage.getItem(`${CACHED_RANCHES_KEY}:${user.id}`);
+      if (isNetworkError(error) && cached) {
+        applyUserRanches(JSON.parse(cached));
+      } else {
+        console.error('Error fetching ranches:', error);
+      }
     } finally {
       setLoading(false);
     }
   };
 
+  // Last list fetched is kept so the app can still open a ranch when started without signal
+  const applyUserRanches = (ranches: (UserRanch & { ranch: Ranch })[]) => {
+    setUserRanches(ranches);
+
+    const savedRanchId = localStorage.getItem('currentRanchId');
+    if (savedRanchId && ranches.find(r => r.ranch_id === savedRanchId)) {
+      const ranch = ranches.find(r => r.ranch_id === savedRanchId);
+      setCurrentRanch(ranch?.ranch || null);
+      setCurrentUserRole(ranch?.role || null);
+    } else if (ranches.length > 0) {
+      setCurrentRanch(ranches[0].ranch);
+      setCurrentUserRole(ranches[0].role);
+      localStorage.setItem('currentRanchId', ranches[0].ranch_id);
+    }
+  };
+
   useEffect(() => {
     const demoMode = user?.email === 'demo@example.com';
     setIsDemoMode(demoMode);
@@ -0,0 +1,118 @@
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { useRanch } from './RanchContext';
+import {
+  isOfflineStoreAvailable,
+  getQueuedMutations,
+  type QueuedMutation,
+} from '../lib/offlineStore';
+import {
+  cacheRanchData,
+  getLastSyncedAt,
+  queueOfflineMutation,
+  replayQueuedMutations,
+  resolveQueuedMutation,
+  isNetworkError,
+  type OfflineMutationInput,
+} from '../utils/offlineSync';
+
+interface SyncContextType {
+  isOnline: boolean;
+  syncing: boolean;
+  pendingCount: number;
+  conflicts: QueuedMutation[];
+  lastSyncedAt: string | null;
+  syncNow: () => Promise<void>;
+  queueMutation: (mutation: Omit<OfflineMutationInput, 'ranchId'>) => Promise<void>;
+  resolveConflict: (mutation: QueuedMutation, keep: 'mine' | 'theirs') => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function SyncProvider({ children }: { children: ReactNode }) {
+  const { currentRanch } = useRanch();
+  const [isOnline, setIsOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+
+  const ranchId = currentRanch?.id || null;
+
+  const refreshQueue = useCallback(async () => {
+    if (!ranchId || !isOfflineStoreAvailable()) return;
+    setQueue(await getQueuedMutations(ranchId));
+    setLastSyncedAt(await getLastSyncedAt(ranchId));
+  }, [ranchId]);
+
+  const syncNow = useCallback(async () => {
+    if (!ranchId || !isOfflineStoreAvailable() || !navigator.onLine) return;
+
+    setSyncing(true);
+    try {
+      const result = await replayQueuedMutations(ranchId);
+      if (!result.stoppedOffline) {
+        await cacheRanchData(ranchId);
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        setIsOnline(false);
+      } else {
+        console.error('Error syncing offline data:', error);
+      }
+    } finally {
+      await refreshQueue();
+      setSyncing(false);
+    }
+  }, [ranchId, refreshQueue]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    refreshQueue();
+    if (isOnline) {
+      syncNow();
+    }
+  }, [ranchId, isOnline, refreshQueue, syncNow]);
+
+  const queueMutation = useCallback(async (mutation: Omit<OfflineMutationInput, 'ranchId'>) => {
+    if (!ranchId) throw new Error('No ranch selected');
+    await queueOfflineMutation({ ...mutation, ranchId });
+    await refreshQueue();
+  }, [ranchId, refreshQueue]);
+
+  const resolveConflict = async (mutation: QueuedMutation, keep: 'mine' | 'theirs') => {
+    await resolveQueuedMutation(mutation, keep);
+    await syncNow();
+  };
+
+  return (
+    <SyncContext.Provider value={{
+      isOnline,
+      syncing,
+      pendingCount: queue.filter(m => m.status === 'pending').length,
+      conflicts: queue.filter(m => m.status !== 'pending'),
+      lastSyncedAt,
+      syncNow,
+      queueMutation,
+      resolveConflict,
+    }}>
+      {children}
+    </SyncContext.Provider>
+  );
+}
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
@@ -0,0 +1,127 @@
+import { createDataError } from './errors';
+import { withOfflineSupport, type OfflineOptions } from './offline';
+import { createSupabaseDataStore } from './supabaseStore';
+import type { DataStore } from './types';
+
+// Ranch settings, drugs and custom field definitions are read by most screens and rarely
+// change, so reads are shared for a short while instead of hitting the database each time.
+const CACHE_TTL_MS = 60 * 1000;
+
+export interface CachedDataStore extends DataStore {
+  clearCache: () => void;
+}
+
+interface CacheEntry {
+  expires: number;
+  value: Promise<unknown>;
+}
+
+export function withCache(store: DataStore): CachedDataStore {
+  const entries = new Map<string, CacheEntry>();
+
+  const cached = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+    const entry = entries.get(key);
+    if (entry && entry.expires > Date.now()) {
+      return entry.value as Promise<T>;
+    }
+
+    const value = load();
+    entries.set(key, { expires: Date.now() + CACHE_TTL_MS, value });
+    value.catch(() => entries.delete(key));
+    return value;
+  };
+
+  // Drops every entry starting with `prefix` once the write settles, so a read made while
+  // the write was in flight can't put the old value back
+  const invalidating = async <T>(prefix: string, write: Promise<T>): Promise<T> => {
+    try {
+      return await write;
+    } finally {
+      for (const key of [...entries.keys()]) {
+        if (key.startsWith(prefix)) entries.delete(key);
+      }
+    }
+  };
+
+  return {
+    ...store,
+    drugs: {
+      list: ranchId => cached(`drugs:${ranchId}`, () => store.drugs.list(ranchId)),
+      create: drug => invalidating('drugs:', store.drugs.create(drug)),
+      update: (id, updates) => invalidating('drugs:', store.drugs.update(id, updates)),
+      delete: id => invalidating('drugs:', store.drugs.delete(id)),
+    },
+    customFields: {
+      ...store.customFields,
+      listDefinitions: ranchId =>
+        cached(`custom_field_definitions:${ranchId}`, () => store.customFields.listDefinitions(ranchId)),
+      createDefinition: field =>
+        invalidating('custom_field_definitions:', store.customFields.createDefinition(field)),
+      updateDefinition: (id, updates) =>
+        invalidating('custom_field_definitions:', store.customFields.updateDefinition(id, updates)),
+      deleteDefinition: id => invalidating('custom_field_definitions:', store.customFields.deleteDefinition(id)),
+    },
+    settings: {
+      get: ranchId => cached(`settings:${ranchId}`, () => store.settings.get(ranchId)),
+      create: ranchId => invalidating(`settings:${ranchId}`, store.settings.create(ranchId)),
+      update: (ranchId, updates) => invalidating(`settings:${ranchId}`, store.settings.update(ranchId, updates)),
+    },
+    clearCache: () => entries.clear(),
+  };
+}
+
+// Reads pass through; every write is rejected with a DEMO_MODE error so screens don't each
+// need their own demonstration-mode check before saving.
+export function withDemoMode<T extends DataStore>(store: T): T {
+  const blocked = async (): Promise<never> => {
+    throw createDataError('DEMO_MODE', 'Demonstration Mode - changes were not saved.');
+  };
+
+  return {
+    ...store,
+    animals: { ...store.animals, create: blocked, update: blocked, delete: blocked },
+    medicalHistory: { ...store.medicalHistory, create: blocked, update: blocked, delete: blocked },
+    breeding: { ...store.breeding, create: blocked, update: blocked, delete: blocked },
+    drugLots: { ...store.drugLots, create: blocked, update: blocked, delete: blocked },
+    treatmentProtocols: { ...store.treatmentProtocols, create: blocked, update: blocked, delete: blocked, apply: blocked },
+    fences: { ...store.fences, create: blocked, update: blocked, delete: blocked },
+    fenceInspections: {
+      ...store.fenceInspections,
+      create: blocked,
+      update: blocked,
+      delete: blocked,
+      uploadPhoto: blocked,
+      deletePhoto: blocked,
+    },
+    pastures: { ...store.pastures, create: blocked, update: blocked, delete: blocked },
+    animalMoves: { ...store.animalMoves, moveAnimals: blocked },
+    grazingPlans: { ...store.grazingPlans, create: blocked, update: blocked, delete: blocked },
+    weights: { ...store.weights, create: blocked, delete: blocked },
+    withdrawalOverrides: { create: blocked },
+    expenses: { ...store.expenses, record: blocked, delete: blocked },
+    sales: { ...store.sales, record: blocked, delete: blocked },
+    photos: { ...store.photos, upload: blocked, delete: blocked },
+    drugs: { ...store.drugs, create: blocked, update: blocked, delete: blocked },
+    customFields: {
+      ...store.customFields,
+      createDefinition: blocked,
+      updateDefinition: blocked,
+      deleteDefinition: blocked,
+      saveValues: blocked,
+    },
+    settings: { ...store.settings, create: blocked, update: blocked },
+  };
+}
+
+export interface DataStoreOptions {
+  isDemoMode: boolean;
+  // Defaults to the Supabase store; pass a memory store to run without a database
+  store?: DataStore;
+  offline?: OfflineOptions;
+}
+
+export function createDataStore({ isDemoMode, store, offline }: DataStoreOptions): CachedDataStore {
+  const base = store || createSupabaseDataStore();
+  const cached = withCache(offline ? withOfflineSupport(base, offline) : base);
+  return isDemoMode ? withDemoMode(cached) : cached;
+}
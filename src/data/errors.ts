@@ -0,0 +1,68 @@
+import type { ToastType } from '../components/Toast';
+
+export type DataErrorCode =
+  | 'DEMO_MODE'
+  | 'NOT_FOUND'
+  | 'DUPLICATE'
+  | 'PERMISSION'
+  | 'NETWORK'
+  | 'TIMEOUT'
+  | 'UNKNOWN';
+
+export interface DataError extends Error {
+  code: DataErrorCode;
+  cause?: unknown;
+}
+
+export function createDataError(code: DataErrorCode, message: string, cause?: unknown): DataError {
+  return Object.assign(new Error(message), { name: 'DataError', code, cause });
+}
+
+export function isDataError(error: unknown): error is DataError {
+  return error instanceof Error && (error as DataError).name === 'DataError';
+}
+
+export function isDemoModeError(error: unknown): boolean {
+  return isDataError(error) && error.code === 'DEMO_MODE';
+}
+
+// Normalize Supabase/PostgREST/storage/fetch errors so callers only deal with DataError
+export function toDataError(error: unknown): DataError {
+  if (isDataError(error)) return error;
+
+  const details: { message?: unknown; code?: unknown; status?: unknown } =
+    error && typeof error === 'object' ? error : {};
+  const message = typeof details.message === 'string' && details.message ? details.message : 'Unknown error';
+
+  if (details.code === '23505') return createDataError('DUPLICATE', message, error);
+  if (details.code === '42501' || details.status === 401 || details.status === 403) {
+    return createDataError('PERMISSION', message, error);
+  }
+  if (details.code === 'PGRST116') return createDataError('NOT_FOUND', message, error);
+  if (/timeout/i.test(message)) return createDataError('TIMEOUT', message, error);
+  if (error instanceof TypeError || /failed to fetch|networkerror|network request failed|load failed/i.test(message)) {
+    return createDataError('NETWORK', message, error);
+  }
+
+  return createDataError('UNKNOWN', message, error);
+}
+
+// `action` completes the sentence "Failed to ...", e.g. 'save animal'
+export function getErrorToast(error: unknown, action: string): { message: string; type: ToastType } {
+  const dataError = toDataError(error);
+
+  switch (dataError.code) {
+    case 'DEMO_MODE':
+      return { message: dataError.message, type: 'warning' };
+    case 'NETWORK':
+      return { message: `Failed to ${action}: check your internet connection and try again`, type: 'error' };
+    case 'PERMISSION':
+      return { message: `Failed to ${action}: you do not have permission to make this change`, type: 'error' };
+    case 'DUPLICATE':
+      return { message: `Failed to ${action}: a matching record already exists`, type: 'error' };
+    case 'NOT_FOUND':
+      return { message: `Failed to ${action}: the record no longer exists`, type: 'error' };
+    default:
+      return { message: `Failed to ${action}: ${dataError.message}`, type: 'error' };
+  }
+}
@@ -0,0 +1,1042 @@
+import { selectLotForAdministration } from '../utils/drugInventory';
+import { calculateProtocolDose } from '../utils/treatmentProtocols';
+import { calculateWithdrawalClearDate, laterClearDate } from '../utils/withdrawal';
+import { createDataError } from './errors';
+import type {
+  Animal,
+  AnimalMove,
+  AnimalPhoto,
+  BreedingRecord,
+  CustomField,
+  CustomFieldValue,
+  DataStore,
+  Drug,
+  DrugLot,
+  Expense,
+  ExpenseAllocation,
+  Fence,
+  FenceInspection,
+  FenceInspectionPhoto,
+  GrazingPlan,
+  MedicalRecord,
+  Pasture,
+  RanchSettings,
+  Sale,
+  TreatmentProtocol,
+  TreatmentProtocolItem,
+  User,
+  WeightRecord,
+  WithdrawalOverride,
+} from './types';
+
+// In-memory DataStore with the same filtering, ordering and error behaviour as the
+// Supabase store, for exercising data logic without a database.
+
+export interface MemoryData {
+  animals: Animal[];
+  medicalHistory: MedicalRecord[];
+  breeding: BreedingRecord[];
+  drugs: Drug[];
+  drugLots: DrugLot[];
+  treatmentProtocols: TreatmentProtocol[];
+  treatmentProtocolItems: TreatmentProtocolItem[];
+  fences: Fence[];
+  fenceInspections: FenceInspection[];
+  fenceInspectionPhotos: FenceInspectionPhoto[];
+  pastures: Pasture[];
+  animalMoves: AnimalMove[];
+  grazingPlans: GrazingPlan[];
+  weights: WeightRecord[];
+  withdrawalOverrides: WithdrawalOverride[];
+  expenses: Expense[];
+  expenseAllocations: ExpenseAllocation[];
+  sales: Sale[];
+  photos: AnimalPhoto[];
+  customFieldDefinitions: CustomField[];
+  customFieldValues: CustomFieldValue[];
+  users: User[];
+  settings: RanchSettings[];
+}
+
+const now = () => new Date().toISOString();
+
+function notFound(): never {
+  throw createDataError('NOT_FOUND', 'Record not found');
+}
+
+// Postgres sorts nulls last in ascending order unless the query asks for nullsFirst
+function compareNullable(a: string | null, b: string | null, nullsFirst = false): number {
+  if (a === null) return b === null ? 0 : nullsFirst ? -1 : 1;
+  if (b === null) return nullsFirst ? 1 : -1;
+  return a.localeCompare(b);
+}
+
+function updateById<T extends { id: string; updated_at: string | null }>(rows: T[], id: string, updates: Partial<T>): T {
+  const index = rows.findIndex(row => row.id === id);
+  if (index === -1) notFound();
+  rows[index] = { ...rows[index], ...updates, id, updated_at: now() };
+  return { ...rows[index] };
+}
+
+function removeWhere<T>(rows: T[], predicate: (row: T) => boolean) {
+  for (let i = rows.length - 1; i >= 0; i--) {
+    if (predicate(rows[i])) rows.splice(i, 1);
+  }
+}
+
+export function createMemoryDataStore(seed: Partial<MemoryData> = {}): DataStore & { data: MemoryData } {
+  const data: MemoryData = {
+    animals: [...(seed.animals || [])],
+    medicalHistory: [...(seed.medicalHistory || [])],
+    breeding: [...(seed.breeding || [])],
+    drugs: [...(seed.drugs || [])],
+    drugLots: [...(seed.drugLots || [])],
+    treatmentProtocols: [...(seed.treatmentProtocols || [])],
+    treatmentProtocolItems: [...(seed.treatmentProtocolItems || [])],
+    fences: [...(seed.fences || [])],
+    fenceInspections: [...(seed.fenceInspections || [])],
+    fenceInspectionPhotos: [...(seed.fenceInspectionPhotos || [])],
+    pastures: [...(seed.pastures || [])],
+    animalMoves: [...(seed.animalMoves || [])],
+    grazingPlans: [...(seed.grazingPlans || [])],
+    weights: [...(seed.weights || [])],
+    withdrawalOverrides: [...(seed.withdrawalOverrides || [])],
+    expenses: [...(seed.expenses || [])],
+    expenseAllocations: [...(seed.expenseAllocations || [])],
+    sales: [...(seed.sales || [])],
+    photos: [...(seed.photos || [])],
+    customFieldDefinitions: [...(seed.customFieldDefinitions || [])],
+    customFieldValues: [...(seed.customFieldValues || [])],
+    users: [...(seed.users || [])],
+    settings: [...(seed.settings || [])],
+  };
+
+  return {
+    data,
+
+    animals: {
+      async list(ranchId, filters = {}) {
+        const searchLower = filters.search?.toLowerCase();
+
+        return data.animals
+          .filter(animal => {
+            if (animal.ranch_id !== ranchId) return false;
+            if (!filters.includeOther && animal.animal_type === 'Other') return false;
+            if (filters.status && filters.status !== 'ALL' && animal.status !== filters.status) return false;
+            if (filters.animalType && filters.animalType !== 'ALL' && animal.animal_type !== filters.animalType) return false;
+            if (filters.sex && filters.sex !== 'ALL' && animal.sex !== filters.sex) return false;
+            if (filters.location === 'UNASSIGNED' && animal.current_pasture_id) return false;
+            if (filters.location && filters.location !== 'ALL' && filters.location !== 'UNASSIGNED' && animal.current_pasture_id !== filters.location) return false;
+            if (searchLower) {
+              return [animal.tag_number, animal.name, animal.description].some(
+                value => value?.toLowerCase().includes(searchLower)
+              );
+            }
+            return true;
+          })
+          .sort((a, b) => compareNullable(a.tag_number, b.tag_number, true))
+          .map(animal => ({ ...animal }));
+      },
+
+      async get(id) {
+        const animal = data.animals.find(a => a.id === id);
+        return animal ? { ...animal } : null;
+      },
+
+      async count(ranchId) {
+        return data.animals.filter(a => a.ranch_id === ranchId).length;
+      },
+
+      async create(input) {
+        const animal: Animal = {
+          legacy_uid: null,
+          tag_number: null,
+          tag_color: null,
+          name: null,
+          description: null,
+          birth_date: null,
+          weaning_date: null,
+          exit_date: null,
+          mother_id: null,
+          father_id: null,
+          weight_lbs: null,
+          meat_withdrawal_clear_date: null,
+          milk_withdrawal_clear_date: null,
+          notes: null,
+          sale_price: null,
+          sale_id: null,
+          sale_weight_lbs: null,
+          current_pasture_id: null,
+          geometry: null,
+          breed: null,
+          percentage_blood: null,
+          breed_composition: null,
+          registry_name: null,
+          registration_number: null,
+          calving_ease: null,
+          birth_weight_lbs: null,
+          weaning_weight_lbs: null,
+          purchase_date: null,
+          purchase_price: null,
+          seller: null,
+          animal_type: 'Cattle',
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        } as Animal;
+        data.animals.push(animal);
+        return { ...animal };
+      },
+
+      async update(id, updates) {
+        return updateById<Animal>(data.animals, id, updates as Partial<Animal>);
+      },
+
+      async delete(id) {
+        removeWhere(data.animals, a => a.id === id);
+        removeWhere(data.medicalHistory, r => r.animal_id === id);
+        removeWhere(data.breeding, r => r.dam_id === id);
+        removeWhere(data.animalMoves, m => m.animal_id === id);
+        removeWhere(data.weights, w => w.animal_id === id);
+        removeWhere(data.withdrawalOverrides, o => o.animal_id === id);
+        removeWhere(data.expenseAllocations, a => a.animal_id === id);
+        removeWhere(data.photos, p => p.animal_id === id);
+        removeWhere(data.customFieldValues, v => v.animal_id === id);
+      },
+    },
+
+    medicalHistory: {
+      async listForAnimal(animalId) {
+        return data.medicalHistory
+          .filter(r => r.animal_id === animalId)
+          .sort((a, b) => b.date.localeCompare(a.date))
+          .map(r => ({ ...r }));
+      },
+
+      async listForRanch(ranchId) {
+        return data.medicalHistory.filter(r => r.ranch_id === ranchId).map(r => ({ ...r }));
+      },
+
+      async create(input) {
+        const record: MedicalRecord = {
+          drug_id: null,
+          drug_name: null,
+          dose: null,
+          dose_units: null,
+          route: null,
+          injection_site: null,
+          lot_number: null,
+          administered_by: null,
+          reason: null,
+          drug_lot_id: null,
+          created_by_user_id: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.medicalHistory.push(record);
+        return { ...record };
+      },
+
+      async update(id, updates) {
+        return updateById<MedicalRecord>(data.medicalHistory, id, updates);
+      },
+
+      async delete(id) {
+        removeWhere(data.medicalHistory, r => r.id === id);
+      },
+    },
+
+    breeding: {
+      async listForDam(damId) {
+        return data.breeding
+          .filter(r => r.dam_id === damId)
+          .sort((a, b) => b.breeding_date.localeCompare(a.breeding_date))
+          .map(r => ({ ...r }));
+      },
+
+      async listPending(ranchId) {
+        return data.breeding
+          .filter(r => r.ranch_id === ranchId && r.outcome === 'PENDING')
+          .sort((a, b) => b.breeding_date.localeCompare(a.breeding_date))
+          .map(r => ({ ...r }));
+      },
+
+      async create(input) {
+        const record: BreedingRecord = {
+          breeding_method: 'NATURAL',
+          sire_id: null,
+          sire_identifier: null,
+          technician: null,
+          pregnancy_status: 'UNCHECKED',
+          pregnancy_check_date: null,
+          outcome: 'PENDING',
+          offspring_id: null,
+          closed_date: null,
+          notes: null,
+          created_by_user_id: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.breeding.push(record);
+        return { ...record };
+      },
+
+      async update(id, updates) {
+        return updateById<BreedingRecord>(data.breeding, id, updates);
+      },
+
+      async delete(id) {
+        removeWhere(data.breeding, r => r.id === id);
+      },
+    },
+
+    drugs: {
+      async list(ranchId) {
+        return data.drugs
+          .filter(d => d.ranch_id === ranchId)
+          .sort((a, b) => a.drug_name.localeCompare(b.drug_name))
+          .map(d => ({ ...d }));
+      },
+
+      async create(input) {
+        const drug: Drug = {
+          animal_type: 'Cattle',
+          ccs_per_pound: null,
+          fixed_dose_ml: null,
+          low_stock_ml: null,
+          meat_withdrawal_days: 0,
+          milk_withdrawal_days: 0,
+          notes: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.drugs.push(drug);
+        return { ...drug };
+      },
+
+      async update(id, updates) {
+        return updateById(data.drugs, id, updates);
+      },
+
+      // Lots and protocol steps go with the drug; treatments keep their text but lose the link
+      async delete(id) {
+        const lotIds = data.drugLots.filter(l => l.drug_id === id).map(l => l.id);
+        removeWhere(data.drugs, d => d.id === id);
+        removeWhere(data.drugLots, l => l.drug_id === id);
+        removeWhere(data.treatmentProtocolItems, i => i.drug_id === id);
+        data.medicalHistory.forEach(r => {
+          if (r.drug_id === id) r.drug_id = null;
+          if (r.drug_lot_id && lotIds.includes(r.drug_lot_id)) r.drug_lot_id = null;
+        });
+      },
+    },
+
+    drugLots: {
+      async listForRanch(ranchId) {
+        return data.drugLots
+          .filter(l => l.ranch_id === ranchId)
+          .sort((a, b) => compareNullable(a.expiration_date, b.expiration_date))
+          .map(l => ({ ...l }));
+      },
+
+      async listForDrug(drugId) {
+        return data.drugLots
+          .filter(l => l.drug_id === drugId)
+          .sort((a, b) => b.received_date.localeCompare(a.received_date))
+          .map(l => ({ ...l }));
+      },
+
+      async create(input) {
+        const lot: DrugLot = {
+          received_date: now().slice(0, 10),
+          expiration_date: null,
+          bottles_received: 1,
+          bottle_size_ml: null,
+          volume_on_hand_ml: 0,
+          cost_per_ml: null,
+          notes: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.drugLots.push(lot);
+        return { ...lot };
+      },
+
+      async update(id, updates) {
+        return updateById<DrugLot>(data.drugLots, id, updates);
+      },
+
+      async delete(id) {
+        removeWhere(data.drugLots, l => l.id === id);
+      },
+    },
+
+    treatmentProtocols: {
+      async list(ranchId) {
+        return data.treatmentProtocols
+          .filter(p => p.ranch_id === ranchId)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(p => ({ ...p }));
+      },
+
+      async listItems(protocolIds) {
+        return data.treatmentProtocolItems
+          .filter(i => protocolIds.includes(i.protocol_id))
+          .sort((a, b) => a.sort_order - b.sort_order)
+          .map(i => ({ ...i }));
+      },
+
+      async create(input, items) {
+        const protocol: TreatmentProtocol = {
+          animal_type: 'Cattle',
+          notes: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.treatmentProtocols.push(protocol);
+        items.forEach((item, index) => data.treatmentProtocolItems.push({
+          route: null,
+          injection_site: null,
+          ...item,
+          id: item.id || crypto.randomUUID(),
+          protocol_id: protocol.id,
+          sort_order: index,
+        }));
+        return { ...protocol };
+      },
+
+      async update(id, updates, items) {
+        const protocol = updateById<TreatmentProtocol>(data.treatmentProtocols, id, updates);
+        removeWhere(data.treatmentProtocolItems, i => i.protocol_id === id);
+        items.forEach((item, index) => data.treatmentProtocolItems.push({
+          route: null,
+          injection_site: null,
+          ...item,
+          id: item.id || crypto.randomUUID(),
+          protocol_id: id,
+          sort_order: index,
+        }));
+        return protocol;
+      },
+
+      async delete(id) {
+        removeWhere(data.treatmentProtocols, p => p.id === id);
+        removeWhere(data.treatmentProtocolItems, i => i.protocol_id === id);
+      },
+
+      // Same rules as the apply_treatment_protocol database function
+      async apply({ protocolId, animalIds, date, administeredBy, reason }) {
+        const protocol = data.treatmentProtocols.find(p => p.id === protocolId);
+        if (!protocol) notFound();
+
+        const items = data.treatmentProtocolItems
+          .filter(i => i.protocol_id === protocolId)
+          .sort((a, b) => a.sort_order - b.sort_order);
+        if (items.length === 0) {
+          throw createDataError('UNKNOWN', `Protocol "${protocol.name}" has no drugs`);
+        }
+
+        const animals = data.animals
+          .filter(a => animalIds.includes(a.id) && a.ranch_id === protocol.ranch_id)
+          .sort((a, b) => compareNullable(a.tag_number, b.tag_number, true));
+
+        let count = 0;
+        for (const animal of animals) {
+          for (const item of items) {
+            const drug = data.drugs.find(d => d.id === item.drug_id);
+            if (!drug) continue;
+
+            const dose = calculateProtocolDose(drug, animal.weight_lbs);
+            if (dose === null) {
+              throw createDataError('UNKNOWN', `${drug.drug_name} needs a dosage and the animal's weight to calculate a dose`);
+            }
+
+            const lot = selectLotForAdministration(data.drugLots.filter(l => l.drug_id === drug.id), date);
+            data.medicalHistory.push({
+              id: crypto.randomUUID(),
+              animal_id: animal.id,
+              ranch_id: animal.ranch_id,
+              date,
+              description: `${drug.drug_name} - ${dose.toFixed(2)} ml`,
+              drug_id: drug.id,
+              drug_name: drug.drug_name,
+              dose,
+              dose_units: 'ml',
+              route: item.route,
+              injection_site: item.injection_site,
+              drug_lot_id: lot?.id ?? null,
+              lot_number: lot?.lot_number ?? null,
+              administered_by: administeredBy?.trim() || null,
+              reason: reason?.trim() || null,
+              created_by_user_id: null,
+              created_at: now(),
+              updated_at: now(),
+            });
+
+            animal.meat_withdrawal_clear_date = laterClearDate(
+              animal.meat_withdrawal_clear_date,
+              calculateWithdrawalClearDate(date, drug.meat_withdrawal_days)
+            );
+            animal.milk_withdrawal_clear_date = laterClearDate(
+              animal.milk_withdrawal_clear_date,
+              calculateWithdrawalClearDate(date, drug.milk_withdrawal_days)
+            );
+            count++;
+          }
+        }
+
+        return count;
+      },
+    },
+
+    fences: {
+      async list(ranchId) {
+        return data.fences
+          .filter(f => f.ranch_id === ranchId)
+          .sort((a, b) => a.description.localeCompare(b.description))
+          .map(f => ({ ...f }));
+      },
+
+      async create(input) {
+        const fence: Fence = {
+          last_checked_date: null,
+          last_checked_by: null,
+          check_frequency: 'MONTHLY',
+          check_due_date: null,
+          geometry: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.fences.push(fence);
+        return { ...fence };
+      },
+
+      async update(id, updates) {
+        return updateById<Fence>(data.fences, id, updates);
+      },
+
+      async delete(id) {
+        removeWhere(data.fences, f => f.id === id);
+        removeWhere(data.fenceInspections, i => i.fence_id === id);
+      },
+    },
+
+    fenceInspections: {
+      async listForRanch(ranchId) {
+        return data.fenceInspections
+          .filter(i => i.ranch_id === ranchId)
+          .sort((a, b) => b.inspected_on.localeCompare(a.inspected_on) || compareNullable(b.created_at, a.created_at))
+          .map(i => ({ ...i }));
+      },
+
+      async create(input) {
+        const inspection: FenceInspection = {
+          inspector: null,
+          condition_rating: null,
+          issues_found: null,
+          repair_completed_on: null,
+          repair_notes: null,
+          created_by_user_id: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.fenceInspections.push(inspection);
+        return { ...inspection };
+      },
+
+      async update(id, updates) {
+        return updateById<FenceInspection>(data.fenceInspections, id, updates);
+      },
+
+      async delete(id) {
+        removeWhere(data.fenceInspections, i => i.id === id);
+        removeWhere(data.fenceInspectionPhotos, p => p.inspection_id === id);
+      },
+
+      async listPhotos(ranchId) {
+        return data.fenceInspectionPhotos
+          .filter(p => p.ranch_id === ranchId)
+          .sort((a, b) => compareNullable(a.created_at, b.created_at))
+          .map(p => ({ ...p }));
+      },
+
+      async uploadPhoto({ inspectionId, ranchId, file, fileExtension }) {
+        const photo: FenceInspectionPhoto = {
+          id: crypto.randomUUID(),
+          inspection_id: inspectionId,
+          ranch_id: ranchId,
+          storage_url: `memory://animal-photos/${ranchId}/fences/${inspectionId}/${Date.now()}.${fileExtension}`,
+          file_size_bytes: file.size,
+          created_at: now(),
+        };
+        data.fenceInspectionPhotos.push(photo);
+        return { ...photo };
+      },
+
+      async deletePhoto(photo) {
+        removeWhere(data.fenceInspectionPhotos, p => p.id === photo.id);
+      },
+    },
+
+    pastures: {
+      async list(ranchId) {
+        return data.pastures
+          .filter(p => p.ranch_id === ranchId)
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(p => ({ ...p }));
+      },
+
+      async create(input) {
+        const pasture: Pasture = {
+          kind: 'PASTURE',
+          parent_pasture_id: null,
+          acreage: null,
+          capacity_head: null,
+          notes: null,
+          forage_lbs_per_acre: null,
+          forage_estimated_on: null,
+          utilization_pct: 50,
+          min_rest_days: 30,
+          max_graze_days: null,
+          geometry: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.pastures.push(pasture);
+        return { ...pasture };
+      },
+
+      async update(id, updates) {
+        return updateById<Pasture>(data.pastures, id, updates);
+      },
+
+      // Mirrors the foreign keys: plans go with the pasture; paddocks, animals and moves lose the reference
+      async delete(id) {
+        removeWhere(data.pastures, p => p.id === id);
+        removeWhere(data.grazingPlans, p => p.pasture_id === id);
+        data.pastures.forEach(p => { if (p.parent_pasture_id === id) p.parent_pasture_id = null; });
+        data.animals.forEach(a => { if (a.current_pasture_id === id) a.current_pasture_id = null; });
+        data.animalMoves.forEach(m => {
+          if (m.from_pasture_id === id) m.from_pasture_id = null;
+          if (m.to_pasture_id === id) m.to_pasture_id = null;
+        });
+      },
+    },
+
+    animalMoves: {
+      async listForRanch(ranchId, limit) {
+        const moves = data.animalMoves
+          .filter(m => m.ranch_id === ranchId)
+          .sort((a, b) => b.moved_on.localeCompare(a.moved_on) || compareNullable(b.created_at, a.created_at))
+          .map(m => ({ ...m }));
+        return limit ? moves.slice(0, limit) : moves;
+      },
+
+      // Same rules as the move_animals database function
+      async moveAnimals({ ranchId, animalIds, toPastureId, movedOn, notes }) {
+        if (!data.pastures.some(p => p.id === toPastureId && p.ranch_id === ranchId)) notFound();
+
+        const animals = data.animals.filter(a => animalIds.includes(a.id) && a.ranch_id === ranchId);
+        for (const animal of animals) {
+          const history = data.animalMoves
+            .filter(m => m.animal_id === animal.id)
+            .sort((a, b) => b.moved_on.localeCompare(a.moved_on) || compareNullable(b.created_at, a.created_at));
+          const previous = history.find(m => m.moved_on <= movedOn);
+
+          data.animalMoves.push({
+            id: crypto.randomUUID(),
+            ranch_id: ranchId,
+            animal_id: animal.id,
+            from_pasture_id: previous ? previous.to_pasture_id : history.length > 0 ? null : animal.current_pasture_id,
+            to_pasture_id: toPastureId,
+            moved_on: movedOn,
+            notes: notes?.trim() || null,
+            created_by_user_id: null,
+            created_at: now(),
+          });
+
+          if (!history.some(m => m.moved_on > movedOn)) {
+            animal.current_pasture_id = toPastureId;
+            animal.updated_at = now();
+          }
+        }
+
+        return animals.length;
+      },
+    },
+
+    grazingPlans: {
+      async list(ranchId) {
+        return data.grazingPlans
+          .filter(p => p.ranch_id === ranchId)
+          .sort((a, b) => a.start_date.localeCompare(b.start_date))
+          .map(p => ({ ...p }));
+      },
+
+      async create(input) {
+        const plan: GrazingPlan = {
+          notes: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.grazingPlans.push(plan);
+        return { ...plan };
+      },
+
+      async update(id, updates) {
+        return updateById<GrazingPlan>(data.grazingPlans, id, updates);
+      },
+
+      async delete(id) {
+        removeWhere(data.grazingPlans, p => p.id === id);
+      },
+    },
+
+    weights: {
+      async listForAnimal(animalId) {
+        return data.weights
+          .filter(w => w.animal_id === animalId)
+          .sort((a, b) => a.weigh_date.localeCompare(b.weigh_date))
+          .map(w => ({ ...w }));
+      },
+
+      async create(input) {
+        const record: WeightRecord = {
+          notes: null,
+          created_by_user_id: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.weights.push(record);
+        return { ...record };
+      },
+
+      async delete(id) {
+        removeWhere(data.weights, w => w.id === id);
+      },
+    },
+
+    withdrawalOverrides: {
+      async create(input) {
+        const override: WithdrawalOverride = {
+          overridden_by_user_id: null,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+        };
+        data.withdrawalOverrides.push(override);
+        return { ...override };
+      },
+    },
+
+    expenses: {
+      async list(ranchId) {
+        return data.expenses
+          .filter(e => e.ranch_id === ranchId)
+          .sort((a, b) => b.expense_date.localeCompare(a.expense_date))
+          .map(e => ({ ...e }));
+      },
+
+      async listAllocations(ranchId) {
+        const expenseIds = new Set(data.expenses.filter(e => e.ranch_id === ranchId).map(e => e.id));
+        return data.expenseAllocations
+          .filter(a => expenseIds.has(a.expense_id))
+          .map(a => ({ ...a }));
+      },
+
+      // Same split as the record_expense database function
+      async record({ ranchId, expenseDate, category, amount, allocation, animalIds, description, groupName }) {
+        const animals = data.animals
+          .filter(a => animalIds.includes(a.id) && a.ranch_id === ranchId)
+          .sort((a, b) => compareNullable(a.tag_number, b.tag_number) || a.id.localeCompare(b.id));
+        if (animals.length === 0) {
+          throw createDataError('UNKNOWN', 'An expense must be charged to at least one animal');
+        }
+
+        const expense: Expense = {
+          id: crypto.randomUUID(),
+          ranch_id: ranchId,
+          expense_date: expenseDate,
+          category,
+          description: description?.trim() || null,
+          amount: Math.round(amount * 100) / 100,
+          allocation,
+          group_name: allocation === 'GROUP' ? groupName?.trim() || null : null,
+          created_by_user_id: null,
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.expenses.push(expense);
+
+        const cents = Math.round(amount * 100);
+        const shareCents = Math.floor(cents / animals.length);
+        const remainder = cents - shareCents * animals.length;
+        animals.forEach((animal, index) => data.expenseAllocations.push({
+          id: crypto.randomUUID(),
+          expense_id: expense.id,
+          animal_id: animal.id,
+          amount: (shareCents + (index < remainder ? 1 : 0)) / 100,
+        }));
+
+        return expense.id;
+      },
+
+      async delete(id) {
+        removeWhere(data.expenses, e => e.id === id);
+        removeWhere(data.expenseAllocations, a => a.expense_id === id);
+      },
+    },
+
+    sales: {
+      async list(ranchId) {
+        return data.sales
+          .filter(s => s.ranch_id === ranchId)
+          .sort((a, b) => b.sale_date.localeCompare(a.sale_date))
+          .map(s => ({ ...s }));
+      },
+
+      // Same checks as the record_sale database function
+      async record(entry) {
+        const cents = (amount: number) => Math.round(amount * 100);
+        const { animalIds, salePrices, saleWeights, saleDate } = entry;
+
+        if (animalIds.length === 0) {
+          throw createDataError('UNKNOWN', 'A sale must include at least one animal');
+        }
+        if (salePrices.length !== animalIds.length || saleWeights.length !== animalIds.length) {
+          throw createDataError('UNKNOWN', 'Each animal in the sale needs a price and a weight entry');
+        }
+
+        const animals = data.animals.filter(a => animalIds.includes(a.id) && a.ranch_id === entry.ranchId && !a.sale_id);
+        if (animals.length !== animalIds.length) {
+          throw createDataError('UNKNOWN', 'Some animals do not belong to this ranch or are already part of another sale');
+        }
+
+        const netCents = cents(entry.grossAmount) - cents(entry.commission) - cents(entry.yardage)
+          - cents(entry.checkoff) - cents(entry.trucking);
+        if (salePrices.reduce((sum, price) => sum + cents(price), 0) !== netCents) {
+          throw createDataError('UNKNOWN', `Animal sale prices must add up to the net proceeds of ${(netCents / 100).toFixed(2)}`);
+        }
+
+        const reason = entry.withdrawalOverrideReason?.trim() || '';
+        const withheld = animals.find(a => a.meat_withdrawal_clear_date && saleDate < a.meat_withdrawal_clear_date);
+        if (withheld && !reason) {
+          throw createDataError('UNKNOWN', `An animal in this sale is within its withdrawal period until ${withheld.meat_withdrawal_clear_date}`);
+        }
+
+        const sale: Sale = {
+          id: crypto.randomUUID(),
+          ranch_id: entry.ranchId,
+          sale_date: saleDate,
+          buyer: entry.buyer?.trim() || null,
+          sale_barn: entry.saleBarn?.trim() || null,
+          gross_amount: cents(entry.grossAmount) / 100,
+          commission: cents(entry.commission) / 100,
+          yardage: cents(entry.yardage) / 100,
+          checkoff: cents(entry.checkoff) / 100,
+          trucking: cents(entry.trucking) / 100,
+          net_amount: netCents / 100,
+          split_method: entry.splitMethod,
+          notes: entry.notes?.trim() || null,
+          created_by_user_id: null,
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.sales.push(sale);
+
+        animals.forEach(animal => {
+          const index = animalIds.indexOf(animal.id);
+          if (animal.meat_withdrawal_clear_date && saleDate < animal.meat_withdrawal_clear_date) {
+            data.withdrawalOverrides.push({
+              id: crypto.randomUUID(),
+              ranch_id: entry.ranchId,
+              animal_id: animal.id,
+              status: 'SOLD',
+              exit_date: saleDate,
+              meat_withdrawal_clear_date: animal.meat_withdrawal_clear_date,
+              reason,
+              overridden_by_user_id: null,
+              created_at: now(),
+            });
+          }
+
+          updateById(data.animals, animal.id, {
+            status: 'SOLD',
+            exit_date: saleDate,
+            sale_price: cents(salePrices[index]) / 100,
+            sale_weight_lbs: saleWeights[index] || null,
+            sale_id: sale.id,
+          });
+        });
+
+        return sale.id;
+      },
+
+      async delete(id) {
+        removeWhere(data.sales, s => s.id === id);
+        data.animals.forEach(a => {
+          if (a.sale_id === id) a.sale_id = null;
+        });
+      },
+    },
+
+    photos: {
+      async listForAnimal(animalId) {
+        return data.photos
+          .filter(p => p.animal_id === animalId)
+          .sort((a, b) => compareNullable(a.created_at, b.created_at))
+          .map(p => ({ ...p }));
+      },
+
+      async upload({ animalId, ranchId, file, fileExtension, isPrimary }) {
+        const photo: AnimalPhoto = {
+          id: crypto.randomUUID(),
+          animal_id: animalId,
+          ranch_id: ranchId,
+          storage_url: `memory://animal-photos/${ranchId}/${animalId}/${Date.now()}.${fileExtension}`,
+          thumbnail_url: null,
+          caption: null,
+          taken_at: null,
+          taken_by_user_id: null,
+          is_primary: isPrimary,
+          is_synced: true,
+          file_size_bytes: file.size,
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.photos.push(photo);
+        return { ...photo };
+      },
+
+      async delete(photo) {
+        removeWhere(data.photos, p => p.id === photo.id);
+      },
+    },
+
+    customFields: {
+      async listDefinitions(ranchId) {
+        return data.customFieldDefinitions
+          .filter(f => f.ranch_id === ranchId)
+          .sort((a, b) => a.display_order - b.display_order)
+          .map(f => ({ ...f }));
+      },
+
+      async createDefinition(input) {
+        const field: CustomField = {
+          display_order: 0,
+          include_in_totals: false,
+          is_required: false,
+          ...input,
+          id: input.id || crypto.randomUUID(),
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.customFieldDefinitions.push(field);
+        return { ...field };
+      },
+
+      async updateDefinition(id, updates) {
+        return updateById(data.customFieldDefinitions, id, updates);
+      },
+
+      async deleteDefinition(id) {
+        removeWhere(data.customFieldDefinitions, f => f.id === id);
+        removeWhere(data.customFieldValues, v => v.field_id === id);
+      },
+
+      async listValues(animalIds) {
+        return data.customFieldValues.filter(v => animalIds.includes(v.animal_id)).map(v => ({ ...v }));
+      },
+
+      async saveValues(animalId, values) {
+        for (const [fieldId, value] of Object.entries(values)) {
+          const existing = data.customFieldValues.find(v => v.animal_id === animalId && v.field_id === fieldId);
+
+          if (!value) {
+            removeWhere(data.customFieldValues, v => v.animal_id === animalId && v.field_id === fieldId);
+          } else if (existing) {
+            existing.value = value;
+            existing.updated_at = now();
+          } else {
+            data.customFieldValues.push({
+              id: crypto.randomUUID(),
+              animal_id: animalId,
+              field_id: fieldId,
+              value,
+              created_at: now(),
+              updated_at: now(),
+            });
+          }
+        }
+      },
+    },
+
+    users: {
+      async getName(userId) {
+        return data.users.find(u => u.id === userId)?.name ?? null;
+      },
+    },
+
+    settings: {
+      async get(ranchId) {
+        const settings = data.settings.find(s => s.ranch_id === ranchId);
+        return settings ? { ...settings } : null;
+      },
+
+      async create(ranchId) {
+        if (data.settings.some(s => s.ranch_id === ranchId)) {
+          throw createDataError('DUPLICATE', 'Settings already exist for this ranch');
+        }
+
+        const settings: RanchSettings = {
+          ranch_id: ranchId,
+          report_line1: '',
+          report_line2: '',
+          adult_age_years: 1.1,
+          time_zone: 'America/Denver',
+          print_program: '',
+          default_animal_type: 'Cattle',
+          cattle_adult_age: 2,
+          horse_adult_age: 4,
+          sheep_adult_age: 1,
+          goat_adult_age: 1,
+          pig_adult_age: 0.75,
+          enable_injection_feature: false,
+          auto_count_snapshots: false,
+          created_at: now(),
+          updated_at: now(),
+        };
+        data.settings.push(settings);
+        return { ...settings };
+      },
+
+      async update(ranchId, updates) {
+        const index = data.settings.findIndex(s => s.ranch_id === ranchId);
+        if (index === -1) notFound();
+        data.settings[index] = { ...data.settings[index], ...updates, updated_at: now() };
+        return { ...data.settings[index] };
+      },
+    },
+  };
+}
@@ -0,0 +1,286 @@
+import { getCachedRecord, getCachedRecords, isOfflineStoreAvailable, type OfflineTable } from '../lib/offlineStore';
+import type { OfflineMutationInput } from '../utils/offlineSync';
+import { createDataError, toDataError } from './errors';
+import { createMemoryDataStore } from './memoryStore';
+import type {
+  Animal,
+  DataStore,
+  Fence,
+  FenceInspection,
+  GrazingPlan,
+  MedicalRecord,
+  Pasture,
+  RanchSettings,
+} from './types';
+
+export interface OfflineOptions {
+  ranchId: string;
+  isOnline: boolean;
+  queueMutation: (mutation: Omit<OfflineMutationInput, 'ranchId'>) => Promise<void>;
+}
+
+function needsConnection(): never {
+  throw createDataError('NETWORK', 'This change needs a connection - try again when back online');
+}
+
+// Reads fall back to the IndexedDB copy of the ranch when offline (or when a request fails
+// for lack of network), and edits to animals, medical history, fences, fence inspections,
+// pastures and grazing plans are queued for the sync replay. The cached rows are loaded into a memory store so offline
+// reads filter and sort exactly like the online queries.
+export function withOfflineSupport(store: DataStore, { ranchId, isOnline, queueMutation }: OfflineOptions): DataStore {
+  if (!isOfflineStoreAvailable()) return store;
+
+  const loadCache = async () => {
+    const [animals, medicalHistory, fences, fenceInspections, pastures, grazingPlans, settings] = await Promise.all([
+      getCachedRecords<Animal>('animals', ranchId),
+      getCachedRecords<MedicalRecord>('medical_history', ranchId),
+      getCachedRecords<Fence>('fences', ranchId),
+      getCachedRecords<FenceInspection>('fence_inspections', ranchId),
+      getCachedRecords<Pasture>('pastures', ranchId),
+      getCachedRecords<GrazingPlan>('grazing_plans', ranchId),
+      getCachedRecords<RanchSettings>('ranch_settings', ranchId),
+    ]);
+    return createMemoryDataStore({
+      animals,
+      medicalHistory,
+      fences,
+      fenceInspections,
+      pastures,
+      grazingPlans,
+      settings,
+    });
+  };
+
+  const read = async <T>(online: () => Promise<T>, offline: (cache: DataStore) => Promise<T>): Promise<T> => {
+    if (!isOnline) return offline(await loadCache());
+    try {
+      return await online();
+    } catch (error) {
+      if (toDataError(error).code !== 'NETWORK') throw error;
+      return offline(await loadCache());
+    }
+  };
+
+  const queueInsert = async <T extends { id?: string }>(table: OfflineTable, record: T) => {
+    const recordId = record.id || crypto.randomUUID();
+    await queueMutation({ table, operation: 'insert', recordId, payload: { ...record, id: recordId } });
+    return recordId;
+  };
+
+  // The cached copy's updated_at is the version the user was looking at when they edited.
+  // Only cached records can be edited offline; anything else was never downloaded.
+  const queueChange = async <T>(table: OfflineTable, id: string, operation: 'update' | 'delete', payload?: object) => {
+    const cached = await getCachedRecord<T & { updated_at: string }>(table, id);
+    if (!cached) throw createDataError('NOT_FOUND', 'This record is not available offline');
+    await queueMutation({
+      table,
+      operation,
+      recordId: id,
+      payload: payload as Record<string, unknown> | undefined,
+      baseUpdatedAt: cached.updated_at ?? null,
+    });
+    return cached;
+  };
+
+  if (isOnline) {
+    return {
+      ...store,
+      animals: {
+        ...store.animals,
+        list: (id, filters) => read(() => store.animals.list(id, filters), cache => cache.animals.list(id, filters)),
+        get: id => read(() => store.animals.get(id), cache => cache.animals.get(id)),
+      },
+      medicalHistory: {
+        ...store.medicalHistory,
+        listForAnimal: id => read(() => store.medicalHistory.listForAnimal(id), cache => cache.medicalHistory.listForAnimal(id)),
+        listForRanch: id => read(() => store.medicalHistory.listForRanch(id), cache => cache.medicalHistory.listForRanch(id)),
+      },
+      breeding: {
+        ...store.breeding,
+        listForDam: id => read(() => store.breeding.listForDam(id), async () => []),
+        listPending: id => read(() => store.breeding.listPending(id), async () => []),
+      },
+      drugLots: {
+        ...store.drugLots,
+        listForRanch: id => read(() => store.drugLots.listForRanch(id), async () => []),
+        listForDrug: id => read(() => store.drugLots.listForDrug(id), async () => []),
+      },
+      treatmentProtocols: {
+        ...store.treatmentProtocols,
+        list: id => read(() => store.treatmentProtocols.list(id), async () => []),
+        listItems: ids => read(() => store.treatmentProtocols.listItems(ids), async () => []),
+      },
+      fences: {
+        ...store.fences,
+        list: id => read(() => store.fences.list(id), cache => cache.fences.list(id)),
+      },
+      fenceInspections: {
+        ...store.fenceInspections,
+        listForRanch: id => read(() => store.fenceInspections.listForRanch(id), cache => cache.fenceInspections.listForRanch(id)),
+        listPhotos: id => read(() => store.fenceInspections.listPhotos(id), async () => []),
+      },
+      pastures: {
+        ...store.pastures,
+        list: id => read(() => store.pastures.list(id), cache => cache.pastures.list(id)),
+      },
+      animalMoves: {
+        ...store.animalMoves,
+        listForRanch: (id, limit) => read(() => store.animalMoves.listForRanch(id, limit), async () => []),
+      },
+      grazingPlans: {
+        ...store.grazingPlans,
+        list: id => read(() => store.grazingPlans.list(id), cache => cache.grazingPlans.list(id)),
+      },
+      weights: {
+        ...store.weights,
+        listForAnimal: id => read(() => store.weights.listForAnimal(id), async () => []),
+      },
+      expenses: {
+        ...store.expenses,
+        list: id => read(() => store.expenses.list(id), async () => []),
+        listAllocations: id => read(() => store.expenses.listAllocations(id), async () => []),
+      },
+      sales: {
+        ...store.sales,
+        list: id => read(() => store.sales.list(id), async () => []),
+      },
+      users: {
+        getName: id => read(() => store.users.getName(id), async () => null),
+      },
+      settings: {
+        ...store.settings,
+        get: id => read(() => store.settings.get(id), cache => cache.settings.get(id)),
+      },
+    };
+  }
+
+  return {
+    animals: {
+      list: async (id, filters) => (await loadCache()).animals.list(id, filters),
+      get: async id => (await loadCache()).animals.get(id),
+      count: async id => (await loadCache()).animals.count(id),
+      create: needsConnection,
+      update: async (id, updates) => {
+        const cached = await queueChange<Animal>('animals', id, 'update', updates);
+        return { ...cached, ...updates };
+      },
+      delete: needsConnection,
+    },
+    medicalHistory: {
+      listForAnimal: async id => (await loadCache()).medicalHistory.listForAnimal(id),
+      listForRanch: async id => (await loadCache()).medicalHistory.listForRanch(id),
+      create: async record => {
+        const id = await queueInsert('medical_history', record);
+        return (await getCachedRecord<MedicalRecord>('medical_history', id))!;
+      },
+      update: async (id, updates) => {
+        const cached = await queueChange<MedicalRecord>('medical_history', id, 'update', updates);
+        return { ...cached, ...updates };
+      },
+      delete: async id => {
+        await queueChange<MedicalRecord>('medical_history', id, 'delete');
+      },
+    },
+    breeding: {
+      listForDam: async () => [],
+      listPending: async () => [],
+      create: needsConnection,
+      update: needsConnection,
+      delete: needsConnection,
+    },
+    drugs: { ...store.drugs, create: needsConnection, update: needsConnection, delete: needsConnection },
+    drugLots: {
+      listForRanch: async () => [],
+      listForDrug: async () => [],
+      create: needsConnection,
+      update: needsConnection,
+      delete: needsConnection,
+    },
+    treatmentProtocols: {
+      list: async () => [],
+      listItems: async () => [],
+      create: needsConnection,
+      update: needsConnection,
+      delete: needsConnection,
+      apply: needsConnection,
+    },
+    fences: {
+      list: async id => (await loadCache()).fences.list(id),
+      create: async fence => {
+        const id = await queueInsert('fences', fence);
+        return (await getCachedRecord<Fence>('fences', id))!;
+      },
+      update: async (id, updates) => {
+        const cached = await queueChange<Fence>('fences', id, 'update', updates);
+        return { ...cached, ...updates };
+      },
+      delete: async id => {
+        await queueChange<Fence>('fences', id, 'delete');
+      },
+    },
+    fenceInspections: {
+      listForRanch: async id => (await loadCache()).fenceInspections.listForRanch(id),
+      create: async inspection => {
+        const id = await queueInsert('fence_inspections', inspection);
+        return (await getCachedRecord<FenceInspection>('fence_inspections', id))!;
+      },
+      update: async (id, updates) => {
+        const cached = await queueChange<FenceInspection>('fence_inspections', id, 'update', updates);
+        return { ...cached, ...updates };
+      },
+      delete: async id => {
+        await queueChange<FenceInspection>('fence_inspections', id, 'delete');
+      },
+      listPhotos: async () => [],
+      uploadPhoto: needsConnection,
+      deletePhoto: needsConnection,
+    },
+    pastures: {
+      list: async id => (await loadCache()).pastures.list(id),
+      create: async pasture => {
+        const id = await queueInsert('pastures', pasture);
+        return (await getCachedRecord<Pasture>('pastures', id))!;
+      },
+      update: async (id, updates) => {
+        const cached = await queueChange<Pasture>('pastures', id, 'update', updates);
+        return { ...cached, ...updates };
+      },
+      delete: async id => {
+        await queueChange<Pasture>('pastures', id, 'delete');
+      },
+    },
+    animalMoves: { listForRanch: async () => [], moveAnimals: needsConnection },
+    grazingPlans: {
+      list: async id => (await loadCache()).grazingPlans.list(id),
+      create: async plan => {
+        const id = await queueInsert('grazing_plans', plan);
+        return (await getCachedRecord<GrazingPlan>('grazing_plans', id))!;
+      },
+      update: async (id, updates) => {
+        const cached = await queueChange<GrazingPlan>('grazing_plans', id, 'update', updates);
+        return { ...cached, ...updates };
+      },
+      delete: async id => {
+        await queueChange<GrazingPlan>('grazing_plans', id, 'delete');
+      },
+    },
+    weights: { listForAnimal: async () => [], create: needsConnection, delete: needsConnection },
+    withdrawalOverrides: { create: needsConnection },
+    expenses: { list: async () => [], listAllocations: async () => [], record: needsConnection, delete: needsConnection },
+    sales: { list: async () => [], record: needsConnection, delete: needsConnection },
+    photos: { ...store.photos, upload: needsConnection, delete: needsConnection },
+    customFields: {
+      ...store.customFields,
+      createDefinition: needsConnection,
+      updateDefinition: needsConnection,
+      deleteDefinition: needsConnection,
+      saveValues: needsConnection,
+    },
+    users: { getName: async () => null },
+    settings: {
+      get: async id => (await loadCache()).settings.get(id),
+      create: needsConnection,
+      update: needsConnection,
+    },
+  };
+}
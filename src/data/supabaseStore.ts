@@ -0,0 +1,736 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { createDataError, toDataError } from './errors';
+import type {
+  Animal,
+  AnimalMove,
+  AnimalPhoto,
+  BreedingRecord,
+  CustomField,
+  CustomFieldValue,
+  DataStore,
+  Drug,
+  DrugLot,
+  Expense,
+  ExpenseAllocation,
+  Fence,
+  FenceInspection,
+  FenceInspectionPhoto,
+  GrazingPlan,
+  MedicalRecord,
+  Pasture,
+  RanchSettings,
+  Sale,
+  TreatmentProtocol,
+  TreatmentProtocolItem,
+  WeightRecord,
+  WithdrawalOverride,
+} from './types';
+
+const PHOTO_BUCKET = 'animal-photos';
+
+interface QueryResult<T> {
+  data: T | null;
+  error: unknown;
+}
+
+function unwrap<T>({ data, error }: QueryResult<T>): T {
+  if (error) throw toDataError(error);
+  if (data === null) throw createDataError('NOT_FOUND', 'Record not found');
+  return data;
+}
+
+function unwrapList<T>({ data, error }: QueryResult<T[]>): T[] {
+  if (error) throw toDataError(error);
+  return data || [];
+}
+
+function check({ error }: { error: unknown }) {
+  if (error) throw toDataError(error);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number | undefined): Promise<T> {
+  if (!timeoutMs) return promise;
+
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      setTimeout(() => {
+        const minutes = Math.floor(timeoutMs / 60000);
+        reject(createDataError('TIMEOUT', `Upload timeout after ${minutes} minutes - file too large or connection too slow`));
+      }, timeoutMs);
+    }),
+  ]);
+}
+
+export function createSupabaseDataStore(client: SupabaseClient<Database> = supabase): DataStore {
+  return {
+    animals: {
+      async list(ranchId, filters = {}) {
+        let query = client
+          .from('animals')
+          .select('*')
+          .eq('ranch_id', ranchId)
+          .order('tag_number', { ascending: true, nullsFirst: true });
+
+        if (!filters.includeOther) {
+          query = query.neq('animal_type', 'Other');
+        }
+        if (filters.status && filters.status !== 'ALL') {
+          query = query.eq('status', filters.status);
+        }
+        if (filters.animalType && filters.animalType !== 'ALL') {
+          query = query.eq('animal_type', filters.animalType);
+        }
+        if (filters.sex && filters.sex !== 'ALL') {
+          query = query.eq('sex', filters.sex);
+        }
+        if (filters.location === 'UNASSIGNED') {
+          query = query.is('current_pasture_id', null);
+        } else if (filters.location && filters.location !== 'ALL') {
+          query = query.eq('current_pasture_id', filters.location);
+        }
+        if (filters.search) {
+          const searchLower = filters.search.toLowerCase();
+          query = query.or(
+            `tag_number.ilike.%${searchLower}%,name.ilike.%${searchLower}%,description.ilike.%${searchLower}%`
+          );
+        }
+
+        return unwrapList(await query) as Animal[];
+      },
+
+      async get(id) {
+        const { data, error } = await client.from('animals').select('*').eq('id', id).maybeSingle();
+        if (error) throw toDataError(error);
+        return data as Animal | null;
+      },
+
+      async count(ranchId) {
+        const { count, error } = await client
+          .from('animals')
+          .select('*', { count: 'exact', head: true })
+          .eq('ranch_id', ranchId);
+
+        if (error) throw toDataError(error);
+        return count || 0;
+      },
+
+      async create(animal) {
+        return unwrap(await client.from('animals').insert(animal).select().single()) as Animal;
+      },
+
+      async update(id, updates) {
+        return unwrap(await client.from('animals').update(updates).eq('id', id).select().single()) as Animal;
+      },
+
+      async delete(id) {
+        check(await client.from('animals').delete().eq('id', id));
+      },
+    },
+
+    medicalHistory: {
+      async listForAnimal(animalId) {
+        return unwrapList(
+          await client
+            .from('medical_history')
+            .select('*')
+            .eq('animal_id', animalId)
+            .order('date', { ascending: false })
+        ) as MedicalRecord[];
+      },
+
+      async listForRanch(ranchId) {
+        return unwrapList(
+          await client.from('medical_history').select('*').eq('ranch_id', ranchId)
+        ) as MedicalRecord[];
+      },
+
+      async create(record) {
+        return unwrap(await client.from('medical_history').insert(record).select().single()) as MedicalRecord;
+      },
+
+      async update(id, updates) {
+        return unwrap(
+          await client.from('medical_history').update(updates).eq('id', id).select().single()
+        ) as MedicalRecord;
+      },
+
+      async delete(id) {
+        check(await client.from('medical_history').delete().eq('id', id));
+      },
+    },
+
+    breeding: {
+      async listForDam(damId) {
+        return unwrapList(
+          await client
+            .from('breeding_records')
+            .select('*')
+            .eq('dam_id', damId)
+            .order('breeding_date', { ascending: false })
+        ) as BreedingRecord[];
+      },
+
+      async listPending(ranchId) {
+        return unwrapList(
+          await client
+            .from('breeding_records')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .eq('outcome', 'PENDING')
+            .order('breeding_date', { ascending: false })
+        ) as BreedingRecord[];
+      },
+
+      async create(record) {
+        return unwrap(await client.from('breeding_records').insert(record).select().single()) as BreedingRecord;
+      },
+
+      async update(id, updates) {
+        return unwrap(
+          await client.from('breeding_records').update(updates).eq('id', id).select().single()
+        ) as BreedingRecord;
+      },
+
+      async delete(id) {
+        check(await client.from('breeding_records').delete().eq('id', id));
+      },
+    },
+
+    drugs: {
+      async list(ranchId) {
+        return unwrapList(
+          await client
+            .from('drugs')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('drug_name', { ascending: true })
+        ) as Drug[];
+      },
+
+      async create(drug) {
+        return unwrap(await client.from('drugs').insert(drug).select().single()) as Drug;
+      },
+
+      async update(id, updates) {
+        return unwrap(await client.from('drugs').update(updates).eq('id', id).select().single()) as Drug;
+      },
+
+      async delete(id) {
+        check(await client.from('drugs').delete().eq('id', id));
+      },
+    },
+
+    drugLots: {
+      async listForRanch(ranchId) {
+        return unwrapList(
+          await client
+            .from('drug_lots')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('expiration_date', { ascending: true })
+        ) as DrugLot[];
+      },
+
+      async listForDrug(drugId) {
+        return unwrapList(
+          await client
+            .from('drug_lots')
+            .select('*')
+            .eq('drug_id', drugId)
+            .order('received_date', { ascending: false })
+        ) as DrugLot[];
+      },
+
+      async create(lot) {
+        return unwrap(await client.from('drug_lots').insert(lot).select().single()) as DrugLot;
+      },
+
+      async update(id, updates) {
+        return unwrap(await client.from('drug_lots').update(updates).eq('id', id).select().single()) as DrugLot;
+      },
+
+      async delete(id) {
+        check(await client.from('drug_lots').delete().eq('id', id));
+      },
+    },
+
+    treatmentProtocols: {
+      async list(ranchId) {
+        return unwrapList(
+          await client
+            .from('treatment_protocols')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('name', { ascending: true })
+        ) as TreatmentProtocol[];
+      },
+
+      async listItems(protocolIds) {
+        if (protocolIds.length === 0) return [];
+        return unwrapList(
+          await client
+            .from('treatment_protocol_items')
+            .select('*')
+            .in('protocol_id', protocolIds)
+            .order('sort_order', { ascending: true })
+        ) as TreatmentProtocolItem[];
+      },
+
+      async create(protocol, items) {
+        const saved = unwrap(
+          await client.from('treatment_protocols').insert(protocol).select().single()
+        ) as TreatmentProtocol;
+        check(await client
+          .from('treatment_protocol_items')
+          .insert(items.map((item, index) => ({ ...item, protocol_id: saved.id, sort_order: index }))));
+        return saved;
+      },
+
+      async update(id, updates, items) {
+        const saved = unwrap(
+          await client.from('treatment_protocols').update(updates).eq('id', id).select().single()
+        ) as TreatmentProtocol;
+        check(await client.from('treatment_protocol_items').delete().eq('protocol_id', id));
+        check(await client
+          .from('treatment_protocol_items')
+          .insert(items.map((item, index) => ({ ...item, protocol_id: id, sort_order: index }))));
+        return saved;
+      },
+
+      async delete(id) {
+        check(await client.from('treatment_protocols').delete().eq('id', id));
+      },
+
+      async apply({ protocolId, animalIds, date, administeredBy, reason }) {
+        const { data, error } = await client.rpc('apply_treatment_protocol', {
+          p_protocol_id: protocolId,
+          p_animal_ids: animalIds,
+          p_date: date,
+          p_administered_by: administeredBy,
+          p_reason: reason,
+        });
+
+        if (error) throw toDataError(error);
+        return data ?? 0;
+      },
+    },
+
+    fences: {
+      async list(ranchId) {
+        return unwrapList(
+          await client
+            .from('fences')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('description', { ascending: true })
+        ) as Fence[];
+      },
+
+      async create(fence) {
+        return unwrap(await client.from('fences').insert(fence).select().single()) as Fence;
+      },
+
+      async update(id, updates) {
+        return unwrap(await client.from('fences').update(updates).eq('id', id).select().single()) as Fence;
+      },
+
+      async delete(id) {
+        check(await client.from('fences').delete().eq('id', id));
+      },
+    },
+
+    fenceInspections: {
+      async listForRanch(ranchId) {
+        return unwrapList(
+          await client
+            .from('fence_inspections')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('inspected_on', { ascending: false })
+            .order('created_at', { ascending: false })
+        ) as FenceInspection[];
+      },
+
+      async create(inspection) {
+        return unwrap(await client.from('fence_inspections').insert(inspection).select().single()) as FenceInspection;
+      },
+
+      async update(id, updates) {
+        return unwrap(
+          await client.from('fence_inspections').update(updates).eq('id', id).select().single()
+        ) as FenceInspection;
+      },
+
+      async delete(id) {
+        check(await client.from('fence_inspections').delete().eq('id', id));
+      },
+
+      async listPhotos(ranchId) {
+        return unwrapList(
+          await client
+            .from('fence_inspection_photos')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('created_at', { ascending: true })
+        ) as FenceInspectionPhoto[];
+      },
+
+      async uploadPhoto({ inspectionId, ranchId, file, fileExtension, contentType }) {
+        const fileName = `${ranchId}/fences/${inspectionId}/${Date.now()}.${fileExtension}`;
+
+        check(await client.storage.from(PHOTO_BUCKET).upload(fileName, file, { contentType, upsert: false }));
+
+        const { data: { publicUrl } } = client.storage.from(PHOTO_BUCKET).getPublicUrl(fileName);
+
+        return unwrap(
+          await client
+            .from('fence_inspection_photos')
+            .insert({
+              inspection_id: inspectionId,
+              ranch_id: ranchId,
+              storage_url: publicUrl,
+              file_size_bytes: file.size,
+            })
+            .select()
+            .single()
+        ) as FenceInspectionPhoto;
+      },
+
+      async deletePhoto(photo) {
+        const filePath = photo.storage_url.split(`/${PHOTO_BUCKET}/`)[1];
+        check(await client.storage.from(PHOTO_BUCKET).remove([filePath]));
+        check(await client.from('fence_inspection_photos').delete().eq('id', photo.id));
+      },
+    },
+
+    pastures: {
+      async list(ranchId) {
+        return unwrapList(
+          await client
+            .from('pastures')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('name', { ascending: true })
+        ) as Pasture[];
+      },
+
+      async create(pasture) {
+        return unwrap(await client.from('pastures').insert(pasture).select().single()) as Pasture;
+      },
+
+      async update(id, updates) {
+        return unwrap(await client.from('pastures').update(updates).eq('id', id).select().single()) as Pasture;
+      },
+
+      async delete(id) {
+        check(await client.from('pastures').delete().eq('id', id));
+      },
+    },
+
+    animalMoves: {
+      async listForRanch(ranchId, limit) {
+        let query = client
+          .from('animal_moves')
+          .select('*')
+          .eq('ranch_id', ranchId)
+          .order('moved_on', { ascending: false })
+          .order('created_at', { ascending: false });
+
+        if (limit) {
+          query = query.limit(limit);
+        }
+
+        return unwrapList(await query) as AnimalMove[];
+      },
+
+      async moveAnimals({ ranchId, animalIds, toPastureId, movedOn, notes }) {
+        const { data, error } = await client.rpc('move_animals', {
+          p_ranch_id: ranchId,
+          p_animal_ids: animalIds,
+          p_to_pasture_id: toPastureId,
+          p_moved_on: movedOn,
+          p_notes: notes ?? null,
+        });
+
+        if (error) throw toDataError(error);
+        return data ?? 0;
+      },
+    },
+
+    grazingPlans: {
+      async list(ranchId) {
+        return unwrapList(
+          await client
+            .from('grazing_plans')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('start_date', { ascending: true })
+        ) as GrazingPlan[];
+      },
+
+      async create(plan) {
+        return unwrap(await client.from('grazing_plans').insert(plan).select().single()) as GrazingPlan;
+      },
+
+      async update(id, updates) {
+        return unwrap(
+          await client.from('grazing_plans').update(updates).eq('id', id).select().single()
+        ) as GrazingPlan;
+      },
+
+      async delete(id) {
+        check(await client.from('grazing_plans').delete().eq('id', id));
+      },
+    },
+
+    weights: {
+      async listForAnimal(animalId) {
+        return unwrapList(
+          await client
+            .from('weight_records')
+            .select('*')
+            .eq('animal_id', animalId)
+            .order('weigh_date', { ascending: true })
+        ) as WeightRecord[];
+      },
+
+      async create(record) {
+        return unwrap(await client.from('weight_records').insert(record).select().single()) as WeightRecord;
+      },
+
+      async delete(id) {
+        check(await client.from('weight_records').delete().eq('id', id));
+      },
+    },
+
+    withdrawalOverrides: {
+      async create(override) {
+        return unwrap(
+          await client.from('withdrawal_overrides').insert(override).select().single()
+        ) as WithdrawalOverride;
+      },
+    },
+
+    expenses: {
+      async list(ranchId) {
+        return unwrapList(
+          await client
+            .from('expenses')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('expense_date', { ascending: false })
+        ) as Expense[];
+      },
+
+      async listAllocations(ranchId) {
+        return unwrapList(
+          await client
+            .from('expense_allocations')
+            .select('*, expenses!inner(ranch_id)')
+            .eq('expenses.ranch_id', ranchId)
+        ) as ExpenseAllocation[];
+      },
+
+      async record({ ranchId, expenseDate, category, amount, allocation, animalIds, description, groupName }) {
+        const { data, error } = await client.rpc('record_expense', {
+          p_ranch_id: ranchId,
+          p_expense_date: expenseDate,
+          p_category: category,
+          p_amount: amount,
+          p_allocation: allocation,
+          p_animal_ids: animalIds,
+          p_description: description ?? null,
+          p_group_name: groupName ?? null,
+        });
+
+        if (error) throw toDataError(error);
+        return data;
+      },
+
+      async delete(id) {
+        check(await client.from('expenses').delete().eq('id', id));
+      },
+    },
+
+    sales: {
+      async list(ranchId) {
+        return unwrapList(
+          await client
+            .from('sales')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('sale_date', { ascending: false })
+        ) as Sale[];
+      },
+
+      async record(entry) {
+        const { data, error } = await client.rpc('record_sale', {
+          p_ranch_id: entry.ranchId,
+          p_sale_date: entry.saleDate,
+          p_gross_amount: entry.grossAmount,
+          p_commission: entry.commission,
+          p_yardage: entry.yardage,
+          p_checkoff: entry.checkoff,
+          p_trucking: entry.trucking,
+          p_split_method: entry.splitMethod,
+          p_animal_ids: entry.animalIds,
+          p_sale_prices: entry.salePrices,
+          p_sale_weights: entry.saleWeights,
+          p_buyer: entry.buyer ?? null,
+          p_sale_barn: entry.saleBarn ?? null,
+          p_notes: entry.notes ?? null,
+          p_withdrawal_override_reason: entry.withdrawalOverrideReason ?? null,
+        });
+
+        if (error) throw toDataError(error);
+        return data;
+      },
+
+      async delete(id) {
+        check(await client.from('sales').delete().eq('id', id));
+      },
+    },
+
+    photos: {
+      async listForAnimal(animalId) {
+        return unwrapList(
+          await client
+            .from('animal_photos')
+            .select('*')
+            .eq('animal_id', animalId)
+            .order('created_at', { ascending: true })
+        ) as AnimalPhoto[];
+      },
+
+      async upload({ animalId, ranchId, file, fileExtension, contentType, isPrimary, timeoutMs }) {
+        const fileName = `${ranchId}/${animalId}/${Date.now()}.${fileExtension}`;
+
+        check(await withTimeout(
+          client.storage.from(PHOTO_BUCKET).upload(fileName, file, { contentType, upsert: false }),
+          timeoutMs
+        ));
+
+        const { data: { publicUrl } } = client.storage.from(PHOTO_BUCKET).getPublicUrl(fileName);
+
+        return unwrap(
+          await client
+            .from('animal_photos')
+            .insert({
+              animal_id: animalId,
+              ranch_id: ranchId,
+              storage_url: publicUrl,
+              is_primary: isPrimary,
+              file_size_bytes: file.size,
+            })
+            .select()
+            .single()
+        ) as AnimalPhoto;
+      },
+
+      async delete(photo) {
+        const filePath = photo.storage_url.split(`/${PHOTO_BUCKET}/`)[1];
+        check(await client.storage.from(PHOTO_BUCKET).remove([filePath]));
+        check(await client.from('animal_photos').delete().eq('id', photo.id));
+      },
+    },
+
+    customFields: {
+      async listDefinitions(ranchId) {
+        return unwrapList(
+          await client
+            .from('custom_field_definitions')
+            .select('*')
+            .eq('ranch_id', ranchId)
+            .order('display_order', { ascending: true })
+        ) as CustomField[];
+      },
+
+      async createDefinition(field) {
+        return unwrap(
+          await client.from('custom_field_definitions').insert(field).select().single()
+        ) as CustomField;
+      },
+
+      async updateDefinition(id, updates) {
+        return unwrap(
+          await client
+            .from('custom_field_definitions')
+            .update({ ...updates, updated_at: new Date().toISOString() })
+            .eq('id', id)
+            .select()
+            .single()
+        ) as CustomField;
+      },
+
+      async deleteDefinition(id) {
+        check(await client.from('custom_field_definitions').delete().eq('id', id));
+      },
+
+      async listValues(animalIds) {
+        if (animalIds.length === 0) return [];
+        return unwrapList(
+          await client.from('custom_field_values').select('*').in('animal_id', animalIds)
+        ) as CustomFieldValue[];
+      },
+
+      async saveValues(animalId, values) {
+        for (const [fieldId, value] of Object.entries(values)) {
+          if (value) {
+            check(await client
+              .from('custom_field_values')
+              .upsert({
+                animal_id: animalId,
+                field_id: fieldId,
+                value,
+                updated_at: new Date().toISOString(),
+              }, {
+                onConflict: 'animal_id,field_id'
+              }));
+          } else {
+            check(await client
+              .from('custom_field_values')
+              .delete()
+              .eq('animal_id', animalId)
+              .eq('field_id', fieldId));
+          }
+        }
+      },
+    },
+
+    users: {
+      async getName(userId) {
+        const { data, error } = await client.from('users').select('name').eq('id', userId).maybeSingle();
+        if (error) throw toDataError(error);
+        return data?.name ?? null;
+      },
+    },
+
+    settings: {
+      async get(ranchId) {
+        const { data, error } = await client
+          .from('ranch_settings')
+          .select('*')
+          .eq('ranch_id', ranchId)
+          .maybeSingle();
+
+        if (error) throw toDataError(error);
+        return data as RanchSettings | null;
+      },
+
+      async create(ranchId) {
+        return unwrap(
+          await client.from('ranch_settings').insert({ ranch_id: ranchId }).select().single()
+        ) as RanchSettings;
+      },
+
+      async update(ranchId, updates) {
+        return unwrap(
+          await client.from('ranch_settings').update(updates).eq('ranch_id', ranchId).select().single()
+        ) as RanchSettings;
+      },
+    },
+  };
+}
@@ -0,0 +1,345 @@
+import type {
+  AnimalMove,
+  AnimalSex,
+  BreedingRecord,
+  Database,
+  CustomField,
+  CustomFieldValue,
+  Drug,
+  DrugLot,
+  Expense,
+  ExpenseAllocation,
+  Fence,
+  FenceInspection,
+  FenceInspectionPhoto,
+  GrazingPlan,
+  Pasture,
+  Sale,
+  TreatmentProtocol,
+  TreatmentProtocolItem,
+  User,
+  WeightRecord,
+  WithdrawalOverride,
+} from '../lib/database.types';
+import type { AnimalLocationFilter, AnimalStatusFilter, AnimalTypeFilter } from '../utils/animalSearch';
+
+type Tables = Database['public']['Tables'];
+
+export type Animal = Tables['animals']['Row'];
+export type AnimalInsert = Tables['animals']['Insert'];
+export type AnimalUpdate = Tables['animals']['Update'];
+
+export interface AnimalFilters {
+  status?: AnimalStatusFilter;
+  animalType?: AnimalTypeFilter;
+  sex?: AnimalSex | 'ALL';
+  location?: AnimalLocationFilter;
+  search?: string;
+  includeOther?: boolean;
+}
+
+export type MedicalRecord = Tables['medical_history']['Row'];
+export type MedicalRecordInsert = Tables['medical_history']['Insert'];
+export type MedicalRecordUpdate = Tables['medical_history']['Update'];
+
+export type BreedingRecordInsert = Tables['breeding_records']['Insert'];
+export type BreedingRecordUpdate = Tables['breeding_records']['Update'];
+
+export type DrugInsert = Tables['drugs']['Insert'];
+export type DrugUpdate = Tables['drugs']['Update'];
+
+export type DrugLotInsert = Tables['drug_lots']['Insert'];
+export type DrugLotUpdate = Tables['drug_lots']['Update'];
+
+export type TreatmentProtocolInsert = Tables['treatment_protocols']['Insert'];
+export type TreatmentProtocolUpdate = Tables['treatment_protocols']['Update'];
+// A protocol's drugs are numbered in the order they're saved
+export type TreatmentProtocolItemInput = Omit<Tables['treatment_protocol_items']['Insert'], 'protocol_id' | 'sort_order'>;
+
+export interface ProtocolApplication {
+  protocolId: string;
+  animalIds: string[];
+  date: string;
+  administeredBy: string | null;
+  reason: string | null;
+}
+
+export type FenceInsert = Tables['fences']['Insert'];
+export type FenceUpdate = Tables['fences']['Update'];
+
+export type FenceInspectionInsert = Tables['fence_inspections']['Insert'];
+export type FenceInspectionUpdate = Tables['fence_inspections']['Update'];
+
+export interface FenceInspectionPhotoUpload {
+  inspectionId: string;
+  ranchId: string;
+  file: Blob;
+  fileExtension: string;
+  contentType: string;
+}
+
+export type AnimalPhoto = Tables['animal_photos']['Row'];
+
+export interface PhotoUpload {
+  animalId: string;
+  ranchId: string;
+  file: Blob;
+  fileExtension: string;
+  contentType: string;
+  isPrimary: boolean;
+  // Storage uploads of large videos can hang; give up after this long
+  timeoutMs?: number;
+}
+
+export type PastureInsert = Tables['pastures']['Insert'];
+export type PastureUpdate = Tables['pastures']['Update'];
+
+export type GrazingPlanInsert = Tables['grazing_plans']['Insert'];
+export type GrazingPlanUpdate = Tables['grazing_plans']['Update'];
+
+export interface AnimalMoveRequest {
+  ranchId: string;
+  animalIds: string[];
+  toPastureId: string;
+  movedOn: string;
+  notes?: string | null;
+}
+
+export type WeightRecordInsert = Tables['weight_records']['Insert'];
+
+export type WithdrawalOverrideInsert = Tables['withdrawal_overrides']['Insert'];
+
+export interface ExpenseEntry {
+  ranchId: string;
+  expenseDate: string;
+  category: Expense['category'];
+  amount: number;
+  allocation: Expense['allocation'];
+  animalIds: string[];
+  description?: string | null;
+  // Only kept for GROUP expenses
+  groupName?: string | null;
+}
+
+export interface SaleEntry {
+  ranchId: string;
+  saleDate: string;
+  grossAmount: number;
+  commission: number;
+  yardage: number;
+  checkoff: number;
+  trucking: number;
+  splitMethod: Sale['split_method'];
+  // One price and weight per animal, in the same order; prices must add up to the net
+  animalIds: string[];
+  salePrices: number[];
+  saleWeights: number[];
+  buyer?: string | null;
+  saleBarn?: string | null;
+  notes?: string | null;
+  // Required when any animal is still within its meat withdrawal period
+  withdrawalOverrideReason?: string | null;
+}
+
+export type RanchSettings = Tables['ranch_settings']['Row'];
+export type CustomFieldInsert = Tables['custom_field_definitions']['Insert'];
+export type CustomFieldUpdate = Tables['custom_field_definitions']['Update'];
+
+export type RanchSettingsUpdate = Partial<Omit<RanchSettings, 'ranch_id' | 'created_at' | 'updated_at'>>;
+
+export type {
+  AnimalMove,
+  BreedingRecord,
+  CustomField,
+  CustomFieldValue,
+  Drug,
+  DrugLot,
+  Expense,
+  ExpenseAllocation,
+  Fence,
+  FenceInspection,
+  FenceInspectionPhoto,
+  GrazingPlan,
+  Pasture,
+  Sale,
+  TreatmentProtocol,
+  TreatmentProtocolItem,
+  User,
+  WeightRecord,
+  WithdrawalOverride,
+};
+
+export interface AnimalRepository {
+  list(ranchId: string, filters?: AnimalFilters): Promise<Animal[]>;
+  get(id: string): Promise<Animal | null>;
+  count(ranchId: string): Promise<number>;
+  create(animal: AnimalInsert): Promise<Animal>;
+  update(id: string, updates: AnimalUpdate): Promise<Animal>;
+  delete(id: string): Promise<void>;
+}
+
+export interface MedicalHistoryRepository {
+  listForAnimal(animalId: string): Promise<MedicalRecord[]>;
+  listForRanch(ranchId: string): Promise<MedicalRecord[]>;
+  create(record: MedicalRecordInsert): Promise<MedicalRecord>;
+  update(id: string, updates: MedicalRecordUpdate): Promise<MedicalRecord>;
+  delete(id: string): Promise<void>;
+}
+
+// Records are newest first by breeding date
+export interface BreedingRepository {
+  listForDam(damId: string): Promise<BreedingRecord[]>;
+  // Every dam's open (PENDING) breeding, for the due-to-calve report
+  listPending(ranchId: string): Promise<BreedingRecord[]>;
+  create(record: BreedingRecordInsert): Promise<BreedingRecord>;
+  update(id: string, updates: BreedingRecordUpdate): Promise<BreedingRecord>;
+  delete(id: string): Promise<void>;
+}
+
+export interface DrugRepository {
+  list(ranchId: string): Promise<Drug[]>;
+  create(drug: DrugInsert): Promise<Drug>;
+  update(id: string, updates: DrugUpdate): Promise<Drug>;
+  delete(id: string): Promise<void>;
+}
+
+export interface DrugLotRepository {
+  // Soonest expiring first, so treatments draw down the oldest stock
+  listForRanch(ranchId: string): Promise<DrugLot[]>;
+  // Most recently received first
+  listForDrug(drugId: string): Promise<DrugLot[]>;
+  create(lot: DrugLotInsert): Promise<DrugLot>;
+  update(id: string, updates: DrugLotUpdate): Promise<DrugLot>;
+  delete(id: string): Promise<void>;
+}
+
+// Protocols are in name order and their items in sort order
+export interface TreatmentProtocolRepository {
+  list(ranchId: string): Promise<TreatmentProtocol[]>;
+  listItems(protocolIds: string[]): Promise<TreatmentProtocolItem[]>;
+  // Saving a protocol replaces its whole drug list
+  create(protocol: TreatmentProtocolInsert, items: TreatmentProtocolItemInput[]): Promise<TreatmentProtocol>;
+  update(id: string, updates: TreatmentProtocolUpdate, items: TreatmentProtocolItemInput[]): Promise<TreatmentProtocol>;
+  delete(id: string): Promise<void>;
+  // Records a treatment per protocol drug for every animal; returns how many were recorded
+  apply(application: ProtocolApplication): Promise<number>;
+}
+
+export interface FenceRepository {
+  list(ranchId: string): Promise<Fence[]>;
+  create(fence: FenceInsert): Promise<Fence>;
+  update(id: string, updates: FenceUpdate): Promise<Fence>;
+  delete(id: string): Promise<void>;
+}
+
+// Inspections are newest first; photos need a connection and aren't kept in the offline cache
+export interface FenceInspectionRepository {
+  listForRanch(ranchId: string): Promise<FenceInspection[]>;
+  create(inspection: FenceInspectionInsert): Promise<FenceInspection>;
+  update(id: string, updates: FenceInspectionUpdate): Promise<FenceInspection>;
+  delete(id: string): Promise<void>;
+  listPhotos(ranchId: string): Promise<FenceInspectionPhoto[]>;
+  uploadPhoto(upload: FenceInspectionPhotoUpload): Promise<FenceInspectionPhoto>;
+  deletePhoto(photo: FenceInspectionPhoto): Promise<void>;
+}
+
+export interface PastureRepository {
+  list(ranchId: string): Promise<Pasture[]>;
+  create(pasture: PastureInsert): Promise<Pasture>;
+  update(id: string, updates: PastureUpdate): Promise<Pasture>;
+  delete(id: string): Promise<void>;
+}
+
+// Moves are newest first; `limit` keeps only the most recent ones
+export interface AnimalMoveRepository {
+  listForRanch(ranchId: string, limit?: number): Promise<AnimalMove[]>;
+  // Logs a move for every animal and updates where each one is now; returns how many moved
+  moveAnimals(move: AnimalMoveRequest): Promise<number>;
+}
+
+// Plans are in move-in order
+export interface GrazingPlanRepository {
+  list(ranchId: string): Promise<GrazingPlan[]>;
+  create(plan: GrazingPlanInsert): Promise<GrazingPlan>;
+  update(id: string, updates: GrazingPlanUpdate): Promise<GrazingPlan>;
+  delete(id: string): Promise<void>;
+}
+
+// Weigh-ins are oldest first, the order the weight chart draws them in
+export interface WeightRepository {
+  listForAnimal(animalId: string): Promise<WeightRecord[]>;
+  create(record: WeightRecordInsert): Promise<WeightRecord>;
+  delete(id: string): Promise<void>;
+}
+
+// Records a sale or slaughter that went ahead inside a drug withdrawal period
+export interface WithdrawalOverrideRepository {
+  create(override: WithdrawalOverrideInsert): Promise<WithdrawalOverride>;
+}
+
+// Expenses are newest first
+export interface ExpenseRepository {
+  list(ranchId: string): Promise<Expense[]>;
+  listAllocations(ranchId: string): Promise<ExpenseAllocation[]>;
+  // Saves the expense and splits it evenly across its animals, a cent at a time; returns the new expense's id
+  record(entry: ExpenseEntry): Promise<string>;
+  delete(id: string): Promise<void>;
+}
+
+// Sales are newest first
+export interface SaleRepository {
+  list(ranchId: string): Promise<Sale[]>;
+  // Saves the sale and marks each animal sold at its share; returns the new sale's id
+  record(entry: SaleEntry): Promise<string>;
+  // The animals stay sold with their prices
+  delete(id: string): Promise<void>;
+}
+
+export interface PhotoRepository {
+  listForAnimal(animalId: string): Promise<AnimalPhoto[]>;
+  upload(upload: PhotoUpload): Promise<AnimalPhoto>;
+  delete(photo: AnimalPhoto): Promise<void>;
+}
+
+export interface CustomFieldRepository {
+  listDefinitions(ranchId: string): Promise<CustomField[]>;
+  createDefinition(field: CustomFieldInsert): Promise<CustomField>;
+  updateDefinition(id: string, updates: CustomFieldUpdate): Promise<CustomField>;
+  deleteDefinition(id: string): Promise<void>;
+  listValues(animalIds: string[]): Promise<CustomFieldValue[]>;
+  // Empty or null values delete the stored value for that field
+  saveValues(animalId: string, values: Record<string, string | null>): Promise<void>;
+}
+
+export interface UserRepository {
+  getName(userId: string): Promise<string | null>;
+}
+
+export interface SettingsRepository {
+  get(ranchId: string): Promise<RanchSettings | null>;
+  // Creates the ranch's settings with the column defaults
+  create(ranchId: string): Promise<RanchSettings>;
+  update(ranchId: string, updates: RanchSettingsUpdate): Promise<RanchSettings>;
+}
+
+export interface DataStore {
+  animals: AnimalRepository;
+  medicalHistory: MedicalHistoryRepository;
+  breeding: BreedingRepository;
+  drugs: DrugRepository;
+  drugLots: DrugLotRepository;
+  treatmentProtocols: TreatmentProtocolRepository;
+  fences: FenceRepository;
+  fenceInspections: FenceInspectionRepository;
+  pastures: PastureRepository;
+  animalMoves: AnimalMoveRepository;
+  grazingPlans: GrazingPlanRepository;
+  weights: WeightRepository;
+  withdrawalOverrides: WithdrawalOverrideRepository;
+  expenses: ExpenseRepository;
+  sales: SaleRepository;
+  photos: PhotoRepository;
+  customFields: CustomFieldRepository;
+  users: UserRepository;
+  settings: SettingsRepository;
+}
@@ -1,436 +1,1877 @@
+// Generated by scripts/generate-db-types.mjs from supabase/migrations - do not edit by hand.
+// Run `npm run db:types` after adding a migration; `npm run db:types:check` fails when this file is stale.
+
 export type Json =
   | string
   | number
   | boolean
   | null
   | { [key: string]: Json | undefined }
-  | Json[]
+  | Json[];
 
-export type UserRole = 'ADMIN' | 'RANCHHAND' | 'VIEWER' | 'VET';
+export type UserRole = 'ADMIN' | 'OWNER' | 'MANAGER' | 'RANCHHAND' | 'VIEWER' | 'VET';
 export type AnimalSource = 'BORN' | 'PURCHASED';
 export type AnimalStatus = 'PRESENT' | 'SOLD' | 'BUTCHERED' | 'DEAD';
-export type AnimalSex = 'BULL' | 'STEER' | 'HEIFER';
+export type AnimalType = 'Cattle' | 'Horse' | 'Sheep' | 'Goat' | 'Pig' | 'Donkey' | 'Other';
 export type LicenseType = 'full' | 'demo';
+export type BreedingMethod = 'NATURAL' | 'AI' | 'EMBRYO_TRANSFER';
+export type PregnancyStatus = 'UNCHECKED' | 'PREGNANT' | 'OPEN';
+export type BreedingOutcome = 'PENDING' | 'BIRTH' | 'LOST';
+export type WithdrawalOverrideStatus = 'SOLD' | 'BUTCHERED';
+export type TreatmentRoute = 'IM' | 'SC' | 'IV' | 'ORAL' | 'TOPICAL' | 'POUR_ON' | 'INTRANASAL' | 'INTRAMAMMARY' | 'OTHER';
+export type AnimalSex = 'BULL' | 'STEER' | 'COW' | 'HEIFER' | 'STALLION' | 'GELDING' | 'MARE' | 'FILLY' | 'COLT' | 'RAM' | 'WETHER' | 'EWE' | 'LAMB' | 'BUCK' | 'DOE' | 'KID' | 'BOAR' | 'BARROW' | 'SOW' | 'GILT' | 'PIGLET' | 'MALE' | 'CASTRATED_MALE' | 'FEMALE' | 'N/A';
 
-export interface Database {
+export type Database = {
   public: {
     Tables: {
-      ranches: {
+      admins: {
         Row: {
-          id: string;
-          name: string;
-          location: string | null;
-          active_license_key: string | null;
-          license_type: LicenseType | null;
-          license_expiration: string | null;
-          license_activated_at: string | null;
-          last_backup_date: string | null;
-          created_at: string;
-          updated_at: string;
+          created_at: string | null;
+          user_id: string;
         };
         Insert: {
-          id?: string;
-          name: string;
-          location?: string | null;
-          active_license_key?: string | null;
-          license_type?: LicenseType | null;
-          license_expiration?: string | null;
-          license_activated_at?: string | null;
-          last_backup_date?: string | null;
-          created_at?: string;
-          updated_at?: string;
+          created_at?: string | null;
+          user_id: string;
         };
         Update: {
-          id?: string;
-          name?: string;
-          location?: string | null;
-          active_license_key?: string | null;
-          license_type?: LicenseType | null;
-          license_expiration?: string | null;
-          license_activated_at?: string | null;
-          last_backup_date?: string | null;
-          created_at?: string;
-          updated_at?: string;
+          created_at?: string | null;
+          user_id?: string;
         };
+        Relationships: [];
       };
-      users: {
+      animal_moves: {
         Row: {
+          animal_id: string;
+          created_at: string | null;
+          created_by_user_id: string | null;
+          from_pasture_id: string | null;
           id: string;
-          email: string;
-          name: string;
-          created_at: string;
-          updated_at: string;
-        };
-        Insert: {
-          id: string;
-          email: string;
-          name: string;
-          created_at?: string;
-          updated_at?: string;
-        };
-        Update: {
-          id?: string;
-          email?: string;
-          name?: string;
-          created_at?: string;
-          updated_at?: string;
-        };
-      };
-      user_ranches: {
-        Row: {
-          user_id: string;
+          moved_on: string;
+          notes: string | null;
           ranch_id: string;
-          role: UserRole;
-          created_at: string;
+          to_pasture_id: string | null;
         };
         Insert: {
-          user_id: string;
+          animal_id: string;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          from_pasture_id?: string | null;
+          id?: string;
+          moved_on: string;
+          notes?: string | null;
           ranch_id: string;
-          role?: UserRole;
-          created_at?: string;
+          to_pasture_id?: string | null;
         };
         Update: {
-          user_id?: string;
+          animal_id?: string;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          from_pasture_id?: string | null;
+          id?: string;
+          moved_on?: string;
+          notes?: string | null;
           ranch_id?: string;
-          role?: UserRole;
-          created_at?: string;
+          to_pasture_id?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'animal_moves_animal_id_fkey';
+            columns: ['animal_id'];
+            isOneToOne: false;
+            referencedRelation: 'animals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'animal_moves_created_by_user_id_fkey';
+            columns: ['created_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'animal_moves_from_pasture_id_fkey';
+            columns: ['from_pasture_id'];
+            isOneToOne: false;
+            referencedRelation: 'pastures';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'animal_moves_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'animal_moves_to_pasture_id_fkey';
+            columns: ['to_pasture_id'];
+            isOneToOne: false;
+            referencedRelation: 'pastures';
+            referencedColumns: ['id'];
+          },
+        ];
       };
-      ranch_settings: {
+      animal_photos: {
         Row: {
+          animal_id: string;
+          caption: string | null;
+          created_at: string | null;
+          file_size_bytes: number | null;
+          id: string;
+          is_primary: boolean | null;
+          is_synced: boolean | null;
           ranch_id: string;
-          report_line1: string;
-          report_line2: string;
-          adult_age_years: number;
-          time_zone: string;
-          created_at: string;
-          updated_at: string;
+          storage_url: string;
+          taken_at: string | null;
+          taken_by_user_id: string | null;
+          thumbnail_url: string | null;
+          updated_at: string | null;
         };
         Insert: {
+          animal_id: string;
+          caption?: string | null;
+          created_at?: string | null;
+          file_size_bytes?: number | null;
+          id?: string;
+          is_primary?: boolean | null;
+          is_synced?: boolean | null;
           ranch_id: string;
-          report_line1?: string;
-          report_line2?: string;
-          adult_age_years?: number;
-          time_zone?: string;
-          created_at?: string;
-          updated_at?: string;
+          storage_url: string;
+          taken_at?: string | null;
+          taken_by_user_id?: string | null;
+          thumbnail_url?: string | null;
+          updated_at?: string | null;
         };
         Update: {
+          animal_id?: string;
+          caption?: string | null;
+          created_at?: string | null;
+          file_size_bytes?: number | null;
+          id?: string;
+          is_primary?: boolean | null;
+          is_synced?: boolean | null;
           ranch_id?: string;
-          report_line1?: string;
-          report_line2?: string;
-          adult_age_years?: number;
-          time_zone?: string;
-          created_at?: string;
-          updated_at?: string;
+          storage_url?: string;
+          taken_at?: string | null;
+          taken_by_user_id?: string | null;
+          thumbnail_url?: string | null;
+          updated_at?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'animal_photos_taken_by_user_id_fkey';
+            columns: ['taken_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       animals: {
         Row: {
+          animal_type: AnimalType;
+          birth_date: string | null;
+          birth_weight_lbs: number | null;
+          breed: string | null;
+          breed_composition: Json | null;
+          calving_ease: number | null;
+          created_at: string | null;
+          current_pasture_id: string | null;
+          description: string | null;
+          exit_date: string | null;
+          father_id: string | null;
+          geometry: Json | null;
           id: string;
-          ranch_id: string;
           legacy_uid: string | null;
-          source: AnimalSource;
-          status: AnimalStatus;
-          tag_number: string | null;
-          tag_color: string | null;
+          meat_withdrawal_clear_date: string | null;
+          milk_withdrawal_clear_date: string | null;
+          mother_id: string | null;
           name: string | null;
+          notes: string | null;
+          percentage_blood: number | null;
+          purchase_date: string | null;
+          purchase_price: number | null;
+          ranch_id: string;
+          registration_number: string | null;
+          registry_name: string | null;
+          sale_id: string | null;
+          sale_price: number | null;
+          sale_weight_lbs: number | null;
+          seller: string | null;
           sex: AnimalSex;
-          description: string | null;
-          birth_date: string | null;
+          source: AnimalSource;
+          status: AnimalStatus | null;
+          tag_color: string | null;
+          tag_number: string | null;
+          updated_at: string | null;
           weaning_date: string | null;
-          exit_date: string | null;
-          mother_id: string | null;
-          father_id: string | null;
+          weaning_weight_lbs: number | null;
           weight_lbs: number | null;
-          notes: string | null;
-          created_at: string;
-          updated_at: string;
         };
         Insert: {
+          animal_type?: AnimalType;
+          birth_date?: string | null;
+          birth_weight_lbs?: number | null;
+          breed?: string | null;
+          breed_composition?: Json | null;
+          calving_ease?: number | null;
+          created_at?: string | null;
+          current_pasture_id?: string | null;
+          description?: string | null;
+          exit_date?: string | null;
+          father_id?: string | null;
+          geometry?: Json | null;
           id?: string;
-          ranch_id: string;
           legacy_uid?: string | null;
-          source: AnimalSource;
-          status?: AnimalStatus;
-          tag_number?: string | null;
-          tag_color?: string | null;
+          meat_withdrawal_clear_date?: string | null;
+          milk_withdrawal_clear_date?: string | null;
+          mother_id?: string | null;
           name?: string | null;
+          notes?: string | null;
+          percentage_blood?: number | null;
+          purchase_date?: string | null;
+          purchase_price?: number | null;
+          ranch_id: string;
+          registration_number?: string | null;
+          registry_name?: string | null;
+          sale_id?: string | null;
+          sale_price?: number | null;
+          sale_weight_lbs?: number | null;
+          seller?: string | null;
           sex: AnimalSex;
-          description?: string | null;
-          birth_date?: string | null;
+          source: AnimalSource;
+          status?: AnimalStatus | null;
+          tag_color?: string | null;
+          tag_number?: string | null;
+          updated_at?: string | null;
           weaning_date?: string | null;
-          exit_date?: string | null;
-          mother_id?: string | null;
-          father_id?: string | null;
+          weaning_weight_lbs?: number | null;
           weight_lbs?: number | null;
-          notes?: string | null;
-          created_at?: string;
-          updated_at?: string;
         };
         Update: {
+          animal_type?: AnimalType;
+          birth_date?: string | null;
+          birth_weight_lbs?: number | null;
+          breed?: string | null;
+          breed_composition?: Json | null;
+          calving_ease?: number | null;
+          created_at?: string | null;
+          current_pasture_id?: string | null;
+          description?: string | null;
+          exit_date?: string | null;
+          father_id?: string | null;
+          geometry?: Json | null;
           id?: string;
-          ranch_id?: string;
           legacy_uid?: string | null;
-          source?: AnimalSource;
-          status?: AnimalStatus;
-          tag_number?: string | null;
-          tag_color?: string | null;
+          meat_withdrawal_clear_date?: string | null;
+          milk_withdrawal_clear_date?: string | null;
+          mother_id?: string | null;
           name?: string | null;
+          notes?: string | null;
+          percentage_blood?: number | null;
+          purchase_date?: string | null;
+          purchase_price?: number | null;
+          ranch_id?: string;
+          registration_number?: string | null;
+          registry_name?: string | null;
+          sale_id?: string | null;
+          sale_price?: number | null;
+          sale_weight_lbs?: number | null;
+          seller?: string | null;
           sex?: AnimalSex;
-          description?: string | null;
-          birth_date?: string | null;
+          source?: AnimalSource;
+          status?: AnimalStatus | null;
+          tag_color?: string | null;
+          tag_number?: string | null;
+          updated_at?: string | null;
           weaning_date?: string | null;
-          exit_date?: string | null;
-          mother_id?: string | null;
-          father_id?: string | null;
+          weaning_weight_lbs?: number | null;
           weight_lbs?: number | null;
-          notes?: string | null;
-          created_at?: string;
-          updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'animals_current_pasture_id_fkey';
+            columns: ['current_pasture_id'];
+            isOneToOne: false;
+            referencedRelation: 'pastures';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'animals_father_id_fkey';
+            columns: ['father_id'];
+            isOneToOne: false;
+            referencedRelation: 'animals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'animals_mother_id_fkey';
+            columns: ['mother_id'];
+            isOneToOne: false;
+            referencedRelation: 'animals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'animals_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'animals_sale_id_fkey';
+            columns: ['sale_id'];
+            isOneToOne: false;
+            referencedRelation: 'sales';
+            referencedColumns: ['id'];
+          },
+        ];
       };
-      medical_history: {
+      breeding_records: {
         Row: {
+          breeding_date: string;
+          breeding_method: BreedingMethod;
+          closed_date: string | null;
+          created_at: string | null;
+          created_by_user_id: string | null;
+          dam_id: string;
           id: string;
-          animal_id: string;
+          notes: string | null;
+          offspring_id: string | null;
+          outcome: BreedingOutcome;
+          pregnancy_check_date: string | null;
+          pregnancy_status: PregnancyStatus;
           ranch_id: string;
-          date: string;
-          description: string;
-          created_by_user_id: string | null;
-          created_at: string;
-          updated_at: string;
+          sire_id: string | null;
+          sire_identifier: string | null;
+          technician: string | null;
+          updated_at: string | null;
         };
         Insert: {
+          breeding_date: string;
+          breeding_method?: BreedingMethod;
+          closed_date?: string | null;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          dam_id: string;
           id?: string;
-          animal_id: string;
+          notes?: string | null;
+          offspring_id?: string | null;
+          outcome?: BreedingOutcome;
+          pregnancy_check_date?: string | null;
+          pregnancy_status?: PregnancyStatus;
           ranch_id: string;
-          date: string;
-          description: string;
-          created_by_user_id?: string | null;
-          created_at?: string;
-          updated_at?: string;
+          sire_id?: string | null;
+          sire_identifier?: string | null;
+          technician?: string | null;
+          updated_at?: string | null;
         };
         Update: {
+          breeding_date?: string;
+          breeding_method?: BreedingMethod;
+          closed_date?: string | null;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          dam_id?: string;
           id?: string;
-          animal_id?: string;
+          notes?: string | null;
+          offspring_id?: string | null;
+          outcome?: BreedingOutcome;
+          pregnancy_check_date?: string | null;
+          pregnancy_status?: PregnancyStatus;
           ranch_id?: string;
-          date?: string;
-          description?: string;
-          created_by_user_id?: string | null;
-          created_at?: string;
-          updated_at?: string;
+          sire_id?: string | null;
+          sire_identifier?: string | null;
+          technician?: string | null;
+          updated_at?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'breeding_records_created_by_user_id_fkey';
+            columns: ['created_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'breeding_records_dam_id_fkey';
+            columns: ['dam_id'];
+            isOneToOne: false;
+            referencedRelation: 'animals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'breeding_records_offspring_id_fkey';
+            columns: ['offspring_id'];
+            isOneToOne: false;
+            referencedRelation: 'animals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'breeding_records_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'breeding_records_sire_id_fkey';
+            columns: ['sire_id'];
+            isOneToOne: false;
+            referencedRelation: 'animals';
+            referencedColumns: ['id'];
+          },
+        ];
       };
-      animal_photos: {
+      count_report_snapshots: {
         Row: {
+          created_at: string | null;
+          created_by_user_id: string | null;
+          data: Json;
           id: string;
-          animal_id: string;
           ranch_id: string;
-          storage_url: string;
-          thumbnail_url: string | null;
-          caption: string | null;
-          taken_at: string | null;
-          taken_by_user_id: string | null;
-          is_primary: boolean;
-          is_synced: boolean;
-          file_size_bytes: number | null;
-          created_at: string;
-          updated_at: string;
+          snapshot_date: string | null;
+          source: 'MANUAL' | 'AUTO';
         };
         Insert: {
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          data: Json;
           id?: string;
-          animal_id: string;
           ranch_id: string;
-          storage_url: string;
-          thumbnail_url?: string | null;
-          caption?: string | null;
-          taken_at?: string | null;
-          taken_by_user_id?: string | null;
-          is_primary?: boolean;
-          is_synced?: boolean;
-          file_size_bytes?: number | null;
-          created_at?: string;
-          updated_at?: string;
+          snapshot_date?: string | null;
+          source?: 'MANUAL' | 'AUTO';
         };
         Update: {
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          data?: Json;
           id?: string;
-          animal_id?: string;
           ranch_id?: string;
-          storage_url?: string;
-          thumbnail_url?: string | null;
-          caption?: string | null;
-          taken_at?: string | null;
-          taken_by_user_id?: string | null;
-          is_primary?: boolean;
-          is_synced?: boolean;
-          file_size_bytes?: number | null;
-          created_at?: string;
-          updated_at?: string;
+          snapshot_date?: string | null;
+          source?: 'MANUAL' | 'AUTO';
         };
+        Relationships: [
+          {
+            foreignKeyName: 'count_report_snapshots_created_by_user_id_fkey';
+            columns: ['created_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
       };
-      count_report_snapshots: {
+      custom_field_definitions: {
         Row: {
+          created_at: string | null;
+          display_order: number;
+          field_name: string;
+          field_type: 'text' | 'dollar' | 'integer' | 'decimal';
           id: string;
+          include_in_totals: boolean;
+          is_required: boolean;
           ranch_id: string;
-          snapshot_date: string;
-          data: Json;
-          created_by_user_id: string | null;
-          created_at: string;
+          updated_at: string | null;
         };
         Insert: {
+          created_at?: string | null;
+          display_order?: number;
+          field_name: string;
+          field_type: 'text' | 'dollar' | 'integer' | 'decimal';
           id?: string;
+          include_in_totals?: boolean;
+          is_required?: boolean;
           ranch_id: string;
-          snapshot_date?: string;
-          data: Json;
-          created_by_user_id?: string | null;
-          created_at?: string;
+          updated_at?: string | null;
         };
         Update: {
+          created_at?: string | null;
+          display_order?: number;
+          field_name?: string;
+          field_type?: 'text' | 'dollar' | 'integer' | 'decimal';
           id?: string;
+          include_in_totals?: boolean;
+          is_required?: boolean;
           ranch_id?: string;
-          snapshot_date?: string;
-          data?: Json;
-          created_by_user_id?: string | null;
-          created_at?: string;
+          updated_at?: string | null;
         };
+        Relationships: [];
       };
-      terms_acceptances: {
+      custom_field_values: {
         Row: {
+          animal_id: string;
+          created_at: string | null;
+          field_id: string;
           id: string;
-          user_id: string;
-          terms_version: string;
-          accepted_at: string;
-          ip_address: string | null;
-          user_agent: string | null;
+          updated_at: string | null;
+          value: string | null;
         };
         Insert: {
+          animal_id: string;
+          created_at?: string | null;
+          field_id: string;
           id?: string;
-          user_id: string;
-          terms_version: string;
-          accepted_at?: string;
-          ip_address?: string | null;
-          user_agent?: string | null;
+          updated_at?: string | null;
+          value?: string | null;
         };
         Update: {
+          animal_id?: string;
+          created_at?: string | null;
+          field_id?: string;
           id?: string;
-          user_id?: string;
-          terms_version?: string;
-          accepted_at?: string;
-          ip_address?: string | null;
-          user_agent?: string | null;
+          updated_at?: string | null;
+          value?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'custom_field_values_field_id_fkey';
+            columns: ['field_id'];
+            isOneToOne: false;
+            referencedRelation: 'custom_field_definitions';
+            referencedColumns: ['id'];
+          },
+        ];
       };
-      custom_field_definitions: {
+      drug_lots: {
         Row: {
+          bottle_size_ml: number | null;
+          bottles_received: number;
+          cost_per_ml: number | null;
+          created_at: string | null;
+          drug_id: string;
+          expiration_date: string | null;
           id: string;
+          lot_number: string;
+          notes: string | null;
           ranch_id: string;
-          field_name: string;
-          field_type: 'text' | 'dollar' | 'integer' | 'decimal';
-          include_in_totals: boolean;
-          is_required: boolean;
-          display_order: number;
-          created_at: string;
-          updated_at: string;
+          received_date: string;
+          updated_at: string | null;
+          volume_on_hand_ml: number;
         };
         Insert: {
+          bottle_size_ml?: number | null;
+          bottles_received?: number;
+          cost_per_ml?: number | null;
+          created_at?: string | null;
+          drug_id: string;
+          expiration_date?: string | null;
           id?: string;
+          lot_number: string;
+          notes?: string | null;
           ranch_id: string;
-          field_name: string;
-          field_type: 'text' | 'dollar' | 'integer' | 'decimal';
-          include_in_totals?: boolean;
-          is_required?: boolean;
-          display_order?: number;
-          created_at?: string;
-          updated_at?: string;
+          received_date?: string;
+          updated_at?: string | null;
+          volume_on_hand_ml?: number;
         };
         Update: {
+          bottle_size_ml?: number | null;
+          bottles_received?: number;
+          cost_per_ml?: number | null;
+          created_at?: string | null;
+          drug_id?: string;
+          expiration_date?: string | null;
           id?: string;
+          lot_number?: string;
+          notes?: string | null;
           ranch_id?: string;
-          field_name?: string;
-          field_type?: 'text' | 'dollar' | 'integer' | 'decimal';
-          include_in_totals?: boolean;
-          is_required?: boolean;
-          display_order?: number;
-          created_at?: string;
-          updated_at?: string;
+          received_date?: string;
+          updated_at?: string | null;
+          volume_on_hand_ml?: number;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'drug_lots_drug_id_fkey';
+            columns: ['drug_id'];
+            isOneToOne: false;
+            referencedRelation: 'drugs';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'drug_lots_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
       };
-      custom_field_values: {
+      drugs: {
         Row: {
+          animal_type: AnimalType;
+          ccs_per_pound: number | null;
+          created_at: string | null;
+          drug_name: string;
+          fixed_dose_ml: number | null;
           id: string;
-          animal_id: string;
-          field_id: string;
-          value: string | null;
-          created_at: string;
-          updated_at: string;
+          low_stock_ml: number | null;
+          meat_withdrawal_days: number;
+          milk_withdrawal_days: number;
+          notes: string | null;
+          ranch_id: string;
+          updated_at: string | null;
         };
         Insert: {
+          animal_type?: AnimalType;
+          ccs_per_pound?: number | null;
+          created_at?: string | null;
+          drug_name: string;
+          fixed_dose_ml?: number | null;
           id?: string;
-          animal_id: string;
-          field_id: string;
-          value?: string | null;
-          created_at?: string;
-          updated_at?: string;
+          low_stock_ml?: number | null;
+          meat_withdrawal_days?: number;
+          milk_withdrawal_days?: number;
+          notes?: string | null;
+          ranch_id: string;
+          updated_at?: string | null;
         };
         Update: {
+          animal_type?: AnimalType;
+          ccs_per_pound?: number | null;
+          created_at?: string | null;
+          drug_name?: string;
+          fixed_dose_ml?: number | null;
+          id?: string;
+          low_stock_ml?: number | null;
+          meat_withdrawal_days?: number;
+          milk_withdrawal_days?: number;
+          notes?: string | null;
+          ranch_id?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'drugs_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      expense_allocations: {
+        Row: {
+          amount: number;
+          animal_id: string;
+          expense_id: string;
+          id: string;
+        };
+        Insert: {
+          amount: number;
+          animal_id: string;
+          expense_id: string;
           id?: string;
+        };
+        Update: {
+          amount?: number;
           animal_id?: string;
-          field_id?: string;
-          value?: string | null;
-          created_at?: string;
-          updated_at?: string;
+          expense_id?: string;
+          id?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'expense_allocations_animal_id_fkey';
+            columns: ['animal_id'];
+            isOneToOne: false;
+            referencedRelation: 'animals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expense_allocations_expense_id_fkey';
+            columns: ['expense_id'];
+            isOneToOne: false;
+            referencedRelation: 'expenses';
+            referencedColumns: ['id'];
+          },
+        ];
       };
-      admins: {
+      expenses: {
         Row: {
-          user_id: string;
-          created_at: string;
+          allocation: 'ANIMAL' | 'GROUP' | 'HERD';
+          amount: number;
+          category: 'FEED' | 'VET' | 'TRUCKING' | 'OTHER';
+          created_at: string | null;
+          created_by_user_id: string | null;
+          description: string | null;
+          expense_date: string;
+          group_name: string | null;
+          id: string;
+          ranch_id: string;
+          updated_at: string | null;
         };
         Insert: {
-          user_id: string;
-          created_at?: string;
+          allocation: 'ANIMAL' | 'GROUP' | 'HERD';
+          amount: number;
+          category: 'FEED' | 'VET' | 'TRUCKING' | 'OTHER';
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          description?: string | null;
+          expense_date: string;
+          group_name?: string | null;
+          id?: string;
+          ranch_id: string;
+          updated_at?: string | null;
         };
         Update: {
-          user_id?: string;
-          created_at?: string;
+          allocation?: 'ANIMAL' | 'GROUP' | 'HERD';
+          amount?: number;
+          category?: 'FEED' | 'VET' | 'TRUCKING' | 'OTHER';
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          description?: string | null;
+          expense_date?: string;
+          group_name?: string | null;
+          id?: string;
+          ranch_id?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'expenses_created_by_user_id_fkey';
+            columns: ['created_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'expenses_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      fence_inspection_photos: {
+        Row: {
+          created_at: string | null;
+          file_size_bytes: number | null;
+          id: string;
+          inspection_id: string;
+          ranch_id: string;
+          storage_url: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          file_size_bytes?: number | null;
+          id?: string;
+          inspection_id: string;
+          ranch_id: string;
+          storage_url: string;
+        };
+        Update: {
+          created_at?: string | null;
+          file_size_bytes?: number | null;
+          id?: string;
+          inspection_id?: string;
+          ranch_id?: string;
+          storage_url?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'fence_inspection_photos_inspection_id_fkey';
+            columns: ['inspection_id'];
+            isOneToOne: false;
+            referencedRelation: 'fence_inspections';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'fence_inspection_photos_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      fence_inspections: {
+        Row: {
+          condition_rating: number | null;
+          created_at: string | null;
+          created_by_user_id: string | null;
+          fence_id: string;
+          id: string;
+          inspected_on: string;
+          inspector: string | null;
+          issues_found: string | null;
+          ranch_id: string;
+          repair_completed_on: string | null;
+          repair_notes: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          condition_rating?: number | null;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          fence_id: string;
+          id?: string;
+          inspected_on: string;
+          inspector?: string | null;
+          issues_found?: string | null;
+          ranch_id: string;
+          repair_completed_on?: string | null;
+          repair_notes?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          condition_rating?: number | null;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          fence_id?: string;
+          id?: string;
+          inspected_on?: string;
+          inspector?: string | null;
+          issues_found?: string | null;
+          ranch_id?: string;
+          repair_completed_on?: string | null;
+          repair_notes?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'fence_inspections_created_by_user_id_fkey';
+            columns: ['created_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'fence_inspections_fence_id_fkey';
+            columns: ['fence_id'];
+            isOneToOne: false;
+            referencedRelation: 'fences';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'fence_inspections_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      fences: {
+        Row: {
+          check_due_date: string | null;
+          check_frequency: 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY' | 'BEFORE_TURNOUT' | 'AFTER_STORMS';
+          created_at: string | null;
+          description: string;
+          geometry: Json | null;
+          id: string;
+          last_checked_by: string | null;
+          last_checked_date: string | null;
+          ranch_id: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          check_due_date?: string | null;
+          check_frequency?: 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY' | 'BEFORE_TURNOUT' | 'AFTER_STORMS';
+          created_at?: string | null;
+          description: string;
+          geometry?: Json | null;
+          id?: string;
+          last_checked_by?: string | null;
+          last_checked_date?: string | null;
+          ranch_id: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          check_due_date?: string | null;
+          check_frequency?: 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY' | 'BEFORE_TURNOUT' | 'AFTER_STORMS';
+          created_at?: string | null;
+          description?: string;
+          geometry?: Json | null;
+          id?: string;
+          last_checked_by?: string | null;
+          last_checked_date?: string | null;
+          ranch_id?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'fences_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      grazing_plans: {
+        Row: {
+          created_at: string | null;
+          end_date: string;
+          id: string;
+          notes: string | null;
+          pasture_id: string;
+          ranch_id: string;
+          start_date: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          end_date: string;
+          id?: string;
+          notes?: string | null;
+          pasture_id: string;
+          ranch_id: string;
+          start_date: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          end_date?: string;
+          id?: string;
+          notes?: string | null;
+          pasture_id?: string;
+          ranch_id?: string;
+          start_date?: string;
+          updated_at?: string | null;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'grazing_plans_pasture_id_fkey';
+            columns: ['pasture_id'];
+            isOneToOne: false;
+            referencedRelation: 'pastures';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'grazing_plans_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      invitations: {
+        Row: {
+          code: string;
+          created_at: string | null;
+          created_by_user_id: string;
+          expires_at: string;
+          id: string;
+          license_key_id: string | null;
+          ranch_id: string | null;
+          restricted_email: string | null;
+          role: 'MANAGER' | 'RANCHHAND' | 'VIEWER' | 'VET' | null;
+          type: 'ranch_creation' | 'ranch_member';
+          used_at: string | null;
+          used_by_user_id: string | null;
+        };
+        Insert: {
+          code: string;
+          created_at?: string | null;
+          created_by_user_id: string;
+          expires_at: string;
+          id?: string;
+          license_key_id?: string | null;
+          ranch_id?: string | null;
+          restricted_email?: string | null;
+          role?: 'MANAGER' | 'RANCHHAND' | 'VIEWER' | 'VET' | null;
+          type: 'ranch_creation' | 'ranch_member';
+          used_at?: string | null;
+          used_by_user_id?: string | null;
+        };
+        Update: {
+          code?: string;
+          created_at?: string | null;
+          created_by_user_id?: string;
+          expires_at?: string;
+          id?: string;
+          license_key_id?: string | null;
+          ranch_id?: string | null;
+          restricted_email?: string | null;
+          role?: 'MANAGER' | 'RANCHHAND' | 'VIEWER' | 'VET' | null;
+          type?: 'ranch_creation' | 'ranch_member';
+          used_at?: string | null;
+          used_by_user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'invitations_license_key_id_fkey';
+            columns: ['license_key_id'];
+            isOneToOne: false;
+            referencedRelation: 'license_keys';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'invitations_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       license_keys: {
         Row: {
+          created_at: string | null;
+          created_by_user_id: string | null;
+          expiration_date: string;
           id: string;
           key: string;
           license_type: LicenseType;
-          expiration_date: string;
+          max_animals: number;
           used_by_ranch_id: string | null;
-          created_at: string;
-          created_by_user_id: string | null;
         };
         Insert: {
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          expiration_date: string;
           id?: string;
           key: string;
           license_type: LicenseType;
-          expiration_date: string;
+          max_animals?: number;
           used_by_ranch_id?: string | null;
-          created_at?: string;
-          created_by_user_id?: string | null;
         };
         Update: {
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          expiration_date?: string;
           id?: string;
           key?: string;
           license_type?: LicenseType;
-          expiration_date?: string;
+          max_animals?: number;
           used_by_ranch_id?: string | null;
+        };
+        Relationships: [];
+      };
+      medical_history: {
+        Row: {
+          administered_by: string | null;
+          animal_id: string;
+          created_at: string | null;
+          created_by_user_id: string | null;
+          date: string;
+          description: string;
+          dose: number | null;
+          dose_units: string | null;
+          drug_id: string | null;
+          drug_lot_id: string | null;
+          drug_name: string | null;
+          id: string;
+          injection_site: string | null;
+          lot_number: string | null;
+          ranch_id: string;
+          reason: string | null;
+          route: TreatmentRoute | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          administered_by?: string | null;
+          animal_id: string;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          date: string;
+          description: string;
+          dose?: number | null;
+          dose_units?: string | null;
+          drug_id?: string | null;
+          drug_lot_id?: string | null;
+          drug_name?: string | null;
+          id?: string;
+          injection_site?: string | null;
+          lot_number?: string | null;
+          ranch_id: string;
+          reason?: string | null;
+          route?: TreatmentRoute | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          administered_by?: string | null;
+          animal_id?: string;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          date?: string;
+          description?: string;
+          dose?: number | null;
+          dose_units?: string | null;
+          drug_id?: string | null;
+          drug_lot_id?: string | null;
+          drug_name?: string | null;
+          id?: string;
+          injection_site?: string | null;
+          lot_number?: string | null;
+          ranch_id?: string;
+          reason?: string | null;
+          route?: TreatmentRoute | null;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'medical_history_created_by_user_id_fkey';
+            columns: ['created_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'medical_history_drug_id_fkey';
+            columns: ['drug_id'];
+            isOneToOne: false;
+            referencedRelation: 'drugs';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'medical_history_drug_lot_id_fkey';
+            columns: ['drug_lot_id'];
+            isOneToOne: false;
+            referencedRelation: 'drug_lots';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      messages: {
+        Row: {
+          content: string;
+          created_at: string;
+          from_admin: boolean;
+          id: string;
+          ranch_id: string;
+          read: boolean;
+        };
+        Insert: {
+          content: string;
+          created_at?: string;
+          from_admin?: boolean;
+          id?: string;
+          ranch_id: string;
+          read?: boolean;
+        };
+        Update: {
+          content?: string;
           created_at?: string;
+          from_admin?: boolean;
+          id?: string;
+          ranch_id?: string;
+          read?: boolean;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'messages_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      movies: {
+        Row: {
+          actor: string | null;
+          created_at: string | null;
+          folder: string | null;
+          genre: string | null;
+          id: string;
+          movie_name: string;
+          notes: string | null;
+          ranch_id: string;
+          rating: string | null;
+        };
+        Insert: {
+          actor?: string | null;
+          created_at?: string | null;
+          folder?: string | null;
+          genre?: string | null;
+          id?: string;
+          movie_name: string;
+          notes?: string | null;
+          ranch_id: string;
+          rating?: string | null;
+        };
+        Update: {
+          actor?: string | null;
+          created_at?: string | null;
+          folder?: string | null;
+          genre?: string | null;
+          id?: string;
+          movie_name?: string;
+          notes?: string | null;
+          ranch_id?: string;
+          rating?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'movies_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      pastures: {
+        Row: {
+          acreage: number | null;
+          capacity_head: number | null;
+          created_at: string | null;
+          forage_estimated_on: string | null;
+          forage_lbs_per_acre: number | null;
+          geometry: Json | null;
+          id: string;
+          kind: 'PASTURE' | 'PADDOCK';
+          max_graze_days: number | null;
+          min_rest_days: number;
+          name: string;
+          notes: string | null;
+          parent_pasture_id: string | null;
+          ranch_id: string;
+          updated_at: string | null;
+          utilization_pct: number;
+        };
+        Insert: {
+          acreage?: number | null;
+          capacity_head?: number | null;
+          created_at?: string | null;
+          forage_estimated_on?: string | null;
+          forage_lbs_per_acre?: number | null;
+          geometry?: Json | null;
+          id?: string;
+          kind?: 'PASTURE' | 'PADDOCK';
+          max_graze_days?: number | null;
+          min_rest_days?: number;
+          name: string;
+          notes?: string | null;
+          parent_pasture_id?: string | null;
+          ranch_id: string;
+          updated_at?: string | null;
+          utilization_pct?: number;
+        };
+        Update: {
+          acreage?: number | null;
+          capacity_head?: number | null;
+          created_at?: string | null;
+          forage_estimated_on?: string | null;
+          forage_lbs_per_acre?: number | null;
+          geometry?: Json | null;
+          id?: string;
+          kind?: 'PASTURE' | 'PADDOCK';
+          max_graze_days?: number | null;
+          min_rest_days?: number;
+          name?: string;
+          notes?: string | null;
+          parent_pasture_id?: string | null;
+          ranch_id?: string;
+          updated_at?: string | null;
+          utilization_pct?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'pastures_parent_pasture_id_fkey';
+            columns: ['parent_pasture_id'];
+            isOneToOne: false;
+            referencedRelation: 'pastures';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'pastures_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      ranch_settings: {
+        Row: {
+          adult_age_years: number | null;
+          auto_count_snapshots: boolean;
+          cattle_adult_age: number;
+          created_at: string | null;
+          default_animal_type: AnimalType;
+          enable_injection_feature: boolean;
+          goat_adult_age: number;
+          horse_adult_age: number;
+          pig_adult_age: number;
+          print_program: string | null;
+          ranch_id: string;
+          report_line1: string | null;
+          report_line2: string | null;
+          sheep_adult_age: number;
+          time_zone: string | null;
+          updated_at: string | null;
+        };
+        Insert: {
+          adult_age_years?: number | null;
+          auto_count_snapshots?: boolean;
+          cattle_adult_age?: number;
+          created_at?: string | null;
+          default_animal_type?: AnimalType;
+          enable_injection_feature?: boolean;
+          goat_adult_age?: number;
+          horse_adult_age?: number;
+          pig_adult_age?: number;
+          print_program?: string | null;
+          ranch_id: string;
+          report_line1?: string | null;
+          report_line2?: string | null;
+          sheep_adult_age?: number;
+          time_zone?: string | null;
+          updated_at?: string | null;
+        };
+        Update: {
+          adult_age_years?: number | null;
+          auto_count_snapshots?: boolean;
+          cattle_adult_age?: number;
+          created_at?: string | null;
+          default_animal_type?: AnimalType;
+          enable_injection_feature?: boolean;
+          goat_adult_age?: number;
+          horse_adult_age?: number;
+          pig_adult_age?: number;
+          print_program?: string | null;
+          ranch_id?: string;
+          report_line1?: string | null;
+          report_line2?: string | null;
+          sheep_adult_age?: number;
+          time_zone?: string | null;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      ranches: {
+        Row: {
+          active_license_key: string | null;
+          contact_email: string | null;
+          contact_name: string | null;
+          contact_phone: string | null;
+          created_at: string | null;
+          created_by: string | null;
+          id: string;
+          last_backup_date: string | null;
+          license_activated_at: string | null;
+          license_expiration: string | null;
+          license_type: LicenseType | null;
+          location: string | null;
+          max_animals: number | null;
+          name: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          active_license_key?: string | null;
+          contact_email?: string | null;
+          contact_name?: string | null;
+          contact_phone?: string | null;
+          created_at?: string | null;
+          created_by?: string | null;
+          id?: string;
+          last_backup_date?: string | null;
+          license_activated_at?: string | null;
+          license_expiration?: string | null;
+          license_type?: LicenseType | null;
+          location?: string | null;
+          max_animals?: number | null;
+          name: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          active_license_key?: string | null;
+          contact_email?: string | null;
+          contact_name?: string | null;
+          contact_phone?: string | null;
+          created_at?: string | null;
+          created_by?: string | null;
+          id?: string;
+          last_backup_date?: string | null;
+          license_activated_at?: string | null;
+          license_expiration?: string | null;
+          license_type?: LicenseType | null;
+          location?: string | null;
+          max_animals?: number | null;
+          name?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      sales: {
+        Row: {
+          buyer: string | null;
+          checkoff: number;
+          commission: number;
+          created_at: string | null;
+          created_by_user_id: string | null;
+          gross_amount: number;
+          id: string;
+          net_amount: number;
+          notes: string | null;
+          ranch_id: string;
+          sale_barn: string | null;
+          sale_date: string;
+          split_method: 'EVEN' | 'WEIGHT' | 'MANUAL';
+          trucking: number;
+          updated_at: string | null;
+          yardage: number;
+        };
+        Insert: {
+          buyer?: string | null;
+          checkoff?: number;
+          commission?: number;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          gross_amount: number;
+          id?: string;
+          net_amount: number;
+          notes?: string | null;
+          ranch_id: string;
+          sale_barn?: string | null;
+          sale_date: string;
+          split_method?: 'EVEN' | 'WEIGHT' | 'MANUAL';
+          trucking?: number;
+          updated_at?: string | null;
+          yardage?: number;
+        };
+        Update: {
+          buyer?: string | null;
+          checkoff?: number;
+          commission?: number;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          gross_amount?: number;
+          id?: string;
+          net_amount?: number;
+          notes?: string | null;
+          ranch_id?: string;
+          sale_barn?: string | null;
+          sale_date?: string;
+          split_method?: 'EVEN' | 'WEIGHT' | 'MANUAL';
+          trucking?: number;
+          updated_at?: string | null;
+          yardage?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'sales_created_by_user_id_fkey';
+            columns: ['created_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'sales_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      terms_acceptances: {
+        Row: {
+          accepted_at: string | null;
+          id: string;
+          ip_address: string | null;
+          terms_version: string;
+          user_agent: string | null;
+          user_id: string;
+        };
+        Insert: {
+          accepted_at?: string | null;
+          id?: string;
+          ip_address?: string | null;
+          terms_version: string;
+          user_agent?: string | null;
+          user_id: string;
+        };
+        Update: {
+          accepted_at?: string | null;
+          id?: string;
+          ip_address?: string | null;
+          terms_version?: string;
+          user_agent?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'terms_acceptances_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      tips_tricks: {
+        Row: {
+          content: string | null;
+          id: string;
+          updated_at: string | null;
+          updated_by: string | null;
+        };
+        Insert: {
+          content?: string | null;
+          id?: string;
+          updated_at?: string | null;
+          updated_by?: string | null;
+        };
+        Update: {
+          content?: string | null;
+          id?: string;
+          updated_at?: string | null;
+          updated_by?: string | null;
+        };
+        Relationships: [];
+      };
+      treatment_protocol_items: {
+        Row: {
+          drug_id: string;
+          id: string;
+          injection_site: string | null;
+          protocol_id: string;
+          route: TreatmentRoute | null;
+          sort_order: number;
+        };
+        Insert: {
+          drug_id: string;
+          id?: string;
+          injection_site?: string | null;
+          protocol_id: string;
+          route?: TreatmentRoute | null;
+          sort_order?: number;
+        };
+        Update: {
+          drug_id?: string;
+          id?: string;
+          injection_site?: string | null;
+          protocol_id?: string;
+          route?: TreatmentRoute | null;
+          sort_order?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'treatment_protocol_items_drug_id_fkey';
+            columns: ['drug_id'];
+            isOneToOne: false;
+            referencedRelation: 'drugs';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'treatment_protocol_items_protocol_id_fkey';
+            columns: ['protocol_id'];
+            isOneToOne: false;
+            referencedRelation: 'treatment_protocols';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      treatment_protocols: {
+        Row: {
+          animal_type: string;
+          created_at: string | null;
+          id: string;
+          name: string;
+          notes: string | null;
+          ranch_id: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          animal_type?: string;
+          created_at?: string | null;
+          id?: string;
+          name: string;
+          notes?: string | null;
+          ranch_id: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          animal_type?: string;
+          created_at?: string | null;
+          id?: string;
+          name?: string;
+          notes?: string | null;
+          ranch_id?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'treatment_protocols_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_ranches: {
+        Row: {
+          created_at: string | null;
+          ranch_id: string;
+          role: UserRole;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string | null;
+          ranch_id: string;
+          role: UserRole;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string | null;
+          ranch_id?: string;
+          role?: UserRole;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_ranches_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      users: {
+        Row: {
+          created_at: string | null;
+          email: string;
+          id: string;
+          name: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          created_at?: string | null;
+          email: string;
+          id: string;
+          name: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          created_at?: string | null;
+          email?: string;
+          id?: string;
+          name?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [];
+      };
+      weight_records: {
+        Row: {
+          animal_id: string;
+          created_at: string | null;
+          created_by_user_id: string | null;
+          id: string;
+          notes: string | null;
+          ranch_id: string;
+          updated_at: string | null;
+          weigh_date: string;
+          weight_lbs: number;
+        };
+        Insert: {
+          animal_id: string;
+          created_at?: string | null;
           created_by_user_id?: string | null;
+          id?: string;
+          notes?: string | null;
+          ranch_id: string;
+          updated_at?: string | null;
+          weigh_date: string;
+          weight_lbs: number;
+        };
+        Update: {
+          animal_id?: string;
+          created_at?: string | null;
+          created_by_user_id?: string | null;
+          id?: string;
+          notes?: string | null;
+          ranch_id?: string;
+          updated_at?: string | null;
+          weigh_date?: string;
+          weight_lbs?: number;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'weight_records_animal_id_fkey';
+            columns: ['animal_id'];
+            isOneToOne: false;
+            referencedRelation: 'animals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'weight_records_created_by_user_id_fkey';
+            columns: ['created_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'weight_records_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
       };
+      withdrawal_overrides: {
+        Row: {
+          animal_id: string;
+          created_at: string | null;
+          exit_date: string;
+          id: string;
+          meat_withdrawal_clear_date: string;
+          overridden_by_user_id: string | null;
+          ranch_id: string;
+          reason: string;
+          status: WithdrawalOverrideStatus;
+        };
+        Insert: {
+          animal_id: string;
+          created_at?: string | null;
+          exit_date: string;
+          id?: string;
+          meat_withdrawal_clear_date: string;
+          overridden_by_user_id?: string | null;
+          ranch_id: string;
+          reason: string;
+          status: WithdrawalOverrideStatus;
+        };
+        Update: {
+          animal_id?: string;
+          created_at?: string | null;
+          exit_date?: string;
+          id?: string;
+          meat_withdrawal_clear_date?: string;
+          overridden_by_user_id?: string | null;
+          ranch_id?: string;
+          reason?: string;
+          status?: WithdrawalOverrideStatus;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'withdrawal_overrides_animal_id_fkey';
+            columns: ['animal_id'];
+            isOneToOne: false;
+            referencedRelation: 'animals';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'withdrawal_overrides_overridden_by_user_id_fkey';
+            columns: ['overridden_by_user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'withdrawal_overrides_ranch_id_fkey';
+            columns: ['ranch_id'];
+            isOneToOne: false;
+            referencedRelation: 'ranches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      apply_treatment_protocol: {
+        Args: {
+          p_protocol_id: string;
+          p_animal_ids: string[];
+          p_date: string;
+          p_administered_by?: string | null;
+          p_reason?: string | null;
+        };
+        Returns: number;
+      };
+      is_ranch_admin: {
+        Args: {
+          check_user_id: string;
+          check_ranch_id: string;
+        };
+        Returns: boolean;
+      };
+      is_ranch_member: {
+        Args: {
+          check_user_id: string;
+          check_ranch_id: string;
+        };
+        Returns: boolean;
+      };
+      move_animals: {
+        Args: {
+          p_ranch_id: string;
+          p_animal_ids: string[];
+          p_to_pasture_id: string;
+          p_moved_on: string;
+          p_notes?: string | null;
+        };
+        Returns: number;
+      };
+      record_expense: {
+        Args: {
+          p_ranch_id: string;
+          p_expense_date: string;
+          p_category: string;
+          p_amount: number;
+          p_allocation: string;
+          p_animal_ids: string[];
+          p_description?: string | null;
+          p_group_name?: string | null;
+        };
+        Returns: string;
+      };
+      record_sale: {
+        Args: {
+          p_ranch_id: string;
+          p_sale_date: string;
+          p_gross_amount: number;
+          p_commission: number;
+          p_yardage: number;
+          p_checkoff: number;
+          p_trucking: number;
+          p_split_method: string;
+          p_animal_ids: string[];
+          p_sale_prices: number[];
+          p_sale_weights: number[];
+          p_buyer?: string | null;
+          p_sale_barn?: string | null;
+          p_notes?: string | null;
+          p_withdrawal_override_reason?: string | null;
+        };
+        Returns: string;
+      };
+    };
+    Enums: {
+      animal_sex: 'BULL' | 'STEER' | 'HEIFER' | 'COW';
+      animal_source: 'BORN' | 'PURCHASED';
+      animal_status: 'PRESENT' | 'SOLD' | 'DEAD' | 'BUTCHERED';
+      user_role: 'ADMIN' | 'RANCHHAND' | 'VIEWER' | 'VET';
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
-}
+};
 
 export type Animal = Database['public']['Tables']['animals']['Row'];
 export type MedicalHistory = Database['public']['Tables']['medical_history']['Row'];
-export type Injection = MedicalHistory;
+export type Injection = Database['public']['Tables']['medical_history']['Row'];
+export type WeightRecord = Database['public']['Tables']['weight_records']['Row'];
+export type BreedingRecord = Database['public']['Tables']['breeding_records']['Row'];
+export type Drug = Database['public']['Tables']['drugs']['Row'];
+export type DrugLot = Database['public']['Tables']['drug_lots']['Row'];
+export type WithdrawalOverride = Database['public']['Tables']['withdrawal_overrides']['Row'];
+export type CountReportSnapshot = Database['public']['Tables']['count_report_snapshots']['Row'];
+export type Expense = Database['public']['Tables']['expenses']['Row'];
+export type ExpenseAllocation = Database['public']['Tables']['expense_allocations']['Row'];
+export type Sale = Database['public']['Tables']['sales']['Row'];
+export type Pasture = Database['public']['Tables']['pastures']['Row'];
+export type AnimalMove = Database['public']['Tables']['animal_moves']['Row'];
+export type GrazingPlan = Database['public']['Tables']['grazing_plans']['Row'];
+export type TreatmentProtocol = Database['public']['Tables']['treatment_protocols']['Row'];
+export type TreatmentProtocolItem = Database['public']['Tables']['treatment_protocol_items']['Row'];
 export type CustomField = Database['public']['Tables']['custom_field_definitions']['Row'];
 export type CustomFieldValue = Database['public']['Tables']['custom_field_values']['Row'];
+export type Fence = Database['public']['Tables']['fences']['Row'];
+export type FenceInspection = Database['public']['Tables']['fence_inspections']['Row'];
+export type FenceInspectionPhoto = Database['public']['Tables']['fence_inspection_photos']['Row'];
+export type Movie = Database['public']['Tables']['movies']['Row'];
+export type Message = Database['public']['Tables']['messages']['Row'];
+export type Invitation = Database['public']['Tables']['invitations']['Row'];
+export type LicenseKey = Database['public']['Tables']['license_keys']['Row'];
+export type Ranch = Database['public']['Tables']['ranches']['Row'];
+export type TipTrick = Database['public']['Tables']['tips_tricks']['Row'];
+export type User = Database['public']['Tables']['users']['Row'];
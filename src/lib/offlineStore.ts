@@ -0,0 +1,199 @@
+// IndexedDB cache of the current ranch's records plus the queue of edits made while offline.
+// Records are stored as returned by Supabase; every cached store is indexed by ranch_id.
+
+import type { Database } from './database.types';
+
+export type OfflineTable = Extract<
+  keyof Database['public']['Tables'],
+  'animals' | 'medical_history' | 'fences' | 'fence_inspections' | 'pastures' | 'grazing_plans' | 'ranch_settings'
+>;
+
+export const OFFLINE_TABLES: OfflineTable[] = [
+  'animals',
+  'medical_history',
+  'fences',
+  'fence_inspections',
+  'pastures',
+  'grazing_plans',
+  'ranch_settings',
+];
+
+export type MutationOperation = 'insert' | 'update' | 'delete';
+export type MutationStatus = 'pending' | 'conflict' | 'error';
+
+export interface QueuedMutation {
+  id?: number;
+  ranch_id: string;
+  table: OfflineTable;
+  operation: MutationOperation;
+  record_id: string;
+  payload: Record<string, unknown>;
+  // updated_at of the cached record the edit was based on; a different value on the
+  // server at replay time means someone else changed the record in the meantime
+  base_updated_at: string | null;
+  queued_at: string;
+  status: MutationStatus;
+  error: string | null;
+}
+
+type CachedRecord = Record<string, unknown> & { ranch_id: string };
+
+const DB_NAME = 'amadorherdinfo-offline';
+// Bumped whenever a table is added so onupgradeneeded creates its store
+const DB_VERSION = 4;
+const QUEUE_STORE = 'sync_queue';
+const META_STORE = 'meta';
+
+// ranch_settings is keyed by ranch_id; every other table by id
+export const KEY_PATHS: Record<OfflineTable, string> = {
+  animals: 'id',
+  medical_history: 'id',
+  fences: 'id',
+  fence_inspections: 'id',
+  pastures: 'id',
+  grazing_plans: 'id',
+  ranch_settings: 'ranch_id',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isOfflineStoreAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const table of OFFLINE_TABLES) {
+          if (!db.objectStoreNames.contains(table)) {
+            const store = db.createObjectStore(table, { keyPath: KEY_PATHS[table] });
+            store.createIndex('ranch_id', 'ranch_id', { unique: false });
+          }
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          const queue = db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+          queue.createIndex('ranch_id', 'ranch_id', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: 'key' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function getRecordKey(table: OfflineTable, record: Record<string, unknown>): string {
+  return record[KEY_PATHS[table]] as string;
+}
+
+// Replace everything cached for the ranch in this table with a fresh server copy
+export async function replaceCachedRecords(table: OfflineTable, ranchId: string, records: CachedRecord[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(table, 'readwrite');
+  const store = tx.objectStore(table);
+  const keys = await requestToPromise(store.index('ranch_id').getAllKeys(ranchId));
+  for (const key of keys) {
+    store.delete(key);
+  }
+  for (const record of records) {
+    store.put(record);
+  }
+  await transactionDone(tx);
+}
+
+export async function getCachedRecords<T>(table: OfflineTable, ranchId: string): Promise<T[]> {
+  const db = await openDb();
+  const tx = db.transaction(table, 'readonly');
+  return requestToPromise(tx.objectStore(table).index('ranch_id').getAll(ranchId)) as Promise<T[]>;
+}
+
+export async function getCachedRecord<T>(table: OfflineTable, key: string): Promise<T | null> {
+  const db = await openDb();
+  const tx = db.transaction(table, 'readonly');
+  const record = await requestToPromise(tx.objectStore(table).get(key));
+  return (record as T) || null;
+}
+
+export async function putCachedRecord(table: OfflineTable, record: CachedRecord): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(table, 'readwrite');
+  tx.objectStore(table).put(record);
+  await transactionDone(tx);
+}
+
+export async function deleteCachedRecord(table: OfflineTable, key: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(table, 'readwrite');
+  tx.objectStore(table).delete(key);
+  await transactionDone(tx);
+}
+
+export async function addQueuedMutation(mutation: Omit<QueuedMutation, 'id'>): Promise<number> {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  const id = await requestToPromise(tx.objectStore(QUEUE_STORE).add(mutation));
+  await transactionDone(tx);
+  return id as number;
+}
+
+// Oldest first, so edits replay in the order they were made
+export async function getQueuedMutations(ranchId: string): Promise<QueuedMutation[]> {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readonly');
+  const mutations = await requestToPromise(tx.objectStore(QUEUE_STORE).index('ranch_id').getAll(ranchId));
+  return (mutations as QueuedMutation[]).sort((a, b) => (a.id || 0) - (b.id || 0));
+}
+
+export async function updateQueuedMutation(mutation: QueuedMutation): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).put(mutation);
+  await transactionDone(tx);
+}
+
+export async function removeQueuedMutation(id: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export async function getMetaValue(key: string): Promise<string | null> {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const entry = await requestToPromise(tx.objectStore(META_STORE).get(key));
+  return (entry as { key: string; value: string } | undefined)?.value ?? null;
+}
+
+export async function setMetaValue(key: string, value: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put({ key, value });
+  await transactionDone(tx);
+}
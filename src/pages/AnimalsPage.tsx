@@ -1,30 +1,46 @@
 import { useState, useEffect } from 'react';
 import { Layout } from '../components/Layout';
 import { AnimalDetailModal } from '../components/AnimalDetailModal';
+import { ApplyProtocolModal } from '../components/ApplyProtocolModal';
+import { ExpenseModal } from '../components/ExpenseModal';
+import { SaleModal } from '../components/SaleModal';
+import { MoveAnimalsModal } from '../components/MoveAnimalsModal';
 import { GenericCSVImportModal } from '../components/GenericCSVImportModal';
 import { useRanch } from '../contexts/RanchContext';
 import { useToast } from '../contexts/ToastContext';
-import { supabase } from '../lib/supabase';
-import { Plus, Upload, Trash2, Lock } from 'lucide-react';
-import type { Database } from '../lib/database.types';
+import { useData } from '../contexts/DataContext';
+import { Plus, Upload, Trash2, Lock, Syringe, ScanBarcode, Receipt, DollarSign, MapPin } from 'lucide-react';
+import type { Animal } from '../data/types';
+import type { AnimalSex, Pasture } from '../lib/database.types';
 import { canAddAnimal, getLicenseMessage } from '../utils/licenseEnforcement';
 import { ANIMAL_TYPES, getSexOptions, type AnimalType } from '../utils/animalTypes';
-
-type Animal = Database['public']['Tables']['animals']['Row'];
+import { resolveBreedFields } from '../utils/breedComposition';
+import { CALVING_EASE_LABELS } from '../utils/calfPerformance';
+import { getPastureLabel, getPastureName, sortPastures } from '../utils/pastures';
+import { FEMALE_SEXES } from '../utils/pedigree';
+import type { AnimalLocationFilter } from '../utils/animalSearch';
 
 export function AnimalsPage() {
   const { currentRanch, licenseInfo, currentUserRole, isDemoMode } = useRanch();
   const { showToast } = useToast();
+  const { data, handleError } = useData();
   const isReadOnly = currentUserRole === 'VIEWER' && !isDemoMode;
   const [animals, setAnimals] = useState<Animal[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<'ALL' | 'PRESENT' | 'SOLD' | 'DEAD' | 'BUTCHERED'>('PRESENT');
   const [animalTypeFilter, setAnimalTypeFilter] = useState<'ALL' | AnimalType>('ALL');
-  const [sexFilter, setSexFilter] = useState('ALL');
+  const [sexFilter, setSexFilter] = useState<AnimalSex | 'ALL'>('ALL');
+  const [locationFilter, setLocationFilter] = useState<AnimalLocationFilter>('ALL');
+  const [pastures, setPastures] = useState<Pasture[]>([]);
   const [searchText, setSearchText] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [selectedAnimal, setSelectedAnimal] = useState<Animal | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showApplyProtocol, setShowApplyProtocol] = useState(false);
+  const [showExpense, setShowExpense] = useState(false);
+  const [showSale, setShowSale] = useState(false);
+  const [showMove, setShowMove] = useState(false);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [formData, setFormData] = useState({
@@ -32,7 +48,7 @@ export function AnimalsPage() {
     tag_color: '',
     name: '',
     animal_type: 'Cattle' as AnimalType,
-    sex: 'BULL' as any,
+    sex: 'BULL' as AnimalSex,
     source: 'BORN' as 'BORN' | 'PURCHASED',
     birth_date: '',
     weaning_date: '',
@@ -41,50 +57,51 @@ export function AnimalsPage() {
     father_id: '',
     notes: '',
     description: '',
+    breed: '',
+    percentage_blood: '',
+    registry_name: '',
+    registration_number: '',
+    purchase_date: '',
+    purchase_price: '',
+    seller: '',
+    calving_ease: '',
+    birth_weight_lbs: '',
   });
 
   useEffect(() => {
     if (currentRanch) {
       fetchAnimals();
     }
-  }, [currentRanch, statusFilter, animalTypeFilter, sexFilter, searchText]);
+  }, [currentRanch, statusFilter, animalTypeFilter, sexFilter, locationFilter, searchText, data]);
 
-  const fetchAnimals = async () => {
+  useEffect(() => {
+    if (currentRanch) {
+      fetchPastures();
+    }
+  }, [currentRanch, data]);
+
+  const fetchPastures = async () => {
     if (!currentRanch) return;
 
-    setLoading(true);
     try {
-      let query = supabase
-        .from('animals')
-        .select('*')
-        .eq('ranch_id', currentRanch.id)
-        .neq('animal_type', 'Other')
-        .order('tag_number', { ascending: true, nullsFirst: true });
-
-      if (statusFilter !== 'ALL') {
-        query = query.eq('status', statusFilter);
-      }
-
-      if (animalTypeFilter !== 'ALL') {
-        query = query.eq('animal_type', animalTypeFilter);
-      }
-
-      if (sexFilter !== 'ALL') {
-        query = query.eq('sex', sexFilter);
-      }
-
-      if (searchText) {
-        const searchLower = searchText.toLowerCase();
-        query = query.or(
-          `tag_number.ilike.%${searchLower}%,name.ilike.%${searchLower}%,description.ilike.%${searchLower}%`
-        );
-      }
-
-      const { data, error } = await query;
+      setPastures(await data.pastures.list(currentRanch.id));
+    } catch (error) {
+      console.error('Error fetching pastures:', error);
+    }
+  };
 
-      if (error) throw error;
+  const fetchAnimals = async () => {
+    if (!currentRanch) return;
 
-      setAnimals(data || []);
+    setLoading(true);
+    try {
+      setAnimals(await data.animals.list(currentRanch.id, {
+        status: statusFilter,
+        animalType: animalTypeFilter,
+        sex: sexFilter,
+        location: locationFilter,
+        search: searchText,
+      }));
     } catch (error) {
       console.error('Error fetching animals:', error);
     } finally {
@@ -105,7 +122,7 @@ export function AnimalsPage() {
     return `${Math.floor(ageInYears)}yr`;
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: string | null) => {
     switch (status) {
       case 'PRESENT':
         return 'bg-green-100 text-green-800';
@@ -123,12 +140,7 @@ export function AnimalsPage() {
   const handleOpenAddModal = async () => {
     if (!currentRanch) return;
 
-    const { count } = await supabase
-      .from('animals')
-      .select('*', { count: 'exact', head: true })
-      .eq('ranch_id', currentRanch.id);
-
-    const totalAnimals = count || 0;
+    const totalAnimals = await data.animals.count(currentRanch.id);
 
     if (!canAddAnimal(licenseInfo, totalAnimals)) {
       const message = getLicenseMessage(licenseInfo, totalAnimals);
@@ -138,13 +150,9 @@ export function AnimalsPage() {
       return;
     }
 
-    const { data: settings } = await supabase
-      .from('ranch_settings')
-      .select('default_animal_type')
-      .eq('ranch_id', currentRanch.id)
-      .maybeSingle();
+    const settings = await data.settings.get(currentRanch.id);
 
-    const defaultType = (settings?.default_animal_type as AnimalType) || 'Cattle';
+    const defaultType = settings?.default_animal_type || 'Cattle';
     const sexOptions = getSexOptions(defaultType);
 
     setFormData({
@@ -152,7 +160,7 @@ export function AnimalsPage() {
       tag_color: '',
       name: '',
       animal_type: defaultType,
-      sex: sexOptions[0].toUpperCase() as any,
+      sex: sexOptions[0].toUpperCase() as AnimalSex,
       source: 'BORN',
       birth_date: '',
       weaning_date: '',
@@ -161,6 +169,15 @@ export function AnimalsPage() {
       father_id: '',
       notes: '',
       description: '',
+      breed: '',
+      percentage_blood: '',
+      registry_name: '',
+      registration_number: '',
+      purchase_date: '',
+      purchase_price: '',
+      seller: '',
+      calving_ease: '',
+      birth_weight_lbs: '',
     });
 
     setShowAddModal(true);
@@ -170,42 +187,16 @@ export function AnimalsPage() {
     e.preventDefault();
     if (!currentRanch) return;
 
-    const { count } = await supabase
-      .from('animals')
-      .select('*', { count: 'exact', head: true })
-      .eq('ranch_id', currentRanch.id);
-
-    const totalAnimals = count || 0;
+    const totalAnimals = await data.animals.count(currentRanch.id);
 
     if (!canAddAnimal(licenseInfo, totalAnimals)) {
       showToast('Cannot add animals with current license status', 'error');
       return;
     }
 
-    if (isDemoMode) {
-      setShowAddModal(false);
-      setFormData({
-        tag_number: '',
-        tag_color: '',
-        name: '',
-        animal_type: 'Cattle',
-        sex: 'BULL',
-        source: 'BORN',
-        birth_date: '',
-        weaning_date: '',
-        exit_date: '',
-        mother_id: '',
-        father_id: '',
-        notes: '',
-        description: '',
-      });
-      showToast('Demonstration Mode - Animal was not added.', 'info');
-      return;
-    }
-
     setSaving(true);
     try {
-      const { error } = await supabase.from('animals').insert({
+      await data.animals.create({
         ranch_id: currentRanch.id,
         tag_number: formData.tag_number || null,
         tag_color: formData.tag_color || null,
@@ -213,6 +204,9 @@ export function AnimalsPage() {
         animal_type: formData.animal_type,
         sex: formData.sex,
         source: formData.source,
+        purchase_date: formData.source === 'PURCHASED' ? formData.purchase_date || null : null,
+        purchase_price: formData.source === 'PURCHASED' && formData.purchase_price ? parseFloat(formData.purchase_price) : null,
+        seller: formData.source === 'PURCHASED' ? formData.seller.trim() || null : null,
         birth_date: formData.birth_date || null,
         weaning_date: formData.weaning_date || null,
         exit_date: formData.exit_date || null,
@@ -221,10 +215,17 @@ export function AnimalsPage() {
         description: formData.description || null,
         notes: formData.notes || null,
         status: 'PRESENT',
+        ...resolveBreedFields(
+          { ...formData, breed_composition: '' },
+          animals.find(a => a.id === formData.father_id),
+          animals.find(a => a.id === formData.mother_id)
+        ),
+        registry_name: formData.registry_name || null,
+        registration_number: formData.registration_number || null,
+        calving_ease: formData.calving_ease ? parseInt(formData.calving_ease) : null,
+        birth_weight_lbs: formData.birth_weight_lbs ? parseFloat(formData.birth_weight_lbs) : null,
       });
 
-      if (error) throw error;
-
       setShowAddModal(false);
       setFormData({
         tag_number: '',
@@ -240,19 +241,40 @@ export function AnimalsPage() {
         father_id: '',
         notes: '',
         description: '',
+        breed: '',
+        percentage_blood: '',
+        registry_name: '',
+        registration_number: '',
+        purchase_date: '',
+        purchase_price: '',
+        seller: '',
+        calving_ease: '',
+        birth_weight_lbs: '',
       });
       await fetchAnimals();
-    } catch (error: any) {
-      console.error('Error adding animal:', error);
-      const errorMessage = error?.message || 'Unknown error';
-      const errorCode = error?.code || '';
-      const errorDetails = error?.details || '';
-      alert(`Failed to add animal.\n\nError: ${errorMessage}\nCode: ${errorCode}\nDetails: ${errorDetails}`);
+    } catch (error) {
+      handleError(error, 'add animal');
     } finally {
       setSaving(false);
     }
   };
 
+  const selectedAnimals = animals.filter(a => selectedIds.has(a.id));
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedAnimals.length === animals.length ? new Set() : new Set(animals.map(a => a.id)));
+  };
+
   return (
     <Layout currentPage="animals">
       <div className="space-y-6">
@@ -262,6 +284,13 @@ export function AnimalsPage() {
             <p className="text-gray-600 mt-1">Manage your herd</p>
           </div>
           <div className="flex gap-2">
+            <a
+              href="/chute"
+              className="inline-flex items-center px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold rounded-lg transition"
+            >
+              <ScanBarcode className="w-5 h-5 mr-2" />
+              Chute
+            </a>
             <button
               onClick={() => {
                 if (licenseInfo.mode === 'license_expired' || isReadOnly) {
@@ -290,7 +319,7 @@ export function AnimalsPage() {
         </div>
 
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <div className={`grid grid-cols-1 md:grid-cols-2 ${pastures.length > 0 ? 'lg:grid-cols-5' : 'lg:grid-cols-4'} gap-4 mb-6`}>
             <input
               type="text"
               placeholder="Search tag, name, or description..."
@@ -324,7 +353,7 @@ export function AnimalsPage() {
 
             <select
               value={sexFilter}
-              onChange={(e) => setSexFilter(e.target.value)}
+              onChange={(e) => setSexFilter(e.target.value as AnimalSex | 'ALL')}
               className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
             >
               <option value="ALL">All Sexes</option>
@@ -350,6 +379,20 @@ export function AnimalsPage() {
                 </>
               )}
             </select>
+
+            {pastures.length > 0 && (
+              <select
+                value={locationFilter}
+                onChange={(e) => setLocationFilter(e.target.value)}
+                className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              >
+                <option value="ALL">All Locations</option>
+                <option value="UNASSIGNED">Unassigned</option>
+                {sortPastures(pastures).map(pasture => (
+                  <option key={pasture.id} value={pasture.id}>{getPastureLabel(pasture, pastures)}</option>
+                ))}
+              </select>
+            )}
           </div>
 
           {loading ? (
@@ -367,6 +410,17 @@ export function AnimalsPage() {
               <table className="min-w-full divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    {!isReadOnly && (
+                      <th className="px-4 py-3 w-10">
+                        <input
+                          type="checkbox"
+                          checked={selectedAnimals.length > 0 && selectedAnimals.length === animals.length}
+                          onChange={toggleSelectAll}
+                          className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                          title="Select all"
+                        />
+                      </th>
+                    )}
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Tag
                     </th>
@@ -379,6 +433,11 @@ export function AnimalsPage() {
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Status
                     </th>
+                    {pastures.length > 0 && (
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Location
+                      </th>
+                    )}
                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Age
                     </th>
@@ -394,6 +453,16 @@ export function AnimalsPage() {
                       className="hover:bg-gray-50 cursor-pointer transition"
                       onClick={() => setSelectedAnimal(animal)}
                     >
+                      {!isReadOnly && (
+                        <td className="px-4 py-4 w-10" onClick={(e) => e.stopPropagation()}>
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(animal.id)}
+                            onChange={() => toggleSelected(animal.id)}
+                            className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                          />
+                        </td>
+                      )}
                       <td className="px-4 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">
                           {animal.tag_number || '-'}
@@ -413,6 +482,11 @@ export function AnimalsPage() {
                           {animal.status}
                         </span>
                       </td>
+                      {pastures.length > 0 && (
+                        <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {getPastureName(animal.current_pasture_id, pastures)}
+                        </td>
+                      )}
                       <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
                         {getAge(animal.birth_date)}
                       </td>
@@ -427,8 +501,47 @@ export function AnimalsPage() {
           )}
 
           {!loading && animals.length > 0 && (
-            <div className="mt-4 text-sm text-gray-600">
-              Showing {animals.length} animal{animals.length !== 1 ? 's' : ''}
+            <div className="mt-4 flex items-center justify-between gap-4">
+              <div className="text-sm text-gray-600">
+                Showing {animals.length} animal{animals.length !== 1 ? 's' : ''}
+                {selectedAnimals.length > 0 && ` (${selectedAnimals.length} selected)`}
+              </div>
+              {!isReadOnly && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShowMove(true)}
+                    disabled={selectedAnimals.length === 0}
+                    className="inline-flex items-center px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <MapPin className="w-4 h-4 mr-2" />
+                    Move
+                  </button>
+                  <button
+                    onClick={() => setShowSale(true)}
+                    disabled={selectedAnimals.length === 0}
+                    className="inline-flex items-center px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <DollarSign className="w-4 h-4 mr-2" />
+                    Record Sale
+                  </button>
+                  <button
+                    onClick={() => setShowExpense(true)}
+                    disabled={selectedAnimals.length === 0}
+                    className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Receipt className="w-4 h-4 mr-2" />
+                    Record Expense
+                  </button>
+                  <button
+                    onClick={() => setShowApplyProtocol(true)}
+                    disabled={selectedAnimals.length === 0}
+                    className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Syringe className="w-4 h-4 mr-2" />
+                    Apply Protocol
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -450,6 +563,56 @@ export function AnimalsPage() {
           />
         )}
 
+        {showApplyProtocol && currentRanch && (
+          <ApplyProtocolModal
+            animals={selectedAnimals}
+            ranchId={currentRanch.id}
+            isDemoMode={isDemoMode}
+            onClose={() => setShowApplyProtocol(false)}
+            onApplied={() => {
+              setSelectedIds(new Set());
+              fetchAnimals();
+            }}
+          />
+        )}
+
+        {showExpense && currentRanch && (
+          <ExpenseModal
+            animals={selectedAnimals}
+            ranchId={currentRanch.id}
+            isDemoMode={isDemoMode}
+            onClose={() => setShowExpense(false)}
+            onSaved={() => setSelectedIds(new Set())}
+          />
+        )}
+
+        {showMove && currentRanch && (
+          <MoveAnimalsModal
+            animals={selectedAnimals}
+            pastures={pastures}
+            ranchId={currentRanch.id}
+            isDemoMode={isDemoMode}
+            onClose={() => setShowMove(false)}
+            onMoved={() => {
+              setSelectedIds(new Set());
+              fetchAnimals();
+            }}
+          />
+        )}
+
+        {showSale && currentRanch && (
+          <SaleModal
+            animals={selectedAnimals}
+            ranchId={currentRanch.id}
+            isDemoMode={isDemoMode}
+            onClose={() => setShowSale(false)}
+            onSaved={() => {
+              setSelectedIds(new Set());
+              fetchAnimals();
+            }}
+          />
+        )}
+
         {showImportModal && (
           <GenericCSVImportModal
             onClose={() => setShowImportModal(false)}
@@ -517,7 +680,7 @@ export function AnimalsPage() {
                         setFormData({
                           ...formData,
                           animal_type: newType,
-                          sex: sexOptions[0].toUpperCase() as any
+                          sex: sexOptions[0].toUpperCase() as AnimalSex
                         });
                       }}
                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
@@ -535,7 +698,7 @@ export function AnimalsPage() {
                     </label>
                     <select
                       value={formData.sex}
-                      onChange={(e) => setFormData({ ...formData, sex: e.target.value as any })}
+                      onChange={(e) => setFormData({ ...formData, sex: e.target.value as AnimalSex })}
                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                       required
                     >
@@ -562,6 +725,51 @@ export function AnimalsPage() {
                     </select>
                   </div>
 
+                  {formData.source === 'PURCHASED' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Purchase Date (optional)
+                      </label>
+                      <input
+                        type="date"
+                        value={formData.purchase_date}
+                        onChange={(e) => setFormData({ ...formData, purchase_date: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+
+                  {formData.source === 'PURCHASED' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Purchase Price (optional)
+                      </label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.purchase_price}
+                        onChange={(e) => setFormData({ ...formData, purchase_price: e.target.value })}
+                        placeholder="Including commission"
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+
+                  {formData.source === 'PURCHASED' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Seller (optional)
+                      </label>
+                      <input
+                        type="text"
+                        value={formData.seller}
+                        onChange={(e) => setFormData({ ...formData, seller: e.target.value })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Birth Date (optional)
@@ -586,6 +794,36 @@ export function AnimalsPage() {
                     />
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Calving Ease (optional)
+                    </label>
+                    <select
+                      value={formData.calving_ease}
+                      onChange={(e) => setFormData({ ...formData, calving_ease: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    >
+                      <option value="">Not recorded</option>
+                      {Object.entries(CALVING_EASE_LABELS).map(([score, label]) => (
+                        <option key={score} value={score}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Birth Weight in lbs (optional)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={formData.birth_weight_lbs}
+                      onChange={(e) => setFormData({ ...formData, birth_weight_lbs: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Exit Date (optional)
@@ -611,10 +849,10 @@ export function AnimalsPage() {
                       <option value="">Select mother...</option>
                       {animals
                         .filter(a => {
-                          const animalType = (a as any).animal_type || 'Cattle';
+                          const animalType = a.animal_type || 'Cattle';
                           if (animalType !== formData.animal_type) return false;
                           const sex = a.sex.toUpperCase();
-                          return ['COW', 'HEIFER', 'MARE', 'FILLY', 'EWE', 'DOE', 'SOW', 'GILT'].includes(sex);
+                          return FEMALE_SEXES.includes(sex);
                         })
                         .map(a => (
                           <option key={a.id} value={a.id}>
@@ -636,7 +874,7 @@ export function AnimalsPage() {
                       <option value="">Select father...</option>
                       {animals
                         .filter(a => {
-                          const animalType = (a as any).animal_type || 'Cattle';
+                          const animalType = a.animal_type || 'Cattle';
                           if (animalType !== formData.animal_type) return false;
                           const sex = a.sex.toUpperCase();
                           return ['BULL', 'STEER', 'STALLION', 'GELDING', 'COLT', 'RAM', 'WETHER', 'BUCK', 'BOAR', 'BARROW'].includes(sex);
@@ -648,6 +886,59 @@ export function AnimalsPage() {
                         ))}
                     </select>
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Breed (optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.breed}
+                      onChange={(e) => setFormData({ ...formData, breed: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder={formData.source === 'BORN' ? 'Calculated from parents if left blank' : 'e.g., Angus'}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Percentage Blood (optional)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="100"
+                      value={formData.percentage_blood}
+                      onChange={(e) => setFormData({ ...formData, percentage_blood: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Registry (optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.registry_name}
+                      onChange={(e) => setFormData({ ...formData, registry_name: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                      placeholder="e.g., American Angus Association"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Registration Number (optional)
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.registration_number}
+                      onChange={(e) => setFormData({ ...formData, registration_number: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
                 </div>
 
                 <div>
@@ -695,6 +986,15 @@ export function AnimalsPage() {
                         father_id: '',
                         notes: '',
                         description: '',
+                        breed: '',
+                        percentage_blood: '',
+                        registry_name: '',
+                        registration_number: '',
+                        purchase_date: '',
+                        purchase_price: '',
+                        seller: '',
+                        calving_ease: '',
+                        birth_weight_lbs: '',
                       });
                     }}
                     className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
@@ -1,77 +1,119 @@
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect } from 'react';
 import { Layout } from '../components/Layout';
 import { useRanch } from '../contexts/RanchContext';
 import { useToast } from '../contexts/ToastContext';
-import { supabase } from '../lib/supabase';
-import { GitBranch, Plus, Edit, Trash2, X, CheckCircle } from 'lucide-react';
-
-interface Fence {
-  id: string;
-  ranch_id: string;
-  description: string;
-  last_checked_date: string | null;
-  last_checked_by: string | null;
-  created_at: string;
-}
+import { useSync } from '../contexts/SyncContext';
+import { useData } from '../contexts/DataContext';
+import { useFenceSchedule } from '../contexts/FenceScheduleContext';
+import { PrintableReport, ReportSection, ReportTable } from '../components/PrintableReport';
+import { GitBranch, Plus, Edit, Trash2, X, CheckCircle, ChevronDown, ChevronRight, Wrench, AlertTriangle, Printer, CloudLightning } from 'lucide-react';
+import { getTodayInTimeZone, printReport } from '../utils/printHelpers';
+import { FENCE_CONDITION_LABELS, getConditionColor, groupInspectionsByFence, isOpenIssue } from '../utils/fenceInspections';
+import {
+  FENCE_CHECK_FREQUENCIES,
+  FENCE_CHECK_FREQUENCY_LABELS,
+  ROUTE_SHEET_DAYS,
+  describeFenceDue,
+  getFenceCheckStatuses,
+  isFenceDueWithin,
+  isFenceOverdue,
+  type FenceCheckFrequency,
+} from '../utils/fenceSchedule';
+import type { Fence, FenceInspection, FenceInspectionPhoto, RanchSettings } from '../data/types';
 
 export function CheckFencesPage() {
   const { currentRanch, licenseInfo, isDemoMode, currentUserRole } = useRanch();
   const { showToast } = useToast();
+  const { isOnline } = useSync();
+  const { data, handleError } = useData();
+  const { refreshOverdueFences } = useFenceSchedule();
   const isReadOnly = currentUserRole === 'VIEWER' && !isDemoMode;
+  const disabled = isReadOnly || licenseInfo.mode === 'license_expired';
 
   const [fences, setFences] = useState<Fence[]>([]);
+  const [inspections, setInspections] = useState<FenceInspection[]>([]);
+  const [photos, setPhotos] = useState<FenceInspectionPhoto[]>([]);
+  const [settings, setSettings] = useState<RanchSettings | null>(null);
   const [loading, setLoading] = useState(true);
+  const [expandedFenceId, setExpandedFenceId] = useState<string | null>(null);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showCheckModal, setShowCheckModal] = useState(false);
   const [editingFence, setEditingFence] = useState<Fence | null>(null);
   const [checkingFence, setCheckingFence] = useState<Fence | null>(null);
+  const [repairingInspection, setRepairingInspection] = useState<FenceInspection | null>(null);
+  const [saving, setSaving] = useState(false);
 
   const [formData, setFormData] = useState({
     description: '',
-    last_checked_date: '',
-    last_checked_by: '',
+    check_frequency: 'MONTHLY' as FenceCheckFrequency,
+    check_due_date: '',
   });
 
   const [checkData, setCheckData] = useState({
-    last_checked_date: '',
-    last_checked_by: '',
+    inspected_on: '',
+    inspector: '',
+    condition_rating: '5',
+    issues_found: '',
+    repair_completed_on: '',
+    repair_notes: '',
+  });
+  const [checkPhotos, setCheckPhotos] = useState<File[]>([]);
+
+  const [repairData, setRepairData] = useState({
+    repair_completed_on: '',
+    repair_notes: '',
   });
 
   useEffect(() => {
     if (currentRanch) {
       fetchFences();
     }
-  }, [currentRanch]);
+  }, [currentRanch, data]);
 
   const fetchFences = async () => {
     if (!currentRanch) return;
 
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('fences')
-        .select('*')
-        .eq('ranch_id', currentRanch.id)
-        .order('description', { ascending: true });
-
-      if (error) throw error;
-      setFences(data || []);
+      const [fetchedFences, fetchedInspections, fetchedSettings] = await Promise.all([
+        data.fences.list(currentRanch.id),
+        data.fenceInspections.listForRanch(currentRanch.id),
+        data.settings.get(currentRanch.id),
+      ]);
+      setFences(fetchedFences);
+      setInspections(fetchedInspections);
+      setSettings(fetchedSettings);
     } catch (error) {
-      console.error('Error fetching fences:', error);
-      showToast('Failed to load fences', 'error');
+      handleError(error, 'load fences');
     } finally {
       setLoading(false);
     }
+
+    // Photos are a nice-to-have; the log is still usable without them
+    try {
+      setPhotos(await data.fenceInspections.listPhotos(currentRanch.id));
+    } catch (error) {
+      console.error('Error loading fence inspection photos:', error);
+    }
+  };
+
+  // A save can change which fences are overdue, so the nav badge reloads too
+  const reloadAfterSave = async () => {
+    await Promise.all([fetchFences(), refreshOverdueFences()]);
   };
 
+  // Due dates follow the ranch's calendar, not the browser's
+  const today = getTodayInTimeZone(settings?.time_zone);
+  const inspectionsByFence = groupInspectionsByFence(inspections);
+  const openIssues = inspections.filter(i => isOpenIssue(i) && fences.some(f => f.id === i.fence_id));
+  const checkStatuses = getFenceCheckStatuses(fences, inspections, today);
+  const overdueCount = checkStatuses.filter(isFenceOverdue).length;
+  const routeSheetStatuses = checkStatuses.filter(status => isFenceDueWithin(status, ROUTE_SHEET_DAYS));
+  const stormFences = fences.filter(f => f.check_frequency === 'AFTER_STORMS');
+
   const handleAddFence = () => {
     setEditingFence(null);
-    const today = new Date().toISOString().split('T')[0];
-    setFormData({
-      description: '',
-      last_checked_date: today,
-      last_checked_by: '',
-    });
+    setFormData({ description: '', check_frequency: 'MONTHLY', check_due_date: '' });
     setShowEditModal(true);
   };
 
@@ -79,22 +121,34 @@ export function CheckFencesPage() {
     setEditingFence(fence);
     setFormData({
       description: fence.description,
-      last_checked_date: fence.last_checked_date || '',
-      last_checked_by: fence.last_checked_by || '',
+      check_frequency: fence.check_frequency,
+      check_due_date: fence.check_due_date || '',
     });
     setShowEditModal(true);
   };
 
   const handleCheckFence = (fence: Fence) => {
     setCheckingFence(fence);
-    const today = new Date().toISOString().split('T')[0];
     setCheckData({
-      last_checked_date: today,
-      last_checked_by: fence.last_checked_by || '',
+      inspected_on: today,
+      inspector: inspectionsByFence.get(fence.id)?.[0]?.inspector || fence.last_checked_by || '',
+      condition_rating: '5',
+      issues_found: '',
+      repair_completed_on: '',
+      repair_notes: '',
     });
+    setCheckPhotos([]);
     setShowCheckModal(true);
   };
 
+  const handleRepair = (inspection: FenceInspection) => {
+    setRepairingInspection(inspection);
+    setRepairData({
+      repair_completed_on: today,
+      repair_notes: inspection.repair_notes || '',
+    });
+  };
+
   const handleSaveFence = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -105,106 +159,191 @@ export function CheckFencesPage() {
       return;
     }
 
-    if (isDemoMode) {
-      showToast('Demonstration Mode - Changes not saved.', 'info');
-      setShowEditModal(false);
+    if (formData.check_frequency === 'BEFORE_TURNOUT' && !formData.check_due_date) {
+      showToast('Enter the turnout date so the fence comes due before it', 'error');
       return;
     }
 
+    const fenceData = {
+      description: formData.description.trim(),
+      check_frequency: formData.check_frequency,
+      check_due_date: formData.check_due_date || null,
+    };
+
     try {
       if (editingFence) {
-        const { error } = await supabase
-          .from('fences')
-          .update({
-            description: formData.description.trim(),
-            last_checked_date: formData.last_checked_date || null,
-            last_checked_by: formData.last_checked_by.trim() || null,
-          })
-          .eq('id', editingFence.id);
-
-        if (error) throw error;
-        showToast('Fence updated successfully', 'success');
+        await data.fences.update(editingFence.id, fenceData);
       } else {
-        const { error } = await supabase
-          .from('fences')
-          .insert({
-            ranch_id: currentRanch.id,
-            description: formData.description.trim(),
-            last_checked_date: formData.last_checked_date || null,
-            last_checked_by: formData.last_checked_by.trim() || null,
-          });
+        await data.fences.create({ ranch_id: currentRanch.id, ...fenceData });
+      }
 
-        if (error) throw error;
-        showToast('Fence added successfully', 'success');
+      if (!isOnline) {
+        showToast('Saved offline - will sync when back online', 'warning');
+      } else {
+        showToast(editingFence ? 'Fence updated successfully' : 'Fence added successfully', 'success');
       }
 
       setShowEditModal(false);
-      await fetchFences();
+      await reloadAfterSave();
     } catch (error) {
-      console.error('Error saving fence:', error);
-      showToast('Failed to save fence', 'error');
+      handleError(error, 'save fence');
     }
   };
 
   const handleSubmitCheck = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!checkingFence) return;
+    if (!checkingFence || !currentRanch) return;
 
-    if (!checkData.last_checked_date) {
+    if (!checkData.inspected_on) {
       showToast('Date is required', 'error');
       return;
     }
+    if (checkData.repair_completed_on && checkData.repair_completed_on < checkData.inspected_on) {
+      showToast('Repair date cannot be before the inspection date', 'error');
+      return;
+    }
+
+    const issues = checkData.issues_found.trim();
+
+    setSaving(true);
+    try {
+      const inspection = await data.fenceInspections.create({
+        ranch_id: currentRanch.id,
+        fence_id: checkingFence.id,
+        inspected_on: checkData.inspected_on,
+        inspector: checkData.inspector.trim() || null,
+        condition_rating: parseInt(checkData.condition_rating, 10),
+        issues_found: issues || null,
+        repair_completed_on: issues ? checkData.repair_completed_on || null : null,
+        repair_notes: issues ? checkData.repair_notes.trim() || null : null,
+      });
+
+      let failedPhotos = 0;
+      for (const file of checkPhotos) {
+        try {
+          await data.fenceInspections.uploadPhoto({
+            inspectionId: inspection.id,
+            ranchId: currentRanch.id,
+            file,
+            fileExtension: file.name.split('.').pop()?.toLowerCase() || 'jpg',
+            contentType: file.type || 'image/jpeg',
+          });
+        } catch (error) {
+          console.error('Error uploading fence photo:', error);
+          failedPhotos++;
+        }
+      }
 
-    if (isDemoMode) {
-      showToast('Demonstration Mode - Changes not saved.', 'info');
+      if (!isOnline) {
+        showToast('Fence check saved offline - will sync when back online', 'warning');
+      } else if (failedPhotos > 0) {
+        showToast(`Fence check recorded, but ${failedPhotos} photo${failedPhotos === 1 ? '' : 's'} failed to upload`, 'warning');
+      } else {
+        showToast('Fence check recorded successfully', 'success');
+      }
       setShowCheckModal(false);
+      setExpandedFenceId(checkingFence.id);
+      await reloadAfterSave();
+    } catch (error) {
+      handleError(error, 'record fence check');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmitRepair = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!repairingInspection) return;
+
+    if (!repairData.repair_completed_on) {
+      showToast('Repair date is required', 'error');
+      return;
+    }
+    if (repairData.repair_completed_on < repairingInspection.inspected_on) {
+      showToast('Repair date cannot be before the inspection date', 'error');
       return;
     }
 
     try {
-      const { error } = await supabase
-        .from('fences')
-        .update({
-          last_checked_date: checkData.last_checked_date,
-          last_checked_by: checkData.last_checked_by.trim() || null,
-        })
-        .eq('id', checkingFence.id);
+      await data.fenceInspections.update(repairingInspection.id, {
+        repair_completed_on: repairData.repair_completed_on,
+        repair_notes: repairData.repair_notes.trim() || null,
+      });
 
-      if (error) throw error;
-
-      showToast('Fence check recorded successfully', 'success');
-      setShowCheckModal(false);
-      await fetchFences();
+      if (isOnline) {
+        showToast('Repair recorded successfully', 'success');
+      } else {
+        showToast('Repair saved offline - will sync when back online', 'warning');
+      }
+      setRepairingInspection(null);
+      await reloadAfterSave();
     } catch (error) {
-      console.error('Error recording fence check:', error);
-      showToast('Failed to record fence check', 'error');
+      handleError(error, 'record repair');
     }
   };
 
-  const handleDeleteFence = async (fence: Fence) => {
-    if (isDemoMode) {
-      showToast('Demonstration Mode - Changes not saved.', 'info');
+  const handleDeleteInspection = async (inspection: FenceInspection) => {
+    if (!confirm(`Delete the inspection from ${formatDate(inspection.inspected_on)}?`)) {
       return;
     }
 
-    if (!confirm(`Are you sure you want to delete "${fence.description}"?`)) {
+    try {
+      await data.fenceInspections.delete(inspection.id);
+
+      if (isOnline) {
+        showToast('Inspection deleted successfully', 'success');
+      } else {
+        showToast('Inspection deleted offline - will sync when back online', 'warning');
+      }
+      await reloadAfterSave();
+    } catch (error) {
+      handleError(error, 'delete inspection');
+    }
+  };
+
+  const handleLogStorm = async () => {
+    if (!confirm(`Mark ${stormFences.length} storm-checked fence${stormFences.length === 1 ? '' : 's'} as due for a check today?`)) {
       return;
     }
 
     try {
-      const { error } = await supabase
-        .from('fences')
-        .delete()
-        .eq('id', fence.id);
+      for (const fence of stormFences) {
+        await data.fences.update(fence.id, { check_due_date: today });
+      }
+
+      if (isOnline) {
+        showToast('Storm logged - fences added to the route', 'success');
+      } else {
+        showToast('Storm logged offline - will sync when back online', 'warning');
+      }
+      await reloadAfterSave();
+    } catch (error) {
+      handleError(error, 'log storm');
+    }
+  };
+
+  const handlePrintRouteSheet = () => {
+    printReport('fence-route-sheet');
+  };
 
-      if (error) throw error;
+  const handleDeleteFence = async (fence: Fence) => {
+    if (!confirm(`Are you sure you want to delete "${fence.description}"?\n\nIts inspection history will be deleted too.`)) {
+      return;
+    }
+
+    try {
+      await data.fences.delete(fence.id);
 
-      showToast('Fence deleted successfully', 'success');
-      await fetchFences();
+      if (isOnline) {
+        showToast('Fence deleted successfully', 'success');
+      } else {
+        showToast('Fence deleted offline - will sync when back online', 'warning');
+      }
+      await reloadAfterSave();
     } catch (error) {
-      console.error('Error deleting fence:', error);
-      showToast('Failed to delete fence', 'error');
+      handleError(error, 'delete fence');
     }
   };
 
@@ -214,6 +353,8 @@ export function CheckFencesPage() {
     return new Date(year, month - 1, day).toLocaleDateString();
   };
 
+  const getFenceDescription = (fenceId: string) => fences.find(f => f.id === fenceId)?.description || 'Unknown fence';
+
   if (!currentRanch) {
     return (
       <Layout currentPage="animals">
@@ -232,16 +373,80 @@ export function CheckFencesPage() {
             <h1 className="text-3xl font-bold text-gray-900">Check Fences</h1>
             <p className="text-gray-600 mt-1">Manage and track fence maintenance</p>
           </div>
-          <button
-            onClick={handleAddFence}
-            disabled={isReadOnly || licenseInfo.mode === 'license_expired'}
-            className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            Add Fence
-          </button>
+          <div className="flex flex-wrap gap-2 justify-end">
+            {stormFences.length > 0 && (
+              <button
+                onClick={handleLogStorm}
+                disabled={disabled}
+                className="inline-flex items-center px-4 py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Put every fence checked after storms on the route for today"
+              >
+                <CloudLightning className="w-4 h-4 mr-2" />
+                Log Storm
+              </button>
+            )}
+            <button
+              onClick={handlePrintRouteSheet}
+              disabled={routeSheetStatuses.length === 0}
+              className="inline-flex items-center px-4 py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Route Sheet
+            </button>
+            <button
+              onClick={handleAddFence}
+              disabled={disabled}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Fence
+            </button>
+          </div>
         </div>
 
+        {!loading && overdueCount > 0 && (
+          <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0" />
+            <p className="text-amber-900">
+              <span className="font-semibold">{overdueCount} fence{overdueCount === 1 ? ' is' : 's are'} overdue</span> for a check.
+              {' '}{routeSheetStatuses.length} due in the next {ROUTE_SHEET_DAYS} days are on the route sheet.
+            </p>
+          </div>
+        )}
+
+        {!loading && openIssues.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="font-semibold text-red-900">
+                  {openIssues.length} open issue{openIssues.length === 1 ? '' : 's'}
+                </p>
+                <ul className="mt-2 space-y-2 text-sm text-red-800">
+                  {openIssues.map(inspection => (
+                    <li key={inspection.id} className="flex items-start justify-between gap-3">
+                      <span>
+                        <span className="font-medium">{getFenceDescription(inspection.fence_id)}</span>
+                        {' - '}
+                        {inspection.issues_found}
+                        <span className="text-red-600"> (found {formatDate(inspection.inspected_on)})</span>
+                      </span>
+                      <button
+                        onClick={() => handleRepair(inspection)}
+                        disabled={disabled}
+                        className="flex-shrink-0 inline-flex items-center px-2 py-1 text-xs bg-white border border-red-300 text-red-700 hover:bg-red-100 rounded transition disabled:opacity-50"
+                      >
+                        <Wrench className="w-3.5 h-3.5 mr-1" />
+                        Mark Repaired
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </div>
+        )}
+
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
           {loading ? (
             <div className="text-center py-12">
@@ -260,48 +465,180 @@ export function CheckFencesPage() {
                 <thead>
                   <tr className="border-b border-gray-200">
                     <th className="text-left py-3 px-4 font-semibold text-gray-700">Fence Description</th>
-                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Last Checked Date</th>
-                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Last Checked By</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Last Checked</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Next Check</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Condition</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Open Issues</th>
                     <th className="text-right py-3 px-4 font-semibold text-gray-700">Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {fences.map((fence) => (
-                    <tr key={fence.id} className="border-b border-gray-100 hover:bg-gray-50">
-                      <td className="py-3 px-4 font-medium text-gray-900">{fence.description}</td>
-                      <td className="py-3 px-4 text-gray-700">{formatDate(fence.last_checked_date)}</td>
-                      <td className="py-3 px-4 text-gray-700">{fence.last_checked_by || '-'}</td>
-                      <td className="py-3 px-4">
-                        <div className="flex gap-2 justify-end">
-                          <button
-                            onClick={() => handleCheckFence(fence)}
-                            disabled={isReadOnly || licenseInfo.mode === 'license_expired'}
-                            className="px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded transition disabled:opacity-50 inline-flex items-center"
-                            title="Check Fence"
-                          >
-                            <CheckCircle className="w-4 h-4 mr-1" />
-                            Check
-                          </button>
-                          <button
-                            onClick={() => handleEditFence(fence)}
-                            disabled={isReadOnly || licenseInfo.mode === 'license_expired'}
-                            className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition disabled:opacity-50"
-                            title="Edit"
-                          >
-                            <Edit className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDeleteFence(fence)}
-                            disabled={isReadOnly || licenseInfo.mode === 'license_expired'}
-                            className="p-1.5 text-red-600 hover:bg-red-50 rounded transition disabled:opacity-50"
-                            title="Delete"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
+                  {checkStatuses.map((status) => {
+                    const fence = status.fence;
+                    const history = inspectionsByFence.get(fence.id) || [];
+                    const latest = history[0];
+                    const fenceOpenIssues = history.filter(isOpenIssue).length;
+                    const expanded = expandedFenceId === fence.id;
+
+                    return (
+                      <Fragment key={fence.id}>
+                        <tr className="border-b border-gray-100 hover:bg-gray-50">
+                          <td className="py-3 px-4 font-medium text-gray-900">
+                            <button
+                              onClick={() => setExpandedFenceId(expanded ? null : fence.id)}
+                              className="inline-flex items-center text-left hover:text-blue-700"
+                              title={expanded ? 'Hide history' : 'Show history'}
+                            >
+                              {expanded ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                              {fence.description}
+                            </button>
+                          </td>
+                          <td className="py-3 px-4 text-gray-700">
+                            {formatDate(latest?.inspected_on ?? fence.last_checked_date)}
+                            {(latest?.inspector ?? fence.last_checked_by) && (
+                              <span className="text-gray-500"> by {latest?.inspector ?? fence.last_checked_by}</span>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className={
+                              isFenceOverdue(status)
+                                ? 'font-semibold text-red-700'
+                                : status.daysOverdue === 0 ? 'font-semibold text-amber-700' : 'text-gray-700'
+                            }>
+                              {describeFenceDue(status)}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {FENCE_CHECK_FREQUENCY_LABELS[fence.check_frequency]}
+                              {status.dueDate && ` - ${formatDate(status.dueDate)}`}
+                            </div>
+                          </td>
+                          <td className="py-3 px-4">
+                            {latest?.condition_rating != null ? (
+                              <span className={`px-2 py-1 text-xs font-semibold rounded-full ${getConditionColor(latest.condition_rating)}`}>
+                                {FENCE_CONDITION_LABELS[latest.condition_rating]}
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">-</span>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            {fenceOpenIssues > 0 ? (
+                              <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                                {fenceOpenIssues} open
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">None</span>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex gap-2 justify-end">
+                              <button
+                                onClick={() => handleCheckFence(fence)}
+                                disabled={disabled}
+                                className="px-3 py-1.5 text-sm bg-green-600 hover:bg-green-700 text-white rounded transition disabled:opacity-50 inline-flex items-center"
+                                title="Check Fence"
+                              >
+                                <CheckCircle className="w-4 h-4 mr-1" />
+                                Check
+                              </button>
+                              <button
+                                onClick={() => handleEditFence(fence)}
+                                disabled={disabled}
+                                className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition disabled:opacity-50"
+                                title="Edit"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => handleDeleteFence(fence)}
+                                disabled={disabled}
+                                className="p-1.5 text-red-600 hover:bg-red-50 rounded transition disabled:opacity-50"
+                                title="Delete"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                        {expanded && (
+                          <tr className="border-b border-gray-100 bg-gray-50">
+                            <td colSpan={6} className="px-4 py-4">
+                              {history.length === 0 ? (
+                                <p className="text-sm text-gray-500">No inspections recorded yet</p>
+                              ) : (
+                                <div className="space-y-3">
+                                  {history.map(inspection => {
+                                    const inspectionPhotos = photos.filter(p => p.inspection_id === inspection.id);
+                                    return (
+                                      <div key={inspection.id} className="bg-white border border-gray-200 rounded-lg p-3 text-sm">
+                                        <div className="flex items-start justify-between gap-3">
+                                          <div className="flex flex-wrap items-center gap-2">
+                                            <span className="font-semibold text-gray-900">{formatDate(inspection.inspected_on)}</span>
+                                            {inspection.inspector && <span className="text-gray-600">by {inspection.inspector}</span>}
+                                            {inspection.condition_rating != null && (
+                                              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${getConditionColor(inspection.condition_rating)}`}>
+                                                {FENCE_CONDITION_LABELS[inspection.condition_rating]}
+                                              </span>
+                                            )}
+                                          </div>
+                                          <div className="flex gap-2">
+                                            {isOpenIssue(inspection) && (
+                                              <button
+                                                onClick={() => handleRepair(inspection)}
+                                                disabled={disabled}
+                                                className="inline-flex items-center px-2 py-1 text-xs text-gray-700 border border-gray-300 hover:bg-gray-100 rounded transition disabled:opacity-50"
+                                              >
+                                                <Wrench className="w-3.5 h-3.5 mr-1" />
+                                                Mark Repaired
+                                              </button>
+                                            )}
+                                            <button
+                                              onClick={() => handleDeleteInspection(inspection)}
+                                              disabled={disabled}
+                                              className="p-1 text-red-600 hover:bg-red-50 rounded transition disabled:opacity-50"
+                                              title="Delete inspection"
+                                            >
+                                              <Trash2 className="w-4 h-4" />
+                                            </button>
+                                          </div>
+                                        </div>
+                                        {inspection.issues_found && (
+                                          <p className="mt-2 text-gray-800">
+                                            <span className="font-medium">Issues:</span> {inspection.issues_found}
+                                          </p>
+                                        )}
+                                        {inspection.repair_completed_on ? (
+                                          <p className="mt-1 text-green-700">
+                                            Repaired {formatDate(inspection.repair_completed_on)}
+                                            {inspection.repair_notes && ` - ${inspection.repair_notes}`}
+                                          </p>
+                                        ) : isOpenIssue(inspection) ? (
+                                          <p className="mt-1 text-red-700">Not repaired yet</p>
+                                        ) : null}
+                                        {inspectionPhotos.length > 0 && (
+                                          <div className="mt-2 flex flex-wrap gap-2">
+                                            {inspectionPhotos.map(photo => (
+                                              <a key={photo.id} href={photo.storage_url} target="_blank" rel="noopener noreferrer">
+                                                <img
+                                                  src={photo.storage_url}
+                                                  alt="Fence inspection"
+                                                  className="w-20 h-20 object-cover rounded border border-gray-200"
+                                                />
+                                              </a>
+                                            ))}
+                                          </div>
+                                        )}
+                                      </div>
+                                    );
+                                  })}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -309,6 +646,30 @@ export function CheckFencesPage() {
         </div>
       </div>
 
+      <div className="hidden">
+        <div id="fence-route-sheet">
+          <PrintableReport title={`Fences to Ride - ${formatDate(today)}`} settings={settings}>
+            <ReportSection title={`Due in the next ${ROUTE_SHEET_DAYS} days, most overdue first`}>
+              <ReportTable
+                headers={['Done', 'Fence', 'Frequency', 'Last Checked', 'Due', 'Open Issues', 'Condition / Notes']}
+                rows={routeSheetStatuses.map(status => [
+                  '☐',
+                  status.fence.description,
+                  FENCE_CHECK_FREQUENCY_LABELS[status.fence.check_frequency],
+                  formatDate(status.lastChecked),
+                  describeFenceDue(status),
+                  (inspectionsByFence.get(status.fence.id) || [])
+                    .filter(isOpenIssue)
+                    .map(i => i.issues_found)
+                    .join('; ') || '-',
+                  '',
+                ])}
+              />
+            </ReportSection>
+          </PrintableReport>
+        </div>
+      </div>
+
       {showEditModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
@@ -339,44 +700,204 @@ export function CheckFencesPage() {
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Check Frequency
+                  </label>
+                  <select
+                    value={formData.check_frequency}
+                    onChange={(e) => setFormData({ ...formData, check_frequency: e.target.value as FenceCheckFrequency })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {FENCE_CHECK_FREQUENCIES.map(frequency => (
+                      <option key={frequency} value={frequency}>{FENCE_CHECK_FREQUENCY_LABELS[frequency]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {formData.check_frequency === 'BEFORE_TURNOUT' ? 'Turnout Date *' : 'Extra Check By'}
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.check_due_date}
+                    onChange={(e) => setFormData({ ...formData, check_due_date: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 -mt-2">
+                {formData.check_frequency === 'BEFORE_TURNOUT'
+                  ? 'A check in the two weeks before turnout counts.'
+                  : formData.check_frequency === 'AFTER_STORMS'
+                  ? 'Use Log Storm, or set a date here, to put this fence on the route.'
+                  : 'Optional one-off check, e.g. after a storm or before moving cattle in.'}
+              </p>
+
+              {!editingFence && (
+                <p className="text-sm text-gray-500">Use Check on the fence list to record inspections.</p>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowEditModal(false)}
+                  className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition"
+                >
+                  {editingFence ? 'Update Fence' : 'Add Fence'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showCheckModal && checkingFence && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-2xl font-bold text-gray-900">Check Fence</h2>
+              <button
+                onClick={() => setShowCheckModal(false)}
+                className="text-gray-400 hover:text-gray-600 transition"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmitCheck} className="p-6 space-y-4">
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <p className="text-sm font-semibold text-blue-900">{checkingFence.description}</p>
+                <p className="text-xs text-blue-700 mt-1">
+                  Last checked: {formatDate(checkingFence.last_checked_date)}
+                  {checkingFence.last_checked_by && ` by ${checkingFence.last_checked_by}`}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Date Checked *
+                  </label>
+                  <input
+                    type="date"
+                    value={checkData.inspected_on}
+                    onChange={(e) => setCheckData({ ...checkData, inspected_on: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Condition *
+                  </label>
+                  <select
+                    value={checkData.condition_rating}
+                    onChange={(e) => setCheckData({ ...checkData, condition_rating: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {[5, 4, 3, 2, 1].map(rating => (
+                      <option key={rating} value={rating}>{rating} - {FENCE_CONDITION_LABELS[rating]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Last Checked Date
+                  Checked By
                 </label>
                 <input
-                  type="date"
-                  value={formData.last_checked_date}
-                  onChange={(e) => setFormData({ ...formData, last_checked_date: e.target.value })}
+                  type="text"
+                  value={checkData.inspector}
+                  onChange={(e) => setCheckData({ ...checkData, inspector: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="Your name"
                 />
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Last Checked By
+                  Issues Found
                 </label>
-                <input
-                  type="text"
-                  value={formData.last_checked_by}
-                  onChange={(e) => setFormData({ ...formData, last_checked_by: e.target.value })}
+                <textarea
+                  value={checkData.issues_found}
+                  onChange={(e) => setCheckData({ ...checkData, issues_found: e.target.value })}
+                  rows={3}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Name of person who checked"
+                  placeholder="e.g., Two broken posts near the creek crossing"
+                />
+              </div>
+
+              {checkData.issues_found.trim() && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Repaired On
+                    </label>
+                    <input
+                      type="date"
+                      value={checkData.repair_completed_on}
+                      min={checkData.inspected_on}
+                      onChange={(e) => setCheckData({ ...checkData, repair_completed_on: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Repair Notes
+                    </label>
+                    <input
+                      type="text"
+                      value={checkData.repair_notes}
+                      onChange={(e) => setCheckData({ ...checkData, repair_notes: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="Leave blank if not fixed yet"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Photos
+                </label>
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  disabled={!isOnline}
+                  onChange={(e) => setCheckPhotos(Array.from(e.target.files || []))}
+                  className="w-full text-sm text-gray-700 disabled:opacity-50"
                 />
+                {!isOnline && (
+                  <p className="text-xs text-gray-500 mt-1">Photos can be added when back online.</p>
+                )}
               </div>
 
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
-                  onClick={() => setShowEditModal(false)}
+                  onClick={() => setShowCheckModal(false)}
                   className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 transition"
                 >
                   Cancel
                 </button>
                 <button
                   type="submit"
-                  className="flex-1 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition"
+                  disabled={saving}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition disabled:opacity-50"
                 >
-                  {editingFence ? 'Update Fence' : 'Add Fence'}
+                  {saving ? 'Saving...' : 'Record Check'}
                 </button>
               </div>
             </form>
@@ -384,36 +905,36 @@ export function CheckFencesPage() {
         </div>
       )}
 
-      {showCheckModal && checkingFence && (
+      {repairingInspection && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl shadow-xl max-w-md w-full">
             <div className="flex items-center justify-between p-6 border-b border-gray-200">
-              <h2 className="text-2xl font-bold text-gray-900">Check Fence</h2>
+              <h2 className="text-2xl font-bold text-gray-900">Record Repair</h2>
               <button
-                onClick={() => setShowCheckModal(false)}
+                onClick={() => setRepairingInspection(null)}
                 className="text-gray-400 hover:text-gray-600 transition"
               >
                 <X className="w-6 h-6" />
               </button>
             </div>
 
-            <form onSubmit={handleSubmitCheck} className="p-6 space-y-4">
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <p className="text-sm font-semibold text-blue-900">{checkingFence.description}</p>
-                <p className="text-xs text-blue-700 mt-1">
-                  Last checked: {formatDate(checkingFence.last_checked_date)}
-                  {checkingFence.last_checked_by && ` by ${checkingFence.last_checked_by}`}
+            <form onSubmit={handleSubmitRepair} className="p-6 space-y-4">
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                <p className="text-sm font-semibold text-red-900">{getFenceDescription(repairingInspection.fence_id)}</p>
+                <p className="text-xs text-red-700 mt-1">
+                  {repairingInspection.issues_found} (found {formatDate(repairingInspection.inspected_on)})
                 </p>
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Date Checked *
+                  Repaired On *
                 </label>
                 <input
                   type="date"
-                  value={checkData.last_checked_date}
-                  onChange={(e) => setCheckData({ ...checkData, last_checked_date: e.target.value })}
+                  value={repairData.repair_completed_on}
+                  min={repairingInspection.inspected_on}
+                  onChange={(e) => setRepairData({ ...repairData, repair_completed_on: e.target.value })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   required
                 />
@@ -421,21 +942,21 @@ export function CheckFencesPage() {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Checked By
+                  Repair Notes
                 </label>
-                <input
-                  type="text"
-                  value={checkData.last_checked_by}
-                  onChange={(e) => setCheckData({ ...checkData, last_checked_by: e.target.value })}
+                <textarea
+                  value={repairData.repair_notes}
+                  onChange={(e) => setRepairData({ ...repairData, repair_notes: e.target.value })}
+                  rows={3}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                  placeholder="Your name"
+                  placeholder="What was done"
                 />
               </div>
 
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
-                  onClick={() => setShowCheckModal(false)}
+                  onClick={() => setRepairingInspection(null)}
                   className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 transition"
                 >
                   Cancel
@@ -444,7 +965,7 @@ export function CheckFencesPage() {
                   type="submit"
                   className="flex-1 px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition"
                 >
-                  Record Check
+                  Record Repair
                 </button>
               </div>
             </form>
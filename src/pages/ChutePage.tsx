@@ -0,0 +1,479 @@
+import { useState, useEffect, useRef } from 'react';
+import { Layout } from '../components/Layout';
+import { useRanch } from '../contexts/RanchContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { useData } from '../contexts/DataContext';
+import { ScanBarcode, Save, SkipForward, AlertTriangle, Lock } from 'lucide-react';
+import { searchAnimals } from '../utils/animalSearch';
+import { calculateDrugDose } from '../utils/medicalRecords';
+import { selectLotForAdministration } from '../utils/drugInventory';
+import { FEMALE_SEXES } from '../utils/pedigree';
+import { calculateWithdrawalClearDate, laterClearDate, isWithinWithdrawal } from '../utils/withdrawal';
+import { getTodayLocalDate, formatDateForDisplay } from '../utils/printHelpers';
+import type { PregnancyStatus } from '../lib/database.types';
+import type { Animal, BreedingRecord, Drug, DrugLot } from '../data/types';
+
+interface ProcessedAnimal {
+  id: string;
+  label: string;
+  summary: string;
+}
+
+const PREGNANCY_CHOICES: { value: PregnancyStatus; label: string }[] = [
+  { value: 'UNCHECKED', label: 'Not Checked' },
+  { value: 'PREGNANT', label: 'Pregnant' },
+  { value: 'OPEN', label: 'Open' },
+];
+
+const inputClass = 'w-full px-4 py-3 text-lg border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent';
+
+export function ChutePage() {
+  const { currentRanch, currentUserRole, isDemoMode } = useRanch();
+  const { user } = useAuth();
+  const { showToast } = useToast();
+  const { data, handleError } = useData();
+  const isReadOnly = currentUserRole === 'VIEWER' && !isDemoMode;
+  const tagInputRef = useRef<HTMLInputElement>(null);
+
+  const [drugs, setDrugs] = useState<Drug[]>([]);
+  const [drugLots, setDrugLots] = useState<DrugLot[]>([]);
+  const [injectionFeatureEnabled, setInjectionFeatureEnabled] = useState(false);
+  const [administeredBy, setAdministeredBy] = useState('');
+  const [workDate, setWorkDate] = useState(getTodayLocalDate());
+
+  const [tag, setTag] = useState('');
+  const [looking, setLooking] = useState(false);
+  const [matches, setMatches] = useState<Animal[]>([]);
+  const [animal, setAnimal] = useState<Animal | null>(null);
+  const [breedingRecord, setBreedingRecord] = useState<BreedingRecord | null>(null);
+
+  const [weight, setWeight] = useState('');
+  const [selectedDrugIds, setSelectedDrugIds] = useState<string[]>([]);
+  const [pregnancyStatus, setPregnancyStatus] = useState<PregnancyStatus>('UNCHECKED');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [processed, setProcessed] = useState<ProcessedAnimal[]>([]);
+
+  useEffect(() => {
+    if (currentRanch) {
+      loadReferenceData();
+    }
+  }, [currentRanch, data]);
+
+  const loadReferenceData = async () => {
+    if (!currentRanch) return;
+
+    try {
+      const [loadedDrugs, loadedLots, settings, userName] = await Promise.all([
+        data.drugs.list(currentRanch.id),
+        data.drugLots.listForRanch(currentRanch.id),
+        data.settings.get(currentRanch.id),
+        user ? data.users.getName(user.id) : Promise.resolve(null),
+      ]);
+
+      setDrugs(loadedDrugs);
+      setDrugLots(loadedLots);
+      setInjectionFeatureEnabled(settings?.enable_injection_feature || false);
+      setAdministeredBy(userName || '');
+    } catch (error) {
+      handleError(error, 'load drugs');
+    }
+  };
+
+  const focusTag = () => {
+    setTimeout(() => tagInputRef.current?.focus(), 0);
+  };
+
+  const resetCard = () => {
+    setAnimal(null);
+    setMatches([]);
+    setBreedingRecord(null);
+    setWeight('');
+    setSelectedDrugIds([]);
+    setPregnancyStatus('UNCHECKED');
+    setNotes('');
+    setTag('');
+    focusTag();
+  };
+
+  const openAnimal = async (found: Animal) => {
+    setMatches([]);
+    setAnimal(found);
+    setWeight('');
+    setSelectedDrugIds([]);
+    setNotes('');
+    setBreedingRecord(null);
+    setPregnancyStatus('UNCHECKED');
+
+    if (!FEMALE_SEXES.includes(found.sex.toUpperCase())) return;
+
+    try {
+      const pending = (await data.breeding.listForDam(found.id)).find(r => r.outcome === 'PENDING') || null;
+      setBreedingRecord(pending);
+      setPregnancyStatus(pending?.pregnancy_status || 'UNCHECKED');
+    } catch (error) {
+      console.error('Error loading breeding record:', error);
+    }
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentRanch || !tag.trim()) return;
+
+    setLooking(true);
+    try {
+      const found = await searchAnimals(data, currentRanch.id, {
+        searchTerm: tag.trim(),
+        searchType: 'tag',
+        statusFilter: 'PRESENT',
+        animalTypeFilter: 'ALL',
+      });
+
+      if (found.length === 0) {
+        showToast(`No present animal with tag ${tag.trim()}`, 'error');
+        setAnimal(null);
+        setMatches([]);
+        tagInputRef.current?.select();
+      } else if (found.length === 1) {
+        await openAnimal(found[0]);
+      } else {
+        setAnimal(null);
+        setMatches(found);
+      }
+    } catch (error) {
+      handleError(error, 'look up tag');
+    } finally {
+      setLooking(false);
+    }
+  };
+
+  const animalType = animal ? (animal.animal_type || 'Cattle') : 'Cattle';
+  const typeDrugs = drugs.filter(d => (d.animal_type || 'Cattle') === animalType);
+  const enteredWeight = parseFloat(weight);
+  const doseWeight = !isNaN(enteredWeight) && enteredWeight > 0 ? enteredWeight : animal?.weight_lbs ?? null;
+
+  const getDose = (drug: Drug) => {
+    const dose = calculateDrugDose(drug, doseWeight !== null ? Number(doseWeight) : null);
+    return dose !== null ? Number(dose.toFixed(2)) : null;
+  };
+
+  const toggleDrug = (drugId: string) => {
+    setSelectedDrugIds(selectedDrugIds.includes(drugId)
+      ? selectedDrugIds.filter(id => id !== drugId)
+      : [...selectedDrugIds, drugId]);
+  };
+
+  const getAnimalLabel = (a: Animal) => [a.tag_number, a.name].filter(Boolean).join(' - ') || 'Unknown';
+
+  const handleSave = async () => {
+    if (!animal || !currentRanch) return;
+
+    if (weight && (isNaN(enteredWeight) || enteredWeight < 1 || enteredWeight > 6000)) {
+      showToast('Please enter a valid weight between 1 and 6000 lbs', 'error');
+      return;
+    }
+
+    const treatments = typeDrugs
+      .filter(drug => selectedDrugIds.includes(drug.id))
+      .map(drug => ({ drug, dose: getDose(drug) }));
+
+    const missingDose = treatments.find(t => t.dose === null);
+    if (missingDose) {
+      showToast(`Enter a weight to dose ${missingDose.drug.drug_name}`, 'error');
+      return;
+    }
+
+    const pregnancyChanged = breedingRecord !== null && pregnancyStatus !== breedingRecord.pregnancy_status;
+    const summary = [
+      weight ? `${enteredWeight} lbs` : null,
+      ...treatments.map(t => `${t.drug.drug_name} ${t.dose!.toFixed(2)} ml`),
+      pregnancyChanged ? PREGNANCY_CHOICES.find(c => c.value === pregnancyStatus)?.label : null,
+      notes.trim() ? 'note' : null,
+    ].filter(Boolean).join(', ');
+
+    if (!summary) {
+      resetCard();
+      return;
+    }
+
+    if (isDemoMode) {
+      showToast(`Demonstration Mode - not saved: ${summary}`, 'warning');
+      setProcessed([{ id: animal.id, label: getAnimalLabel(animal), summary }, ...processed]);
+      resetCard();
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (weight && Number(animal.weight_lbs) !== enteredWeight) {
+        await data.weights.create({
+          animal_id: animal.id,
+          ranch_id: currentRanch.id,
+          weigh_date: workDate,
+          weight_lbs: enteredWeight,
+          notes: 'Chute-side weigh-in',
+          created_by_user_id: user?.id || null,
+        });
+      }
+
+      if (treatments.length > 0) {
+        for (const { drug, dose } of treatments) {
+          const lot = selectLotForAdministration(drugLots.filter(l => l.drug_id === drug.id), workDate);
+          await data.medicalHistory.create({
+            animal_id: animal.id,
+            ranch_id: currentRanch.id,
+            date: workDate,
+            description: `${drug.drug_name} - ${dose!.toFixed(2)} ml`,
+            drug_id: drug.id,
+            drug_name: drug.drug_name,
+            dose,
+            dose_units: 'ml',
+            drug_lot_id: lot?.id || null,
+            lot_number: lot?.lot_number || null,
+            administered_by: administeredBy.trim() || null,
+            created_by_user_id: user?.id || null,
+          });
+        }
+
+        let meatClearDate = animal.meat_withdrawal_clear_date;
+        let milkClearDate = animal.milk_withdrawal_clear_date;
+        for (const { drug } of treatments) {
+          meatClearDate = laterClearDate(meatClearDate, calculateWithdrawalClearDate(workDate, drug.meat_withdrawal_days));
+          milkClearDate = laterClearDate(milkClearDate, calculateWithdrawalClearDate(workDate, drug.milk_withdrawal_days));
+        }
+
+        if (meatClearDate !== animal.meat_withdrawal_clear_date || milkClearDate !== animal.milk_withdrawal_clear_date) {
+          await data.animals.update(animal.id, {
+            meat_withdrawal_clear_date: meatClearDate,
+            milk_withdrawal_clear_date: milkClearDate,
+          });
+        }
+      }
+
+      if (pregnancyChanged && breedingRecord) {
+        await data.breeding.update(breedingRecord.id, {
+          pregnancy_status: pregnancyStatus,
+          pregnancy_check_date: pregnancyStatus === 'UNCHECKED' ? null : workDate,
+        });
+      }
+
+      if (notes.trim()) {
+        const dated = `${formatDateForDisplay(workDate)}: ${notes.trim()}`;
+        await data.animals.update(animal.id, { notes: animal.notes ? `${animal.notes}\n${dated}` : dated });
+      }
+
+      if (treatments.length > 0) {
+        setDrugLots(await data.drugLots.listForRanch(currentRanch.id));
+      }
+
+      setProcessed([{ id: animal.id, label: getAnimalLabel(animal), summary }, ...processed]);
+      showToast(`Saved ${getAnimalLabel(animal)}`, 'success');
+      resetCard();
+    } catch (error) {
+      handleError(error, 'save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Layout currentPage="animals">
+      <div className="max-w-lg mx-auto space-y-4">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Chute</h1>
+            <p className="text-gray-600 mt-1">Scan or type a tag, record, save, next</p>
+          </div>
+          <input
+            type="date"
+            value={workDate}
+            onChange={(e) => setWorkDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+          />
+        </div>
+
+        {isReadOnly && (
+          <div className="flex items-center gap-2 bg-gray-100 border border-gray-300 rounded-lg p-3 text-sm text-gray-700">
+            <Lock className="w-4 h-4" />
+            You have read-only access to this ranch. Animals can be looked up but not saved.
+          </div>
+        )}
+
+        <form onSubmit={handleLookup} className="flex gap-2">
+          <input
+            ref={tagInputRef}
+            type="text"
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            placeholder="Tag number"
+            autoFocus
+            autoComplete="off"
+            enterKeyHint="search"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={looking || !tag.trim()}
+            className="inline-flex items-center px-5 py-3 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50"
+          >
+            <ScanBarcode className="w-6 h-6" />
+          </button>
+        </form>
+
+        {matches.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-2">
+            <p className="text-sm text-gray-600">{matches.length} animals have this tag. Pick one:</p>
+            {matches.map(match => (
+              <button
+                key={match.id}
+                onClick={() => openAnimal(match)}
+                className="w-full text-left px-4 py-3 border border-gray-200 rounded-lg hover:border-green-300 hover:bg-gray-50 transition"
+              >
+                <div className="font-medium text-gray-900">{getAnimalLabel(match)}</div>
+                <div className="text-sm text-gray-600">
+                  {[match.tag_color, match.animal_type, match.sex].filter(Boolean).join(' · ')}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {animal && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-5">
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{getAnimalLabel(animal)}</div>
+              <div className="text-sm text-gray-600">
+                {[animal.tag_color, animalType, animal.sex, animal.birth_date ? `born ${formatDateForDisplay(animal.birth_date)}` : null]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </div>
+              <div className="text-sm text-gray-600">
+                Last weight: {animal.weight_lbs !== null ? `${Number(animal.weight_lbs)} lbs` : 'none recorded'}
+              </div>
+              {isWithinWithdrawal(animal.meat_withdrawal_clear_date, workDate) && (
+                <div className="flex items-center gap-1 mt-1 text-sm text-red-600 font-semibold">
+                  <AlertTriangle className="w-4 h-4" />
+                  Meat withdrawal until {formatDateForDisplay(animal.meat_withdrawal_clear_date)}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Weight (lbs)</label>
+              <input
+                type="number"
+                inputMode="decimal"
+                step="1"
+                min="1"
+                max="6000"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            {injectionFeatureEnabled && typeDrugs.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Treatments</label>
+                <div className="space-y-2">
+                  {typeDrugs.map(drug => {
+                    const dose = getDose(drug);
+                    const checked = selectedDrugIds.includes(drug.id);
+                    return (
+                      <button
+                        key={drug.id}
+                        type="button"
+                        onClick={() => toggleDrug(drug.id)}
+                        className={`w-full flex items-center justify-between px-4 py-3 rounded-lg border-2 transition ${
+                          checked ? 'border-green-600 bg-green-50' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="font-medium text-gray-900">{drug.drug_name}</span>
+                        <span className={dose === null ? 'text-sm text-amber-700' : 'text-sm text-gray-700'}>
+                          {dose !== null ? `${dose.toFixed(2)} ml` : 'needs weight'}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {breedingRecord && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Pregnancy Check
+                  <span className="font-normal text-gray-500"> (bred {formatDateForDisplay(breedingRecord.breeding_date)})</span>
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  {PREGNANCY_CHOICES.map(choice => (
+                    <button
+                      key={choice.value}
+                      type="button"
+                      onClick={() => setPregnancyStatus(choice.value)}
+                      className={`px-3 py-3 rounded-lg border-2 font-medium transition ${
+                        pregnancyStatus === choice.value
+                          ? 'border-green-600 bg-green-50 text-green-800'
+                          : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+                      }`}
+                    >
+                      {choice.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <button
+                type="button"
+                onClick={resetCard}
+                disabled={saving}
+                className="inline-flex items-center justify-center px-4 py-4 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold rounded-lg transition disabled:opacity-50"
+              >
+                <SkipForward className="w-5 h-5 mr-1" />
+                Skip
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving || isReadOnly}
+                className="col-span-2 inline-flex items-center justify-center px-4 py-4 bg-green-600 hover:bg-green-700 text-white text-lg font-semibold rounded-lg shadow-md transition disabled:opacity-50"
+              >
+                <Save className="w-5 h-5 mr-2" />
+                {saving ? 'Saving...' : 'Save & Next'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {processed.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">
+              Processed this session ({processed.length})
+            </h2>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {processed.map((entry, index) => (
+                <li key={`${entry.id}-${index}`} className="py-2">
+                  <span className="font-medium text-gray-900">{entry.label}</span>
+                  <span className="text-gray-600"> — {entry.summary}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
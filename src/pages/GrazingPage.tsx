@@ -0,0 +1,564 @@
+import { useState, useEffect } from 'react';
+import { Layout } from '../components/Layout';
+import { useRanch } from '../contexts/RanchContext';
+import { useToast } from '../contexts/ToastContext';
+import { useData } from '../contexts/DataContext';
+import { AlertTriangle, CalendarDays, ChevronLeft, ChevronRight, Edit, Plus, Trash2, X } from 'lucide-react';
+import {
+  GRAZING_FLAG_LABELS,
+  calculateGrazingStatus,
+  getGrazingPlanWarnings,
+  getPastureStays,
+  isPastureOccupiedOn,
+} from '../utils/grazing';
+import { getPastureLabel, getPastureName, sortPastures } from '../utils/pastures';
+import { formatDateForDisplay, getTodayLocalDate } from '../utils/printHelpers';
+import type { AnimalMove, GrazingPlan, Pasture } from '../lib/database.types';
+import type { Animal } from '../data/types';
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const date = new Date(year, monthIndex - 1 + delta, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function getMonthDates(month: string): string[] {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const dayCount = new Date(year, monthIndex, 0).getDate();
+  return Array.from({ length: dayCount }, (_, i) => `${month}-${String(i + 1).padStart(2, '0')}`);
+}
+
+export function GrazingPage() {
+  const { currentRanch, licenseInfo, isDemoMode, currentUserRole } = useRanch();
+  const { showToast } = useToast();
+  const { data, handleError } = useData();
+  const isReadOnly = currentUserRole === 'VIEWER' && !isDemoMode;
+  const disabled = isReadOnly || licenseInfo.mode === 'license_expired';
+  const today = getTodayLocalDate();
+
+  const [pastures, setPastures] = useState<Pasture[]>([]);
+  const [animals, setAnimals] = useState<Animal[]>([]);
+  const [moves, setMoves] = useState<AnimalMove[]>([]);
+  const [plans, setPlans] = useState<GrazingPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [calendarMonth, setCalendarMonth] = useState(today.slice(0, 7));
+  const [showPlanModal, setShowPlanModal] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<GrazingPlan | null>(null);
+  const [planData, setPlanData] = useState({ pasture_id: '', start_date: '', end_date: '', notes: '' });
+
+  useEffect(() => {
+    if (currentRanch) {
+      fetchData();
+    }
+  }, [currentRanch, data]);
+
+  const fetchData = async () => {
+    if (!currentRanch) return;
+
+    setLoading(true);
+    try {
+      const [fetchedAnimals, fetchedPastures, fetchedMoves, fetchedPlans] = await Promise.all([
+        data.animals.list(currentRanch.id),
+        data.pastures.list(currentRanch.id),
+        data.animalMoves.listForRanch(currentRanch.id),
+        data.grazingPlans.list(currentRanch.id),
+      ]);
+
+      setAnimals(fetchedAnimals);
+      setPastures(fetchedPastures);
+      setMoves(fetchedMoves);
+      setPlans(fetchedPlans);
+    } catch (error) {
+      handleError(error, 'load grazing data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sortedPastures = sortPastures(pastures);
+  const stays = getPastureStays(animals, moves);
+  const statuses = sortedPastures.map(pasture => calculateGrazingStatus(pasture, animals, stays, plans, today));
+  const flaggedStatuses = statuses.filter(status => status.flags.length > 0);
+  const monthDates = getMonthDates(calendarMonth);
+  const upcomingPlans = plans.filter(plan => plan.end_date >= today);
+  const pastPlanCount = plans.length - upcomingPlans.length;
+
+  const planPasture = pastures.find(p => p.id === planData.pasture_id);
+  const draftWarnings = planPasture && planData.start_date && planData.end_date && planData.end_date >= planData.start_date
+    ? getGrazingPlanWarnings(
+        {
+          ...(editingPlan || { id: '', ranch_id: '', created_at: null, updated_at: null, notes: null }),
+          pasture_id: planPasture.id,
+          start_date: planData.start_date,
+          end_date: planData.end_date,
+        },
+        planPasture,
+        plans,
+        stays
+      )
+    : [];
+
+  const handleAddPlan = (pastureId = '', startDate = today) => {
+    setEditingPlan(null);
+    setPlanData({ pasture_id: pastureId, start_date: startDate, end_date: startDate, notes: '' });
+    setShowPlanModal(true);
+  };
+
+  const handleEditPlan = (plan: GrazingPlan) => {
+    setEditingPlan(plan);
+    setPlanData({
+      pasture_id: plan.pasture_id,
+      start_date: plan.start_date,
+      end_date: plan.end_date,
+      notes: plan.notes || '',
+    });
+    setShowPlanModal(true);
+  };
+
+  const handleSavePlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!currentRanch) return;
+
+    if (!planData.pasture_id || !planData.start_date || !planData.end_date) {
+      showToast('Pasture and dates are required', 'error');
+      return;
+    }
+    if (planData.end_date < planData.start_date) {
+      showToast('Move-out date must be on or after the move-in date', 'error');
+      return;
+    }
+
+    const plan = {
+      pasture_id: planData.pasture_id,
+      start_date: planData.start_date,
+      end_date: planData.end_date,
+      notes: planData.notes.trim() || null,
+    };
+
+    if (isDemoMode) {
+      alert(
+        `Demonstration Mode - The following plan was not saved:\n\n${getPastureName(plan.pasture_id, pastures)}: ${plan.start_date} to ${plan.end_date}`
+      );
+      setShowPlanModal(false);
+      return;
+    }
+
+    try {
+      if (editingPlan) {
+        await data.grazingPlans.update(editingPlan.id, plan);
+      } else {
+        await data.grazingPlans.create({ ranch_id: currentRanch.id, ...plan });
+      }
+
+      showToast(editingPlan ? 'Plan updated successfully' : 'Plan added successfully', 'success');
+      setShowPlanModal(false);
+      await fetchData();
+    } catch (error) {
+      handleError(error, 'save plan');
+    }
+  };
+
+  const handleDeletePlan = async (plan: GrazingPlan) => {
+    if (!confirm(`Delete the plan for ${getPastureName(plan.pasture_id, pastures)} starting ${formatDateForDisplay(plan.start_date)}?`)) {
+      return;
+    }
+
+    if (isDemoMode) {
+      alert('Demonstration Mode - The plan was not deleted.');
+      return;
+    }
+
+    try {
+      await data.grazingPlans.delete(plan.id);
+
+      showToast('Plan deleted successfully', 'success');
+      await fetchData();
+    } catch (error) {
+      handleError(error, 'delete plan');
+    }
+  };
+
+  const formatNumber = (value: number, digits = 0) =>
+    value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+  if (!currentRanch) {
+    return (
+      <Layout currentPage="ranch">
+        <div className="text-center py-12">
+          <p className="text-gray-600">Please select a ranch first</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout currentPage="ranch">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Grazing Planner</h1>
+            <p className="text-gray-600 mt-1">Forage, stocking and rest for each pasture</p>
+          </div>
+          <button
+            onClick={() => handleAddPlan()}
+            disabled={disabled || pastures.length === 0}
+            className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Plan Grazing
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-green-600 border-t-transparent"></div>
+            <p className="text-gray-600 mt-4">Loading pastures...</p>
+          </div>
+        ) : pastures.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 text-center py-12">
+            <CalendarDays className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-600">No pastures yet</p>
+            <p className="text-sm text-gray-500 mt-2">
+              Add pastures on the <a href="/pastures" className="text-green-700 underline">Pastures</a> page to start planning
+            </p>
+          </div>
+        ) : (
+          <>
+            {flaggedStatuses.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-4">
+                <div className="flex items-start gap-3">
+                  <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <div className="text-sm text-red-800 space-y-1">
+                    {flaggedStatuses.map(status => (
+                      <p key={status.pasture.id}>
+                        <span className="font-semibold">{getPastureLabel(status.pasture, pastures)}:</span>{' '}
+                        {status.flags.map(flag => GRAZING_FLAG_LABELS[flag]).join(', ')}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Pasture Status</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200">
+                      <th className="text-left py-3 px-3 font-semibold text-gray-700">Pasture</th>
+                      <th className="text-right py-3 px-3 font-semibold text-gray-700">Head</th>
+                      <th className="text-right py-3 px-3 font-semibold text-gray-700">Animal Units</th>
+                      <th className="text-right py-3 px-3 font-semibold text-gray-700">Usable Forage</th>
+                      <th className="text-right py-3 px-3 font-semibold text-gray-700">Capacity (AUM)</th>
+                      <th className="text-right py-3 px-3 font-semibold text-gray-700">Days Grazed</th>
+                      <th className="text-right py-3 px-3 font-semibold text-gray-700">Days Left</th>
+                      <th className="text-right py-3 px-3 font-semibold text-gray-700">Rest</th>
+                      <th className="text-left py-3 px-3 font-semibold text-gray-700">Flags</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statuses.map(status => (
+                      <tr key={status.pasture.id} className="border-b border-gray-100">
+                        <td className="py-3 px-3 font-medium text-gray-900">{getPastureLabel(status.pasture, pastures)}</td>
+                        <td className="py-3 px-3 text-right text-gray-700">{status.headCount}</td>
+                        <td className="py-3 px-3 text-right text-gray-700" title={status.unweighedCount > 0 ? `${status.unweighedCount} at typical weight` : undefined}>
+                          {formatNumber(status.animalUnits, 1)}
+                          {status.unweighedCount > 0 && '*'}
+                        </td>
+                        <td className="py-3 px-3 text-right text-gray-700">
+                          {status.usableForageLbs != null ? (
+                            <>
+                              {formatNumber(Math.max(0, status.usableForageLbs - status.forageUsedLbs))} lbs
+                              <div className="text-xs text-gray-500">
+                                of {formatNumber(status.usableForageLbs)} on {formatDateForDisplay(status.pasture.forage_estimated_on)}
+                              </div>
+                            </>
+                          ) : (
+                            <span className="text-gray-400">No estimate</span>
+                          )}
+                        </td>
+                        <td className="py-3 px-3 text-right text-gray-700">
+                          {status.carryingCapacityAum != null ? formatNumber(status.carryingCapacityAum, 1) : '-'}
+                        </td>
+                        <td className="py-3 px-3 text-right text-gray-700">
+                          {status.daysGrazed != null ? status.daysGrazed : '-'}
+                          {status.pasture.max_graze_days != null && status.daysGrazed != null && ` / ${status.pasture.max_graze_days}`}
+                        </td>
+                        <td className={`py-3 px-3 text-right ${status.daysRemaining != null && status.daysRemaining <= 0 ? 'text-red-600 font-semibold' : 'text-gray-700'}`}>
+                          {status.daysRemaining != null ? Math.max(0, status.daysRemaining) : '-'}
+                        </td>
+                        <td className="py-3 px-3 text-right text-gray-700">
+                          {status.daysRested != null ? (
+                            <>
+                              {status.daysRested} / {status.pasture.min_rest_days} days
+                              <div className="text-xs text-gray-500">
+                                {status.headCount > 0 ? 'before this grazing' : `since ${formatDateForDisplay(status.lastMovedOut)}`}
+                              </div>
+                            </>
+                          ) : (
+                            '-'
+                          )}
+                        </td>
+                        <td className="py-3 px-3">
+                          <div className="flex flex-wrap gap-1">
+                            {status.flags.map(flag => (
+                              <span key={flag} className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                                {GRAZING_FLAG_LABELS[flag]}
+                              </span>
+                            ))}
+                            {status.flags.length === 0 && status.headCount === 0 && status.daysRested != null && status.daysRested >= status.pasture.min_rest_days && (
+                              <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">Rested</span>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {statuses.some(s => s.unweighedCount > 0) && (
+                <p className="text-xs text-gray-500 mt-3">* Includes animals without a weight, counted at a typical weight for their species.</p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold text-gray-900">Rotation Calendar</h2>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setCalendarMonth(shiftMonth(calendarMonth, -1))}
+                    className="p-1.5 text-gray-600 hover:bg-gray-100 rounded transition"
+                    title="Previous month"
+                  >
+                    <ChevronLeft className="w-5 h-5" />
+                  </button>
+                  <span className="font-medium text-gray-900 w-36 text-center">
+                    {new Date(`${calendarMonth}-01T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                  </span>
+                  <button
+                    onClick={() => setCalendarMonth(shiftMonth(calendarMonth, 1))}
+                    className="p-1.5 text-gray-600 hover:bg-gray-100 rounded transition"
+                    title="Next month"
+                  >
+                    <ChevronRight className="w-5 h-5" />
+                  </button>
+                </div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="text-left py-1 pr-3 font-semibold text-gray-700 whitespace-nowrap">Pasture</th>
+                      {monthDates.map(date => (
+                        <th
+                          key={date}
+                          className={`w-6 min-w-[1.5rem] text-center font-normal ${date === today ? 'text-green-700 font-bold' : 'text-gray-500'}`}
+                        >
+                          {Number(date.slice(8))}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedPastures.map(pasture => (
+                      <tr key={pasture.id}>
+                        <td className="py-1 pr-3 text-gray-900 whitespace-nowrap">{getPastureLabel(pasture, pastures)}</td>
+                        {monthDates.map(date => {
+                          const planned = plans.some(p => p.pasture_id === pasture.id && p.start_date <= date && p.end_date >= date);
+                          const grazed = date <= today && isPastureOccupiedOn(stays, pasture.id, date);
+                          const cellClass = grazed && planned
+                            ? 'bg-green-600'
+                            : grazed
+                              ? 'bg-amber-500'
+                              : planned
+                                ? 'bg-green-200'
+                                : 'bg-gray-50';
+                          return (
+                            <td key={date} className="p-0.5">
+                              <button
+                                type="button"
+                                onClick={() => !disabled && handleAddPlan(pasture.id, date)}
+                                className={`block w-full h-5 rounded-sm ${cellClass} ${date === today ? 'ring-1 ring-green-700' : ''}`}
+                                title={`${getPastureLabel(pasture, pastures)} - ${formatDateForDisplay(date)}${planned ? ' (planned)' : ''}${grazed ? ' (grazed)' : ''}`}
+                              />
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex flex-wrap gap-4 mt-4 text-xs text-gray-600">
+                <span className="inline-flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-200"></span>Planned</span>
+                <span className="inline-flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-600"></span>Grazed as planned</span>
+                <span className="inline-flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-amber-500"></span>Grazed, not planned</span>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Planned Rotation</h2>
+              {upcomingPlans.length === 0 ? (
+                <p className="text-gray-500 text-center py-6">
+                  No upcoming grazing planned. Use Plan Grazing or click a day on the calendar.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-3 px-3 font-semibold text-gray-700">Pasture</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-700">Move In</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-700">Move Out</th>
+                        <th className="text-left py-3 px-3 font-semibold text-gray-700">Notes</th>
+                        <th className="text-right py-3 px-3 font-semibold text-gray-700">Actions</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {upcomingPlans.map(plan => {
+                        const pasture = pastures.find(p => p.id === plan.pasture_id);
+                        const warnings = pasture ? getGrazingPlanWarnings(plan, pasture, plans, stays) : [];
+                        return (
+                          <tr key={plan.id} className="border-b border-gray-100">
+                            <td className="py-3 px-3 font-medium text-gray-900">
+                              {getPastureName(plan.pasture_id, pastures)}
+                              {warnings.map(warning => (
+                                <div key={warning} className="text-xs font-normal text-red-600">{warning}</div>
+                              ))}
+                            </td>
+                            <td className="py-3 px-3 text-gray-700">{formatDateForDisplay(plan.start_date)}</td>
+                            <td className="py-3 px-3 text-gray-700">{formatDateForDisplay(plan.end_date)}</td>
+                            <td className="py-3 px-3 text-gray-700">{plan.notes || '-'}</td>
+                            <td className="py-3 px-3">
+                              <div className="flex gap-2 justify-end">
+                                <button
+                                  onClick={() => handleEditPlan(plan)}
+                                  disabled={disabled}
+                                  className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition disabled:opacity-50"
+                                  title="Edit"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleDeletePlan(plan)}
+                                  disabled={disabled}
+                                  className="p-1.5 text-red-600 hover:bg-red-50 rounded transition disabled:opacity-50"
+                                  title="Delete"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {pastPlanCount > 0 && (
+                <p className="text-xs text-gray-500 mt-3">
+                  {pastPlanCount} earlier plan{pastPlanCount === 1 ? ' is' : 's are'} shown on the calendar only.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {showPlanModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-2xl font-bold text-gray-900">{editingPlan ? 'Edit Plan' : 'Plan Grazing'}</h2>
+              <button
+                onClick={() => setShowPlanModal(false)}
+                className="text-gray-400 hover:text-gray-600 transition"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSavePlan} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pasture *</label>
+                <select
+                  value={planData.pasture_id}
+                  onChange={(e) => setPlanData({ ...planData, pasture_id: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  required
+                >
+                  <option value="">Select a pasture...</option>
+                  {sortedPastures.map(pasture => (
+                    <option key={pasture.id} value={pasture.id}>{getPastureLabel(pasture, pastures)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Move In *</label>
+                  <input
+                    type="date"
+                    value={planData.start_date}
+                    onChange={(e) => setPlanData({ ...planData, start_date: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Move Out *</label>
+                  <input
+                    type="date"
+                    value={planData.end_date}
+                    min={planData.start_date}
+                    onChange={(e) => setPlanData({ ...planData, end_date: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <input
+                  type="text"
+                  value={planData.notes}
+                  onChange={(e) => setPlanData({ ...planData, notes: e.target.value })}
+                  placeholder="e.g., Cow-calf pairs"
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+              </div>
+
+              {draftWarnings.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 space-y-1">
+                  {draftWarnings.map(warning => (
+                    <p key={warning}>{warning}</p>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowPlanModal(false)}
+                  className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition"
+                >
+                  {editingPlan ? 'Update Plan' : 'Add Plan'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -10,7 +10,7 @@ import { PhotoGallery } from '../components/PhotoGallery';
 import { useRanch } from '../contexts/RanchContext';
 import { useToast } from '../contexts/ToastContext';
 import { supabase } from '../lib/supabase';
-import { Key, HelpCircle, RefreshCw, Plus, Camera, Upload, Edit, Trash2, Image, Film, GitBranch } from 'lucide-react';
+import { Key, HelpCircle, RefreshCw, Plus, Camera, Upload, Edit, Trash2, Image, Film, GitBranch, MapPin, Map as MapIcon } from 'lucide-react';
 import type { Database } from '../lib/database.types';
 
 type Animal = Database['public']['Tables']['animals']['Row'];
@@ -441,7 +441,7 @@ export function LicenseHelpPage() {
         </div>
 
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-          <div className="flex items-center justify-center gap-4">
+          <div className="flex flex-wrap items-center justify-center gap-4">
             <a
               href="/movies"
               className="inline-flex items-center px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white text-lg font-bold rounded-xl shadow-lg hover:shadow-xl transition transform hover:scale-105"
@@ -456,6 +456,20 @@ export function LicenseHelpPage() {
               <GitBranch className="w-6 h-6 mr-3" />
               Check Fences
             </a>
+            <a
+              href="/pastures"
+              className="inline-flex items-center px-8 py-4 bg-gradient-to-r from-amber-600 to-amber-700 hover:from-amber-700 hover:to-amber-800 text-white text-lg font-bold rounded-xl shadow-lg hover:shadow-xl transition transform hover:scale-105"
+            >
+              <MapPin className="w-6 h-6 mr-3" />
+              Pastures
+            </a>
+            <a
+              href="/map"
+              className="inline-flex items-center px-8 py-4 bg-gradient-to-r from-teal-600 to-teal-700 hover:from-teal-700 hover:to-teal-800 text-white text-lg font-bold rounded-xl shadow-lg hover:shadow-xl transition transform hover:scale-105"
+            >
+              <MapIcon className="w-6 h-6 mr-3" />
+              Map
+            </a>
           </div>
         </div>
 
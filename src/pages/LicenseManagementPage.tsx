@@ -7,32 +7,10 @@ import { MessageList } from '../components/MessageList';
 import { SendMessage } from '../components/SendMessage';
 import { AdminRanchInvitationPanel } from '../components/AdminRanchInvitationPanel';
 import { Key, Plus, CheckCircle, XCircle, ArrowLeft, Users, RefreshCw, Lock, MessageSquare, Send, FileText, Upload, Download, UploadCloud, BarChart3 } from 'lucide-react';
-import type { LicenseType } from '../lib/database.types';
+import type { LicenseKey, Ranch } from '../lib/database.types';
 import { downloadBackup, restoreFromBackup } from '../utils/backupRestore';
 import { generateSystemReport, exportSystemReportToCSV, downloadCSV, type SystemReportSummary } from '../utils/systemReport';
 
-interface LicenseKey {
-  id: string;
-  key: string;
-  license_type: LicenseType;
-  expiration_date: string;
-  used_by_ranch_id: string | null;
-  created_at: string;
-  max_animals: number;
-}
-
-interface Ranch {
-  id: string;
-  name: string;
-  license_type: LicenseType | null;
-  license_expiration: string | null;
-  max_animals: number | null;
-  contact_name: string | null;
-  contact_email: string | null;
-  contact_phone: string | null;
-  created_at: string;
-}
-
 interface RanchWithStats extends Ranch {
   animal_count: number;
   unread_messages: number;
@@ -1053,7 +1031,7 @@ export default function LicenseManagementPage() {
                         Expires: <span className="font-medium">{formatDate(license.expiration_date)}</span>
                       </span>
                       <span>
-                        Created: <span className="font-medium">{formatDate(license.created_at)}</span>
+                        Created: <span className="font-medium">{license.created_at ? formatDate(license.created_at) : 'N/A'}</span>
                       </span>
                     </div>
                   </div>
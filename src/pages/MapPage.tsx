@@ -0,0 +1,567 @@
+import { useState, useEffect } from 'react';
+import { Layout } from '../components/Layout';
+import { RanchMap } from '../components/RanchMap';
+import { useRanch } from '../contexts/RanchContext';
+import { useToast } from '../contexts/ToastContext';
+import { useSync } from '../contexts/SyncContext';
+import { useData } from '../contexts/DataContext';
+import { Download, MapPin, Trash2, Upload, X } from 'lucide-react';
+import {
+  MAP_FEATURE_KIND_LABELS,
+  downloadMapFile,
+  getGeometryKind,
+  normalizeFeatureName,
+  parseGeometry,
+  parseMapFile,
+  toGeoJSON,
+  toKML,
+  type ImportedFeature,
+  type MapFeature,
+  type MapFeatureKind,
+  type MapGeometry,
+} from '../utils/mapGeometry';
+import { getPastureLabel, sortPastures } from '../utils/pastures';
+import { getTodayLocalDate } from '../utils/printHelpers';
+import type { Json, Pasture } from '../lib/database.types';
+import type { Animal, Fence } from '../data/types';
+
+// Where an imported shape goes: an existing row's id, a new row, or nowhere
+type ImportTarget = string | 'NEW' | 'SKIP';
+
+interface ImportRow {
+  feature: ImportedFeature;
+  kind: MapFeatureKind;
+  target: ImportTarget;
+}
+
+interface MapItem {
+  id: string;
+  kind: MapFeatureKind;
+  name: string;
+  geometry: MapGeometry | null;
+}
+
+const MAP_KINDS: MapFeatureKind[] = ['pasture', 'fence', 'infrastructure'];
+
+export function MapPage() {
+  const { currentRanch, licenseInfo, isDemoMode, currentUserRole } = useRanch();
+  const { showToast } = useToast();
+  const { isOnline } = useSync();
+  const { data, handleError } = useData();
+  const isReadOnly = currentUserRole === 'VIEWER' && !isDemoMode;
+  const disabled = isReadOnly || licenseInfo.mode === 'license_expired';
+
+  const [fences, setFences] = useState<Fence[]>([]);
+  const [pastures, setPastures] = useState<Pasture[]>([]);
+  const [infrastructureItems, setInfrastructureItems] = useState<Animal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [importRows, setImportRows] = useState<ImportRow[] | null>(null);
+  const [importFileName, setImportFileName] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [locatingItem, setLocatingItem] = useState<Animal | null>(null);
+  const [locationForm, setLocationForm] = useState({ latitude: '', longitude: '' });
+
+  useEffect(() => {
+    if (currentRanch) {
+      fetchData();
+    }
+  }, [currentRanch, data]);
+
+  const fetchData = async () => {
+    if (!currentRanch) return;
+
+    setLoading(true);
+    try {
+      const [fetchedFences, fetchedItems, fetchedPastures] = await Promise.all([
+        data.fences.list(currentRanch.id),
+        data.animals.list(currentRanch.id, { includeOther: true, animalType: 'Other' }),
+        data.pastures.list(currentRanch.id),
+      ]);
+      setFences(fetchedFences);
+      setInfrastructureItems(fetchedItems);
+      setPastures(sortPastures(fetchedPastures));
+    } catch (error) {
+      handleError(error, 'load map');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const items: MapItem[] = [
+    ...pastures.map(p => ({
+      id: p.id,
+      kind: 'pasture' as const,
+      name: getPastureLabel(p, pastures),
+      geometry: parseGeometry(p.geometry),
+    })),
+    ...fences.map(f => ({
+      id: f.id,
+      kind: 'fence' as const,
+      name: f.description,
+      geometry: parseGeometry(f.geometry),
+    })),
+    ...infrastructureItems.map(a => ({
+      id: a.id,
+      kind: 'infrastructure' as const,
+      name: a.description || 'Unnamed Item',
+      geometry: parseGeometry(a.geometry),
+    })),
+  ];
+
+  const features: MapFeature[] = items.flatMap(item =>
+    item.geometry ? [{ id: item.id, kind: item.kind, name: item.name, geometry: item.geometry }] : []
+  );
+  const selectedItem = items.find(item => item.id === selectedId) || null;
+
+  const saveGeometry = async (kind: MapFeatureKind, id: string, geometry: MapGeometry | null) => {
+    const value = geometry as Json;
+    if (kind === 'fence') {
+      await data.fences.update(id, { geometry: value });
+    } else if (kind === 'infrastructure') {
+      await data.animals.update(id, { geometry: value });
+    } else {
+      await data.pastures.update(id, { geometry: value });
+    }
+  };
+
+  const createWithGeometry = async (kind: MapFeatureKind, name: string, geometry: MapGeometry) => {
+    if (!currentRanch) return;
+
+    const value = geometry as Json;
+    if (kind === 'fence') {
+      await data.fences.create({ ranch_id: currentRanch.id, description: name, geometry: value });
+    } else if (kind === 'infrastructure') {
+      await data.animals.create({
+        ranch_id: currentRanch.id,
+        animal_type: 'Other',
+        sex: 'BULL',
+        source: 'BORN',
+        status: 'PRESENT',
+        description: name,
+        geometry: value,
+      });
+    } else {
+      await data.pastures.create({ ranch_id: currentRanch.id, name, geometry: value });
+    }
+  };
+
+  const getItemsOfKind = (kind: MapFeatureKind) => items.filter(item => item.kind === kind);
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await parseMapFile(file);
+      if (imported.length === 0) {
+        showToast('No points, lines or areas were found in that file', 'error');
+        return;
+      }
+
+      // Shapes whose name matches an existing fence, pasture or item replace its shape
+      setImportRows(imported.map(feature => {
+        const kind = getGeometryKind(feature.geometry);
+        const match = getItemsOfKind(kind).find(
+          item => normalizeFeatureName(item.name) === normalizeFeatureName(feature.name)
+        );
+        return { feature, kind, target: match ? match.id : 'NEW' };
+      }));
+      setImportFileName(file.name);
+    } catch (error) {
+      console.error('Error reading map file:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to read map file', 'error');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importRows) return;
+
+    if (isDemoMode) {
+      showToast('Demonstration Mode - Changes not saved.', 'warning');
+      return;
+    }
+
+    setImporting(true);
+    let saved = 0;
+    let failed = 0;
+    for (const row of importRows) {
+      if (row.target === 'SKIP') continue;
+      try {
+        if (row.target === 'NEW') {
+          await createWithGeometry(row.kind, row.feature.name, row.feature.geometry);
+        } else {
+          await saveGeometry(row.kind, row.target, row.feature.geometry);
+        }
+        saved++;
+      } catch (error) {
+        console.error(`Error importing ${row.feature.name}:`, error);
+        failed++;
+      }
+    }
+    setImporting(false);
+
+    if (failed > 0) {
+      showToast(`Imported ${saved} shape${saved === 1 ? '' : 's'}; ${failed} could not be saved`, 'warning');
+    } else if (!isOnline) {
+      showToast('Shapes saved offline - will sync when back online', 'warning');
+    } else {
+      showToast(`Imported ${saved} shape${saved === 1 ? '' : 's'}`, 'success');
+    }
+    setImportRows(null);
+    await fetchData();
+  };
+
+  const handleClearShape = async (item: MapItem) => {
+    if (isDemoMode) {
+      showToast('Demonstration Mode - Changes not saved.', 'warning');
+      return;
+    }
+
+    if (!confirm(`Remove "${item.name}" from the map?`)) {
+      return;
+    }
+
+    try {
+      await saveGeometry(item.kind, item.id, null);
+      showToast('Shape removed', 'success');
+      if (selectedId === item.id) setSelectedId(null);
+      await fetchData();
+    } catch (error) {
+      handleError(error, 'remove shape');
+    }
+  };
+
+  const handleLocateItem = (item: Animal) => {
+    const geometry = parseGeometry(item.geometry);
+    setLocatingItem(item);
+    setLocationForm(geometry?.type === 'Point'
+      ? { latitude: String(geometry.coordinates[1]), longitude: String(geometry.coordinates[0]) }
+      : { latitude: '', longitude: '' });
+  };
+
+  const handleSaveLocation = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!locatingItem) return;
+
+    const latitude = parseFloat(locationForm.latitude);
+    const longitude = parseFloat(locationForm.longitude);
+    if (isNaN(latitude) || latitude < -90 || latitude > 90 || isNaN(longitude) || longitude < -180 || longitude > 180) {
+      showToast('Enter a latitude between -90 and 90 and a longitude between -180 and 180', 'error');
+      return;
+    }
+
+    if (isDemoMode) {
+      showToast('Demonstration Mode - Changes not saved.', 'warning');
+      return;
+    }
+
+    try {
+      await saveGeometry('infrastructure', locatingItem.id, { type: 'Point', coordinates: [longitude, latitude] });
+      showToast(isOnline ? 'Location saved' : 'Location saved offline - will sync when back online', isOnline ? 'success' : 'warning');
+      setLocatingItem(null);
+      setSelectedId(locatingItem.id);
+      await fetchData();
+    } catch (error) {
+      handleError(error, 'save location');
+    }
+  };
+
+  const exportFileName = (extension: string) => {
+    const ranchName = (currentRanch?.name || 'Ranch').trim().replace(/[^a-zA-Z0-9]/g, '_');
+    return `${ranchName}_Map_${getTodayLocalDate()}.${extension}`;
+  };
+
+  const handleExportGeoJSON = () => {
+    downloadMapFile(toGeoJSON(features), exportFileName('geojson'), 'application/geo+json');
+  };
+
+  const handleExportKML = () => {
+    downloadMapFile(toKML(features, currentRanch?.name || 'Ranch'), exportFileName('kml'), 'application/vnd.google-earth.kml+xml');
+  };
+
+  if (!currentRanch) {
+    return (
+      <Layout currentPage="ranch">
+        <div className="text-center py-12">
+          <p className="text-gray-600">Please select a ranch first</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout currentPage="ranch">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Ranch Map</h1>
+            <p className="text-gray-600 mt-1">Pastures, fences and infrastructure</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <label
+              className={`inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition ${
+                disabled ? 'opacity-50 cursor-not-allowed pointer-events-none' : 'cursor-pointer'
+              }`}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+              <input
+                type="file"
+                accept=".geojson,.json,.kml,.kmz"
+                onChange={handleFileChosen}
+                disabled={disabled}
+                className="hidden"
+              />
+            </label>
+            <button
+              onClick={handleExportGeoJSON}
+              disabled={features.length === 0}
+              className="inline-flex items-center px-4 py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              GeoJSON
+            </button>
+            <button
+              onClick={handleExportKML}
+              disabled={features.length === 0}
+              className="inline-flex items-center px-4 py-2 bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              KML
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent"></div>
+            <p className="text-gray-600 mt-4">Loading map...</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 space-y-3">
+              <RanchMap features={features} selectedId={selectedId} onSelect={setSelectedId} />
+              <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+                <span className="inline-flex items-center"><span className="w-4 h-3 mr-1.5 rounded-sm bg-green-200 border border-green-700" />Pasture</span>
+                <span className="inline-flex items-center"><span className="w-4 h-0.5 mr-1.5 bg-amber-900" />Fence</span>
+                <span className="inline-flex items-center"><span className="w-2.5 h-2.5 mr-1.5 rounded-full bg-blue-600" />Infrastructure</span>
+                <span className="text-gray-400">Drag to pan, use the buttons to zoom</span>
+              </div>
+              {selectedItem && (
+                <div className="bg-white rounded-lg border border-gray-200 p-3 text-sm">
+                  <span className="font-semibold text-gray-900">{selectedItem.name}</span>
+                  <span className="text-gray-500"> - {MAP_FEATURE_KIND_LABELS[selectedItem.kind]}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 space-y-5 max-h-[40rem] overflow-y-auto">
+              {MAP_KINDS.map(kind => {
+                const kindItems = getItemsOfKind(kind);
+                return (
+                  <div key={kind}>
+                    <h2 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-2">
+                      {MAP_FEATURE_KIND_LABELS[kind]} ({kindItems.filter(i => i.geometry).length}/{kindItems.length} mapped)
+                    </h2>
+                    {kindItems.length === 0 ? (
+                      <p className="text-sm text-gray-400">None yet</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {kindItems.map(item => (
+                          <li
+                            key={item.id}
+                            className={`flex items-center justify-between gap-2 px-2 py-1.5 rounded text-sm ${
+                              item.id === selectedId ? 'bg-amber-50' : 'hover:bg-gray-50'
+                            }`}
+                          >
+                            <button
+                              onClick={() => item.geometry && setSelectedId(item.id)}
+                              className={`text-left flex-1 truncate ${item.geometry ? 'text-gray-900' : 'text-gray-400 cursor-default'}`}
+                              title={item.geometry ? 'Show on map' : 'No shape yet'}
+                            >
+                              {item.name}
+                            </button>
+                            <div className="flex gap-1">
+                              {kind === 'infrastructure' && (
+                                <button
+                                  onClick={() => {
+                                    const animal = infrastructureItems.find(a => a.id === item.id);
+                                    if (animal) handleLocateItem(animal);
+                                  }}
+                                  disabled={disabled}
+                                  className="p-1 text-blue-600 hover:bg-blue-50 rounded transition disabled:opacity-50"
+                                  title="Set location"
+                                >
+                                  <MapPin className="w-4 h-4" />
+                                </button>
+                              )}
+                              {item.geometry && (
+                                <button
+                                  onClick={() => handleClearShape(item)}
+                                  disabled={disabled}
+                                  className="p-1 text-red-600 hover:bg-red-50 rounded transition disabled:opacity-50"
+                                  title="Remove from map"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              )}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {importRows && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">Import Shapes</h2>
+                <p className="text-sm text-gray-600 mt-1">{importFileName}</p>
+              </div>
+              <button
+                onClick={() => setImportRows(null)}
+                className="text-gray-400 hover:text-gray-600 transition"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 overflow-y-auto">
+              <p className="text-sm text-gray-600 mb-4">
+                Lines become fences, areas become pastures and points become infrastructure items.
+                Shapes named like something already on the ranch replace its shape.
+              </p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-2 pr-3 font-semibold text-gray-700">Name in File</th>
+                    <th className="text-left py-2 pr-3 font-semibold text-gray-700">Shape</th>
+                    <th className="text-left py-2 font-semibold text-gray-700">Save To</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {importRows.map((row, index) => (
+                    <tr key={index} className="border-b border-gray-100">
+                      <td className="py-2 pr-3 text-gray-900">{row.feature.name}</td>
+                      <td className="py-2 pr-3 text-gray-600">{row.feature.geometry.type}</td>
+                      <td className="py-2">
+                        <select
+                          value={row.target}
+                          onChange={(e) => setImportRows(importRows.map((r, i) => i === index ? { ...r, target: e.target.value } : r))}
+                          className="w-full px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          <option value="NEW">New {MAP_FEATURE_KIND_LABELS[row.kind].toLowerCase()}</option>
+                          <option value="SKIP">Don't import</option>
+                          {getItemsOfKind(row.kind).map(item => (
+                            <option key={item.id} value={item.id}>
+                              {item.name}{item.geometry ? ' (replace shape)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex gap-3 p-6 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={() => setImportRows(null)}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importing || importRows.every(r => r.target === 'SKIP')}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                {importing ? 'Importing...' : `Import ${importRows.filter(r => r.target !== 'SKIP').length}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {locatingItem && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-2xl font-bold text-gray-900">Set Location</h2>
+              <button
+                onClick={() => setLocatingItem(null)}
+                className="text-gray-400 hover:text-gray-600 transition"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveLocation} className="p-6 space-y-4">
+              <p className="text-sm font-semibold text-gray-900">{locatingItem.description || 'Unnamed Item'}</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Latitude *
+                  </label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={locationForm.latitude}
+                    onChange={(e) => setLocationForm({ ...locationForm, latitude: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="e.g., 38.3489"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Longitude *
+                  </label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={locationForm.longitude}
+                    onChange={(e) => setLocationForm({ ...locationForm, longitude: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="e.g., -120.7741"
+                    required
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">Decimal degrees, as shown by most phone GPS and map apps.</p>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setLocatingItem(null)}
+                  className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition"
+                >
+                  Save Location
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -3,20 +3,9 @@ import { Layout } from '../components/Layout';
 import { useRanch } from '../contexts/RanchContext';
 import { useToast } from '../contexts/ToastContext';
 import { supabase } from '../lib/supabase';
+import type { Movie } from '../lib/database.types';
 import { Film, Plus, Search, FileText, Upload, Edit, Trash2, X } from 'lucide-react';
 
-interface Movie {
-  id: string;
-  ranch_id: string;
-  movie_name: string;
-  rating: string | null;
-  genre: string | null;
-  actor: string | null;
-  notes: string | null;
-  folder: string | null;
-  created_at: string;
-}
-
 type ViewMode = 'list' | 'search' | 'report';
 
 const GENRE_MAP: Record<string, string> = {
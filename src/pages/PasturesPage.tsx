@@ -0,0 +1,544 @@
+import { useState, useEffect } from 'react';
+import { Layout } from '../components/Layout';
+import { useRanch } from '../contexts/RanchContext';
+import { useToast } from '../contexts/ToastContext';
+import { useData } from '../contexts/DataContext';
+import { MapPin, Plus, Edit, Trash2, X, CalendarDays } from 'lucide-react';
+import { PASTURE_KIND_LABELS, getPastureLabel, getPastureName, sortPastures } from '../utils/pastures';
+import type { AnimalMove, Pasture } from '../lib/database.types';
+
+type PastureAnimal = { id: string; tag_number: string | null; name: string | null; current_pasture_id: string | null };
+
+const RECENT_MOVES_LIMIT = 50;
+
+export function PasturesPage() {
+  const { currentRanch, licenseInfo, isDemoMode, currentUserRole } = useRanch();
+  const { showToast } = useToast();
+  const { data, handleError } = useData();
+  const isReadOnly = currentUserRole === 'VIEWER' && !isDemoMode;
+
+  const [pastures, setPastures] = useState<Pasture[]>([]);
+  const [animals, setAnimals] = useState<PastureAnimal[]>([]);
+  const [moves, setMoves] = useState<AnimalMove[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showEditModal, setShowEditModal] = useState(false);
+  const [editingPasture, setEditingPasture] = useState<Pasture | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: '',
+    kind: 'PASTURE' as Pasture['kind'],
+    parent_pasture_id: '',
+    acreage: '',
+    capacity_head: '',
+    notes: '',
+    forage_lbs_per_acre: '',
+    forage_estimated_on: '',
+    utilization_pct: '50',
+    min_rest_days: '30',
+    max_graze_days: '',
+  });
+
+  useEffect(() => {
+    if (currentRanch) {
+      fetchData();
+    }
+  }, [currentRanch, data]);
+
+  const fetchData = async () => {
+    if (!currentRanch) return;
+
+    setLoading(true);
+    try {
+      const [fetchedPastures, fetchedAnimals, fetchedMoves] = await Promise.all([
+        data.pastures.list(currentRanch.id),
+        data.animals.list(currentRanch.id, { status: 'PRESENT', includeOther: true }),
+        data.animalMoves.listForRanch(currentRanch.id, RECENT_MOVES_LIMIT),
+      ]);
+
+      setPastures(fetchedPastures);
+      setAnimals(fetchedAnimals);
+      setMoves(fetchedMoves);
+    } catch (error) {
+      handleError(error, 'load pastures');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddPasture = () => {
+    setEditingPasture(null);
+    setFormData({
+      name: '',
+      kind: 'PASTURE',
+      parent_pasture_id: '',
+      acreage: '',
+      capacity_head: '',
+      notes: '',
+      forage_lbs_per_acre: '',
+      forage_estimated_on: '',
+      utilization_pct: '50',
+      min_rest_days: '30',
+      max_graze_days: '',
+    });
+    setShowEditModal(true);
+  };
+
+  const handleEditPasture = (pasture: Pasture) => {
+    setEditingPasture(pasture);
+    setFormData({
+      name: pasture.name,
+      kind: pasture.kind,
+      parent_pasture_id: pasture.parent_pasture_id || '',
+      acreage: pasture.acreage != null ? String(pasture.acreage) : '',
+      capacity_head: pasture.capacity_head != null ? String(pasture.capacity_head) : '',
+      notes: pasture.notes || '',
+      forage_lbs_per_acre: pasture.forage_lbs_per_acre != null ? String(pasture.forage_lbs_per_acre) : '',
+      forage_estimated_on: pasture.forage_estimated_on || '',
+      utilization_pct: String(pasture.utilization_pct),
+      min_rest_days: String(pasture.min_rest_days),
+      max_graze_days: pasture.max_graze_days != null ? String(pasture.max_graze_days) : '',
+    });
+    setShowEditModal(true);
+  };
+
+  const handleSavePasture = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!currentRanch) return;
+
+    if (!formData.name.trim()) {
+      showToast('Pasture name is required', 'error');
+      return;
+    }
+
+    const acreage = formData.acreage ? parseFloat(formData.acreage) : null;
+    const capacity = formData.capacity_head ? parseInt(formData.capacity_head, 10) : null;
+
+    if (acreage != null && !(acreage > 0)) {
+      showToast('Acreage must be more than zero', 'error');
+      return;
+    }
+    if (capacity != null && !(capacity >= 0)) {
+      showToast('Capacity must be zero or more', 'error');
+      return;
+    }
+
+    const forage = formData.forage_lbs_per_acre ? parseFloat(formData.forage_lbs_per_acre) : null;
+    const utilization = parseInt(formData.utilization_pct, 10);
+    const minRest = parseInt(formData.min_rest_days, 10);
+    const maxGraze = formData.max_graze_days ? parseInt(formData.max_graze_days, 10) : null;
+
+    if (forage != null && !(forage >= 0)) {
+      showToast('Forage estimate must be zero or more', 'error');
+      return;
+    }
+    if (forage != null && !formData.forage_estimated_on) {
+      showToast('Enter the date the forage was estimated', 'error');
+      return;
+    }
+    if (!(utilization > 0 && utilization <= 100)) {
+      showToast('Utilization must be between 1 and 100 percent', 'error');
+      return;
+    }
+    if (!(minRest >= 0)) {
+      showToast('Rest days must be zero or more', 'error');
+      return;
+    }
+    if (maxGraze != null && !(maxGraze > 0)) {
+      showToast('Maximum grazing days must be more than zero', 'error');
+      return;
+    }
+
+    const pastureData = {
+      name: formData.name.trim(),
+      kind: formData.kind,
+      parent_pasture_id: formData.kind === 'PADDOCK' ? formData.parent_pasture_id || null : null,
+      acreage,
+      capacity_head: capacity,
+      notes: formData.notes.trim() || null,
+      forage_lbs_per_acre: forage,
+      forage_estimated_on: forage != null ? formData.forage_estimated_on : null,
+      utilization_pct: utilization,
+      min_rest_days: minRest,
+      max_graze_days: maxGraze,
+    };
+
+    if (isDemoMode) {
+      alert(`Demonstration Mode - The following pasture was not saved:\n\n${pastureData.name}`);
+      setShowEditModal(false);
+      return;
+    }
+
+    try {
+      if (editingPasture) {
+        await data.pastures.update(editingPasture.id, pastureData);
+      } else {
+        await data.pastures.create({ ranch_id: currentRanch.id, ...pastureData });
+      }
+
+      showToast(editingPasture ? 'Pasture updated successfully' : 'Pasture added successfully', 'success');
+      setShowEditModal(false);
+      await fetchData();
+    } catch (error) {
+      handleError(error, 'save pasture');
+    }
+  };
+
+  const handleDeletePasture = async (pasture: Pasture) => {
+    const headCount = animals.filter(a => a.current_pasture_id === pasture.id).length;
+    const warning = headCount > 0 ? `\n\n${headCount} animal${headCount === 1 ? ' is' : 's are'} in it and will become unassigned.` : '';
+    if (!confirm(`Are you sure you want to delete "${pasture.name}"?${warning}`)) {
+      return;
+    }
+
+    if (isDemoMode) {
+      alert('Demonstration Mode - The pasture was not deleted.');
+      return;
+    }
+
+    try {
+      await data.pastures.delete(pasture.id);
+
+      showToast('Pasture deleted successfully', 'success');
+      await fetchData();
+    } catch (error) {
+      handleError(error, 'delete pasture');
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+  };
+
+  const getAnimalLabel = (animalId: string) => {
+    const animal = animals.find(a => a.id === animalId);
+    if (!animal) return 'Animal no longer present';
+    return animal.tag_number || animal.name || 'Untagged';
+  };
+
+  const unassignedCount = animals.filter(a => !a.current_pasture_id).length;
+  const topLevelPastures = sortPastures(pastures).filter(p => p.kind === 'PASTURE' && p.id !== editingPasture?.id);
+  const disabled = isReadOnly || licenseInfo.mode === 'license_expired';
+
+  if (!currentRanch) {
+    return (
+      <Layout currentPage="ranch">
+        <div className="text-center py-12">
+          <p className="text-gray-600">Please select a ranch first</p>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout currentPage="ranch">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Pastures</h1>
+            <p className="text-gray-600 mt-1">Pastures, paddocks and where the herd is</p>
+          </div>
+          <div className="flex gap-2">
+            <a
+              href="/grazing"
+              className="inline-flex items-center px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold rounded-lg transition"
+            >
+              <CalendarDays className="w-4 h-4 mr-2" />
+              Grazing Planner
+            </a>
+            <button
+              onClick={handleAddPasture}
+              disabled={disabled}
+              className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Pasture
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-4 border-green-600 border-t-transparent"></div>
+              <p className="text-gray-600 mt-4">Loading pastures...</p>
+            </div>
+          ) : pastures.length === 0 ? (
+            <div className="text-center py-12">
+              <MapPin className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-600">No pastures yet</p>
+              <p className="text-sm text-gray-500 mt-2">Add pastures and paddocks to track where animals are</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Name</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Kind</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Acres</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Head</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Notes</th>
+                    <th className="text-right py-3 px-4 font-semibold text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortPastures(pastures).map((pasture) => {
+                    const headCount = animals.filter(a => a.current_pasture_id === pasture.id).length;
+                    const overCapacity = pasture.capacity_head != null && headCount > pasture.capacity_head;
+                    return (
+                      <tr key={pasture.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        <td className="py-3 px-4 font-medium text-gray-900">{getPastureLabel(pasture, pastures)}</td>
+                        <td className="py-3 px-4 text-gray-700">{PASTURE_KIND_LABELS[pasture.kind]}</td>
+                        <td className="py-3 px-4 text-right text-gray-700">{pasture.acreage ?? '-'}</td>
+                        <td className={`py-3 px-4 text-right ${overCapacity ? 'text-red-600 font-semibold' : 'text-gray-700'}`}>
+                          {headCount}
+                          {pasture.capacity_head != null && ` / ${pasture.capacity_head}`}
+                        </td>
+                        <td className="py-3 px-4 text-gray-700 max-w-xs truncate">{pasture.notes || '-'}</td>
+                        <td className="py-3 px-4">
+                          <div className="flex gap-2 justify-end">
+                            <button
+                              onClick={() => handleEditPasture(pasture)}
+                              disabled={disabled}
+                              className="p-1.5 text-blue-600 hover:bg-blue-50 rounded transition disabled:opacity-50"
+                              title="Edit"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDeletePasture(pasture)}
+                              disabled={disabled}
+                              className="p-1.5 text-red-600 hover:bg-red-50 rounded transition disabled:opacity-50"
+                              title="Delete"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <p className="text-sm text-gray-600 mt-4">
+                {unassignedCount} present animal{unassignedCount === 1 ? ' has' : 's have'} not been put in a pasture.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {!loading && moves.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Moves</h2>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Date</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Animal</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">From</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">To</th>
+                    <th className="text-left py-3 px-4 font-semibold text-gray-700">Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {moves.map((move) => (
+                    <tr key={move.id} className="border-b border-gray-100">
+                      <td className="py-3 px-4 text-gray-700">{formatDate(move.moved_on)}</td>
+                      <td className="py-3 px-4 text-gray-900">{getAnimalLabel(move.animal_id)}</td>
+                      <td className="py-3 px-4 text-gray-700">{getPastureName(move.from_pasture_id, pastures)}</td>
+                      <td className="py-3 px-4 text-gray-700">{getPastureName(move.to_pasture_id, pastures)}</td>
+                      <td className="py-3 px-4 text-gray-700">{move.notes || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {showEditModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-2xl font-bold text-gray-900">
+                {editingPasture ? 'Edit Pasture' : 'Add Pasture'}
+              </h2>
+              <button
+                onClick={() => setShowEditModal(false)}
+                className="text-gray-400 hover:text-gray-600 transition"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSavePasture} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  placeholder="e.g., North Pasture"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Kind</label>
+                  <select
+                    value={formData.kind}
+                    onChange={(e) => setFormData({ ...formData, kind: e.target.value as Pasture['kind'] })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    {Object.entries(PASTURE_KIND_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {formData.kind === 'PADDOCK' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Part Of</label>
+                    <select
+                      value={formData.parent_pasture_id}
+                      onChange={(e) => setFormData({ ...formData, parent_pasture_id: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    >
+                      <option value="">No parent pasture</option>
+                      {topLevelPastures.map(pasture => (
+                        <option key={pasture.id} value={pasture.id}>{pasture.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Acreage</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.acreage}
+                    onChange={(e) => setFormData({ ...formData, acreage: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Capacity (head)</label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={formData.capacity_head}
+                    onChange={(e) => setFormData({ ...formData, capacity_head: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div className="border-t border-gray-200 pt-4">
+                <h3 className="text-sm font-semibold text-gray-900 mb-1">Grazing</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Used by the grazing planner to work out days of grazing left and rest periods.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Forage (lbs dry matter/acre)</label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={formData.forage_lbs_per_acre}
+                      onChange={(e) => setFormData({ ...formData, forage_lbs_per_acre: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Estimated On</label>
+                    <input
+                      type="date"
+                      value={formData.forage_estimated_on}
+                      onChange={(e) => setFormData({ ...formData, forage_estimated_on: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Utilization (%)</label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="1"
+                      max="100"
+                      value={formData.utilization_pct}
+                      onChange={(e) => setFormData({ ...formData, utilization_pct: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Rest Days Needed</label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={formData.min_rest_days}
+                      onChange={(e) => setFormData({ ...formData, min_rest_days: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Max Days Grazed</label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="1"
+                      value={formData.max_graze_days}
+                      onChange={(e) => setFormData({ ...formData, max_graze_days: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  placeholder="Water, gates, shade..."
+                />
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowEditModal(false)}
+                  className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 font-semibold rounded-lg hover:bg-gray-200 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 transition"
+                >
+                  {editingPasture ? 'Update Pasture' : 'Add Pasture'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </Layout>
+  );
+}
@@ -2,41 +2,101 @@ import { useState, useEffect } from 'react';
 import { Layout } from '../components/Layout';
 import { PrintableReport, ReportSection, ReportTable, ReportGrid } from '../components/PrintableReport';
 import { ProrateSaleModal } from '../components/ProrateSaleModal';
+import { CountTrendChart } from '../components/CountTrendChart';
+import { ExpenseModal } from '../components/ExpenseModal';
 import { useRanch } from '../contexts/RanchContext';
+import { useData } from '../contexts/DataContext';
 import { supabase } from '../lib/supabase';
-import { Printer, FileDown, Calendar, BarChart3, DollarSign } from 'lucide-react';
+import { Printer, FileDown, Calendar, BarChart3, DollarSign, Syringe, Award, Receipt, Trash2, FileText } from 'lucide-react';
 import {
   generateCountsReport,
   generateOffspringByMotherReport,
   generateOffspringByFatherReport,
+  rankDamsByCalfPerformance,
+  generateCowProductivityReport,
+  generateCullList,
+  generateDueToCalveReport,
+  generateTreatmentRecordsReport,
+  generateDrugInventoryReport,
+  generateRegistrySubmissionReport,
+  generateScheduleFReport,
   exportToCSV,
   formatAnimalForExport,
   formatAnimalWithMedicalForExport,
+  formatRegistrySubmissionForExport,
+  formatScheduleFForExport,
+  LIVESTOCK_SALE_GROUPS,
+  LIVESTOCK_SALE_GROUP_LABELS,
+  SCHEDULE_F_EXPORT_HEADERS,
   type CountsReport,
+  type OffspringByMotherReport,
+  type CowProductivityEntry,
 } from '../utils/reportGenerators';
-import { printReport, formatDateForDisplay, calculateAge } from '../utils/printHelpers';
+import { formatBreedComposition, getBreedComposition } from '../utils/breedComposition';
+import { MIN_WEANING_AGE_DAYS, MAX_WEANING_AGE_DAYS } from '../utils/calfPerformance';
+import { findUndatedExits } from '../utils/herdInventory';
+import { COUNT_FIELDS, compareCountSnapshots, toCountSnapshots } from '../utils/countSnapshots';
+import {
+  EXPENSE_ALLOCATION_LABELS,
+  EXPENSE_CATEGORY_LABELS,
+  calculateAnimalProfitLoss,
+  calculateGroupProfitLoss,
+  type AnimalProfitLoss,
+} from '../utils/profitLoss';
+import { SALE_DEDUCTIONS, SALE_SPLIT_METHOD_LABELS } from '../utils/saleProceeds';
+import { printReport, formatDateForDisplay, calculateAge, getTodayLocalDate } from '../utils/printHelpers';
 import { ANIMAL_TYPES, type AnimalType } from '../utils/animalTypes';
-import type { Database } from '../lib/database.types';
+import { formatDose, formatTreatmentDetails, TREATMENT_ROUTE_LABELS } from '../utils/medicalRecords';
+import { isLotExpired, isLotExpiringSoon, type InventoryDrug } from '../utils/drugInventory';
+import { getPastureName, sortPastures } from '../utils/pastures';
+import type { AnimalMove, CountReportSnapshot, Database, Expense, ExpenseAllocation, Pasture, Sale } from '../lib/database.types';
+import type {
+  Animal,
+  MedicalRecord as MedicalHistory,
+  RanchSettings,
+  CustomField as CustomFieldDefinition,
+  CustomFieldValue,
+} from '../data/types';
+
+type BreedingRecord = Database['public']['Tables']['breeding_records']['Row'];
+type DrugLot = Database['public']['Tables']['drug_lots']['Row'];
 
-type Animal = Database['public']['Tables']['animals']['Row'];
-type MedicalHistory = Database['public']['Tables']['medical_history']['Row'];
-type RanchSettings = Database['public']['Tables']['ranch_settings']['Row'];
-type CustomFieldDefinition = Database['public']['Tables']['custom_field_definitions']['Row'];
-type CustomFieldValue = Database['public']['Tables']['custom_field_values']['Row'];
+type ReportType = 'counts' | 'inventory' | 'offspring-mother' | 'offspring-father' | 'due-to-calve' | 'treatments' | 'drug-inventory' | 'sales' | 'registry' | 'dam-performance' | 'cow-productivity' | 'count-history' | 'schedule-f' | 'profit-loss' | 'sale-sheet' | null;
 
-type ReportType = 'counts' | 'inventory' | 'offspring-mother' | 'offspring-father' | 'sales' | null;
+const BREEDING_METHOD_SHORT_LABELS: Record<BreedingRecord['breeding_method'], string> = {
+  NATURAL: 'Natural',
+  AI: 'AI',
+  EMBRYO_TRANSFER: 'ET',
+};
 
 export function ReportsPage() {
-  const { currentRanch } = useRanch();
+  const { currentRanch, currentUserRole, isDemoMode } = useRanch();
+  const isReadOnly = currentUserRole === 'VIEWER' && !isDemoMode;
+  const { data } = useData();
   const [animals, setAnimals] = useState<Animal[]>([]);
   const [medicalRecords, setMedicalRecords] = useState<MedicalHistory[]>([]);
+  const [breedingRecords, setBreedingRecords] = useState<BreedingRecord[]>([]);
+  const [drugs, setDrugs] = useState<InventoryDrug[]>([]);
+  const [drugLots, setDrugLots] = useState<DrugLot[]>([]);
   const [settings, setSettings] = useState<RanchSettings | null>(null);
   const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
   const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValue[]>([]);
   const [counts, setCounts] = useState<CountsReport | null>(null);
+  const [snapshotRows, setSnapshotRows] = useState<CountReportSnapshot[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [expenseAllocations, setExpenseAllocations] = useState<ExpenseAllocation[]>([]);
+  const [showExpense, setShowExpense] = useState(false);
+  const [sales, setSales] = useState<Sale[]>([]);
+  const [selectedSaleId, setSelectedSaleId] = useState('');
+  const [pastures, setPastures] = useState<Pasture[]>([]);
+  const [animalMoves, setAnimalMoves] = useState<AnimalMove[]>([]);
+  const [compareFirstId, setCompareFirstId] = useState('');
+  const [compareSecondId, setCompareSecondId] = useState('');
   const [loading, setLoading] = useState(true);
   const [currentReport, setCurrentReport] = useState<ReportType>(null);
   const [salesDate, setSalesDate] = useState<string>('');
+  const [countsAsOfDate, setCountsAsOfDate] = useState<string>('');
+  const [taxYear, setTaxYear] = useState(new Date().getFullYear() - 1);
   const [showProrateSale, setShowProrateSale] = useState(false);
   const [animalTypeFilter, setAnimalTypeFilter] = useState<'ALL' | AnimalType>('ALL');
 
@@ -51,47 +111,34 @@ export function ReportsPage() {
 
     setLoading(true);
     try {
-      const [animalsRes, medicalRes, settingsRes, customFieldsRes] = await Promise.all([
-        supabase
-          .from('animals')
-          .select('*')
-          .eq('ranch_id', currentRanch.id)
-          .neq('animal_type', 'Other'),
-        supabase
-          .from('medical_history')
-          .select('*')
-          .eq('ranch_id', currentRanch.id),
+      const [fetchedAnimals, fetchedMedical, fetchedRanchSettings, fetchedFields, fetchedDrugs, fetchedBreeding, fetchedDrugLots, snapshotsRes, fetchedExpenses, fetchedAllocations, fetchedSales, fetchedPastures, fetchedMoves] = await Promise.all([
+        data.animals.list(currentRanch.id),
+        data.medicalHistory.listForRanch(currentRanch.id),
+        data.settings.get(currentRanch.id),
+        data.customFields.listDefinitions(currentRanch.id),
+        data.drugs.list(currentRanch.id),
+        data.breeding.listPending(currentRanch.id),
+        data.drugLots.listForRanch(currentRanch.id),
         supabase
-          .from('ranch_settings')
+          .from('count_report_snapshots')
           .select('*')
           .eq('ranch_id', currentRanch.id)
-          .maybeSingle(),
-        supabase
-          .from('custom_field_definitions')
-          .select('*')
-          .eq('ranch_id', currentRanch.id)
-          .order('display_order', { ascending: true }),
+          .order('snapshot_date', { ascending: true }),
+        data.expenses.list(currentRanch.id),
+        data.expenses.listAllocations(currentRanch.id),
+        data.sales.list(currentRanch.id),
+        data.pastures.list(currentRanch.id),
+        data.animalMoves.listForRanch(currentRanch.id),
       ]);
 
-      if (animalsRes.error) throw animalsRes.error;
-      if (medicalRes.error) throw medicalRes.error;
-      if (settingsRes.error) throw settingsRes.error;
-      if (customFieldsRes.error) throw customFieldsRes.error;
+      if (snapshotsRes.error) throw snapshotsRes.error;
 
-      const fetchedAnimals = animalsRes.data || [];
-      const fetchedFields = customFieldsRes.data || [];
       setCustomFields(fetchedFields);
 
       if (fetchedFields.length > 0) {
-        const valuesRes = await supabase
-          .from('custom_field_values')
-          .select('*')
-          .in('animal_id', fetchedAnimals.map(a => a.id));
-
-        if (valuesRes.error) throw valuesRes.error;
-        setCustomFieldValues(valuesRes.data || []);
+        setCustomFieldValues(await data.customFields.listValues(fetchedAnimals.map(a => a.id)));
       }
-      const fetchedSettings = settingsRes.data || {
+      const fetchedSettings = fetchedRanchSettings || {
         ranch_id: currentRanch.id,
         report_line1: '',
         report_line2: '',
@@ -102,7 +149,16 @@ export function ReportsPage() {
       };
 
       setAnimals(fetchedAnimals);
-      setMedicalRecords(medicalRes.data || []);
+      setMedicalRecords(fetchedMedical);
+      setBreedingRecords(fetchedBreeding);
+      setDrugs(fetchedDrugs);
+      setDrugLots(fetchedDrugLots);
+      setSnapshotRows(snapshotsRes.data || []);
+      setExpenses(fetchedExpenses);
+      setExpenseAllocations(fetchedAllocations);
+      setSales(fetchedSales);
+      setPastures(fetchedPastures);
+      setAnimalMoves(fetchedMoves);
       setSettings(fetchedSettings as RanchSettings);
     } catch (error) {
       console.error('Error fetching data:', error);
@@ -113,26 +169,43 @@ export function ReportsPage() {
 
   const filteredAnimals = animalTypeFilter === 'ALL'
     ? animals
-    : animals.filter(a => ((a as any).animal_type || 'Cattle') === animalTypeFilter);
+    : animals.filter(a => (a.animal_type || 'Cattle') === animalTypeFilter);
+
+  // Only snapshots saved with the same species filter are comparable with each other
+  const countSnapshots = toCountSnapshots(snapshotRows).filter(s => s.animalType === animalTypeFilter);
+
+  const filteredDrugs = animalTypeFilter === 'ALL'
+    ? drugs
+    : drugs.filter(d => (d.animal_type || 'Cattle') === animalTypeFilter);
 
   useEffect(() => {
     if (settings) {
-      setCounts(generateCountsReport(filteredAnimals, settings));
+      setCounts(generateCountsReport(filteredAnimals, settings, countsAsOfDate || getTodayLocalDate(), animalMoves));
     }
-  }, [filteredAnimals, settings]);
+  }, [filteredAnimals, settings, countsAsOfDate, animalMoves]);
+
+  // Pastures in picker order, with animals that aren't in any pasture last
+  const pastureOrder = [...sortPastures(pastures).map(p => p.id), null];
+  const pastureHeadCounts = [...(counts?.presentByPasture || [])].sort((a, b) => {
+    const rank = (id: string | null) => (pastureOrder.includes(id) ? pastureOrder.indexOf(id) : pastureOrder.length);
+    return rank(a.pastureId) - rank(b.pastureId);
+  });
 
   const saveCountSnapshot = async () => {
     if (!currentRanch || !counts) return;
 
     try {
-      const { error } = await supabase
+      const { data: snapshot, error } = await supabase
         .from('count_report_snapshots')
         .insert({
           ranch_id: currentRanch.id,
-          data: counts,
-        });
+          data: { ...counts, animalType: animalTypeFilter },
+        })
+        .select()
+        .single();
 
       if (error) throw error;
+      setSnapshotRows(prev => [...prev, snapshot]);
       alert('Count snapshot saved successfully');
     } catch (error: any) {
       console.error('Error saving snapshot:', error);
@@ -147,6 +220,8 @@ export function ReportsPage() {
   const exportCountsCSV = () => {
     if (!counts) return;
     const reportData = [
+      { Category: 'AS OF', Count: counts.asOfDate },
+      { Category: '', Count: '' },
       { Category: 'TOTAL PRESENT', Count: counts.totalPresent },
       { Category: 'TOTAL SOLD', Count: counts.totalSold },
       { Category: 'TOTAL DEAD', Count: counts.totalDead },
@@ -158,8 +233,91 @@ export function ReportsPage() {
       { Category: '', Count: '' },
       { Category: 'Present Adults', Count: counts.presentAdults },
       { Category: 'Present Calves', Count: counts.presentCalves },
+      ...(pastures.length > 0
+        ? [
+            { Category: '', Count: '' },
+            ...pastureHeadCounts.map(entry => ({
+              Category: `Present in ${getPastureName(entry.pastureId, pastures)}`,
+              Count: entry.headCount,
+            })),
+          ]
+        : []),
+    ];
+    exportToCSV(reportData, ['Category', 'Count'], `AmadorHerdInfo_Counts_${counts.asOfDate}.csv`);
+  };
+
+  const exportCountHistoryCSV = () => {
+    const reportData = countSnapshots.map(snapshot => ({
+      Date: snapshot.date,
+      Source: snapshot.source === 'AUTO' ? 'Automatic' : 'Manual',
+      ...Object.fromEntries(COUNT_FIELDS.map(({ key, label }) => [label, snapshot.counts[key]])),
+    }));
+    exportToCSV(reportData, ['Date', 'Source', ...COUNT_FIELDS.map(f => f.label)], 'AmadorHerdInfo_CountHistory.csv');
+  };
+
+  const animalProfitLoss = calculateAnimalProfitLoss(filteredAnimals, expenses, expenseAllocations);
+  const groupProfitLoss = calculateGroupProfitLoss(animalProfitLoss, expenses, expenseAllocations);
+  // Animals with nothing recorded against them would only pad the report
+  const animalProfitLossRows = animalProfitLoss
+    .filter(entry => entry.salePrice || entry.purchaseCost || entry.expenses)
+    .sort((a, b) => (a.animal.tag_number || '').localeCompare(b.animal.tag_number || '', undefined, { numeric: true }));
+  const formatMoney = (amount: number) => `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+  const describeAnimalProfitLoss = (entry: AnimalProfitLoss) =>
+    [entry.animal.tag_number ? `#${entry.animal.tag_number}` : '', entry.animal.name].filter(Boolean).join(' ') || 'Untagged';
+  const describeExpenseAllocation = (expense: Expense) => {
+    const count = expenseAllocations.filter(a => a.expense_id === expense.id).length;
+    const target = expense.allocation === 'GROUP' && expense.group_name ? expense.group_name : EXPENSE_ALLOCATION_LABELS[expense.allocation];
+    return `${target} (${count} head)`;
+  };
+
+  const deleteExpense = async (expense: Expense) => {
+    if (!confirm(`Delete this ${EXPENSE_CATEGORY_LABELS[expense.category].toLowerCase()} expense of ${formatMoney(Number(expense.amount))}?`)) return;
+
+    try {
+      await data.expenses.delete(expense.id);
+      setExpenses(prev => prev.filter(e => e.id !== expense.id));
+      setExpenseAllocations(prev => prev.filter(a => a.expense_id !== expense.id));
+    } catch (error) {
+      console.error('Error deleting expense:', error);
+      alert('Failed to delete expense');
+    }
+  };
+
+  const exportProfitLossCSV = () => {
+    const data = [
+      ...groupProfitLoss.map(group => ({
+        Section: 'Group',
+        Name: group.groupName,
+        Status: `${group.soldCount} of ${group.headCount} sold`,
+        'Sale Price': group.salePrice.toFixed(2),
+        'Purchase Cost': group.purchaseCost.toFixed(2),
+        ...Object.fromEntries(Object.entries(EXPENSE_CATEGORY_LABELS).map(([category, label]) =>
+          [label, group.expensesByCategory[category as Expense['category']].toFixed(2)])),
+        'Total Expenses': group.expenses.toFixed(2),
+        'Net': group.net.toFixed(2),
+      })),
+      ...animalProfitLossRows.map(entry => ({
+        Section: 'Animal',
+        Name: describeAnimalProfitLoss(entry),
+        Status: entry.animal.status || '',
+        'Sale Price': entry.salePrice.toFixed(2),
+        'Purchase Cost': entry.purchaseCost.toFixed(2),
+        ...Object.fromEntries(Object.entries(EXPENSE_CATEGORY_LABELS).map(([category, label]) =>
+          [label, entry.expensesByCategory[category as Expense['category']].toFixed(2)])),
+        'Total Expenses': entry.expenses.toFixed(2),
+        'Net': entry.net.toFixed(2),
+      })),
     ];
-    exportToCSV(reportData, ['Category', 'Count'], 'AmadorHerdInfo_Counts.csv');
+    exportToCSV(
+      data,
+      ['Section', 'Name', 'Status', 'Sale Price', 'Purchase Cost', ...Object.values(EXPENSE_CATEGORY_LABELS), 'Total Expenses', 'Net'],
+      'AmadorHerdInfo_Profit_Loss.csv'
+    );
+  };
+
+  const exportScheduleFCSV = () => {
+    const report = generateScheduleFReport(filteredAnimals, taxYear, customFields, customFieldValues);
+    exportToCSV(formatScheduleFForExport(report), SCHEDULE_F_EXPORT_HEADERS, `AmadorHerdInfo_Livestock_Income_${taxYear}.csv`);
   };
 
   const exportInventoryCSV = () => {
@@ -168,6 +326,55 @@ export function ReportsPage() {
     exportToCSV(data, Object.keys(data[0] || {}), 'AmadorHerdInfo_Inventory.csv');
   };
 
+  const formatDamLabel = (r: OffspringByMotherReport) => [r.parentTag, r.parentName].filter(Boolean).join(' ') || 'Unknown';
+
+  const exportDamPerformanceCSV = () => {
+    const ranked = rankDamsByCalfPerformance(generateOffspringByMotherReport(filteredAnimals));
+    const data = ranked.flatMap((r, index) => r.calfPerformance.map(p => ({
+      'Dam Rank': index + 1,
+      'Dam Tag': r.parentTag || '',
+      'Dam Name': r.parentName || '',
+      'Dam Avg Adjusted 205-Day Weight': r.averageAdjusted205DayWeight !== null ? Math.round(r.averageAdjusted205DayWeight) : '',
+      'Dam Weaning Ratio': r.weaningRatio ?? '',
+      'Calf Tag': p.calf.tag_number || '',
+      'Calf Sex': p.calf.sex,
+      'Calf Birth Date': p.calf.birth_date || '',
+      'Dam Age at Calving': p.damAgeAtCalving ?? '',
+      'Calving Ease': p.calf.calving_ease ?? '',
+      'Birth Weight': p.birthWeight ?? '',
+      'Weaning Age (days)': p.weaningAgeDays ?? '',
+      'Weaning Weight': p.weaningWeight ?? '',
+      'Adjusted 205-Day Weight': p.adjusted205DayWeight ?? '',
+    })));
+    exportToCSV(data, Object.keys(data[0] || {}), 'AmadorHerdInfo_Dam_Performance.csv');
+  };
+
+  const describeProductivityStatus = (entry: CowProductivityEntry) =>
+    [entry.isPregnant && 'Pregnant', entry.isOpen && 'Open', entry.isLate && 'Late'].filter(Boolean).join(', ') || '-';
+
+  const exportCowProductivityCSV = () => {
+    const report = generateCowProductivityReport(filteredAnimals, breedingRecords, settings, getTodayLocalDate());
+    const cullRanks = new Map(generateCullList(report).map((entry, index) => [entry.animal.id, index + 1]));
+    const data = report.map(entry => ({
+      'Cull Rank': cullRanks.get(entry.animal.id) ?? '',
+      'Tag Number': entry.animal.tag_number || '',
+      'Name': entry.animal.name || '',
+      'Type': entry.animalType,
+      'Age (years)': entry.ageYears ?? '',
+      'Offspring': entry.offspringCount,
+      'Offspring Dates': entry.offspringDates.join(', '),
+      'Intervals (days)': entry.calvingIntervals.join(', '),
+      'Average Interval (days)': entry.averageCalvingInterval ?? '',
+      'Days Since Last': entry.daysSinceLastOffspring ?? '',
+      'Status': describeProductivityStatus(entry),
+      'Avg Adjusted 205-Day Weight': entry.averageAdjusted205DayWeight !== null ? Math.round(entry.averageAdjusted205DayWeight) : '',
+      'Weaning Ratio': entry.weaningRatio ?? '',
+      'Cull Score': entry.cullScore,
+      'Cull Reasons': entry.cullReasons.join('; '),
+    }));
+    exportToCSV(data, Object.keys(data[0] || {}), 'AmadorHerdInfo_Cow_Productivity.csv');
+  };
+
   const exportOffspringByMotherCSV = () => {
     const report = generateOffspringByMotherReport(filteredAnimals);
     const data = report.map(r => ({
@@ -194,6 +401,66 @@ export function ReportsPage() {
     exportToCSV(data, ['Father Tag', 'Father Name', 'Offspring Count', 'Last Offspring Date', 'Days Since Last', 'Offspring Tags'], 'AmadorHerdInfo_Offspring_By_Father.csv');
   };
 
+  const exportDueToCalveCSV = () => {
+    const report = generateDueToCalveReport(filteredAnimals, breedingRecords);
+    const data = report.map(r => ({
+      'Expected Due Date': r.expectedDueDate,
+      'Days Until Due': r.daysUntilDue,
+      'Dam Tag': r.damTag || '',
+      'Dam Name': r.damName || '',
+      'Animal Type': r.animalType,
+      'Bred': r.breedingDate,
+      'Method': BREEDING_METHOD_SHORT_LABELS[r.breedingMethod],
+      'Sire': r.sire,
+      'Pregnancy Check': r.pregnancyStatus === 'PREGNANT' ? 'Confirmed' : 'Not checked',
+    }));
+    exportToCSV(data, ['Expected Due Date', 'Days Until Due', 'Dam Tag', 'Dam Name', 'Animal Type', 'Bred', 'Method', 'Sire', 'Pregnancy Check'], 'AmadorHerdInfo_Due_To_Calve.csv');
+  };
+
+  const exportTreatmentRecordsCSV = () => {
+    const report = generateTreatmentRecordsReport(filteredAnimals, medicalRecords);
+    const data = report.map(r => ({
+      'Date': r.date,
+      'Tag Number': r.animalTag || '',
+      'Name': r.animalName || '',
+      'Animal Type': r.animalType,
+      'Drug': r.drugName,
+      'Dose': r.dose,
+      'Route': r.route,
+      'Injection Site': r.injectionSite,
+      'Lot Number': r.lotNumber,
+      'Administered By': r.administeredBy,
+      'Reason': r.reason,
+      'Description': r.description,
+    }));
+    exportToCSV(data, ['Date', 'Tag Number', 'Name', 'Animal Type', 'Drug', 'Dose', 'Route', 'Injection Site', 'Lot Number', 'Administered By', 'Reason', 'Description'], 'AmadorHerdInfo_Treatment_Records.csv');
+  };
+
+  const getLotStatus = (lot: DrugLot, today: string): string => {
+    if (Number(lot.volume_on_hand_ml) <= 0) return 'Used up';
+    if (isLotExpired(lot, today)) return 'EXPIRED';
+    if (isLotExpiringSoon(lot, today)) return 'Expiring soon';
+    return 'OK';
+  };
+
+  const exportDrugInventoryCSV = () => {
+    const today = getTodayLocalDate();
+    const report = generateDrugInventoryReport(filteredDrugs, drugLots, today);
+    const data = report.flatMap(stock => stock.lots.map(lot => ({
+      'Drug': stock.drugName,
+      'Animal Type': stock.animalType,
+      'Lot Number': lot.lot_number,
+      'Received': lot.received_date,
+      'Expires': lot.expiration_date || '',
+      'On Hand (mL)': Number(lot.volume_on_hand_ml).toFixed(2),
+      'Cost per mL': lot.cost_per_ml !== null ? `$${Number(lot.cost_per_ml).toFixed(4)}` : '',
+      'Value': lot.cost_per_ml !== null ? `$${(Number(lot.volume_on_hand_ml) * Number(lot.cost_per_ml)).toFixed(2)}` : '',
+      'Status': getLotStatus(lot, today),
+      'Low Stock': stock.isLowStock ? 'Yes' : '',
+    })));
+    exportToCSV(data, ['Drug', 'Animal Type', 'Lot Number', 'Received', 'Expires', 'On Hand (mL)', 'Cost per mL', 'Value', 'Status', 'Low Stock'], 'AmadorHerdInfo_Drug_Inventory.csv');
+  };
+
   const getCustomFieldValue = (animalId: string, fieldId: string): string | null => {
     const value = customFieldValues.find(v => v.animal_id === animalId && v.field_id === fieldId);
     return value?.value || null;
@@ -239,6 +506,48 @@ export function ReportsPage() {
     return totals;
   };
 
+  const selectedSale = sales.find(sale => sale.id === selectedSaleId) || sales[0];
+  const saleSheetAnimals = selectedSale
+    ? animals
+      .filter(a => a.sale_id === selectedSale.id)
+      .sort((a, b) => (a.tag_number || '').localeCompare(b.tag_number || '', undefined, { numeric: true }))
+    : [];
+  const describeSale = (sale: Sale) =>
+    [formatDateForDisplay(sale.sale_date), sale.buyer, sale.sale_barn].filter(Boolean).join(' - ');
+
+  const exportSaleSheetCSV = () => {
+    if (!selectedSale) return;
+    const data = saleSheetAnimals.map(animal => ({
+      'Sale Date': selectedSale.sale_date,
+      'Buyer': selectedSale.buyer || '',
+      'Sale Barn': selectedSale.sale_barn || '',
+      'Tag Number': animal.tag_number || '',
+      'Name': animal.name || '',
+      'Sex': animal.sex,
+      'Sale Weight': animal.sale_weight_lbs != null ? Number(animal.sale_weight_lbs).toString() : '',
+      'Net Price': animal.sale_price != null ? Number(animal.sale_price).toFixed(2) : '',
+    }));
+    exportToCSV(
+      data,
+      ['Sale Date', 'Buyer', 'Sale Barn', 'Tag Number', 'Name', 'Sex', 'Sale Weight', 'Net Price'],
+      `AmadorHerdInfo_SaleSheet_${selectedSale.sale_date}.csv`
+    );
+  };
+
+  const deleteSale = async (sale: Sale) => {
+    if (!confirm(`Delete the sale record for ${describeSale(sale)}? The animals stay sold with their prices.`)) return;
+
+    try {
+      await data.sales.delete(sale.id);
+      setSales(prev => prev.filter(s => s.id !== sale.id));
+      setSelectedSaleId('');
+      setAnimals(prev => prev.map(a => (a.sale_id === sale.id ? { ...a, sale_id: null } : a)));
+    } catch (error) {
+      console.error('Error deleting sale:', error);
+      alert('Failed to delete sale');
+    }
+  };
+
   const exportSalesCSV = () => {
     const sold = filteredAnimals
       .filter(a => a.status === 'SOLD' && a.exit_date)
@@ -250,11 +559,17 @@ export function ReportsPage() {
       'Sex': animal.sex,
       'Birth Date': animal.birth_date || '',
       'Description': animal.description || '',
-      'Sale Price': (animal as any).sale_price ? `$${parseFloat((animal as any).sale_price).toFixed(2)}` : '',
+      'Sale Price': animal.sale_price ? `$${Number(animal.sale_price).toFixed(2)}` : '',
     }));
     exportToCSV(data, Object.keys(data[0] || {}), 'AmadorHerdInfo_Sales.csv');
   };
 
+  const exportRegistrySubmissionCSV = () => {
+    const report = generateRegistrySubmissionReport(filteredAnimals);
+    const data = report.map(entry => formatRegistrySubmissionForExport(entry, customFields, customFieldValues));
+    exportToCSV(data, Object.keys(data[0] || {}), 'AmadorHerdInfo_Registry_Submission.csv');
+  };
+
   if (loading) {
     return (
       <Layout currentPage="reports">
@@ -273,7 +588,27 @@ export function ReportsPage() {
       ? allSoldAnimals.filter(a => a.exit_date === salesDate)
       : allSoldAnimals;
     const offspringByMotherReport = generateOffspringByMotherReport(filteredAnimals);
+    const damPerformanceReport = rankDamsByCalfPerformance(offspringByMotherReport);
     const offspringByFatherReport = generateOffspringByFatherReport(filteredAnimals);
+    const dueToCalveReport = generateDueToCalveReport(filteredAnimals, breedingRecords);
+    const treatmentRecordsReport = generateTreatmentRecordsReport(filteredAnimals, medicalRecords);
+    const today = getTodayLocalDate();
+    const cowProductivityReport = generateCowProductivityReport(filteredAnimals, breedingRecords, settings, today);
+    const cullList = generateCullList(cowProductivityReport);
+    const drugInventoryReport = generateDrugInventoryReport(filteredDrugs, drugLots, today);
+    const registrySubmissionReport = generateRegistrySubmissionReport(filteredAnimals);
+    const undatedExits = findUndatedExits(filteredAnimals);
+    const compareFirst = countSnapshots.find(s => s.id === compareFirstId) || countSnapshots[countSnapshots.length - 2];
+    const compareSecond = countSnapshots.find(s => s.id === compareSecondId) || countSnapshots[countSnapshots.length - 1];
+    const countComparison = compareFirst && compareSecond ? compareCountSnapshots(compareFirst, compareSecond) : [];
+    const scheduleFReport = generateScheduleFReport(filteredAnimals, taxYear, customFields, customFieldValues);
+    const taxYearOptions = Array.from(new Set([
+      new Date().getFullYear(),
+      taxYear,
+      ...filteredAnimals.filter(a => a.exit_date).map(a => Number(a.exit_date!.slice(0, 4))),
+    ])).sort((a, b) => b - a);
+    const describeSnapshot = (snapshot: { date: string; source: string }) =>
+      `${formatDateForDisplay(snapshot.date)}${snapshot.source === 'AUTO' ? ' (automatic)' : ''}`;
 
     return (
       <Layout currentPage="reports">
@@ -284,12 +619,25 @@ export function ReportsPage() {
               onClick={() => {
                 setCurrentReport(null);
                 setSalesDate('');
+                setCountsAsOfDate('');
+                setCompareFirstId('');
+                setCompareSecondId('');
+                setSelectedSaleId('');
               }}
               className="text-green-600 hover:text-green-700 font-medium"
             >
               ← Back to Reports
             </button>
             <div className="flex gap-2">
+              {currentReport === 'profit-loss' && !isReadOnly && (
+                <button
+                  onClick={() => setShowExpense(true)}
+                  className="inline-flex items-center px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white font-semibold rounded-lg transition"
+                >
+                  <Receipt className="w-4 h-4 mr-2" />
+                  Record Herd Expense
+                </button>
+              )}
               {currentReport === 'sales' && (
                 <button
                   onClick={() => setShowProrateSale(true)}
@@ -312,7 +660,17 @@ export function ReportsPage() {
                   if (currentReport === 'inventory') exportInventoryCSV();
                   if (currentReport === 'offspring-mother') exportOffspringByMotherCSV();
                   if (currentReport === 'offspring-father') exportOffspringByFatherCSV();
+                  if (currentReport === 'due-to-calve') exportDueToCalveCSV();
+                  if (currentReport === 'treatments') exportTreatmentRecordsCSV();
+                  if (currentReport === 'drug-inventory') exportDrugInventoryCSV();
                   if (currentReport === 'sales') exportSalesCSV();
+                  if (currentReport === 'registry') exportRegistrySubmissionCSV();
+                  if (currentReport === 'dam-performance') exportDamPerformanceCSV();
+                  if (currentReport === 'cow-productivity') exportCowProductivityCSV();
+                  if (currentReport === 'count-history') exportCountHistoryCSV();
+                  if (currentReport === 'schedule-f') exportScheduleFCSV();
+                  if (currentReport === 'profit-loss') exportProfitLossCSV();
+                  if (currentReport === 'sale-sheet') exportSaleSheetCSV();
                 }}
                 className="inline-flex items-center px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition"
               >
@@ -322,6 +680,105 @@ export function ReportsPage() {
             </div>
             </div>
 
+            {currentReport === 'counts' && (
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  As of Date
+                </label>
+                <div className="flex gap-2 items-center">
+                  <input
+                    type="date"
+                    value={countsAsOfDate || today}
+                    max={today}
+                    onChange={(e) => setCountsAsOfDate(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                  {countsAsOfDate && countsAsOfDate !== today && (
+                    <button
+                      onClick={() => setCountsAsOfDate('')}
+                      className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+                    >
+                      Today
+                    </button>
+                  )}
+                  <span className="text-sm text-gray-600">
+                    Animals are counted from their birth or purchase date until their sale or death date.
+                  </span>
+                </div>
+                {countsAsOfDate && countsAsOfDate !== today && undatedExits.length > 0 && (
+                  <p className="mt-3 text-sm text-yellow-800 bg-yellow-50 rounded-lg p-3">
+                    {undatedExits.length} sold or dead {undatedExits.length === 1 ? 'animal has' : 'animals have'} no exit date and{' '}
+                    {undatedExits.length === 1 ? 'is' : 'are'} counted as gone on every date:{' '}
+                    {undatedExits.map(a => a.tag_number || a.name || a.description || 'Untagged').join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {currentReport === 'count-history' && countSnapshots.length >= 2 && (
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Compare Snapshots
+                </label>
+                <div className="flex flex-wrap gap-2 items-center">
+                  <select
+                    value={compareFirst?.id || ''}
+                    onChange={(e) => setCompareFirstId(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    {countSnapshots.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>{describeSnapshot(snapshot)}</option>
+                    ))}
+                  </select>
+                  <span className="text-sm text-gray-600">with</span>
+                  <select
+                    value={compareSecond?.id || ''}
+                    onChange={(e) => setCompareSecondId(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    {countSnapshots.map(snapshot => (
+                      <option key={snapshot.id} value={snapshot.id}>{describeSnapshot(snapshot)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+
+            {currentReport === 'schedule-f' && (
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tax Year
+                </label>
+                <div className="flex gap-2 items-center">
+                  <select
+                    value={taxYear}
+                    onChange={(e) => setTaxYear(Number(e.target.value))}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    {taxYearOptions.map(year => (
+                      <option key={year} value={year}>{year}</option>
+                    ))}
+                  </select>
+                  <span className="text-sm text-gray-600">
+                    Animals are placed in the year of their exit date. This report is a worksheet for your tax preparer, not tax advice.
+                  </span>
+                </div>
+                {(scheduleFReport.missingSalePrices > 0 || undatedExits.length > 0) && (
+                  <div className="mt-3 text-sm text-yellow-800 bg-yellow-50 rounded-lg p-3 space-y-1">
+                    {scheduleFReport.missingSalePrices > 0 && (
+                      <p>{scheduleFReport.missingSalePrices} sold {scheduleFReport.missingSalePrices === 1 ? 'animal has' : 'animals have'} no sale price recorded.</p>
+                    )}
+                    {undatedExits.length > 0 && (
+                      <p>
+                        {undatedExits.length} sold, butchered or dead {undatedExits.length === 1 ? 'animal has' : 'animals have'} no exit date and{' '}
+                        {undatedExits.length === 1 ? 'is' : 'are'} left out: {undatedExits.map(a => a.tag_number || a.name || a.description || 'Untagged').join(', ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
             {currentReport === 'sales' && (
               <div className="bg-white rounded-lg border border-gray-200 p-4">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -348,16 +805,54 @@ export function ReportsPage() {
                 </div>
               </div>
             )}
+
+            {currentReport === 'sale-sheet' && sales.length > 0 && (
+              <div className="bg-white rounded-lg border border-gray-200 p-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Sale
+                </label>
+                <div className="flex gap-2 items-center">
+                  <select
+                    value={selectedSale?.id || ''}
+                    onChange={(e) => setSelectedSaleId(e.target.value)}
+                    className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    {sales.map(sale => (
+                      <option key={sale.id} value={sale.id}>{describeSale(sale)}</option>
+                    ))}
+                  </select>
+                  {!isReadOnly && selectedSale && (
+                    <button
+                      onClick={() => deleteSale(selectedSale)}
+                      className="inline-flex items-center px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete Sale
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
 
           <div id="printable-report" className="bg-white rounded-xl shadow-sm border border-gray-200 p-8">
             <PrintableReport
               title={
-                currentReport === 'counts' ? 'Herd Count Report' :
+                currentReport === 'counts' ? `Herd Count Report as of ${formatDateForDisplay(counts?.asOfDate || today)}` :
                 currentReport === 'inventory' ? 'Current Inventory Report' :
                 currentReport === 'offspring-mother' ? 'Offspring by Mother Report' :
                 currentReport === 'offspring-father' ? 'Offspring by Father Report' :
+                currentReport === 'due-to-calve' ? 'Due to Calve Report' :
+                currentReport === 'treatments' ? 'Treatment Records Report' :
+                currentReport === 'drug-inventory' ? 'Drug Inventory Report' :
                 currentReport === 'sales' ? 'Sales History Report' :
+                currentReport === 'registry' ? 'Registry Submission' :
+                currentReport === 'dam-performance' ? 'Dam Performance Report' :
+                currentReport === 'cow-productivity' ? 'Cow Productivity & Cull List' :
+                currentReport === 'count-history' ? 'Herd Count History' :
+                currentReport === 'schedule-f' ? `Livestock Income Report - ${taxYear}` :
+                currentReport === 'profit-loss' ? 'Profit & Loss Report' :
+                currentReport === 'sale-sheet' ? (selectedSale ? `Sale Sheet - ${formatDateForDisplay(selectedSale.sale_date)}` : 'Sale Sheet') :
                 'Report'
               }
               settings={settings}
@@ -393,6 +888,323 @@ export function ReportsPage() {
                       ]}
                     />
                   </ReportSection>
+
+                  {pastures.length > 0 && (
+                    <ReportSection title="Present Animals by Pasture">
+                      <ReportTable
+                        headers={['Pasture', 'Head']}
+                        rows={pastureHeadCounts.map(entry => [getPastureName(entry.pastureId, pastures), entry.headCount])}
+                      />
+                    </ReportSection>
+                  )}
+                </>
+              )}
+
+              {currentReport === 'count-history' && (
+                <>
+                  {countSnapshots.length === 0 ? (
+                    <p className="text-gray-500 text-center py-8">
+                      No count snapshots saved{animalTypeFilter !== 'ALL' ? ` for ${animalTypeFilter}` : ''} yet. Use Save Snapshot on the Reports page,
+                      or turn on monthly snapshots in Settings.
+                    </p>
+                  ) : (
+                    <>
+                      {compareFirst && compareSecond && (
+                        <ReportSection title="Comparison">
+                          <ReportTable
+                            headers={['Count', describeSnapshot(compareFirst), describeSnapshot(compareSecond), 'Change']}
+                            rows={countComparison.map(row => [
+                              row.label,
+                              row.first,
+                              row.second,
+                              row.change > 0 ? `+${row.change}` : row.change,
+                            ])}
+                          />
+                        </ReportSection>
+                      )}
+
+                      {countSnapshots.length >= 2 && (
+                        <ReportSection title="Trends">
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            {COUNT_FIELDS.map(({ key, label }) => (
+                              <CountTrendChart key={key} snapshots={countSnapshots} field={key} label={label} />
+                            ))}
+                          </div>
+                        </ReportSection>
+                      )}
+
+                      <ReportSection title="Saved Snapshots">
+                        <ReportTable
+                          headers={['Date', 'Source', ...COUNT_FIELDS.map(f => f.label)]}
+                          rows={[...countSnapshots].reverse().map(snapshot => [
+                            formatDateForDisplay(snapshot.date),
+                            snapshot.source === 'AUTO' ? 'Automatic' : 'Manual',
+                            ...COUNT_FIELDS.map(({ key }) => snapshot.counts[key]),
+                          ])}
+                        />
+                      </ReportSection>
+                    </>
+                  )}
+                </>
+              )}
+
+              {currentReport === 'sale-sheet' && (
+                !selectedSale ? (
+                  <ReportSection>
+                    <div className="text-center py-8 text-gray-600">
+                      No sales recorded yet. Select animals on the Animals page and choose Record Sale.
+                    </div>
+                  </ReportSection>
+                ) : (
+                  <>
+                    <ReportSection>
+                      <ReportGrid
+                        items={[
+                          { label: 'Sale Date', value: formatDateForDisplay(selectedSale.sale_date) },
+                          { label: 'Buyer', value: selectedSale.buyer || '-' },
+                          { label: 'Sale Barn', value: selectedSale.sale_barn || '-' },
+                          { label: 'Head', value: saleSheetAnimals.length },
+                          {
+                            label: 'Total Weight',
+                            value: `${saleSheetAnimals.reduce((sum, a) => sum + Number(a.sale_weight_lbs || 0), 0).toLocaleString()} lbs`,
+                          },
+                          { label: 'Split', value: SALE_SPLIT_METHOD_LABELS[selectedSale.split_method] },
+                        ]}
+                      />
+                    </ReportSection>
+
+                    <ReportSection title="Animals">
+                      <ReportTable
+                        headers={['Tag', 'Name', 'Sex', 'Weight (lbs)', 'Net Price']}
+                        rows={saleSheetAnimals.map(animal => [
+                          animal.tag_number || '-',
+                          animal.name || '-',
+                          animal.sex,
+                          animal.sale_weight_lbs != null ? Number(animal.sale_weight_lbs) : '-',
+                          animal.sale_price != null ? formatMoney(Number(animal.sale_price)) : '-',
+                        ])}
+                      />
+                    </ReportSection>
+
+                    <ReportSection title="Settlement">
+                      <div className="border-t-2 border-gray-900 pt-3">
+                        <ReportGrid
+                          items={[
+                            { label: 'Gross', value: formatMoney(Number(selectedSale.gross_amount)) },
+                            ...SALE_DEDUCTIONS.map(({ key, label }) => ({
+                              label,
+                              value: formatMoney(-Number(selectedSale[key])),
+                            })),
+                            { label: 'Net Proceeds', value: formatMoney(Number(selectedSale.net_amount)) },
+                          ]}
+                        />
+                      </div>
+                      {selectedSale.notes && (
+                        <p className="text-sm text-gray-700 mt-3">
+                          <span className="font-medium">Notes:</span> {selectedSale.notes}
+                        </p>
+                      )}
+                    </ReportSection>
+                  </>
+                )
+              )}
+
+              {currentReport === 'profit-loss' && (
+                <>
+                  <ReportSection title="Whole Herd">
+                    <ReportGrid
+                      items={(() => {
+                        const herd = groupProfitLoss[groupProfitLoss.length - 1];
+                        return [
+                          { label: 'Sales', value: formatMoney(herd.salePrice) },
+                          { label: 'Purchase Cost', value: formatMoney(herd.purchaseCost) },
+                          { label: 'Expenses', value: formatMoney(herd.expenses) },
+                          { label: 'Net', value: formatMoney(herd.net) },
+                          ...Object.entries(EXPENSE_CATEGORY_LABELS).map(([category, label]) => ({
+                            label: `${label} Expenses`,
+                            value: formatMoney(herd.expensesByCategory[category as Expense['category']]),
+                          })),
+                        ];
+                      })()}
+                    />
+                    <p className="text-sm text-gray-600 mt-3">
+                      Animals still on the ranch have no sale yet, so their net is the cost to date.
+                    </p>
+                  </ReportSection>
+
+                  {groupProfitLoss.length > 1 && (
+                    <ReportSection title="By Group">
+                      <ReportTable
+                        headers={['Group', 'Head', 'Sold', 'Sales', 'Purchase Cost', 'Expenses', 'Net']}
+                        rows={groupProfitLoss.slice(0, -1).map(group => [
+                          group.groupName,
+                          group.headCount,
+                          group.soldCount,
+                          formatMoney(group.salePrice),
+                          formatMoney(group.purchaseCost),
+                          formatMoney(group.expenses),
+                          formatMoney(group.net),
+                        ])}
+                      />
+                    </ReportSection>
+                  )}
+
+                  <ReportSection title="By Animal">
+                    {animalProfitLossRows.length === 0 ? (
+                      <p className="text-gray-500">No sales, purchase prices or expenses recorded yet.</p>
+                    ) : (
+                      <ReportTable
+                        headers={['Animal', 'Status', 'Sale', 'Purchase', ...Object.values(EXPENSE_CATEGORY_LABELS), 'Net']}
+                        rows={animalProfitLossRows.map(entry => [
+                          describeAnimalProfitLoss(entry),
+                          entry.animal.status || '-',
+                          entry.isSold ? formatMoney(entry.salePrice) : '-',
+                          formatMoney(entry.purchaseCost),
+                          ...Object.keys(EXPENSE_CATEGORY_LABELS).map(category =>
+                            formatMoney(entry.expensesByCategory[category as Expense['category']])),
+                          formatMoney(entry.net),
+                        ])}
+                      />
+                    )}
+                  </ReportSection>
+
+                  <ReportSection title="Expense Ledger">
+                    {expenses.length === 0 ? (
+                      <p className="text-gray-500">
+                        No expenses recorded. Select animals on the Animals page to charge an expense to them, or record one for the whole herd here.
+                      </p>
+                    ) : (
+                      <table className="min-w-full border border-gray-300">
+                        <thead className="bg-gray-100">
+                          <tr>
+                            {['Date', 'Category', 'Description', 'Charged To', 'Amount'].map(header => (
+                              <th key={header} className="px-4 py-2 text-left text-sm font-semibold text-gray-900 border-b border-gray-300">
+                                {header}
+                              </th>
+                            ))}
+                            {!isReadOnly && <th className="no-print border-b border-gray-300"></th>}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {expenses.map((expense, i) => (
+                            <tr key={expense.id} className={i % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                              <td className="px-4 py-2 text-sm text-gray-700 border-b border-gray-200">{formatDateForDisplay(expense.expense_date)}</td>
+                              <td className="px-4 py-2 text-sm text-gray-700 border-b border-gray-200">{EXPENSE_CATEGORY_LABELS[expense.category]}</td>
+                              <td className="px-4 py-2 text-sm text-gray-700 border-b border-gray-200">{expense.description || '-'}</td>
+                              <td className="px-4 py-2 text-sm text-gray-700 border-b border-gray-200">{describeExpenseAllocation(expense)}</td>
+                              <td className="px-4 py-2 text-sm text-gray-700 border-b border-gray-200">{formatMoney(Number(expense.amount))}</td>
+                              {!isReadOnly && (
+                                <td className="no-print px-2 py-2 border-b border-gray-200 text-right">
+                                  <button
+                                    onClick={() => deleteExpense(expense)}
+                                    className="p-1 text-red-600 hover:bg-red-50 rounded transition"
+                                    title="Delete expense"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </td>
+                              )}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </ReportSection>
+                </>
+              )}
+
+              {currentReport === 'schedule-f' && (
+                <>
+                  <ReportSection title="Summary">
+                    <ReportGrid
+                      items={[
+                        ...LIVESTOCK_SALE_GROUPS.map(group => ({
+                          label: LIVESTOCK_SALE_GROUP_LABELS[group],
+                          value: `$${scheduleFReport.salesTotals[group].toFixed(2)}`,
+                        })),
+                        { label: 'Death Losses - Purchased', value: `${scheduleFReport.deaths.purchased.length} head` },
+                        { label: 'Death Losses - Raised', value: `${scheduleFReport.deaths.raised.length} head` },
+                        { label: 'Butchered for Home Use', value: `${scheduleFReport.butchered.length} head` },
+                      ]}
+                    />
+                  </ReportSection>
+
+                  {LIVESTOCK_SALE_GROUPS.map(group => {
+                    const groupSales = scheduleFReport.sales.filter(sale => sale.group === group);
+                    return (
+                      <ReportSection key={group} title={LIVESTOCK_SALE_GROUP_LABELS[group]}>
+                        {groupSales.length === 0 ? (
+                          <p className="text-gray-500">No sales in {taxYear}.</p>
+                        ) : (
+                          <ReportTable
+                            headers={['Tag', 'Name', 'Type', 'Sex', 'Source', 'Sale Date', 'Months Held', 'Breeding Stock', 'Sale Price']}
+                            rows={[
+                              ...groupSales.map(sale => [
+                                sale.animal.tag_number || '-',
+                                sale.animal.name || '-',
+                                sale.animal.animal_type || 'Cattle',
+                                sale.animal.sex,
+                                sale.animal.source,
+                                formatDateForDisplay(sale.animal.exit_date),
+                                sale.heldMonths ?? '-',
+                                sale.isBreedingStock ? (sale.heldShort ? 'Yes - held short' : 'Yes') : 'No',
+                                sale.salePrice !== null ? `$${sale.salePrice.toFixed(2)}` : 'Not recorded',
+                              ]),
+                              ['Total', '', '', '', '', '', '', '', `$${scheduleFReport.salesTotals[group].toFixed(2)}`],
+                            ]}
+                          />
+                        )}
+                      </ReportSection>
+                    );
+                  })}
+
+                  <ReportSection title="Death Losses">
+                    {scheduleFReport.deaths.purchased.length + scheduleFReport.deaths.raised.length === 0 ? (
+                      <p className="text-gray-500">No death losses in {taxYear}.</p>
+                    ) : (
+                      <ReportTable
+                        headers={['Tag', 'Name', 'Type', 'Sex', 'Source', 'Date of Death']}
+                        rows={[...scheduleFReport.deaths.purchased, ...scheduleFReport.deaths.raised].map(animal => [
+                          animal.tag_number || '-',
+                          animal.name || '-',
+                          animal.animal_type || 'Cattle',
+                          animal.sex,
+                          animal.source,
+                          formatDateForDisplay(animal.exit_date),
+                        ])}
+                      />
+                    )}
+                  </ReportSection>
+
+                  <ReportSection title="Butchered for Home Use">
+                    {scheduleFReport.butchered.length === 0 ? (
+                      <p className="text-gray-500">No animals butchered in {taxYear}.</p>
+                    ) : (
+                      <ReportTable
+                        headers={['Tag', 'Name', 'Type', 'Sex', 'Source', 'Date Butchered']}
+                        rows={scheduleFReport.butchered.map(animal => [
+                          animal.tag_number || '-',
+                          animal.name || '-',
+                          animal.animal_type || 'Cattle',
+                          animal.sex,
+                          animal.source,
+                          formatDateForDisplay(animal.exit_date),
+                        ])}
+                      />
+                    )}
+                  </ReportSection>
+
+                  {scheduleFReport.customFieldTotals.length > 0 && (
+                    <ReportSection title="Custom Dollar Field Totals (Animals Sold)">
+                      <ReportTable
+                        headers={['Field', ...LIVESTOCK_SALE_GROUPS.map(group => LIVESTOCK_SALE_GROUP_LABELS[group])]}
+                        rows={scheduleFReport.customFieldTotals.map(({ field, totals }) => [
+                          field.field_name,
+                          ...LIVESTOCK_SALE_GROUPS.map(group => `$${totals[group].toFixed(2)}`),
+                        ])}
+                      />
+                    </ReportSection>
+                  )}
                 </>
               )}
 
@@ -440,6 +1252,7 @@ export function ReportsPage() {
                                 .map((m, idx) => (
                                   <div key={idx} className="text-xs text-gray-600">
                                     <span className="font-medium">{formatDateForDisplay(m.date)}:</span> {m.description}
+                                    {formatTreatmentDetails(m) && ` (${formatTreatmentDetails(m)})`}
                                   </div>
                                 ))}
                             </div>
@@ -485,6 +1298,99 @@ export function ReportsPage() {
                 </ReportSection>
               )}
 
+              {currentReport === 'cow-productivity' && (
+                <>
+                  <ReportSection title="Summary">
+                    <ReportGrid
+                      items={[
+                        { label: 'Breeding Females', value: cowProductivityReport.length },
+                        { label: 'Open', value: cowProductivityReport.filter(e => e.isOpen).length },
+                        { label: 'Late', value: cowProductivityReport.filter(e => e.isLate).length },
+                        { label: 'Cull Candidates', value: cullList.length },
+                      ]}
+                    />
+                  </ReportSection>
+
+                  <ReportSection title="Cull List">
+                    {cullList.length === 0 ? (
+                      <div className="text-center py-8 text-gray-600">No females meet any culling criteria.</div>
+                    ) : (
+                      <ReportTable
+                        headers={['Rank', 'Female', 'Age', 'Offspring', 'Score', 'Reasons']}
+                        rows={cullList.map((entry, index) => [
+                          index + 1,
+                          [entry.animal.tag_number, entry.animal.name].filter(Boolean).join(' ') || '-',
+                          entry.ageYears !== null ? `${entry.ageYears} yrs` : '-',
+                          entry.offspringCount,
+                          entry.cullScore,
+                          entry.cullReasons.join('; '),
+                        ])}
+                      />
+                    )}
+                  </ReportSection>
+
+                  <ReportSection title="Productivity by Female">
+                    <ReportTable
+                      headers={['Female', 'Age', 'Offspring', 'Intervals (days)', 'Avg Interval', 'Days Since Last', 'Status', 'Avg Adj. 205-Day Wt', 'Ratio']}
+                      rows={cowProductivityReport.map(entry => [
+                        [entry.animal.tag_number, entry.animal.name].filter(Boolean).join(' ') || '-',
+                        entry.ageYears !== null ? `${entry.ageYears} yrs` : '-',
+                        entry.offspringCount,
+                        entry.calvingIntervals.join(', ') || '-',
+                        entry.averageCalvingInterval ?? '-',
+                        entry.daysSinceLastOffspring ?? 'Never',
+                        describeProductivityStatus(entry),
+                        entry.averageAdjusted205DayWeight !== null ? `${Math.round(entry.averageAdjusted205DayWeight)} lbs` : '-',
+                        entry.weaningRatio ?? '-',
+                      ])}
+                    />
+                  </ReportSection>
+                </>
+              )}
+
+              {currentReport === 'dam-performance' && (
+                damPerformanceReport.length === 0 ? (
+                  <div className="text-center py-8 text-gray-600">
+                    No calves with a birth date, weaning date and weaning weight between {MIN_WEANING_AGE_DAYS} and {MAX_WEANING_AGE_DAYS} days of age.
+                  </div>
+                ) : (
+                  <>
+                    <ReportSection title="Dams Ranked by Adjusted 205-Day Weight">
+                      <ReportTable
+                        headers={['Rank', 'Dam', 'Calves', 'Avg Calving Ease', 'Avg Birth Wt', 'Avg Adj. 205-Day Wt', 'Ratio']}
+                        rows={damPerformanceReport.map((r, index) => [
+                          index + 1,
+                          formatDamLabel(r),
+                          r.calfPerformance.filter(p => p.adjusted205DayWeight !== null).length,
+                          r.averageCalvingEase !== null ? r.averageCalvingEase.toFixed(1) : '-',
+                          r.averageBirthWeight !== null ? `${Math.round(r.averageBirthWeight)} lbs` : '-',
+                          `${Math.round(r.averageAdjusted205DayWeight!)} lbs`,
+                          r.weaningRatio ?? '-',
+                        ])}
+                      />
+                    </ReportSection>
+
+                    <ReportSection title="Calf Records">
+                      <ReportTable
+                        headers={['Dam', 'Calf', 'Sex', 'Born', 'Dam Age', 'Calving Ease', 'Birth Wt', 'Weaning Age', 'Weaning Wt', 'Adj. 205-Day Wt']}
+                        rows={damPerformanceReport.flatMap(r => r.calfPerformance.map(p => [
+                          formatDamLabel(r),
+                          p.calf.tag_number || p.calf.name || '-',
+                          p.calf.sex,
+                          formatDateForDisplay(p.calf.birth_date),
+                          p.damAgeAtCalving !== null ? `${p.damAgeAtCalving} yrs` : '-',
+                          p.calf.calving_ease ?? '-',
+                          p.birthWeight !== null ? `${p.birthWeight} lbs` : '-',
+                          p.weaningAgeDays !== null ? `${p.weaningAgeDays} days` : '-',
+                          p.weaningWeight !== null ? `${p.weaningWeight} lbs` : '-',
+                          p.adjusted205DayWeight !== null ? `${p.adjusted205DayWeight} lbs` : '-',
+                        ]))}
+                      />
+                    </ReportSection>
+                  </>
+                )
+              )}
+
               {currentReport === 'offspring-father' && (
                 <ReportSection>
                   <ReportTable
@@ -501,6 +1407,120 @@ export function ReportsPage() {
                 </ReportSection>
               )}
 
+              {currentReport === 'due-to-calve' && (
+                <ReportSection>
+                  {dueToCalveReport.length === 0 ? (
+                    <div className="text-center py-8 text-gray-600">
+                      No open breeding records with an expected due date
+                    </div>
+                  ) : (
+                    <ReportTable
+                      headers={['Expected Due', 'Days', 'Dam Tag', 'Dam Name', 'Bred', 'Method', 'Sire', 'Preg Check']}
+                      rows={dueToCalveReport.map(r => [
+                        formatDateForDisplay(r.expectedDueDate),
+                        r.daysUntilDue < 0 ? `${Math.abs(r.daysUntilDue)} overdue` : r.daysUntilDue,
+                        r.damTag || '-',
+                        r.damName || '-',
+                        formatDateForDisplay(r.breedingDate),
+                        BREEDING_METHOD_SHORT_LABELS[r.breedingMethod],
+                        r.sire || '-',
+                        r.pregnancyStatus === 'PREGNANT' ? 'Confirmed' : 'Not checked',
+                      ])}
+                    />
+                  )}
+                </ReportSection>
+              )}
+
+              {currentReport === 'treatments' && (
+                <ReportSection>
+                  {treatmentRecordsReport.length === 0 ? (
+                    <div className="text-center py-8 text-gray-600">
+                      No treatment records found
+                    </div>
+                  ) : (
+                    <ReportTable
+                      headers={['Date', 'Tag', 'Name', 'Drug', 'Dose', 'Route', 'Site', 'Lot', 'By', 'Reason']}
+                      rows={treatmentRecordsReport.map(r => [
+                        formatDateForDisplay(r.date),
+                        r.animalTag || '-',
+                        r.animalName || '-',
+                        r.drugName || r.description,
+                        r.dose || '-',
+                        r.route || '-',
+                        r.injectionSite || '-',
+                        r.lotNumber || '-',
+                        r.administeredBy || '-',
+                        r.reason || '-',
+                      ])}
+                    />
+                  )}
+                </ReportSection>
+              )}
+
+              {currentReport === 'drug-inventory' && (
+                <>
+                  <ReportSection title="Summary">
+                    <ReportGrid
+                      items={[
+                        { label: 'Drugs', value: drugInventoryReport.length },
+                        { label: 'Expired Lots', value: drugInventoryReport.reduce((sum, s) => sum + s.expiredLots.length, 0) },
+                        { label: 'Low Stock Drugs', value: drugInventoryReport.filter(s => s.isLowStock).length },
+                        { label: 'Inventory Value', value: `$${drugInventoryReport.reduce((sum, s) => sum + s.inventoryValue, 0).toFixed(2)}` },
+                      ]}
+                    />
+                  </ReportSection>
+
+                  <ReportSection title="Lots">
+                    {drugInventoryReport.every(s => s.lots.length === 0) ? (
+                      <div className="text-center py-8 text-gray-600">
+                        No drug lots recorded. Receive lots from the Drugs & Medications section in Settings.
+                      </div>
+                    ) : (
+                      <ReportTable
+                        headers={['Drug', 'Type', 'Lot', 'Received', 'Expires', 'On Hand (mL)', 'Cost/mL', 'Value', 'Status']}
+                        rows={drugInventoryReport.flatMap(stock => stock.lots.map(lot => [
+                          `${stock.drugName}${stock.isLowStock ? ' (low stock)' : ''}`,
+                          stock.animalType,
+                          lot.lot_number,
+                          formatDateForDisplay(lot.received_date),
+                          formatDateForDisplay(lot.expiration_date),
+                          Number(lot.volume_on_hand_ml).toFixed(2),
+                          lot.cost_per_ml !== null ? `$${Number(lot.cost_per_ml).toFixed(4)}` : '-',
+                          lot.cost_per_ml !== null ? `$${(Number(lot.volume_on_hand_ml) * Number(lot.cost_per_ml)).toFixed(2)}` : '-',
+                          getLotStatus(lot, today),
+                        ]))}
+                      />
+                    )}
+                  </ReportSection>
+                </>
+              )}
+
+              {currentReport === 'registry' && (
+                <ReportSection>
+                  {registrySubmissionReport.length === 0 ? (
+                    <div className="text-center py-8 text-gray-600">
+                      No unregistered calves born on the ranch.
+                    </div>
+                  ) : (
+                    <ReportTable
+                      headers={['Calf', 'Sex', 'Birth Date', 'Breed', 'Registry', 'Sire', 'Sire Reg. #', 'Dam', 'Dam Reg. #', 'Missing']}
+                      rows={registrySubmissionReport.map(entry => [
+                        [entry.calf.tag_number, entry.calf.name].filter(Boolean).join(' ') || '-',
+                        entry.calf.sex,
+                        formatDateForDisplay(entry.calf.birth_date),
+                        formatBreedComposition(getBreedComposition(entry.calf)) || '-',
+                        entry.registry || '-',
+                        entry.sire ? [entry.sire.tag_number, entry.sire.name].filter(Boolean).join(' ') || '-' : '-',
+                        entry.sire?.registration_number || '-',
+                        entry.dam ? [entry.dam.tag_number, entry.dam.name].filter(Boolean).join(' ') || '-' : '-',
+                        entry.dam?.registration_number || '-',
+                        entry.missing.join(', ') || '-',
+                      ])}
+                    />
+                  )}
+                </ReportSection>
+              )}
+
               {currentReport === 'sales' && (
                 <>
                   {soldAnimals.length === 0 ? (
@@ -531,9 +1551,14 @@ export function ReportsPage() {
                                   <div>
                                     <span className="font-medium">Age at Sale:</span> {calculateAge(animal.birth_date)}
                                   </div>
-                                  {(animal as any).sale_price && (
+                                  {animal.sale_price && (
+                                    <div>
+                                      <span className="font-medium">Sale Price:</span> ${Number(animal.sale_price).toFixed(2)}
+                                    </div>
+                                  )}
+                                  {animal.sale_id && sales.some(sale => sale.id === animal.sale_id) && (
                                     <div>
-                                      <span className="font-medium">Sale Price:</span> ${parseFloat((animal as any).sale_price).toFixed(2)}
+                                      <span className="font-medium">Sold In:</span> {describeSale(sales.find(sale => sale.id === animal.sale_id)!)}
                                     </div>
                                   )}
                                   {animal.description && (
@@ -557,12 +1582,16 @@ export function ReportsPage() {
                                   <div className="mt-4">
                                     <h4 className="font-medium text-gray-900 mb-2">Medical History:</h4>
                                     <ReportTable
-                                      headers={['Date', 'Treatment']}
+                                      headers={['Date', 'Treatment', 'Dose', 'Route', 'Lot', 'Reason']}
                                       rows={animalMedical
                                         .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
                                         .map(m => [
                                           formatDateForDisplay(m.date),
-                                          m.description,
+                                          m.drug_name || m.description,
+                                          formatDose(m) || '-',
+                                          m.route ? TREATMENT_ROUTE_LABELS[m.route] : '-',
+                                          m.lot_number || '-',
+                                          m.reason || '-',
                                         ])}
                                     />
                                   </div>
@@ -597,8 +1626,8 @@ export function ReportsPage() {
                               {
                                 label: 'Total Sale Price',
                                 value: `$${soldAnimals.reduce((sum, animal) => {
-                                  const price = (animal as any).sale_price;
-                                  return sum + (price ? parseFloat(price) : 0);
+                                  const price = animal.sale_price;
+                                  return sum + (price ? Number(price) : 0);
                                 }, 0).toFixed(2)}`
                               }
                             ]}
@@ -613,6 +1642,17 @@ export function ReportsPage() {
           </div>
         </div>
 
+        {showExpense && currentRanch && (
+          <ExpenseModal
+            animals={[]}
+            allAnimals={animals}
+            ranchId={currentRanch.id}
+            isDemoMode={isDemoMode}
+            onClose={() => setShowExpense(false)}
+            onSaved={fetchData}
+          />
+        )}
+
         {showProrateSale && currentRanch && (
           <ProrateSaleModal
             onClose={() => setShowProrateSale(false)}
@@ -760,6 +1800,108 @@ export function ReportsPage() {
                   </div>
                 </button>
 
+                <button
+                  onClick={() => setCurrentReport('sale-sheet')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Sale Sheets
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Printable settlement for each recorded sale: buyer, sale barn, deductions and each animal's share
+                      </p>
+                    </div>
+                    <FileText className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
+
+                <button
+                  onClick={() => setCurrentReport('profit-loss')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Profit & Loss
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Sale price less purchase cost and charged expenses, per animal and per group, with the expense ledger
+                      </p>
+                    </div>
+                    <Receipt className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
+
+                <button
+                  onClick={() => setCurrentReport('schedule-f')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Livestock Income (Schedule F)
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Calendar-year sales of raised and purchased animals, breeding stock, death losses and home butchering
+                      </p>
+                    </div>
+                    <DollarSign className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
+
+                <button
+                  onClick={() => setCurrentReport('count-history')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Herd Count History
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Saved count snapshots side by side, with a trend chart for each count
+                      </p>
+                    </div>
+                    <BarChart3 className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
+
+                <button
+                  onClick={() => setCurrentReport('cow-productivity')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Cow Productivity & Cull List
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Calving intervals, open and late females, and a ranked cull list with the reasons for each
+                      </p>
+                    </div>
+                    <BarChart3 className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
+
+                <button
+                  onClick={() => setCurrentReport('dam-performance')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Dam Performance
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Dams ranked by their calves' adjusted 205-day weaning weights, with calving ease and dam age at calving
+                      </p>
+                    </div>
+                    <BarChart3 className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
+
                 <button
                   onClick={() => setCurrentReport('offspring-father')}
                   className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
@@ -777,6 +1919,57 @@ export function ReportsPage() {
                   </div>
                 </button>
 
+                <button
+                  onClick={() => setCurrentReport('due-to-calve')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Due to Calve
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Bred and confirmed-pregnant females sorted by expected due date
+                      </p>
+                    </div>
+                    <Calendar className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
+
+                <button
+                  onClick={() => setCurrentReport('treatments')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Treatment Records
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Every drug and treatment given, with dose, route, lot number and who gave it
+                      </p>
+                    </div>
+                    <Syringe className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
+
+                <button
+                  onClick={() => setCurrentReport('drug-inventory')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Drug Inventory
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Lots on hand with expiration dates, remaining volume and value
+                      </p>
+                    </div>
+                    <Syringe className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
+
                 <button
                   onClick={() => setCurrentReport('sales')}
                   className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
@@ -793,6 +1986,23 @@ export function ReportsPage() {
                     <BarChart3 className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
                   </div>
                 </button>
+
+                <button
+                  onClick={() => setCurrentReport('registry')}
+                  className="text-left border border-gray-200 rounded-lg p-6 hover:border-green-500 hover:bg-green-50 transition group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-semibold text-gray-900 text-lg group-hover:text-green-700">
+                        Registry Submission
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-2">
+                        Unregistered calves born on the ranch with sire and dam registration numbers, ready for the breed association
+                      </p>
+                    </div>
+                    <Award className="w-6 h-6 text-gray-400 group-hover:text-green-600" />
+                  </div>
+                </button>
               </div>
             </div>
           </>
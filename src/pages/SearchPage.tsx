@@ -1,28 +1,56 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Layout } from '../components/Layout';
 import { AnimalDetailModal } from '../components/AnimalDetailModal';
+import { ApplyProtocolModal } from '../components/ApplyProtocolModal';
+import { MoveAnimalsModal } from '../components/MoveAnimalsModal';
 import { useRanch } from '../contexts/RanchContext';
-import { supabase } from '../lib/supabase';
-import { Search } from 'lucide-react';
-import { ANIMAL_TYPES, type AnimalType } from '../utils/animalTypes';
-import type { Database } from '../lib/database.types';
-
-type Animal = Database['public']['Tables']['animals']['Row'];
-
-type SearchType = 'all' | 'tag' | 'name' | 'description';
-type StatusFilter = 'ALL' | 'PRESENT' | 'SOLD' | 'BUTCHERED' | 'DEAD';
-type AnimalTypeFilter = 'ALL' | AnimalType;
+import { useData } from '../contexts/DataContext';
+import { Search, Syringe, MapPin } from 'lucide-react';
+import { ANIMAL_TYPES } from '../utils/animalTypes';
+import { getPastureLabel, getPastureName, sortPastures } from '../utils/pastures';
+import {
+  searchAnimals,
+  type AnimalLocationFilter,
+  type AnimalSearchType,
+  type AnimalStatusFilter,
+  type AnimalTypeFilter,
+} from '../utils/animalSearch';
+import type { Pasture } from '../lib/database.types';
+import type { Animal } from '../data/types';
 
 export function SearchPage() {
-  const { currentRanch } = useRanch();
+  const { currentRanch, currentUserRole, isDemoMode } = useRanch();
+  const { data } = useData();
+  const isReadOnly = currentUserRole === 'VIEWER' && !isDemoMode;
   const [searchTerm, setSearchTerm] = useState('');
-  const [searchType, setSearchType] = useState<SearchType>('all');
-  const [statusFilter, setStatusFilter] = useState<StatusFilter>('ALL');
+  const [searchType, setSearchType] = useState<AnimalSearchType>('all');
+  const [statusFilter, setStatusFilter] = useState<AnimalStatusFilter>('ALL');
   const [animalTypeFilter, setAnimalTypeFilter] = useState<AnimalTypeFilter>('ALL');
+  const [locationFilter, setLocationFilter] = useState<AnimalLocationFilter>('ALL');
+  const [pastures, setPastures] = useState<Pasture[]>([]);
   const [results, setResults] = useState<Animal[]>([]);
   const [loading, setLoading] = useState(false);
   const [searched, setSearched] = useState(false);
   const [selectedAnimal, setSelectedAnimal] = useState<Animal | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showApplyProtocol, setShowApplyProtocol] = useState(false);
+  const [showMove, setShowMove] = useState(false);
+
+  useEffect(() => {
+    if (currentRanch) {
+      fetchPastures();
+    }
+  }, [currentRanch, data]);
+
+  const fetchPastures = async () => {
+    if (!currentRanch) return;
+
+    try {
+      setPastures(await data.pastures.list(currentRanch.id));
+    } catch (error) {
+      console.error('Error fetching pastures:', error);
+    }
+  };
 
   const handleSearch = async (e?: React.FormEvent) => {
     e?.preventDefault();
@@ -32,48 +60,14 @@ export function SearchPage() {
     setSearched(true);
 
     try {
-      let query = supabase
-        .from('animals')
-        .select('*')
-        .eq('ranch_id', currentRanch.id)
-        .neq('animal_type', 'Other');
-
-      if (statusFilter !== 'ALL') {
-        query = query.eq('status', statusFilter);
-      }
-
-      if (animalTypeFilter !== 'ALL') {
-        query = query.eq('animal_type', animalTypeFilter);
-      }
-
-      if (searchTerm.trim()) {
-        const searchLower = searchTerm.toLowerCase();
-
-        switch (searchType) {
-          case 'tag':
-            query = query.eq('tag_number', searchTerm);
-            break;
-          case 'name':
-            query = query.ilike('name', searchTerm);
-            break;
-          case 'description':
-            query = query.ilike('description', `%${searchLower}%`);
-            break;
-          case 'all':
-          default:
-            query = query.or(
-              `tag_number.ilike.%${searchLower}%,name.ilike.%${searchLower}%,description.ilike.%${searchLower}%`
-            );
-            break;
-        }
-      }
-
-      query = query.order('tag_number', { ascending: true, nullsFirst: true });
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-      setResults(data || []);
+      const matches = await searchAnimals(data, currentRanch.id, {
+        searchTerm,
+        searchType,
+        statusFilter,
+        animalTypeFilter,
+        locationFilter,
+      });
+      setResults(matches);
     } catch (error) {
       console.error('Error searching animals:', error);
     } finally {
@@ -87,7 +81,7 @@ export function SearchPage() {
     handleSearch();
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: string | null) => {
     switch (status) {
       case 'PRESENT':
         return 'bg-green-100 text-green-800';
@@ -115,6 +109,22 @@ export function SearchPage() {
     return `${Math.floor(ageInYears)}yr`;
   };
 
+  const selectedAnimals = results.filter(a => selectedIds.has(a.id));
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selectedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(selectedAnimals.length === results.length ? new Set() : new Set(results.map(a => a.id)));
+  };
+
   return (
     <Layout currentPage="search">
       <div className="space-y-6">
@@ -125,14 +135,14 @@ export function SearchPage() {
 
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
           <form onSubmit={handleSearch} className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className={`grid grid-cols-1 md:grid-cols-2 ${pastures.length > 0 ? 'lg:grid-cols-5' : 'lg:grid-cols-4'} gap-4`}>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Search Type
                 </label>
                 <select
                   value={searchType}
-                  onChange={(e) => setSearchType(e.target.value as SearchType)}
+                  onChange={(e) => setSearchType(e.target.value as AnimalSearchType)}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                 >
                   <option value="all">All Fields</option>
@@ -148,7 +158,7 @@ export function SearchPage() {
                 </label>
                 <select
                   value={statusFilter}
-                  onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+                  onChange={(e) => setStatusFilter(e.target.value as AnimalStatusFilter)}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                 >
                   <option value="ALL">All Statuses</option>
@@ -175,6 +185,25 @@ export function SearchPage() {
                 </select>
               </div>
 
+              {pastures.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Current Location
+                  </label>
+                  <select
+                    value={locationFilter}
+                    onChange={(e) => setLocationFilter(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    <option value="ALL">All Locations</option>
+                    <option value="UNASSIGNED">Unassigned</option>
+                    {sortPastures(pastures).map(pasture => (
+                      <option key={pasture.id} value={pasture.id}>{getPastureLabel(pasture, pastures)}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Search Term
@@ -229,15 +258,47 @@ export function SearchPage() {
               </div>
             ) : (
               <div>
-                <div className="mb-4">
+                <div className="mb-4 flex items-center justify-between gap-4">
                   <p className="text-sm text-gray-600">
                     Found {results.length} result{results.length !== 1 ? 's' : ''}
+                    {selectedAnimals.length > 0 && ` (${selectedAnimals.length} selected)`}
                   </p>
+                  {!isReadOnly && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setShowMove(true)}
+                        disabled={selectedAnimals.length === 0}
+                        className="inline-flex items-center px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <MapPin className="w-4 h-4 mr-2" />
+                        Move
+                      </button>
+                      <button
+                        onClick={() => setShowApplyProtocol(true)}
+                        disabled={selectedAnimals.length === 0}
+                        className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Syringe className="w-4 h-4 mr-2" />
+                        Apply Protocol
+                      </button>
+                    </div>
+                  )}
                 </div>
                 <div className="overflow-x-auto">
                   <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50">
                       <tr>
+                        {!isReadOnly && (
+                          <th className="px-4 py-3 w-10">
+                            <input
+                              type="checkbox"
+                              checked={selectedAnimals.length > 0 && selectedAnimals.length === results.length}
+                              onChange={toggleSelectAll}
+                              className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                              title="Select all"
+                            />
+                          </th>
+                        )}
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Tag
                         </th>
@@ -253,6 +314,11 @@ export function SearchPage() {
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Age
                         </th>
+                        {pastures.length > 0 && (
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Location
+                          </th>
+                        )}
                         <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Description
                         </th>
@@ -265,6 +331,16 @@ export function SearchPage() {
                           className="hover:bg-gray-50 cursor-pointer transition"
                           onClick={() => setSelectedAnimal(animal)}
                         >
+                          {!isReadOnly && (
+                            <td className="px-4 py-4 w-10" onClick={(e) => e.stopPropagation()}>
+                              <input
+                                type="checkbox"
+                                checked={selectedIds.has(animal.id)}
+                                onChange={() => toggleSelected(animal.id)}
+                                className="w-4 h-4 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                              />
+                            </td>
+                          )}
                           <td className="px-4 py-4 whitespace-nowrap">
                             <div className="text-sm font-medium text-gray-900">
                               {animal.tag_number || '-'}
@@ -291,6 +367,11 @@ export function SearchPage() {
                           <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
                             {getAge(animal.birth_date)}
                           </td>
+                          {pastures.length > 0 && (
+                            <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {getPastureName(animal.current_pasture_id, pastures)}
+                            </td>
+                          )}
                           <td className="px-4 py-4 text-sm text-gray-900">
                             <div className="max-w-xs truncate">
                               {animal.description || '-'}
@@ -320,6 +401,33 @@ export function SearchPage() {
             allAnimals={results}
           />
         )}
+
+        {showApplyProtocol && currentRanch && (
+          <ApplyProtocolModal
+            animals={selectedAnimals}
+            ranchId={currentRanch.id}
+            isDemoMode={isDemoMode}
+            onClose={() => setShowApplyProtocol(false)}
+            onApplied={() => {
+              setSelectedIds(new Set());
+              handleSearch();
+            }}
+          />
+        )}
+
+        {showMove && currentRanch && (
+          <MoveAnimalsModal
+            animals={selectedAnimals}
+            pastures={pastures}
+            ranchId={currentRanch.id}
+            isDemoMode={isDemoMode}
+            onClose={() => setShowMove(false)}
+            onMoved={() => {
+              setSelectedIds(new Set());
+              handleSearch();
+            }}
+          />
+        )}
       </div>
     </Layout>
   );
@@ -2,33 +2,41 @@ import { useState, useEffect } from 'react';
 import { Layout } from '../components/Layout';
 import { useRanch } from '../contexts/RanchContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
 import { supabase } from '../lib/supabase';
-import { Save, Trash2, Upload, Plus, Edit2, X, Key, Shield, Lightbulb, Syringe, Download } from 'lucide-react';
+import { Save, Trash2, Upload, Plus, Edit2, X, Key, Shield, Lightbulb, Syringe, Download, Package, AlertTriangle, ClipboardList, BarChart3 } from 'lucide-react';
 import { ImportModal } from '../components/ImportModal';
 import { TipsModal } from '../components/TipsModal';
 import { RanchMemberInvitationPanel } from '../components/RanchMemberInvitationPanel';
+import { DrugLotsModal } from '../components/DrugLotsModal';
+import { TreatmentProtocolsModal } from '../components/TreatmentProtocolsModal';
 import { ANIMAL_TYPES, type AnimalType } from '../utils/animalTypes';
-import type { Database } from '../lib/database.types';
+import type { Database, Drug, DrugLot } from '../lib/database.types';
 import { createComprehensiveBackup, downloadComprehensiveBackup } from '../utils/comprehensiveBackup';
 import { restoreComprehensiveBackup } from '../utils/comprehensiveRestore';
 import { useToast } from '../contexts/ToastContext';
+import { summarizeDrugStock } from '../utils/drugInventory';
+import { getTodayLocalDate, formatDateForDisplay } from '../utils/printHelpers';
+import { getErrorToast } from '../data/errors';
 
 type RanchSettings = Database['public']['Tables']['ranch_settings']['Row'];
 type CustomFieldDefinition = Database['public']['Tables']['custom_field_definitions']['Row'];
 
-interface Drug {
-  id: string;
-  drug_name: string;
-  animal_type: string;
-  ccs_per_pound: number | null;
-  fixed_dose_ml: number | null;
-  notes: string | null;
-}
+const TIME_ZONES = [
+  { value: 'America/New_York', label: 'Eastern' },
+  { value: 'America/Chicago', label: 'Central' },
+  { value: 'America/Denver', label: 'Mountain' },
+  { value: 'America/Phoenix', label: 'Mountain (Arizona)' },
+  { value: 'America/Los_Angeles', label: 'Pacific' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+];
 
 export function SettingsPage() {
   const { currentRanch, currentUserRole, refreshRanchData, refreshRanches, selectRanch } = useRanch();
   const { user, changePassword } = useAuth();
   const { showToast } = useToast();
+  const { data } = useData();
   const [settings, setSettings] = useState<RanchSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -71,12 +79,15 @@ export function SettingsPage() {
   const [savingContactInfo, setSavingContactInfo] = useState(false);
   const [fieldForm, setFieldForm] = useState({
     field_name: '',
-    field_type: 'text' as 'text' | 'dollar' | 'integer' | 'decimal',
+    field_type: 'text' as CustomFieldDefinition['field_type'],
     include_in_totals: false,
     is_required: false,
   });
 
   const [drugs, setDrugs] = useState<Drug[]>([]);
+  const [drugLots, setDrugLots] = useState<DrugLot[]>([]);
+  const [inventoryDrug, setInventoryDrug] = useState<Drug | null>(null);
+  const [showProtocols, setShowProtocols] = useState(false);
   const [showDrugForm, setShowDrugForm] = useState(false);
   const [editingDrug, setEditingDrug] = useState<Drug | null>(null);
   const [drugForm, setDrugForm] = useState({
@@ -85,6 +96,9 @@ export function SettingsPage() {
     dose_type: 'per_pound' as 'per_pound' | 'fixed',
     ccs_per_pound: '',
     fixed_dose_ml: '',
+    meat_withdrawal_days: '',
+    milk_withdrawal_days: '',
+    low_stock_ml: '',
     notes: '',
   });
 
@@ -98,7 +112,7 @@ export function SettingsPage() {
       setContactEmail(currentRanch.contact_email || '');
       setContactPhone(currentRanch.contact_phone || '');
     }
-  }, [currentRanch]);
+  }, [currentRanch, data]);
 
   useEffect(() => {
     checkAdminStatus();
@@ -146,26 +160,7 @@ export function SettingsPage() {
 
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('ranch_settings')
-        .select('*')
-        .eq('ranch_id', currentRanch.id)
-        .maybeSingle();
-
-      if (error) throw error;
-
-      if (data) {
-        setSettings(data);
-      } else {
-        const { data: newSettings, error: createError } = await supabase
-          .from('ranch_settings')
-          .insert({ ranch_id: currentRanch.id })
-          .select()
-          .single();
-
-        if (createError) throw createError;
-        setSettings(newSettings);
-      }
+      setSettings(await data.settings.get(currentRanch.id) || await data.settings.create(currentRanch.id));
     } catch (error) {
       console.error('Error fetching settings:', error);
       setMessage({ type: 'error', text: 'Failed to load settings' });
@@ -181,21 +176,17 @@ export function SettingsPage() {
     setMessage(null);
 
     try {
-      const { error } = await supabase
-        .from('ranch_settings')
-        .update({
-          report_line1: settings.report_line1,
-          report_line2: settings.report_line2,
-          default_animal_type: (settings as any).default_animal_type,
-          cattle_adult_age: (settings as any).cattle_adult_age,
-          horse_adult_age: (settings as any).horse_adult_age,
-          sheep_adult_age: (settings as any).sheep_adult_age,
-          goat_adult_age: (settings as any).goat_adult_age,
-          pig_adult_age: (settings as any).pig_adult_age,
-        })
-        .eq('ranch_id', currentRanch.id);
-
-      if (error) throw error;
+      await data.settings.update(currentRanch.id, {
+        report_line1: settings.report_line1,
+        report_line2: settings.report_line2,
+        time_zone: settings.time_zone,
+        default_animal_type: settings.default_animal_type,
+        cattle_adult_age: settings.cattle_adult_age,
+        horse_adult_age: settings.horse_adult_age,
+        sheep_adult_age: settings.sheep_adult_age,
+        goat_adult_age: settings.goat_adult_age,
+        pig_adult_age: settings.pig_adult_age,
+      });
 
       setMessage({ type: 'success', text: 'Settings saved successfully' });
       setTimeout(() => setMessage(null), 3000);
@@ -298,7 +289,7 @@ export function SettingsPage() {
   };
 
   const handleToggleInjectionFeature = (enabled: boolean) => {
-    if (enabled && !(settings as any).enable_injection_feature) {
+    if (enabled && !settings?.enable_injection_feature) {
       setShowInjectionDisclaimer(true);
     } else {
       handleSaveInjectionFeature(enabled);
@@ -311,14 +302,9 @@ export function SettingsPage() {
     setMessage(null);
 
     try {
-      const { error } = await supabase
-        .from('ranch_settings')
-        .update({ enable_injection_feature: enabled })
-        .eq('ranch_id', currentRanch.id);
-
-      if (error) throw error;
+      await data.settings.update(currentRanch.id, { enable_injection_feature: enabled });
 
-      setSettings({ ...settings, enable_injection_feature: enabled } as any);
+      setSettings({ ...settings, enable_injection_feature: enabled });
       setMessage({
         type: 'success',
         text: enabled ? 'Injection feature enabled' : 'Injection feature disabled'
@@ -330,18 +316,31 @@ export function SettingsPage() {
     }
   };
 
+  const handleToggleAutoCountSnapshots = async (enabled: boolean) => {
+    if (!settings || !currentRanch) return;
+
+    setMessage(null);
+
+    try {
+      await data.settings.update(currentRanch.id, { auto_count_snapshots: enabled });
+
+      setSettings({ ...settings, auto_count_snapshots: enabled });
+      setMessage({
+        type: 'success',
+        text: enabled ? 'Monthly count snapshots turned on' : 'Monthly count snapshots turned off'
+      });
+      setTimeout(() => setMessage(null), 3000);
+    } catch (error) {
+      console.error('Error updating monthly count snapshots:', error);
+      setMessage({ type: 'error', text: 'Failed to update monthly count snapshots' });
+    }
+  };
+
   const fetchCustomFields = async () => {
     if (!currentRanch) return;
 
     try {
-      const { data, error } = await supabase
-        .from('custom_field_definitions')
-        .select('*')
-        .eq('ranch_id', currentRanch.id)
-        .order('display_order', { ascending: true });
-
-      if (error) throw error;
-      setCustomFields(data || []);
+      setCustomFields(await data.customFields.listDefinitions(currentRanch.id));
     } catch (error) {
       console.error('Error fetching custom fields:', error);
     }
@@ -377,45 +376,35 @@ export function SettingsPage() {
 
     try {
       if (editingField) {
-        const { error } = await supabase
-          .from('custom_field_definitions')
-          .update({
-            field_name: fieldForm.field_name,
-            field_type: fieldForm.field_type,
-            include_in_totals: fieldForm.include_in_totals,
-            is_required: fieldForm.is_required,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', editingField.id);
-
-        if (error) throw error;
+        await data.customFields.updateDefinition(editingField.id, {
+          field_name: fieldForm.field_name,
+          field_type: fieldForm.field_type,
+          include_in_totals: fieldForm.include_in_totals,
+          is_required: fieldForm.is_required,
+        });
         setMessage({ type: 'success', text: 'Custom field updated successfully' });
       } else {
         const maxOrder = customFields.length > 0
           ? Math.max(...customFields.map(f => f.display_order))
           : -1;
 
-        const { error } = await supabase
-          .from('custom_field_definitions')
-          .insert({
-            ranch_id: currentRanch.id,
-            field_name: fieldForm.field_name,
-            field_type: fieldForm.field_type,
-            include_in_totals: fieldForm.include_in_totals,
-            is_required: fieldForm.is_required,
-            display_order: maxOrder + 1,
-          });
-
-        if (error) throw error;
+        await data.customFields.createDefinition({
+          ranch_id: currentRanch.id,
+          field_name: fieldForm.field_name,
+          field_type: fieldForm.field_type,
+          include_in_totals: fieldForm.include_in_totals,
+          is_required: fieldForm.is_required,
+          display_order: maxOrder + 1,
+        });
         setMessage({ type: 'success', text: 'Custom field added successfully' });
       }
 
       setShowFieldForm(false);
       await fetchCustomFields();
       setTimeout(() => setMessage(null), 3000);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error saving custom field:', error);
-      setMessage({ type: 'error', text: error?.message || 'Failed to save custom field' });
+      setMessage({ type: 'error', text: getErrorToast(error, 'save custom field').message });
     }
   };
 
@@ -425,19 +414,14 @@ export function SettingsPage() {
     }
 
     try {
-      const { error } = await supabase
-        .from('custom_field_definitions')
-        .delete()
-        .eq('id', fieldId);
-
-      if (error) throw error;
+      await data.customFields.deleteDefinition(fieldId);
 
       setMessage({ type: 'success', text: 'Custom field deleted successfully' });
       await fetchCustomFields();
       setTimeout(() => setMessage(null), 3000);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting custom field:', error);
-      setMessage({ type: 'error', text: 'Failed to delete custom field' });
+      setMessage({ type: 'error', text: getErrorToast(error, 'delete custom field').message });
     }
   };
 
@@ -445,15 +429,14 @@ export function SettingsPage() {
     if (!currentRanch) return;
 
     try {
-      const { data, error } = await supabase
-        .from('drugs')
-        .select('*')
-        .eq('ranch_id', currentRanch.id)
-        .order('animal_type', { ascending: true })
-        .order('drug_name', { ascending: true });
-
-      if (error) throw error;
-      setDrugs(data || []);
+      const [fetchedDrugs, fetchedLots] = await Promise.all([
+        data.drugs.list(currentRanch.id),
+        data.drugLots.listForRanch(currentRanch.id),
+      ]);
+
+      // Already by name, so a stable sort groups them by animal type
+      setDrugs([...fetchedDrugs].sort((a, b) => a.animal_type.localeCompare(b.animal_type)));
+      setDrugLots(fetchedLots);
     } catch (error) {
       console.error('Error fetching drugs:', error);
     }
@@ -467,6 +450,9 @@ export function SettingsPage() {
       dose_type: 'per_pound',
       ccs_per_pound: '',
       fixed_dose_ml: '',
+      meat_withdrawal_days: '',
+      milk_withdrawal_days: '',
+      low_stock_ml: '',
       notes: '',
     });
     setShowDrugForm(true);
@@ -480,6 +466,9 @@ export function SettingsPage() {
       dose_type: drug.ccs_per_pound !== null ? 'per_pound' : 'fixed',
       ccs_per_pound: drug.ccs_per_pound?.toString() || '',
       fixed_dose_ml: drug.fixed_dose_ml?.toString() || '',
+      meat_withdrawal_days: drug.meat_withdrawal_days ? drug.meat_withdrawal_days.toString() : '',
+      milk_withdrawal_days: drug.milk_withdrawal_days ? drug.milk_withdrawal_days.toString() : '',
+      low_stock_ml: drug.low_stock_ml?.toString() || '',
       notes: drug.notes || '',
     });
     setShowDrugForm(true);
@@ -501,41 +490,40 @@ export function SettingsPage() {
       return;
     }
 
+    const meatWithdrawalDays = drugForm.meat_withdrawal_days ? parseInt(drugForm.meat_withdrawal_days, 10) : 0;
+    const milkWithdrawalDays = drugForm.milk_withdrawal_days ? parseInt(drugForm.milk_withdrawal_days, 10) : 0;
+
+    if (isNaN(meatWithdrawalDays) || meatWithdrawalDays < 0 || isNaN(milkWithdrawalDays) || milkWithdrawalDays < 0) {
+      setMessage({ type: 'error', text: 'Withdrawal periods must be zero or a positive number of days' });
+      return;
+    }
+
     try {
       const drugData = {
         drug_name: drugForm.drug_name.trim(),
         animal_type: drugForm.animal_type,
         ccs_per_pound: drugForm.dose_type === 'per_pound' ? parseFloat(drugForm.ccs_per_pound) : null,
         fixed_dose_ml: drugForm.dose_type === 'fixed' ? parseFloat(drugForm.fixed_dose_ml) : null,
+        meat_withdrawal_days: meatWithdrawalDays,
+        milk_withdrawal_days: milkWithdrawalDays,
+        low_stock_ml: drugForm.low_stock_ml ? parseFloat(drugForm.low_stock_ml) : null,
         notes: drugForm.notes.trim() || null,
       };
 
       if (editingDrug) {
-        const { error } = await supabase
-          .from('drugs')
-          .update(drugData)
-          .eq('id', editingDrug.id);
-
-        if (error) throw error;
+        await data.drugs.update(editingDrug.id, drugData);
         setMessage({ type: 'success', text: 'Drug updated successfully' });
       } else {
-        const { error } = await supabase
-          .from('drugs')
-          .insert({
-            ...drugData,
-            ranch_id: currentRanch.id,
-          });
-
-        if (error) throw error;
+        await data.drugs.create({ ...drugData, ranch_id: currentRanch.id });
         setMessage({ type: 'success', text: 'Drug added successfully' });
       }
 
       setShowDrugForm(false);
       await fetchDrugs();
       setTimeout(() => setMessage(null), 3000);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error saving drug:', error);
-      setMessage({ type: 'error', text: error?.message || 'Failed to save drug' });
+      setMessage({ type: 'error', text: getErrorToast(error, 'save drug').message });
     }
   };
 
@@ -545,19 +533,14 @@ export function SettingsPage() {
     }
 
     try {
-      const { error } = await supabase
-        .from('drugs')
-        .delete()
-        .eq('id', drugId);
-
-      if (error) throw error;
+      await data.drugs.delete(drugId);
 
       setMessage({ type: 'success', text: 'Drug deleted successfully' });
       await fetchDrugs();
       setTimeout(() => setMessage(null), 3000);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error deleting drug:', error);
-      setMessage({ type: 'error', text: 'Failed to delete drug' });
+      setMessage({ type: 'error', text: getErrorToast(error, 'delete drug').message });
     }
   };
 
@@ -665,6 +648,10 @@ export function SettingsPage() {
       console.error('Error restoring backup:', error);
       setMessage({ type: 'error', text: error?.message || 'Failed to restore backup' });
     } finally {
+      // The restore writes drugs and custom fields itself, even when it stops partway
+      data.clearCache();
+      fetchCustomFields();
+      fetchDrugs();
       setRestoringBackup(false);
       event.target.value = '';
     }
@@ -715,6 +702,12 @@ export function SettingsPage() {
     }
   };
 
+  const today = getTodayLocalDate();
+  const drugStock = new Map(drugs.map(drug => [drug.id, summarizeDrugStock(drug, drugLots, today)]));
+  const inventoryWarnings = Array.from(drugStock.values()).filter(stock =>
+    stock.expiredLots.length > 0 || stock.expiringSoonLots.length > 0 || stock.isLowStock
+  );
+
   if (loading) {
     return (
       <Layout currentPage="settings">
@@ -942,6 +935,30 @@ export function SettingsPage() {
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Ranch Time Zone
+                </label>
+                <select
+                  value={settings.time_zone || ''}
+                  onChange={(e) =>
+                    setSettings({ ...settings, time_zone: e.target.value || null })
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                >
+                  <option value="">Use this device's time zone</option>
+                  {TIME_ZONES.map(zone => (
+                    <option key={zone.value} value={zone.value}>{zone.label} ({zone.value})</option>
+                  ))}
+                  {settings.time_zone && !TIME_ZONES.some(zone => zone.value === settings.time_zone) && (
+                    <option value={settings.time_zone}>{settings.time_zone}</option>
+                  )}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Decides when "today" starts for due dates such as fence checks
+                </p>
+              </div>
             </div>
           </div>
 
@@ -954,9 +971,9 @@ export function SettingsPage() {
                   Default Animal Type
                 </label>
                 <select
-                  value={(settings as any).default_animal_type || 'Cattle'}
+                  value={settings.default_animal_type || 'Cattle'}
                   onChange={(e) =>
-                    setSettings({ ...settings, default_animal_type: e.target.value } as any)
+                    setSettings({ ...settings, default_animal_type: e.target.value as AnimalType })
                   }
                   className="w-full max-w-xs px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                 >
@@ -978,9 +995,9 @@ export function SettingsPage() {
                     type="number"
                     step="0.1"
                     min="0"
-                    value={(settings as any).cattle_adult_age || 2.0}
+                    value={settings.cattle_adult_age || 2.0}
                     onChange={(e) =>
-                      setSettings({ ...settings, cattle_adult_age: parseFloat(e.target.value) } as any)
+                      setSettings({ ...settings, cattle_adult_age: parseFloat(e.target.value) })
                     }
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   />
@@ -995,9 +1012,9 @@ export function SettingsPage() {
                     type="number"
                     step="0.1"
                     min="0"
-                    value={(settings as any).horse_adult_age || 4.0}
+                    value={settings.horse_adult_age || 4.0}
                     onChange={(e) =>
-                      setSettings({ ...settings, horse_adult_age: parseFloat(e.target.value) } as any)
+                      setSettings({ ...settings, horse_adult_age: parseFloat(e.target.value) })
                     }
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   />
@@ -1012,9 +1029,9 @@ export function SettingsPage() {
                     type="number"
                     step="0.1"
                     min="0"
-                    value={(settings as any).sheep_adult_age || 1.0}
+                    value={settings.sheep_adult_age || 1.0}
                     onChange={(e) =>
-                      setSettings({ ...settings, sheep_adult_age: parseFloat(e.target.value) } as any)
+                      setSettings({ ...settings, sheep_adult_age: parseFloat(e.target.value) })
                     }
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   />
@@ -1029,9 +1046,9 @@ export function SettingsPage() {
                     type="number"
                     step="0.1"
                     min="0"
-                    value={(settings as any).goat_adult_age || 1.0}
+                    value={settings.goat_adult_age || 1.0}
                     onChange={(e) =>
-                      setSettings({ ...settings, goat_adult_age: parseFloat(e.target.value) } as any)
+                      setSettings({ ...settings, goat_adult_age: parseFloat(e.target.value) })
                     }
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   />
@@ -1046,9 +1063,9 @@ export function SettingsPage() {
                     type="number"
                     step="0.1"
                     min="0"
-                    value={(settings as any).pig_adult_age || 0.75}
+                    value={settings.pig_adult_age || 0.75}
                     onChange={(e) =>
-                      setSettings({ ...settings, pig_adult_age: parseFloat(e.target.value) } as any)
+                      setSettings({ ...settings, pig_adult_age: parseFloat(e.target.value) })
                     }
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   />
@@ -1090,7 +1107,7 @@ export function SettingsPage() {
               <label className="relative inline-flex items-center cursor-pointer">
                 <input
                   type="checkbox"
-                  checked={(settings as any).enable_injection_feature || false}
+                  checked={settings.enable_injection_feature || false}
                   onChange={(e) => handleToggleInjectionFeature(e.target.checked)}
                   className="sr-only peer"
                 />
@@ -1100,6 +1117,36 @@ export function SettingsPage() {
           </div>
         </div>
 
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+          <div>
+            <div className="flex items-center gap-2 mb-4">
+              <BarChart3 className="w-6 h-6 text-green-600" />
+              <h2 className="text-xl font-semibold text-gray-900">Count Snapshots</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Save a herd count snapshot automatically for the Herd Count History report
+            </p>
+
+            <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+              <div>
+                <h3 className="font-medium text-gray-900">Monthly Snapshots</h3>
+                <p className="text-sm text-gray-600">
+                  Record the whole herd's counts on the first of every month
+                </p>
+              </div>
+              <label className="relative inline-flex items-center cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.auto_count_snapshots || false}
+                  onChange={(e) => handleToggleAutoCountSnapshots(e.target.checked)}
+                  className="sr-only peer"
+                />
+                <div className="w-11 h-6 bg-gray-300 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-green-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-green-600"></div>
+              </label>
+            </div>
+          </div>
+        </div>
+
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
           <div className="flex items-center justify-between">
             <div>
@@ -1215,7 +1262,7 @@ export function SettingsPage() {
                   </label>
                   <select
                     value={fieldForm.field_type}
-                    onChange={(e) => setFieldForm({ ...fieldForm, field_type: e.target.value as any })}
+                    onChange={(e) => setFieldForm({ ...fieldForm, field_type: e.target.value as CustomFieldDefinition['field_type'] })}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   >
                     <option value="text">Text</option>
@@ -1278,15 +1325,51 @@ export function SettingsPage() {
                 Manage the drugs and medications used for your cattle
               </p>
             </div>
-            <button
-              onClick={handleAddDrug}
-              className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg shadow-md hover:shadow-lg transition"
-            >
-              <Plus className="w-5 h-5 mr-2" />
-              Add Drug
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowProtocols(true)}
+                className="inline-flex items-center px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold rounded-lg transition"
+              >
+                <ClipboardList className="w-5 h-5 mr-2" />
+                Protocols
+              </button>
+              <button
+                onClick={handleAddDrug}
+                className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white font-semibold rounded-lg shadow-md hover:shadow-lg transition"
+              >
+                <Plus className="w-5 h-5 mr-2" />
+                Add Drug
+              </button>
+            </div>
           </div>
 
+          {inventoryWarnings.length > 0 && (
+            <div className="bg-amber-50 border border-amber-300 rounded-lg p-4 text-sm text-amber-900">
+              <div className="flex items-center gap-2 font-semibold mb-2">
+                <AlertTriangle className="w-5 h-5" />
+                Inventory Warnings
+              </div>
+              <ul className="space-y-1 list-disc list-inside">
+                {inventoryWarnings.map(stock => (
+                  <li key={stock.drugId}>
+                    <span className="font-medium">{stock.drugName}</span> ({stock.animalType}):{' '}
+                    {[
+                      ...stock.expiredLots.map(lot =>
+                        `lot ${lot.lot_number} expired ${formatDateForDisplay(lot.expiration_date)} with ${Number(lot.volume_on_hand_ml).toFixed(2)} mL left`
+                      ),
+                      ...stock.expiringSoonLots.map(lot =>
+                        `lot ${lot.lot_number} expires ${formatDateForDisplay(lot.expiration_date)}`
+                      ),
+                      ...(stock.isLowStock
+                        ? [`low stock - ${stock.usableOnHandMl.toFixed(2)} mL usable (reorder at ${stock.lowStockMl} mL)`]
+                        : []),
+                    ].join('; ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {drugs.length > 0 ? (
             <div className="overflow-x-auto">
               <table className="w-full">
@@ -1295,6 +1378,8 @@ export function SettingsPage() {
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">Animal Type</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">Drug Name</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">Dosage</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">Withdrawal</th>
+                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">On Hand</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-900">Notes</th>
                     <th className="px-4 py-3 text-right text-sm font-semibold text-gray-900">Actions</th>
                   </tr>
@@ -1311,8 +1396,25 @@ export function SettingsPage() {
                           ? `${drug.fixed_dose_ml} ml (fixed)`
                           : '-'}
                       </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {drug.meat_withdrawal_days > 0 || drug.milk_withdrawal_days > 0
+                          ? `Meat ${drug.meat_withdrawal_days}d / Milk ${drug.milk_withdrawal_days}d`
+                          : 'None'}
+                      </td>
+                      <td className={`px-4 py-3 text-sm ${drugStock.get(drug.id)?.isLowStock ? 'text-amber-700 font-semibold' : 'text-gray-600'}`}>
+                        {drugStock.get(drug.id)?.lots.length
+                          ? `${drugStock.get(drug.id)!.usableOnHandMl.toFixed(2)} mL`
+                          : '-'}
+                      </td>
                       <td className="px-4 py-3 text-sm text-gray-600">{drug.notes || '-'}</td>
                       <td className="px-4 py-3 text-right space-x-2">
+                        <button
+                          onClick={() => setInventoryDrug(drug)}
+                          className="inline-flex items-center px-3 py-1 text-sm text-green-700 hover:bg-green-50 rounded transition"
+                        >
+                          <Package className="w-4 h-4 mr-1" />
+                          Inventory
+                        </button>
                         <button
                           onClick={() => handleEditDrug(drug)}
                           className="inline-flex items-center px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded transition"
@@ -1340,6 +1442,23 @@ export function SettingsPage() {
           )}
         </div>
 
+        {inventoryDrug && currentRanch && (
+          <DrugLotsModal
+            drug={inventoryDrug}
+            ranchId={currentRanch.id}
+            onClose={() => setInventoryDrug(null)}
+            onChange={fetchDrugs}
+          />
+        )}
+
+        {showProtocols && currentRanch && (
+          <TreatmentProtocolsModal
+            drugs={drugs}
+            ranchId={currentRanch.id}
+            onClose={() => setShowProtocols(false)}
+          />
+        )}
+
         {showDrugForm && (
           <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
             <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6">
@@ -1390,7 +1509,7 @@ export function SettingsPage() {
                   </label>
                   <select
                     value={drugForm.dose_type}
-                    onChange={(e) => setDrugForm({ ...drugForm, dose_type: e.target.value as any })}
+                    onChange={(e) => setDrugForm({ ...drugForm, dose_type: e.target.value as 'per_pound' | 'fixed' })}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
                   >
                     <option value="per_pound">Per Pound (ml/lb)</option>
@@ -1428,6 +1547,55 @@ export function SettingsPage() {
                   </div>
                 )}
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Meat Withdrawal (days)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={drugForm.meat_withdrawal_days}
+                      onChange={(e) => setDrugForm({ ...drugForm, meat_withdrawal_days: e.target.value })}
+                      placeholder="e.g., 28"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Milk Withdrawal (days)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={drugForm.milk_withdrawal_days}
+                      onChange={(e) => setDrugForm({ ...drugForm, milk_withdrawal_days: e.target.value })}
+                      placeholder="e.g., 4"
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 -mt-2">
+                  Animals given this drug cannot be sold or butchered until the meat withdrawal period has passed
+                </p>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Low Stock Warning (mL, optional)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={drugForm.low_stock_ml}
+                    onChange={(e) => setDrugForm({ ...drugForm, low_stock_ml: e.target.value })}
+                    placeholder="e.g., 100"
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Notes (optional)
@@ -0,0 +1,45 @@
+import type { Animal, DataStore } from '../data/types';
+import type { AnimalType } from './animalTypes';
+
+export type AnimalSearchType = 'all' | 'tag' | 'name' | 'description';
+export type AnimalStatusFilter = 'ALL' | 'PRESENT' | 'SOLD' | 'BUTCHERED' | 'DEAD';
+export type AnimalTypeFilter = 'ALL' | AnimalType;
+// 'ALL', 'UNASSIGNED' for animals that aren't in a pasture, or a pasture id
+export type AnimalLocationFilter = string;
+
+export interface AnimalSearchOptions {
+  searchTerm: string;
+  searchType: AnimalSearchType;
+  statusFilter: AnimalStatusFilter;
+  animalTypeFilter: AnimalTypeFilter;
+  locationFilter?: AnimalLocationFilter;
+}
+
+// The store matches the term anywhere in the tag, name or description; tag and name
+// searches then keep only whole-value matches
+export async function searchAnimals(data: DataStore, ranchId: string, options: AnimalSearchOptions): Promise<Animal[]> {
+  const { searchTerm, searchType, statusFilter, animalTypeFilter, locationFilter = 'ALL' } = options;
+  const term = searchTerm.trim();
+
+  const animals = await data.animals.list(ranchId, {
+    search: term || undefined,
+    status: statusFilter,
+    animalType: animalTypeFilter,
+    location: locationFilter,
+  });
+
+  if (!term) return animals;
+
+  const termLower = term.toLowerCase();
+  switch (searchType) {
+    case 'tag':
+      return animals.filter(a => a.tag_number === term);
+    case 'name':
+      return animals.filter(a => a.name?.toLowerCase() === termLower);
+    case 'description':
+      return animals.filter(a => a.description?.toLowerCase().includes(termLower));
+    case 'all':
+    default:
+      return animals;
+  }
+}
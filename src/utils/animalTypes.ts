@@ -1,4 +1,6 @@
-export type AnimalType = 'Cattle' | 'Horse' | 'Sheep' | 'Goat' | 'Pig' | 'Donkey' | 'Other';
+import type { AnimalType } from '../lib/database.types';
+
+export type { AnimalType };
 
 export const ANIMAL_TYPES: AnimalType[] = ['Cattle', 'Horse', 'Sheep', 'Goat', 'Pig', 'Donkey', 'Other'];
 
@@ -12,6 +14,16 @@ export const ANIMAL_SEX_OPTIONS: Record<AnimalType, string[]> = {
   Other: ['N/A'],
 };
 
+export const GESTATION_DAYS: Record<AnimalType, number | null> = {
+  Cattle: 283,
+  Horse: 340,
+  Sheep: 147,
+  Goat: 150,
+  Pig: 114,
+  Donkey: 365,
+  Other: null,
+};
+
 export interface AutoPromotionRule {
   fromSex: string;
   toSex: string;
@@ -40,6 +52,49 @@ export function getSexOptions(animalType: AnimalType): string[] {
   return ANIMAL_SEX_OPTIONS[animalType] || [];
 }
 
+export function getGestationDays(animalType: AnimalType): number | null {
+  return GESTATION_DAYS[animalType] ?? null;
+}
+
+export function calculateExpectedDueDate(animalType: AnimalType, breedingDate: string): string | null {
+  const gestationDays = getGestationDays(animalType);
+  if (!gestationDays || !breedingDate) return null;
+
+  const [year, month, day] = breedingDate.split('T')[0].split('-').map(Number);
+  const dueDate = new Date(year, month - 1, day + gestationDays);
+  return `${dueDate.getFullYear()}-${String(dueDate.getMonth() + 1).padStart(2, '0')}-${String(dueDate.getDate()).padStart(2, '0')}`;
+}
+
+type AdultAgeSettings = {
+  adult_age_years?: number | null;
+} & Partial<Record<AutoPromotionRule['ageThresholdKey'], number>>;
+
+// Donkeys share the horse setting, matching their auto-promotion rules
+const ADULT_AGE_SETTING_KEYS: Record<AnimalType, AutoPromotionRule['ageThresholdKey'] | null> = {
+  Cattle: 'cattle_adult_age',
+  Horse: 'horse_adult_age',
+  Donkey: 'horse_adult_age',
+  Sheep: 'sheep_adult_age',
+  Goat: 'goat_adult_age',
+  Pig: 'pig_adult_age',
+  Other: null,
+};
+
+// Column defaults from ranch_settings, used when a ranch has no settings row yet
+const DEFAULT_ADULT_AGES: Record<AutoPromotionRule['ageThresholdKey'], number> = {
+  cattle_adult_age: 2.0,
+  horse_adult_age: 4.0,
+  sheep_adult_age: 1.0,
+  goat_adult_age: 1.0,
+  pig_adult_age: 0.75,
+};
+
+export function getAdultAgeYears(animalType: AnimalType, settings: AdultAgeSettings | null | undefined): number {
+  const key = ADULT_AGE_SETTING_KEYS[animalType];
+  if (!key) return Number(settings?.adult_age_years) || 1.1;
+  return Number(settings?.[key]) || DEFAULT_ADULT_AGES[key];
+}
+
 export function getAutoPromotionRules(animalType: AnimalType): AutoPromotionRule[] {
   return AUTO_PROMOTION_RULES[animalType] || [];
 }
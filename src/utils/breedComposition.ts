@@ -0,0 +1,108 @@
+import type { Json } from '../lib/database.types';
+import type { Animal } from '../data/types';
+
+// Percent of each breed, e.g. { Angus: 75, Hereford: 25 }. Percentages may add up to less
+// than 100 when part of the ancestry is unknown.
+export type BreedComposition = Record<string, number>;
+
+type BreedSource = Pick<Animal, 'breed' | 'percentage_blood' | 'breed_composition'>;
+
+const roundPercent = (value: number) => Math.round(value * 100) / 100;
+
+export function toBreedComposition(value: Json | null): BreedComposition | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const composition: BreedComposition = {};
+  for (const [breed, percent] of Object.entries(value)) {
+    if (typeof percent === 'number' && percent > 0) {
+      composition[breed] = percent;
+    }
+  }
+  return Object.keys(composition).length > 0 ? composition : null;
+}
+
+// An animal with only a breed recorded counts as that percentage (or purebred) of the breed
+export function getBreedComposition(animal: BreedSource): BreedComposition | null {
+  const composition = toBreedComposition(animal.breed_composition);
+  if (composition) return composition;
+  if (!animal.breed) return null;
+  return { [animal.breed]: animal.percentage_blood != null ? Number(animal.percentage_blood) : 100 };
+}
+
+export function calculateCalfBreedComposition(
+  sire: BreedSource | null | undefined,
+  dam: BreedSource | null | undefined
+): BreedComposition | null {
+  const sireComposition = sire ? getBreedComposition(sire) : null;
+  const damComposition = dam ? getBreedComposition(dam) : null;
+  if (!sireComposition || !damComposition) return null;
+
+  const composition: BreedComposition = {};
+  for (const breed of new Set([...Object.keys(sireComposition), ...Object.keys(damComposition)])) {
+    composition[breed] = roundPercent(((sireComposition[breed] || 0) + (damComposition[breed] || 0)) / 2);
+  }
+  return composition;
+}
+
+export function getPrimaryBreed(composition: BreedComposition): { breed: string; percentage: number } | null {
+  const [top] = Object.entries(composition).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  return top ? { breed: top[0], percentage: top[1] } : null;
+}
+
+export function formatBreedComposition(composition: BreedComposition | null): string {
+  if (!composition) return '';
+  return Object.entries(composition)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([breed, percent]) => `${breed} ${percent}%`)
+    .join(', ');
+}
+
+// Reads the "Angus 75%, Hereford 25%" form shown by formatBreedComposition. Returns null when
+// any part can't be read or the total is over 100%.
+export function parseBreedComposition(text: string): BreedComposition | null {
+  const composition: BreedComposition = {};
+
+  for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(.+?)\s+(\d+(?:\.\d+)?)\s*%?$/);
+    if (!match) return null;
+    const percent = parseFloat(match[2]);
+    if (percent <= 0) return null;
+    composition[match[1].trim()] = (composition[match[1].trim()] || 0) + percent;
+  }
+
+  const total = Object.values(composition).reduce((sum, percent) => sum + percent, 0);
+  return total > 0 && total <= 100 ? composition : null;
+}
+
+export interface BreedFieldInput {
+  source: string;
+  breed: string;
+  percentage_blood: string;
+  breed_composition: string;
+}
+
+// Works out what to store for an animal's breed fields. A composition typed in wins; otherwise a
+// calf born on the ranch inherits the average of its parents' compositions. Breed and percentage
+// blood fall back to the largest share of the composition when left blank.
+export function resolveBreedFields(
+  input: BreedFieldInput,
+  sire: BreedSource | null | undefined,
+  dam: BreedSource | null | undefined
+): Pick<Animal, 'breed' | 'percentage_blood' | 'breed_composition'> {
+  const breed = input.breed.trim() || null;
+  const percentage = input.percentage_blood ? parseFloat(input.percentage_blood) : null;
+
+  const composition =
+    (input.breed_composition.trim() ? parseBreedComposition(input.breed_composition) : null) ||
+    (input.source === 'BORN' ? calculateCalfBreedComposition(sire, dam) : null) ||
+    (breed ? { [breed]: percentage ?? 100 } : null);
+
+  const primary = composition ? getPrimaryBreed(composition) : null;
+  const resolvedBreed = breed || primary?.breed || null;
+
+  return {
+    breed: resolvedBreed,
+    percentage_blood: percentage ?? (resolvedBreed && composition ? composition[resolvedBreed] ?? null : null),
+    breed_composition: composition,
+  };
+}
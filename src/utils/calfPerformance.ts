@@ -0,0 +1,74 @@
+import type { Animal } from '../data/types';
+import { daysBetween } from './weightHistory';
+
+export const CALVING_EASE_LABELS: Record<number, string> = {
+  1: '1 - No assistance',
+  2: '2 - Easy pull',
+  3: '3 - Hard pull',
+  4: '4 - Caesarean',
+  5: '5 - Abnormal presentation',
+};
+
+// Beef Improvement Federation guidelines: weaning weights are adjusted to 205 days only when
+// the calf was weaned between 160 and 250 days old, and a breed-average birth weight stands
+// in when the actual one wasn't recorded.
+export const MIN_WEANING_AGE_DAYS = 160;
+export const MAX_WEANING_AGE_DAYS = 250;
+export const STANDARD_BIRTH_WEIGHT_LBS = 70;
+
+const MALE_CALF_SEXES = ['BULL', 'STEER'];
+
+// Pounds added for the age of the dam at calving, per BIF; dams 5 to 10 need no adjustment
+function ageOfDamAdjustment(damAgeYears: number, isMale: boolean): number {
+  const age = Math.floor(damAgeYears);
+  if (age <= 2) return isMale ? 60 : 54;
+  if (age === 3) return isMale ? 40 : 36;
+  if (age === 4) return isMale ? 20 : 18;
+  if (age >= 11) return isMale ? 20 : 18;
+  return 0;
+}
+
+export interface CalfPerformance {
+  calf: Animal;
+  damAgeAtCalving: number | null;
+  weaningAgeDays: number | null;
+  birthWeight: number | null;
+  weaningWeight: number | null;
+  adjusted205DayWeight: number | null;
+}
+
+export function calculateDamAgeAtCalving(damBirthDate: string | null, calfBirthDate: string | null): number | null {
+  if (!damBirthDate || !calfBirthDate) return null;
+  const days = daysBetween(damBirthDate, calfBirthDate);
+  return days > 0 ? Math.round((days / 365.25) * 10) / 10 : null;
+}
+
+export function calculateAdjusted205DayWeight(calf: Animal, damAgeAtCalving: number | null): number | null {
+  if ((calf.animal_type || 'Cattle') !== 'Cattle') return null;
+  if (!calf.birth_date || !calf.weaning_date || calf.weaning_weight_lbs == null) return null;
+
+  const weaningAgeDays = daysBetween(calf.birth_date, calf.weaning_date);
+  if (weaningAgeDays < MIN_WEANING_AGE_DAYS || weaningAgeDays > MAX_WEANING_AGE_DAYS) return null;
+
+  const birthWeight = calf.birth_weight_lbs != null ? Number(calf.birth_weight_lbs) : STANDARD_BIRTH_WEIGHT_LBS;
+  const weaningWeight = Number(calf.weaning_weight_lbs);
+  const adjusted = ((weaningWeight - birthWeight) / weaningAgeDays) * 205 + birthWeight;
+  const adjustment = damAgeAtCalving !== null
+    ? ageOfDamAdjustment(damAgeAtCalving, MALE_CALF_SEXES.includes(calf.sex.toUpperCase()))
+    : 0;
+
+  return Math.round(adjusted + adjustment);
+}
+
+export function getCalfPerformance(calf: Animal, dam: Animal | null | undefined): CalfPerformance {
+  const damAgeAtCalving = calculateDamAgeAtCalving(dam?.birth_date || null, calf.birth_date);
+
+  return {
+    calf,
+    damAgeAtCalving,
+    weaningAgeDays: calf.birth_date && calf.weaning_date ? daysBetween(calf.birth_date, calf.weaning_date) : null,
+    birthWeight: calf.birth_weight_lbs != null ? Number(calf.birth_weight_lbs) : null,
+    weaningWeight: calf.weaning_weight_lbs != null ? Number(calf.weaning_weight_lbs) : null,
+    adjusted205DayWeight: calculateAdjusted205DayWeight(calf, damAgeAtCalving),
+  };
+}
@@ -1,26 +1,6 @@
 import JSZip from 'jszip';
 import { supabase } from '../lib/supabase';
-import type { Animal, Injection, CustomField, CustomFieldValue } from '../lib/database.types';
-
-interface Drug {
-  id: string;
-  ranch_id: string;
-  drug_name: string;
-  ccs_per_pound: number | null;
-  fixed_dose_ml: number | null;
-  notes: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
-interface Fence {
-  id: string;
-  ranch_id: string;
-  description: string;
-  last_checked_date: string | null;
-  last_checked_by: string | null;
-  created_at: string;
-}
+import type { Animal, Injection, CustomField, CustomFieldValue, Drug, Fence } from '../lib/database.types';
 
 interface ComprehensiveBackupData {
   animals: Animal[];
@@ -37,21 +17,27 @@ export async function createComprehensiveBackup(
 ): Promise<Blob> {
   const zip = new JSZip();
 
-  const csvContent = await generateComprehensiveCSV(data);
+  const photoCounts = await addPhotosToZip(zip, data.animals, ranchId);
+
+  const csvContent = await generateComprehensiveCSV(data, photoCounts);
   zip.file('animals_complete_backup.csv', csvContent);
 
+  const medicalHistoryCSV = generateMedicalHistoryCSV(data.injections);
+  zip.file('medical_history.csv', medicalHistoryCSV);
+
   const drugsCSV = generateDrugsCSV(data.drugs);
   zip.file('drugs.csv', drugsCSV);
 
   const fencesCSV = generateFencesCSV(data.fences);
   zip.file('fences.csv', fencesCSV);
 
-  await addPhotosToZip(zip, data.animals, ranchId);
-
   return await zip.generateAsync({ type: 'blob' });
 }
 
-async function generateComprehensiveCSV(data: ComprehensiveBackupData): Promise<string> {
+async function generateComprehensiveCSV(
+  data: ComprehensiveBackupData,
+  photoCounts: Map<string, number>
+): Promise<string> {
   const { animals, injections, customFields, customFieldValues } = data;
 
   const headers = [
@@ -110,7 +96,7 @@ async function generateComprehensiveCSV(data: ComprehensiveBackupData): Promise<
       animal.description || '',
       animal.notes || '',
       medicalHistory,
-      animal.photo_count?.toString() || '0',
+      (photoCounts.get(animal.id) || 0).toString(),
       ...customFieldData,
     ];
   });
@@ -142,6 +128,51 @@ function escapeCSVField(field: string): string {
   return field;
 }
 
+function generateMedicalHistoryCSV(injections: Injection[]): string {
+  const headers = [
+    'Record ID',
+    'Animal UID',
+    'Date',
+    'Description',
+    'Drug ID',
+    'Drug Name',
+    'Dose',
+    'Dose Units',
+    'Route',
+    'Injection Site',
+    'Lot Number',
+    'Administered By',
+    'Reason',
+  ];
+
+  const sortedInjections = [...injections].sort((a, b) =>
+    new Date(a.date).getTime() - new Date(b.date).getTime()
+  );
+
+  const rows = sortedInjections.map(inj => [
+    inj.id,
+    inj.animal_id,
+    inj.date,
+    inj.description || '',
+    inj.drug_id || '',
+    inj.drug_name || '',
+    inj.dose?.toString() || '',
+    inj.dose_units || '',
+    inj.route || '',
+    inj.injection_site || '',
+    inj.lot_number || '',
+    inj.administered_by || '',
+    inj.reason || '',
+  ]);
+
+  const csvLines = [
+    headers.map(h => escapeCSVField(h)).join(','),
+    ...rows.map(row => row.map(field => escapeCSVField(field?.toString() || '')).join(',')),
+  ];
+
+  return csvLines.join('\n');
+}
+
 function generateDrugsCSV(drugs: Drug[]): string {
   const headers = [
     'Drug ID',
@@ -149,6 +180,8 @@ function generateDrugsCSV(drugs: Drug[]): string {
     'CCs per Pound',
     'Fixed Dose (mL)',
     'Notes',
+    'Meat Withdrawal (days)',
+    'Milk Withdrawal (days)',
   ];
 
   const rows = drugs.map(drug => [
@@ -157,6 +190,8 @@ function generateDrugsCSV(drugs: Drug[]): string {
     drug.ccs_per_pound?.toString() || '',
     drug.fixed_dose_ml?.toString() || '',
     drug.notes || '',
+    drug.meat_withdrawal_days?.toString() || '0',
+    drug.milk_withdrawal_days?.toString() || '0',
   ]);
 
   const csvLines = [
@@ -173,6 +208,8 @@ function generateFencesCSV(fences: Fence[]): string {
     'Description',
     'Last Checked Date',
     'Last Checked By',
+    'Check Frequency',
+    'Check Due Date',
   ];
 
   const rows = fences.map(fence => [
@@ -180,6 +217,8 @@ function generateFencesCSV(fences: Fence[]): string {
     fence.description || '',
     fence.last_checked_date || '',
     fence.last_checked_by || '',
+    fence.check_frequency,
+    fence.check_due_date || '',
   ]);
 
   const csvLines = [
@@ -194,12 +233,13 @@ async function addPhotosToZip(
   zip: JSZip,
   animals: Animal[],
   ranchId: string
-): Promise<void> {
+): Promise<Map<string, number>> {
+  const photoCounts = new Map<string, number>();
   const photosFolder = zip.folder('photos');
-  if (!photosFolder) return;
+  if (!photosFolder) return photoCounts;
 
   const animalIds = animals.map(a => a.id);
-  if (animalIds.length === 0) return;
+  if (animalIds.length === 0) return photoCounts;
 
   const { data: photoRecords, error: photoError } = await supabase
     .from('animal_photos')
@@ -209,12 +249,12 @@ async function addPhotosToZip(
 
   if (photoError) {
     console.error('Failed to fetch photo records:', photoError);
-    return;
+    return photoCounts;
   }
 
   if (!photoRecords || photoRecords.length === 0) {
     console.log('No photos found in database');
-    return;
+    return photoCounts;
   }
 
   console.log(`Found ${photoRecords.length} photos to backup`);
@@ -243,11 +283,14 @@ async function addPhotosToZip(
         const photoIdShort = photoRecord.id.split('-')[0];
         const filename = `${animal.id}_${safeTagNumber}_${photoIdShort}.jpg`;
         photosFolder.file(filename, data);
+        photoCounts.set(animal.id, (photoCounts.get(animal.id) || 0) + 1);
       }
     } catch (err) {
       console.warn(`Error downloading photo ${photoRecord.id}:`, err);
     }
   }
+
+  return photoCounts;
 }
 
 export function downloadComprehensiveBackup(blob: Blob, ranchName?: string) {
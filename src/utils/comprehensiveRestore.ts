@@ -1,5 +1,8 @@
 import JSZip from 'jszip';
 import { supabase } from '../lib/supabase';
+import { parseInjectionDescription } from './medicalRecords';
+import { FENCE_CHECK_FREQUENCIES, type FenceCheckFrequency } from './fenceSchedule';
+import type { TreatmentRoute } from '../lib/database.types';
 
 interface RestoreSummary {
   animalsAdded: number;
@@ -73,6 +76,10 @@ export async function restoreComprehensiveBackup(
     const csvContent = await csvFile.async('string');
     const parsedAnimals = parseCSV(csvContent);
 
+    // Newer backups carry one row per treatment in medical_history.csv; the packed
+    // Medical History column is only used for backups made before it existed.
+    const hasStructuredMedicalHistory = zipContent.file('medical_history.csv') !== null;
+
     const { data: existingAnimals, error: fetchError } = await supabase
       .from('animals')
       .select('id')
@@ -97,7 +104,7 @@ export async function restoreComprehensiveBackup(
         if (existingAnimalIds.has(backupAnimalId)) {
           summary.animalsSkipped++;
 
-          if (parsedAnimal.medical_history) {
+          if (parsedAnimal.medical_history && !hasStructuredMedicalHistory) {
             const medicalHistorySummary = await restoreMedicalHistory(
               parsedAnimal.medical_history,
               backupAnimalId,
@@ -168,7 +175,7 @@ export async function restoreComprehensiveBackup(
         summary.animalsAdded++;
         newAnimalIdMap.set(backupAnimalId, newAnimal.id);
 
-        if (parsedAnimal.medical_history) {
+        if (parsedAnimal.medical_history && !hasStructuredMedicalHistory) {
           const medicalHistorySummary = await restoreMedicalHistory(
             parsedAnimal.medical_history,
             newAnimal.id,
@@ -227,6 +234,20 @@ export async function restoreComprehensiveBackup(
       summary.errors.push(...drugsSummary.errors);
     }
 
+    if (hasStructuredMedicalHistory) {
+      const medicalHistorySummary = await restoreStructuredMedicalHistory(
+        zipContent,
+        newAnimalIdMap,
+        existingAnimalIds,
+        ranchId
+      );
+      summary.medicalHistoryAdded += medicalHistorySummary.added;
+      summary.medicalHistorySkipped += medicalHistorySummary.skipped;
+      if (medicalHistorySummary.errors.length > 0) {
+        summary.errors.push(...medicalHistorySummary.errors);
+      }
+    }
+
     const fencesSummary = await restoreFences(zipContent, ranchId);
     summary.fencesAdded = fencesSummary.added;
     summary.fencesSkipped = fencesSummary.skipped;
@@ -269,6 +290,8 @@ async function restoreMedicalHistory(
       continue;
     }
 
+    const parsedInjection = parseInjectionDescription(entry.description);
+
     const { error } = await supabase
       .from('medical_history')
       .insert({
@@ -276,6 +299,9 @@ async function restoreMedicalHistory(
         ranch_id: ranchId,
         date: entry.date,
         description: entry.description,
+        drug_name: parsedInjection?.drug_name || null,
+        dose: parsedInjection?.dose ?? null,
+        dose_units: parsedInjection?.dose_units || null,
       });
 
     if (!error) {
@@ -289,6 +315,105 @@ async function restoreMedicalHistory(
   return { added, skipped };
 }
 
+async function restoreStructuredMedicalHistory(
+  zipContent: JSZip,
+  animalIdMap: Map<string, string>,
+  existingAnimalIds: Set<string>,
+  ranchId: string
+): Promise<{ added: number; skipped: number; errors: string[] }> {
+  const result = { added: 0, skipped: 0, errors: [] as string[] };
+
+  try {
+    const medicalFile = zipContent.file('medical_history.csv');
+    if (!medicalFile) return result;
+
+    const csvContent = await medicalFile.async('string');
+    const records = splitCSVRecords(csvContent);
+
+    if (records.length < 2) {
+      return result;
+    }
+
+    const [existingHistoryResult, drugsResult] = await Promise.all([
+      supabase
+        .from('medical_history')
+        .select('animal_id, date, description')
+        .eq('ranch_id', ranchId),
+      supabase
+        .from('drugs')
+        .select('id, drug_name')
+        .eq('ranch_id', ranchId),
+    ]);
+
+    if (existingHistoryResult.error) {
+      result.errors.push(`Error fetching existing medical history: ${existingHistoryResult.error.message}`);
+      return result;
+    }
+
+    const existingSet = new Set(
+      existingHistoryResult.data?.map(h => `${h.animal_id}|${h.date}|${h.description}`) || []
+    );
+    const drugs = drugsResult.data || [];
+
+    for (let i = 1; i < records.length; i++) {
+      const values = parseCSVLine(records[i]);
+
+      const backupAnimalId = values[1];
+      const animalId = animalIdMap.get(backupAnimalId) ||
+        (existingAnimalIds.has(backupAnimalId) ? backupAnimalId : null);
+      const date = values[2];
+      const description = values[3] || '';
+
+      if (!animalId || !date) {
+        result.skipped++;
+        continue;
+      }
+
+      const key = `${animalId}|${date}|${description}`;
+      if (existingSet.has(key)) {
+        result.skipped++;
+        continue;
+      }
+
+      const backupDrugId = values[4];
+      const drugName = values[5] || null;
+      const drug = drugs.find(d => d.id === backupDrugId) ||
+        (drugName ? drugs.find(d => d.drug_name.toLowerCase() === drugName.toLowerCase()) : undefined);
+
+      const { error: insertError } = await supabase
+        .from('medical_history')
+        .insert({
+          animal_id: animalId,
+          ranch_id: ranchId,
+          date,
+          description,
+          drug_id: drug?.id || null,
+          drug_name: drugName,
+          dose: values[6] ? parseFloat(values[6]) : null,
+          dose_units: values[7] || null,
+          route: (values[8] || null) as TreatmentRoute | null,
+          injection_site: values[9] || null,
+          lot_number: values[10] || null,
+          administered_by: values[11] || null,
+          reason: values[12] || null,
+        });
+
+      if (insertError) {
+        result.errors.push(`Failed to restore medical record from ${date}: ${insertError.message}`);
+        result.skipped++;
+      } else {
+        result.added++;
+        existingSet.add(key);
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    result.errors.push(`Error restoring medical history: ${errorMessage}`);
+  }
+
+  return result;
+}
+
 function parseMedicalHistory(historyString: string): ParsedMedicalHistory[] {
   if (!historyString || historyString.trim() === '') return [];
 
@@ -384,6 +509,29 @@ function parseCSV(csvContent: string): ParsedAnimal[] {
   return animals;
 }
 
+// Splits CSV content into records, keeping line breaks that fall inside quoted fields
+function splitCSVRecords(csvContent: string): string[] {
+  const records: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of csvContent) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    }
+
+    if (char === '\n' && !inQuotes) {
+      if (current.trim()) records.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) records.push(current);
+  return records;
+}
+
 function parseCSVLine(line: string): string[] {
   const values: string[] = [];
   let current = '';
@@ -484,18 +632,6 @@ async function restorePhotos(
     }
   }
 
-  if (photosRestored > 0) {
-    for (const [oldId, newId] of animalIdMap.entries()) {
-      const animalPhotoCount = photoFiles.filter(p => p.name.startsWith(oldId + '_')).length;
-      if (animalPhotoCount > 0) {
-        await supabase
-          .from('animals')
-          .update({ photo_count: animalPhotoCount })
-          .eq('id', newId);
-      }
-    }
-  }
-
   console.log(`Total photos restored: ${photosRestored}`);
   return photosRestored;
 }
@@ -541,6 +677,8 @@ async function restoreDrugs(
       const ccsPerPound = values[2] ? parseFloat(values[2]) : null;
       const fixedDoseMl = values[3] ? parseFloat(values[3]) : null;
       const notes = values[4] || null;
+      const meatWithdrawalDays = values[5] ? parseInt(values[5], 10) : 0;
+      const milkWithdrawalDays = values[6] ? parseInt(values[6], 10) : 0;
 
       if (existingDrugIds.has(drugId) || existingDrugNames.has(drugName.toLowerCase())) {
         result.skipped++;
@@ -555,6 +693,8 @@ async function restoreDrugs(
           drug_name: drugName,
           ccs_per_pound: ccsPerPound,
           fixed_dose_ml: fixedDoseMl,
+          meat_withdrawal_days: meatWithdrawalDays,
+          milk_withdrawal_days: milkWithdrawalDays,
           notes: notes,
         });
 
@@ -612,6 +752,11 @@ async function restoreFences(
       const description = values[1];
       const lastCheckedDate = values[2] || null;
       const lastCheckedBy = values[3] || null;
+      // Backups made before check scheduling have no frequency columns
+      const checkFrequency = FENCE_CHECK_FREQUENCIES.includes(values[4] as FenceCheckFrequency)
+        ? values[4] as FenceCheckFrequency
+        : 'MONTHLY';
+      const checkDueDate = values[5] || null;
 
       if (existingFenceIds.has(fenceId)) {
         result.skipped++;
@@ -626,6 +771,8 @@ async function restoreFences(
           description: description,
           last_checked_date: lastCheckedDate,
           last_checked_by: lastCheckedBy,
+          check_frequency: checkFrequency,
+          check_due_date: checkDueDate,
         });
 
       if (insertError) {
@@ -0,0 +1,74 @@
+import type { CountReportSnapshot } from '../lib/database.types';
+import type { CountsReport } from './reportGenerators';
+import { ANIMAL_TYPES, type AnimalType } from './animalTypes';
+
+export type CountField = Exclude<keyof CountsReport, 'asOfDate' | 'presentByPasture'>;
+
+export const COUNT_FIELDS: { key: CountField; label: string }[] = [
+  { key: 'totalPresent', label: 'Total Present' },
+  { key: 'totalSold', label: 'Total Sold' },
+  { key: 'totalDead', label: 'Total Dead' },
+  { key: 'presentBulls', label: 'Bulls' },
+  { key: 'presentCows', label: 'Cows' },
+  { key: 'presentSteers', label: 'Steers' },
+  { key: 'presentHeifers', label: 'Heifers' },
+  { key: 'presentAdults', label: 'Adults' },
+  { key: 'presentCalves', label: 'Calves' },
+];
+
+export interface CountSnapshot {
+  id: string;
+  // Date the counts describe; snapshots saved before as-of dates existed use the day they were taken
+  date: string;
+  source: CountReportSnapshot['source'];
+  // Species the counts were filtered to when saved; older and automatic snapshots cover the whole herd
+  animalType: 'ALL' | AnimalType;
+  counts: CountsReport;
+}
+
+export interface CountComparisonRow {
+  key: CountField;
+  label: string;
+  first: number;
+  second: number;
+  change: number;
+}
+
+export function toCountSnapshot(row: CountReportSnapshot): CountSnapshot | null {
+  const data = row.data;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+
+  const takenOn = (row.snapshot_date || row.created_at || '').split('T')[0];
+  const date = typeof data.asOfDate === 'string' ? data.asOfDate : takenOn;
+  if (!date) return null;
+
+  // Fields missing from older snapshots count as zero; pasture counts are only shown for the live report
+  const presentByPasture: CountsReport['presentByPasture'] = [];
+  const counts = { asOfDate: date, presentByPasture } as CountsReport;
+  for (const { key } of COUNT_FIELDS) {
+    const value = data[key];
+    counts[key] = typeof value === 'number' ? value : 0;
+  }
+
+  const animalType = ANIMAL_TYPES.find(type => type === data.animalType) || 'ALL';
+
+  return { id: row.id, date, source: row.source, animalType, counts };
+}
+
+// Oldest first, which is the order the trend charts plot in
+export function toCountSnapshots(rows: CountReportSnapshot[]): CountSnapshot[] {
+  return rows
+    .map(toCountSnapshot)
+    .filter((snapshot): snapshot is CountSnapshot => snapshot !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function compareCountSnapshots(first: CountSnapshot, second: CountSnapshot): CountComparisonRow[] {
+  return COUNT_FIELDS.map(({ key, label }) => ({
+    key,
+    label,
+    first: first.counts[key],
+    second: second.counts[key],
+    change: second.counts[key] - first.counts[key],
+  }));
+}
@@ -167,8 +167,8 @@ export function convertV1Animal(
   },
   ranchId: string,
   uidToIdMap: Map<string, string>
-): Partial<Omit<Animal, 'sex'> & { sex: 'BULL' | 'STEER' | 'HEIFER' }> {
-  const animal: Partial<Animal> = {
+): Animal {
+  const animal: Animal = {
     ranch_id: ranchId,
     legacy_uid: row.uid || null,
     tag_number: row.tagNumber || null,
@@ -185,11 +185,11 @@ export function convertV1Animal(
   };
 
   if (row.motherUID && uidToIdMap.has(row.motherUID)) {
-    animal.mother_id = uidToIdMap.get(row.motherUID);
+    animal.mother_id = uidToIdMap.get(row.motherUID)!;
   }
 
   if (row.fatherUID && uidToIdMap.has(row.fatherUID)) {
-    animal.father_id = uidToIdMap.get(row.fatherUID);
+    animal.father_id = uidToIdMap.get(row.fatherUID)!;
   }
 
   return animal;
@@ -204,7 +204,7 @@ export function convertV1Medical(
   ranchId: string,
   uidToIdMap: Map<string, string>,
   userId: string | null
-): Partial<MedicalHistory> | null {
+): MedicalHistory | null {
   if (!row.animalUID || !uidToIdMap.has(row.animalUID)) {
     return null;
   }
@@ -214,7 +214,7 @@ export function convertV1Medical(
   }
 
   return {
-    animal_id: uidToIdMap.get(row.animalUID),
+    animal_id: uidToIdMap.get(row.animalUID)!,
     ranch_id: ranchId,
     date: parseV1Date(row.date) || new Date().toISOString().split('T')[0],
     description: row.description,
@@ -435,14 +435,14 @@ export function convertRanchRAnimal(
   row: RanchRAnimalRow | RanchRCalfRow,
   ranchId: string,
   primaryIdToIdMap: Map<string, string>
-): Partial<Omit<Animal, 'sex'> & { sex: 'BULL' | 'STEER' | 'HEIFER' }> {
+): Animal {
   const primaryId = row.primaryId?.trim() || null;
   const name = row.secondaryId?.trim() || primaryId;
   const source = (row.owner?.toLowerCase().includes('purchased') || row.seller) ? 'PURCHASED' : 'BORN';
 
   const { tagNumber, tagColor } = splitTagNumberAndColor(primaryId);
 
-  const animal: Partial<Animal> = {
+  const animal: Animal = {
     ranch_id: ranchId,
     legacy_uid: primaryId,
     name: name,
@@ -459,11 +459,11 @@ export function convertRanchRAnimal(
   };
 
   if (row.motherId && primaryIdToIdMap.has(row.motherId)) {
-    animal.mother_id = primaryIdToIdMap.get(row.motherId);
+    animal.mother_id = primaryIdToIdMap.get(row.motherId)!;
   }
 
   if (row.fatherId && primaryIdToIdMap.has(row.fatherId)) {
-    animal.father_id = primaryIdToIdMap.get(row.fatherId);
+    animal.father_id = primaryIdToIdMap.get(row.fatherId)!;
   }
 
   return animal;
@@ -474,7 +474,7 @@ export function convertRanchRMedical(
   ranchId: string,
   primaryIdToIdMap: Map<string, string>,
   userId: string | null
-): Partial<MedicalHistory> | null {
+): MedicalHistory | null {
   if (!row.cattle || !primaryIdToIdMap.has(row.cattle)) {
     return null;
   }
@@ -484,7 +484,7 @@ export function convertRanchRMedical(
   }
 
   return {
-    animal_id: primaryIdToIdMap.get(row.cattle),
+    animal_id: primaryIdToIdMap.get(row.cattle)!,
     ranch_id: ranchId,
     date: parseRanchRDate(row.date) || new Date().toISOString().split('T')[0],
     description: row.treatmentName,
@@ -0,0 +1,84 @@
+import type { Database } from '../lib/database.types';
+import { parseLocalDate } from './printHelpers';
+
+type DrugLot = Database['public']['Tables']['drug_lots']['Row'];
+
+export const EXPIRING_SOON_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface InventoryDrug {
+  id: string;
+  drug_name: string;
+  animal_type: string;
+  low_stock_ml: number | null;
+}
+
+export interface DrugStockSummary {
+  drugId: string;
+  drugName: string;
+  animalType: string;
+  lots: DrugLot[];
+  onHandMl: number;
+  usableOnHandMl: number;
+  inventoryValue: number;
+  expiredLots: DrugLot[];
+  expiringSoonLots: DrugLot[];
+  lowStockMl: number | null;
+  isLowStock: boolean;
+}
+
+export function isLotExpired(lot: DrugLot, onDate: string): boolean {
+  if (!lot.expiration_date) return false;
+  return parseLocalDate(lot.expiration_date).getTime() < parseLocalDate(onDate).getTime();
+}
+
+export function isLotExpiringSoon(lot: DrugLot, onDate: string): boolean {
+  if (!lot.expiration_date || isLotExpired(lot, onDate)) return false;
+  const daysLeft = (parseLocalDate(lot.expiration_date).getTime() - parseLocalDate(onDate).getTime()) / MS_PER_DAY;
+  return daysLeft <= EXPIRING_SOON_DAYS;
+}
+
+// First-expiring-first-out: the unexpired lot with stock that expires soonest, then the oldest received.
+export function selectLotForAdministration(lots: DrugLot[], onDate: string): DrugLot | null {
+  const candidates = lots
+    .filter(lot => Number(lot.volume_on_hand_ml) > 0 && !isLotExpired(lot, onDate))
+    .sort((a, b) => {
+      if (a.expiration_date && b.expiration_date && a.expiration_date !== b.expiration_date) {
+        return a.expiration_date.localeCompare(b.expiration_date);
+      }
+      if (a.expiration_date && !b.expiration_date) return -1;
+      if (!a.expiration_date && b.expiration_date) return 1;
+      return a.received_date.localeCompare(b.received_date);
+    });
+
+  return candidates[0] || null;
+}
+
+export function summarizeDrugStock(drug: InventoryDrug, lots: DrugLot[], onDate: string): DrugStockSummary {
+  const drugLots = lots.filter(lot => lot.drug_id === drug.id);
+  const stockedLots = drugLots.filter(lot => Number(lot.volume_on_hand_ml) > 0);
+  const usableLots = stockedLots.filter(lot => !isLotExpired(lot, onDate));
+
+  const onHandMl = stockedLots.reduce((sum, lot) => sum + Number(lot.volume_on_hand_ml), 0);
+  const usableOnHandMl = usableLots.reduce((sum, lot) => sum + Number(lot.volume_on_hand_ml), 0);
+  const inventoryValue = stockedLots.reduce(
+    (sum, lot) => sum + Number(lot.volume_on_hand_ml) * Number(lot.cost_per_ml || 0),
+    0
+  );
+  const lowStockMl = drug.low_stock_ml !== null ? Number(drug.low_stock_ml) : null;
+
+  return {
+    drugId: drug.id,
+    drugName: drug.drug_name,
+    animalType: drug.animal_type || 'Cattle',
+    lots: drugLots,
+    onHandMl,
+    usableOnHandMl,
+    inventoryValue,
+    expiredLots: stockedLots.filter(lot => isLotExpired(lot, onDate)),
+    expiringSoonLots: stockedLots.filter(lot => isLotExpiringSoon(lot, onDate)),
+    lowStockMl,
+    isLowStock: lowStockMl !== null && usableOnHandMl < lowStockMl,
+  };
+}
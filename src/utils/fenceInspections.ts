@@ -0,0 +1,35 @@
+import type { FenceInspection } from '../lib/database.types';
+
+export const FENCE_CONDITION_LABELS: Record<number, string> = {
+  5: 'Good',
+  4: 'Minor wear',
+  3: 'Needs work',
+  2: 'Poor',
+  1: 'Down',
+};
+
+export function getConditionColor(rating: number | null): string {
+  if (rating === null) return 'bg-gray-100 text-gray-700';
+  if (rating >= 4) return 'bg-green-100 text-green-800';
+  if (rating === 3) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+}
+
+// An inspection that found something stays open until a repair date is recorded
+export function isOpenIssue(inspection: FenceInspection): boolean {
+  return !!inspection.issues_found?.trim() && !inspection.repair_completed_on;
+}
+
+// Each fence's inspections, newest first
+export function groupInspectionsByFence(inspections: FenceInspection[]): Map<string, FenceInspection[]> {
+  const byFence = new Map<string, FenceInspection[]>();
+  const sorted = [...inspections].sort(
+    (a, b) => b.inspected_on.localeCompare(a.inspected_on) || (b.created_at || '').localeCompare(a.created_at || '')
+  );
+  for (const inspection of sorted) {
+    const list = byFence.get(inspection.fence_id) || [];
+    list.push(inspection);
+    byFence.set(inspection.fence_id, list);
+  }
+  return byFence;
+}
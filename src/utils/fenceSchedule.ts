@@ -0,0 +1,122 @@
+import type { Fence, FenceInspection } from '../lib/database.types';
+import { parseLocalDate } from './printHelpers';
+import { daysBetween } from './weightHistory';
+
+export type FenceCheckFrequency = Fence['check_frequency'];
+
+export const FENCE_CHECK_FREQUENCIES: FenceCheckFrequency[] = [
+  'WEEKLY',
+  'BIWEEKLY',
+  'MONTHLY',
+  'QUARTERLY',
+  'YEARLY',
+  'BEFORE_TURNOUT',
+  'AFTER_STORMS',
+];
+
+export const FENCE_CHECK_FREQUENCY_LABELS: Record<FenceCheckFrequency, string> = {
+  WEEKLY: 'Weekly',
+  BIWEEKLY: 'Every 2 weeks',
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly',
+  YEARLY: 'Yearly',
+  BEFORE_TURNOUT: 'Before turnout',
+  AFTER_STORMS: 'After storms',
+};
+
+// Days between routine checks. Event-based frequencies only come due when a check date is set.
+const CHECK_INTERVAL_DAYS: Record<FenceCheckFrequency, number | null> = {
+  WEEKLY: 7,
+  BIWEEKLY: 14,
+  MONTHLY: 30,
+  QUARTERLY: 91,
+  YEARLY: 365,
+  BEFORE_TURNOUT: null,
+  AFTER_STORMS: null,
+};
+
+// A fence ridden in the two weeks before turnout counts as checked for it; a storm check has
+// to happen after the storm.
+const REQUESTED_CHECK_LEAD_DAYS = 14;
+
+// How far ahead the route sheet looks
+export const ROUTE_SHEET_DAYS = 7;
+
+export interface FenceCheckStatus {
+  fence: Fence;
+  lastChecked: string | null;
+  dueDate: string | null;
+  // Positive when past due, zero on the due date, negative before it; null when nothing is due
+  daysOverdue: number | null;
+}
+
+function addDays(date: string, days: number): string {
+  const result = parseLocalDate(date);
+  result.setDate(result.getDate() + days);
+  return `${result.getFullYear()}-${String(result.getMonth() + 1).padStart(2, '0')}-${String(result.getDate()).padStart(2, '0')}`;
+}
+
+function isRequestedCheckDone(fence: Fence, lastChecked: string | null): boolean {
+  if (!fence.check_due_date || !lastChecked) return false;
+  const lead = fence.check_frequency === 'BEFORE_TURNOUT' ? REQUESTED_CHECK_LEAD_DAYS : 0;
+  return lastChecked >= addDays(fence.check_due_date, -lead);
+}
+
+export function getFenceCheckStatus(fence: Fence, lastChecked: string | null, today: string): FenceCheckStatus {
+  const dueDates: string[] = [];
+
+  const interval = CHECK_INTERVAL_DAYS[fence.check_frequency];
+  if (interval !== null) {
+    // A fence that has never been checked is due now
+    dueDates.push(lastChecked ? addDays(lastChecked, interval) : today);
+  }
+  if (fence.check_due_date && !isRequestedCheckDone(fence, lastChecked)) {
+    dueDates.push(fence.check_due_date);
+  }
+
+  const dueDate = dueDates.length > 0 ? dueDates.sort()[0] : null;
+  return {
+    fence,
+    lastChecked,
+    dueDate,
+    daysOverdue: dueDate ? daysBetween(dueDate, today) : null,
+  };
+}
+
+// Most overdue first, then by due date; fences with nothing due go last
+export function getFenceCheckStatuses(fences: Fence[], inspections: FenceInspection[], today: string): FenceCheckStatus[] {
+  const lastCheckedByFence = new Map<string, string>();
+  for (const inspection of inspections) {
+    const current = lastCheckedByFence.get(inspection.fence_id);
+    if (!current || inspection.inspected_on > current) {
+      lastCheckedByFence.set(inspection.fence_id, inspection.inspected_on);
+    }
+  }
+
+  return fences
+    .map(fence => getFenceCheckStatus(fence, lastCheckedByFence.get(fence.id) ?? fence.last_checked_date, today))
+    .sort((a, b) => {
+      if (a.daysOverdue === null || b.daysOverdue === null) {
+        return (a.daysOverdue === null ? 1 : 0) - (b.daysOverdue === null ? 1 : 0)
+          || a.fence.description.localeCompare(b.fence.description);
+      }
+      return b.daysOverdue - a.daysOverdue || a.fence.description.localeCompare(b.fence.description);
+    });
+}
+
+export function isFenceOverdue(status: FenceCheckStatus): boolean {
+  return status.daysOverdue !== null && status.daysOverdue > 0;
+}
+
+// Fences due on or before the last day of the route sheet, overdue ones included
+export function isFenceDueWithin(status: FenceCheckStatus, days: number): boolean {
+  return status.daysOverdue !== null && status.daysOverdue > -days;
+}
+
+export function describeFenceDue(status: FenceCheckStatus): string {
+  if (status.daysOverdue === null) return 'Not scheduled';
+  if (status.daysOverdue > 0) return `${status.daysOverdue} day${status.daysOverdue === 1 ? '' : 's'} overdue`;
+  if (status.daysOverdue === 0) return 'Due today';
+  const daysLeft = -status.daysOverdue;
+  return `Due in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`;
+}
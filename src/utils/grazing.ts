@@ -0,0 +1,214 @@
+import type { AnimalMove, AnimalType, GrazingPlan, Pasture } from '../lib/database.types';
+import type { Animal } from '../data/types';
+import { daysBetween } from './weightHistory';
+
+// One animal unit is a 1,000 lb cow, which eats about 26 lbs of forage dry matter a day; an
+// animal-unit month (AUM) is what it eats in 30 days.
+export const AU_DAILY_FORAGE_LBS = 26;
+export const AUM_FORAGE_LBS = AU_DAILY_FORAGE_LBS * 30;
+
+// Other species eat more for their size than cattle do. The default weight stands in for
+// animals that haven't been weighed.
+const ANIMAL_UNIT_FACTORS: Record<AnimalType, { perThousandLbs: number; defaultWeight: number }> = {
+  Cattle: { perThousandLbs: 1, defaultWeight: 1000 },
+  Horse: { perThousandLbs: 1.25, defaultWeight: 1000 },
+  Sheep: { perThousandLbs: 1.33, defaultWeight: 150 },
+  Goat: { perThousandLbs: 1.5, defaultWeight: 100 },
+  Pig: { perThousandLbs: 1, defaultWeight: 250 },
+  Donkey: { perThousandLbs: 1, defaultWeight: 500 },
+  Other: { perThousandLbs: 1, defaultWeight: 500 },
+};
+
+export type GrazingFlag = 'OVERGRAZED' | 'OVERDUE_TO_MOVE' | 'UNDER_RESTED';
+
+export const GRAZING_FLAG_LABELS: Record<GrazingFlag, string> = {
+  OVERGRAZED: 'Overgrazed',
+  OVERDUE_TO_MOVE: 'Overdue to move',
+  UNDER_RESTED: 'Grazed before rested',
+};
+
+// A stretch of time one animal spent in one pasture; `to` is null while it's still there
+export interface PastureStay {
+  animalId: string;
+  pastureId: string;
+  from: string;
+  to: string | null;
+}
+
+export interface PastureGrazingStatus {
+  pasture: Pasture;
+  headCount: number;
+  // Animals counted at their species' default weight
+  unweighedCount: number;
+  animalUnits: number;
+  // Forage that can be grazed under the utilization target; null without acreage and an estimate
+  usableForageLbs: number | null;
+  carryingCapacityAum: number | null;
+  // Forage eaten since the estimate was made
+  forageUsedLbs: number;
+  daysRemaining: number | null;
+  grazingSince: string | null;
+  daysGrazed: number | null;
+  // Last time animals were moved out, and for an occupied pasture how long it had rested before
+  lastMovedOut: string | null;
+  daysRested: number | null;
+  flags: GrazingFlag[];
+}
+
+export function getAnimalUnits(animal: Pick<Animal, 'animal_type' | 'weight_lbs'>): number {
+  const { perThousandLbs, defaultWeight } = ANIMAL_UNIT_FACTORS[animal.animal_type || 'Cattle'];
+  const weight = animal.weight_lbs && Number(animal.weight_lbs) > 0 ? Number(animal.weight_lbs) : defaultWeight;
+  return (weight / 1000) * perThousandLbs;
+}
+
+// Turns each animal's move history into stays. A stay ends at the animal's next move, or at its
+// exit date once it has left the ranch.
+export function getPastureStays(animals: Animal[], moves: AnimalMove[]): PastureStay[] {
+  const animalsById = new Map(animals.map(a => [a.id, a]));
+  const movesByAnimal = new Map<string, AnimalMove[]>();
+  for (const move of moves) {
+    const list = movesByAnimal.get(move.animal_id) || [];
+    list.push(move);
+    movesByAnimal.set(move.animal_id, list);
+  }
+
+  const stays: PastureStay[] = [];
+  for (const [animalId, history] of movesByAnimal) {
+    const animal = animalsById.get(animalId);
+    const sorted = [...history].sort((a, b) => a.moved_on.localeCompare(b.moved_on) || (a.created_at || '').localeCompare(b.created_at || ''));
+
+    sorted.forEach((move, i) => {
+      if (!move.to_pasture_id) return;
+      const next = sorted[i + 1];
+      const exitDate = animal && animal.status !== 'PRESENT' ? animal.exit_date : null;
+      const to = next ? next.moved_on : exitDate;
+      if (to && to <= move.moved_on) return;
+      stays.push({ animalId, pastureId: move.to_pasture_id, from: move.moved_on, to });
+    });
+  }
+  return stays;
+}
+
+// Days of a stay that fall between two dates, counting the move-in day but not the move-out day
+function overlapDays(stay: PastureStay, fromDate: string, toDate: string): number {
+  const start = stay.from > fromDate ? stay.from : fromDate;
+  const end = stay.to && stay.to < toDate ? stay.to : toDate;
+  return Math.max(0, daysBetween(start, end));
+}
+
+export function calculateGrazingStatus(
+  pasture: Pasture,
+  animals: Animal[],
+  stays: PastureStay[],
+  plans: GrazingPlan[],
+  today: string
+): PastureGrazingStatus {
+  const animalsById = new Map(animals.map(a => [a.id, a]));
+  const occupants = animals.filter(a => a.status === 'PRESENT' && a.current_pasture_id === pasture.id);
+  const animalUnits = occupants.reduce((sum, a) => sum + getAnimalUnits(a), 0);
+  const unweighedCount = occupants.filter(a => !a.weight_lbs || Number(a.weight_lbs) <= 0).length;
+
+  const pastureStays = stays.filter(s => s.pastureId === pasture.id);
+  const openStays = pastureStays.filter(s => !s.to && occupants.some(a => a.id === s.animalId));
+  const grazingSince = openStays.length > 0 ? openStays.map(s => s.from).sort()[0] : null;
+
+  const lastMovedOut = pastureStays
+    .map(s => s.to)
+    .filter((to): to is string => !!to && to <= today && (!grazingSince || to <= grazingSince))
+    .sort()
+    .pop() || null;
+  const daysRested = lastMovedOut ? daysBetween(lastMovedOut, grazingSince || today) : null;
+
+  const usableForageLbs = pasture.acreage && pasture.forage_lbs_per_acre != null && pasture.forage_estimated_on
+    ? Number(pasture.acreage) * Number(pasture.forage_lbs_per_acre) * (pasture.utilization_pct / 100)
+    : null;
+
+  const forageUsedLbs = pasture.forage_estimated_on
+    ? pastureStays.reduce((sum, stay) => {
+        const animal = animalsById.get(stay.animalId);
+        if (!animal) return sum;
+        return sum + getAnimalUnits(animal) * AU_DAILY_FORAGE_LBS * overlapDays(stay, pasture.forage_estimated_on!, today);
+      }, 0)
+    : 0;
+
+  const dailyDemand = animalUnits * AU_DAILY_FORAGE_LBS;
+  const daysRemaining = usableForageLbs != null && dailyDemand > 0
+    ? Math.floor((usableForageLbs - forageUsedLbs) / dailyDemand)
+    : null;
+  const daysGrazed = grazingSince ? daysBetween(grazingSince, today) : null;
+
+  // The plan this grazing period was following, if any
+  const currentPlan = grazingSince
+    ? plans
+        .filter(p => p.pasture_id === pasture.id && p.start_date <= today && p.end_date >= grazingSince)
+        .sort((a, b) => b.start_date.localeCompare(a.start_date))[0]
+    : undefined;
+
+  const flags: GrazingFlag[] = [];
+  if (usableForageLbs != null && forageUsedLbs > usableForageLbs) {
+    flags.push('OVERGRAZED');
+  }
+  if (
+    occupants.length > 0 &&
+    ((daysRemaining != null && daysRemaining <= 0) ||
+      (pasture.max_graze_days != null && daysGrazed != null && daysGrazed >= pasture.max_graze_days) ||
+      (currentPlan && currentPlan.end_date < today))
+  ) {
+    flags.push('OVERDUE_TO_MOVE');
+  }
+  if (occupants.length > 0 && daysRested != null && daysRested < pasture.min_rest_days) {
+    flags.push('UNDER_RESTED');
+  }
+
+  return {
+    pasture,
+    headCount: occupants.length,
+    unweighedCount,
+    animalUnits,
+    usableForageLbs,
+    carryingCapacityAum: usableForageLbs != null ? usableForageLbs / AUM_FORAGE_LBS : null,
+    forageUsedLbs,
+    daysRemaining,
+    grazingSince,
+    daysGrazed,
+    lastMovedOut,
+    daysRested,
+    flags,
+  };
+}
+
+// Problems with a planned grazing period: overlapping another plan for the same pasture, or
+// starting before the pasture has had its rest since it was last grazed or planned.
+export function getGrazingPlanWarnings(plan: GrazingPlan, pasture: Pasture, plans: GrazingPlan[], stays: PastureStay[]): string[] {
+  const warnings: string[] = [];
+  const others = plans.filter(p => p.pasture_id === plan.pasture_id && p.id !== plan.id);
+
+  if (others.some(p => p.start_date <= plan.end_date && p.end_date >= plan.start_date)) {
+    warnings.push('Overlaps another plan for this pasture');
+  }
+
+  const previousUse = [
+    ...others.filter(p => p.end_date < plan.start_date).map(p => p.end_date),
+    ...stays.filter(s => s.pastureId === plan.pasture_id && s.to && s.to <= plan.start_date).map(s => s.to!),
+  ].sort().pop();
+
+  if (previousUse) {
+    const rest = daysBetween(previousUse, plan.start_date);
+    if (rest < pasture.min_rest_days) {
+      warnings.push(`Only ${rest} day${rest === 1 ? '' : 's'} of rest (needs ${pasture.min_rest_days})`);
+    }
+  }
+
+  if (pasture.max_graze_days != null) {
+    const days = daysBetween(plan.start_date, plan.end_date);
+    if (days > pasture.max_graze_days) {
+      warnings.push(`${days} days is longer than the ${pasture.max_graze_days}-day limit`);
+    }
+  }
+
+  return warnings;
+}
+
+export function isPastureOccupiedOn(stays: PastureStay[], pastureId: string, date: string): boolean {
+  return stays.some(s => s.pastureId === pastureId && s.from <= date && (!s.to || s.to > date));
+}
@@ -0,0 +1,62 @@
+import type { Animal, RanchSettings } from '../data/types';
+import { getAdultAgeYears, getAutoPromotionRules } from './animalTypes';
+import { daysBetween } from './weightHistory';
+import { getTodayLocalDate } from './printHelpers';
+
+// Date an animal joined the herd. Purchased animals without a purchase date fall back to their
+// birth date; null means there is no date at all and the animal is assumed to have always been here.
+export function getArrivalDate(animal: Animal): string | null {
+  if (animal.source === 'PURCHASED' && animal.purchase_date) return animal.purchase_date;
+  return animal.birth_date;
+}
+
+export function getAgeYearsOn(animal: Animal, onDate: string): number | null {
+  if (!animal.birth_date) return null;
+  return daysBetween(animal.birth_date, onDate) / 365.25;
+}
+
+export function isAdultOn(animal: Animal, onDate: string, settings: RanchSettings | null): boolean {
+  const ageYears = getAgeYearsOn(animal, onDate);
+  if (ageYears === null) return true;
+  return ageYears >= getAdultAgeYears(animal.animal_type || 'Cattle', settings);
+}
+
+// A cow that was still a heifer on the date is counted as a heifer. Only animals old enough to
+// have been auto-promoted since then are changed; one entered as a young cow stays a cow.
+function getSexOn(animal: Animal, onDate: string, settings: RanchSettings | null): Animal['sex'] {
+  const ageYears = getAgeYearsOn(animal, onDate);
+  const currentAgeYears = getAgeYearsOn(animal, getTodayLocalDate());
+  if (ageYears === null || currentAgeYears === null) return animal.sex;
+
+  const adultAge = getAdultAgeYears(animal.animal_type || 'Cattle', settings);
+  const rule = getAutoPromotionRules(animal.animal_type || 'Cattle')
+    .find(r => r.toSex.toUpperCase() === animal.sex.toUpperCase());
+  if (rule && ageYears < adultAge && currentAgeYears >= adultAge) {
+    return rule.fromSex.toUpperCase() as Animal['sex'];
+  }
+  return animal.sex;
+}
+
+// Rebuilds the herd as it stood at the end of `asOfDate`: animals that had not arrived yet are
+// left out, and animals that left after that date are PRESENT again. Animals that left without
+// an exit date keep their current status because there is no way to tell when they went.
+export function reconstructHerdAsOf(animals: Animal[], settings: RanchSettings | null, asOfDate: string): Animal[] {
+  return animals
+    .filter(animal => {
+      const arrival = getArrivalDate(animal);
+      return !arrival || arrival <= asOfDate;
+    })
+    .map(animal => {
+      const leftAfterDate = animal.status !== 'PRESENT' && animal.exit_date !== null && animal.exit_date > asOfDate;
+      return {
+        ...animal,
+        status: leftAfterDate ? 'PRESENT' : animal.status,
+        exit_date: leftAfterDate ? null : animal.exit_date,
+        sex: getSexOn(animal, asOfDate, settings),
+      };
+    });
+}
+
+export function findUndatedExits(animals: Animal[]): Animal[] {
+  return animals.filter(a => a.status !== 'PRESENT' && !a.exit_date);
+}
@@ -1,28 +1,9 @@
 import { supabase } from '../lib/supabase';
+import type { Invitation, LicenseKey } from '../lib/database.types';
 
-export interface Invitation {
-  id: string;
-  code: string;
-  type: 'ranch_creation' | 'ranch_member';
-  license_key_id: string | null;
-  ranch_id: string | null;
-  role: string | null;
-  restricted_email: string | null;
-  expires_at: string;
-  used_at: string | null;
-  used_by_user_id: string | null;
-  created_by_user_id: string;
-  created_at: string;
-}
+export type { Invitation, LicenseKey };
 
-export interface LicenseKey {
-  id: string;
-  key: string;
-  license_type: string;
-  expiration_date: string;
-  used_by_ranch_id: string | null;
-  max_animals: number;
-}
+export type InvitationRole = NonNullable<Invitation['role']>;
 
 export function generateInvitationCode(): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
@@ -72,7 +53,7 @@ export async function createRanchCreationInvitation(
 
 export async function createRanchMemberInvitation(
   ranchId: string,
-  role: string,
+  role: InvitationRole,
   restrictedEmail: string | null,
   expiresInDays: number = 7
 ): Promise<{ invitation: Invitation | null; error: Error | null }> {
@@ -164,7 +145,7 @@ export async function redeemRanchCreationInvitation(
     if (inviteError) throw inviteError;
     if (!invitation) throw new Error('Invitation not found');
 
-    const licenseKey = (invitation as any).license_keys;
+    const licenseKey = invitation.license_keys;
     if (!licenseKey) throw new Error('License key not found');
 
     const { data: ranch, error: ranchError } = await supabase
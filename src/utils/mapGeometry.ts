@@ -0,0 +1,393 @@
+import JSZip from 'jszip';
+import type { Json } from '../lib/database.types';
+
+// [longitude, latitude] in WGS84, the order GeoJSON and KML both use
+export type Position = [number, number];
+
+export type PointGeometry = { type: 'Point'; coordinates: Position };
+export type LineGeometry =
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] };
+export type AreaGeometry =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+export type MapGeometry = PointGeometry | LineGeometry | AreaGeometry;
+
+// Fences are lines, pastures are areas and infrastructure items are points, matching the CHECK
+// constraints on each table's geometry column
+export type MapFeatureKind = 'fence' | 'pasture' | 'infrastructure';
+
+export const MAP_FEATURE_KIND_LABELS: Record<MapFeatureKind, string> = {
+  fence: 'Fence',
+  pasture: 'Pasture',
+  infrastructure: 'Infrastructure',
+};
+
+export interface MapFeature {
+  id: string;
+  kind: MapFeatureKind;
+  name: string;
+  geometry: MapGeometry;
+}
+
+export interface ImportedFeature {
+  name: string;
+  geometry: MapGeometry;
+}
+
+export interface MapBounds {
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+}
+
+export function getGeometryKind(geometry: MapGeometry): MapFeatureKind {
+  switch (geometry.type) {
+    case 'Point':
+      return 'infrastructure';
+    case 'LineString':
+    case 'MultiLineString':
+      return 'fence';
+    default:
+      return 'pasture';
+  }
+}
+
+function toPosition(value: unknown): Position | null {
+  if (!Array.isArray(value) || value.length < 2) return null;
+  const [lon, lat] = value.map(Number);
+  if (!Number.isFinite(lon) || !Number.isFinite(lat)) return null;
+  if (lon < -180 || lon > 180 || lat < -90 || lat > 90) return null;
+  return [lon, lat];
+}
+
+function toLine(value: unknown): Position[] | null {
+  if (!Array.isArray(value)) return null;
+  const positions = value.map(toPosition);
+  if (positions.length < 2 || positions.some(p => p === null)) return null;
+  return positions as Position[];
+}
+
+// Rings are closed if the source left the last point off
+function toRing(value: unknown): Position[] | null {
+  const ring = toLine(value);
+  if (!ring || ring.length < 3) return null;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) ring.push([first[0], first[1]]);
+  return ring.length >= 4 ? ring : null;
+}
+
+function toPolygon(value: unknown): Position[][] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const rings = value.map(toRing);
+  return rings.some(r => r === null) ? null : rings as Position[][];
+}
+
+function toList<T>(value: unknown, convert: (item: unknown) => T | null): T[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const items = value.map(convert);
+  return items.some(i => i === null) ? null : items as T[];
+}
+
+// Checks a stored or imported geometry and drops any altitude; anything malformed is null
+export function parseGeometry(value: Json | unknown): MapGeometry | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const { type, coordinates } = value as { type?: unknown; coordinates?: unknown };
+
+  switch (type) {
+    case 'Point': {
+      const point = toPosition(coordinates);
+      return point ? { type, coordinates: point } : null;
+    }
+    case 'LineString': {
+      const line = toLine(coordinates);
+      return line ? { type, coordinates: line } : null;
+    }
+    case 'MultiLineString': {
+      const lines = toList(coordinates, toLine);
+      return lines ? { type, coordinates: lines } : null;
+    }
+    case 'Polygon': {
+      const polygon = toPolygon(coordinates);
+      return polygon ? { type, coordinates: polygon } : null;
+    }
+    case 'MultiPolygon': {
+      const polygons = toList(coordinates, toPolygon);
+      return polygons ? { type, coordinates: polygons } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Splits geometries we can't store as one shape, like a MultiPoint or a GeometryCollection
+function splitGeometry(value: unknown): MapGeometry[] {
+  if (!value || typeof value !== 'object') return [];
+  const raw = value as { type?: unknown; coordinates?: unknown; geometries?: unknown };
+
+  if (raw.type === 'GeometryCollection' && Array.isArray(raw.geometries)) {
+    return raw.geometries.flatMap(splitGeometry);
+  }
+  if (raw.type === 'MultiPoint' && Array.isArray(raw.coordinates)) {
+    return raw.coordinates.flatMap(c => splitGeometry({ type: 'Point', coordinates: c }));
+  }
+
+  const geometry = parseGeometry(raw);
+  return geometry ? [geometry] : [];
+}
+
+function getFeatureName(properties: unknown, fallback: string): string {
+  if (properties && typeof properties === 'object') {
+    const props = properties as Record<string, unknown>;
+    for (const key of ['name', 'Name', 'NAME', 'title', 'description']) {
+      const value = props[key];
+      if (typeof value === 'string' && value.trim()) return value.trim();
+    }
+  }
+  return fallback;
+}
+
+export function parseGeoJSON(text: string): ImportedFeature[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const root = json as { type?: unknown; features?: unknown; geometry?: unknown; properties?: unknown };
+  const features: { geometry: unknown; properties: unknown }[] =
+    root.type === 'FeatureCollection' && Array.isArray(root.features)
+      ? root.features
+      : root.type === 'Feature'
+      ? [{ geometry: root.geometry, properties: root.properties }]
+      : [{ geometry: root, properties: null }];
+
+  return features.flatMap((feature, index) =>
+    splitGeometry(feature?.geometry).map(geometry => ({
+      name: getFeatureName(feature?.properties, `Feature ${index + 1}`),
+      geometry,
+    }))
+  );
+}
+
+function parseKmlCoordinates(element: Element | undefined): Position[] {
+  if (!element) return [];
+  return (element.textContent || '')
+    .trim()
+    .split(/\s+/)
+    .map(tuple => toPosition(tuple.split(',')))
+    .filter((p): p is Position => p !== null);
+}
+
+function childrenByTag(parent: Element, tag: string): Element[] {
+  return Array.from(parent.getElementsByTagName(tag));
+}
+
+function directChild(parent: Element, tag: string): Element | undefined {
+  return Array.from(parent.children).find(child => child.localName === tag);
+}
+
+export function parseKML(text: string): ImportedFeature[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid KML');
+  }
+
+  return Array.from(doc.getElementsByTagName('Placemark')).flatMap((placemark, index) => {
+    const name = directChild(placemark, 'name')?.textContent?.trim() || `Placemark ${index + 1}`;
+    const found: MapGeometry[] = [];
+
+    for (const point of childrenByTag(placemark, 'Point')) {
+      const [position] = parseKmlCoordinates(directChild(point, 'coordinates'));
+      if (position) found.push({ type: 'Point', coordinates: position });
+    }
+
+    const lines = childrenByTag(placemark, 'LineString')
+      .map(line => toLine(parseKmlCoordinates(directChild(line, 'coordinates'))))
+      .filter((line): line is Position[] => line !== null);
+    if (lines.length === 1) found.push({ type: 'LineString', coordinates: lines[0] });
+    if (lines.length > 1) found.push({ type: 'MultiLineString', coordinates: lines });
+
+    const polygons = childrenByTag(placemark, 'Polygon')
+      .map(polygon => {
+        const outer = directChild(polygon, 'outerBoundaryIs');
+        const inner = Array.from(polygon.children).filter(child => child.localName === 'innerBoundaryIs');
+        const rings = [outer, ...inner].map(boundary =>
+          boundary ? parseKmlCoordinates(childrenByTag(boundary, 'coordinates')[0]) : []
+        );
+        return toPolygon(rings);
+      })
+      .filter((polygon): polygon is Position[][] => polygon !== null);
+    if (polygons.length === 1) found.push({ type: 'Polygon', coordinates: polygons[0] });
+    if (polygons.length > 1) found.push({ type: 'MultiPolygon', coordinates: polygons });
+
+    return found.map(geometry => ({ name, geometry }));
+  });
+}
+
+// Picks the parser from the file name; a KMZ is a zip with the KML inside
+export async function parseMapFile(file: File): Promise<ImportedFeature[]> {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.kmz')) {
+    const zip = await JSZip.loadAsync(file);
+    const kml = Object.values(zip.files).find(entry => !entry.dir && entry.name.toLowerCase().endsWith('.kml'));
+    if (!kml) throw new Error('No KML file was found inside the KMZ');
+    return parseKML(await kml.async('string'));
+  }
+
+  const text = await file.text();
+  return name.endsWith('.kml') ? parseKML(text) : parseGeoJSON(text);
+}
+
+export function toGeoJSON(features: MapFeature[]): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    features: features.map(feature => ({
+      type: 'Feature',
+      id: feature.id,
+      properties: { name: feature.name, kind: feature.kind },
+      geometry: feature.geometry,
+    })),
+  }, null, 2);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function kmlCoordinates(positions: Position[]): string {
+  return `<coordinates>${positions.map(([lon, lat]) => `${lon},${lat}`).join(' ')}</coordinates>`;
+}
+
+function kmlPolygon(rings: Position[][]): string {
+  const [outer, ...inner] = rings;
+  return '<Polygon>'
+    + `<outerBoundaryIs><LinearRing>${kmlCoordinates(outer)}</LinearRing></outerBoundaryIs>`
+    + inner.map(ring => `<innerBoundaryIs><LinearRing>${kmlCoordinates(ring)}</LinearRing></innerBoundaryIs>`).join('')
+    + '</Polygon>';
+}
+
+function kmlGeometry(geometry: MapGeometry): string {
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point>${kmlCoordinates([geometry.coordinates])}</Point>`;
+    case 'LineString':
+      return `<LineString>${kmlCoordinates(geometry.coordinates)}</LineString>`;
+    case 'MultiLineString':
+      return `<MultiGeometry>${geometry.coordinates.map(line => `<LineString>${kmlCoordinates(line)}</LineString>`).join('')}</MultiGeometry>`;
+    case 'Polygon':
+      return kmlPolygon(geometry.coordinates);
+    case 'MultiPolygon':
+      return `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join('')}</MultiGeometry>`;
+  }
+}
+
+export function toKML(features: MapFeature[], documentName: string): string {
+  const placemarks = features.map(feature =>
+    `    <Placemark>\n`
+    + `      <name>${escapeXml(feature.name)}</name>\n`
+    + `      <description>${MAP_FEATURE_KIND_LABELS[feature.kind]}</description>\n`
+    + `      ${kmlGeometry(feature.geometry)}\n`
+    + `    </Placemark>`
+  );
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + '<kml xmlns="http://www.opengis.net/kml/2.2">\n'
+    + '  <Document>\n'
+    + `    <name>${escapeXml(documentName)}</name>\n`
+    + placemarks.join('\n') + '\n'
+    + '  </Document>\n'
+    + '</kml>\n';
+}
+
+function getPositions(geometry: MapGeometry): Position[] {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'LineString':
+      return geometry.coordinates;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.flat();
+    case 'MultiPolygon':
+      return geometry.coordinates.flat(2);
+  }
+}
+
+// A lone point gets a small box around it so there's something to zoom to
+const MIN_SPAN_DEGREES = 0.005;
+
+export function getBounds(geometries: MapGeometry[]): MapBounds | null {
+  const positions = geometries.flatMap(getPositions);
+  if (positions.length === 0) return null;
+
+  const lons = positions.map(p => p[0]);
+  const lats = positions.map(p => p[1]);
+  const bounds = {
+    minLon: Math.min(...lons),
+    minLat: Math.min(...lats),
+    maxLon: Math.max(...lons),
+    maxLat: Math.max(...lats),
+  };
+
+  const lonPad = Math.max(0, MIN_SPAN_DEGREES - (bounds.maxLon - bounds.minLon)) / 2;
+  const latPad = Math.max(0, MIN_SPAN_DEGREES - (bounds.maxLat - bounds.minLat)) / 2;
+  return {
+    minLon: bounds.minLon - lonPad,
+    minLat: bounds.minLat - latPad,
+    maxLon: bounds.maxLon + lonPad,
+    maxLat: bounds.maxLat + latPad,
+  };
+}
+
+export const METERS_PER_DEGREE_LAT = 111320;
+
+export interface MapProjection {
+  project: (position: Position) => [number, number];
+  metersPerUnit: number;
+}
+
+// A flat projection is accurate enough at ranch scale. Longitude is shrunk by the cosine of the
+// latitude so shapes aren't stretched east-west, and y is flipped so north is up.
+export function createProjection(bounds: MapBounds, width: number, height: number, padding: number): MapProjection {
+  const midLat = (bounds.minLat + bounds.maxLat) / 2;
+  const lonScale = Math.cos((midLat * Math.PI) / 180);
+  const spanX = (bounds.maxLon - bounds.minLon) * lonScale;
+  const spanY = bounds.maxLat - bounds.minLat;
+  const unitsPerDegree = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+  const offsetX = (width - spanX * unitsPerDegree) / 2;
+  const offsetY = (height - spanY * unitsPerDegree) / 2;
+
+  return {
+    project: ([lon, lat]) => [
+      offsetX + (lon - bounds.minLon) * lonScale * unitsPerDegree,
+      offsetY + (bounds.maxLat - lat) * unitsPerDegree,
+    ],
+    metersPerUnit: METERS_PER_DEGREE_LAT / unitsPerDegree,
+  };
+}
+
+// Names are compared loosely so "North Fence" in a KML matches "north fence " in the app
+export function normalizeFeatureName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function downloadMapFile(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,77 @@
+import type { Database, TreatmentRoute } from '../lib/database.types';
+
+type MedicalHistory = Database['public']['Tables']['medical_history']['Row'];
+
+export const TREATMENT_ROUTES: TreatmentRoute[] = ['IM', 'SC', 'IV', 'ORAL', 'TOPICAL', 'POUR_ON', 'INTRANASAL', 'INTRAMAMMARY', 'OTHER'];
+
+export const TREATMENT_ROUTE_LABELS: Record<TreatmentRoute, string> = {
+  IM: 'Intramuscular (IM)',
+  SC: 'Subcutaneous (SC)',
+  IV: 'Intravenous (IV)',
+  ORAL: 'Oral',
+  TOPICAL: 'Topical',
+  POUR_ON: 'Pour-on',
+  INTRANASAL: 'Intranasal',
+  INTRAMAMMARY: 'Intramammary',
+  OTHER: 'Other',
+};
+
+export const DOSE_UNITS = ['ml', 'cc', 'mg', 'g', 'tablet', 'bolus', 'dose'];
+
+export interface DosedDrug {
+  ccs_per_pound: number | null;
+  fixed_dose_ml: number | null;
+}
+
+// A fixed dose wins; otherwise ml per pound times the animal's weight.
+export function calculateDrugDose(drug: DosedDrug, weightLbs: number | null): number | null {
+  if (drug.fixed_dose_ml !== null) {
+    return Number(drug.fixed_dose_ml);
+  }
+
+  if (drug.ccs_per_pound !== null && weightLbs !== null && weightLbs > 0) {
+    return weightLbs * Number(drug.ccs_per_pound);
+  }
+
+  return null;
+}
+
+export interface ParsedInjectionDescription {
+  drug_name: string;
+  dose: number;
+  dose_units: string;
+  notes: string | null;
+}
+
+// Parses descriptions written by InjectionModal ("<drug> - <dose> ml" followed by optional notes
+// on the next line). Mirrors the backfill in the add_structured_medical_history migration.
+export function parseInjectionDescription(description: string): ParsedInjectionDescription | null {
+  const match = description.match(/^([^\n]+) - ([0-9]+\.[0-9]{2}) ml(?:\n([\s\S]*))?$/);
+  if (!match) return null;
+
+  return {
+    drug_name: match[1],
+    dose: parseFloat(match[2]),
+    dose_units: 'ml',
+    notes: match[3]?.trim() || null,
+  };
+}
+
+export function formatDose(record: Pick<MedicalHistory, 'dose' | 'dose_units'>): string {
+  if (record.dose === null) return '';
+  return `${Number(record.dose).toFixed(2)} ${record.dose_units || ''}`.trim();
+}
+
+export function formatTreatmentDetails(record: MedicalHistory): string {
+  const parts = [
+    record.drug_name,
+    formatDose(record),
+    record.route ? TREATMENT_ROUTE_LABELS[record.route] : null,
+    record.injection_site ? `Site: ${record.injection_site}` : null,
+    record.lot_number ? `Lot: ${record.lot_number}` : null,
+    record.administered_by ? `By: ${record.administered_by}` : null,
+    record.reason ? `Reason: ${record.reason}` : null,
+  ];
+
+  return parts.filter(Boolean).join(', ');
+}
@@ -0,0 +1,225 @@
+import { supabase } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import {
+  OFFLINE_TABLES,
+  KEY_PATHS,
+  replaceCachedRecords,
+  getCachedRecord,
+  putCachedRecord,
+  deleteCachedRecord,
+  addQueuedMutation,
+  getQueuedMutations,
+  updateQueuedMutation,
+  removeQueuedMutation,
+  setMetaValue,
+  getMetaValue,
+  type OfflineTable,
+  type MutationOperation,
+  type QueuedMutation,
+} from '../lib/offlineStore';
+
+export interface OfflineMutationInput {
+  ranchId: string;
+  table: OfflineTable;
+  operation: MutationOperation;
+  recordId: string;
+  payload?: Record<string, unknown>;
+  baseUpdatedAt?: string | null;
+}
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: number;
+  errors: number;
+  stoppedOffline: boolean;
+}
+
+type Tables = Database['public']['Tables'];
+type OfflineInsert = Tables[OfflineTable]['Insert'];
+type OfflineUpdate = Tables[OfflineTable]['Update'];
+
+// updated_at is the server's version of the record once an insert or update lands
+type ReplayOutcome = { status: 'applied'; updatedAt: string | null } | { status: 'conflict' };
+
+const lastSyncedKey = (ranchId: string) => `last_synced_at:${ranchId}`;
+
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(getErrorMessage(error));
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error.message;
+  }
+  return '';
+}
+
+// Typed so replay keeps the generated column names and row shapes of the cached tables
+function fromTable<T extends OfflineTable>(table: T) {
+  return supabase.from(table);
+}
+
+export async function getLastSyncedAt(ranchId: string): Promise<string | null> {
+  return getMetaValue(lastSyncedKey(ranchId));
+}
+
+async function applyMutationToCache(mutation: Pick<QueuedMutation, 'table' | 'operation' | 'record_id' | 'payload' | 'ranch_id'>) {
+  if (mutation.operation === 'delete') {
+    await deleteCachedRecord(mutation.table, mutation.record_id);
+    return;
+  }
+
+  const existing = await getCachedRecord<Record<string, unknown>>(mutation.table, mutation.record_id);
+  await putCachedRecord(mutation.table, {
+    ...(existing || {}),
+    ...mutation.payload,
+    [KEY_PATHS[mutation.table]]: mutation.record_id,
+    ranch_id: mutation.ranch_id,
+  });
+}
+
+// Pull a fresh copy of the ranch's records, then lay any edits still waiting in the queue
+// back over it so the cache keeps showing what the user entered.
+export async function cacheRanchData(ranchId: string): Promise<void> {
+  for (const table of OFFLINE_TABLES) {
+    const { data, error } = await fromTable(table)
+      .select('*')
+      .eq('ranch_id', ranchId);
+
+    if (error) throw error;
+    await replaceCachedRecords(table, ranchId, data || []);
+  }
+
+  const queued = await getQueuedMutations(ranchId);
+  for (const mutation of queued) {
+    await applyMutationToCache(mutation);
+  }
+
+  await setMetaValue(lastSyncedKey(ranchId), new Date().toISOString());
+}
+
+export async function queueOfflineMutation(input: OfflineMutationInput): Promise<void> {
+  const mutation: Omit<QueuedMutation, 'id'> = {
+    ranch_id: input.ranchId,
+    table: input.table,
+    operation: input.operation,
+    record_id: input.recordId,
+    payload: input.payload || {},
+    base_updated_at: input.baseUpdatedAt ?? null,
+    queued_at: new Date().toISOString(),
+    status: 'pending',
+    error: null,
+  };
+
+  await applyMutationToCache(mutation);
+  await addQueuedMutation(mutation);
+}
+
+async function replayMutation(mutation: QueuedMutation, force: boolean): Promise<ReplayOutcome> {
+  const keyColumn = KEY_PATHS[mutation.table];
+  const table = fromTable(mutation.table);
+
+  if (mutation.operation === 'insert') {
+    const { data, error } = await table
+      .insert({ ...mutation.payload, [keyColumn]: mutation.record_id } as OfflineInsert)
+      .select('updated_at')
+      .maybeSingle();
+    // 23505 = unique violation: an earlier replay already wrote this row
+    if (error && error.code !== '23505') throw error;
+    return { status: 'applied', updatedAt: data?.updated_at ?? null };
+  }
+
+  if (!force) {
+    const { data: serverRecord, error } = await table
+      .select('updated_at')
+      .eq(keyColumn, mutation.record_id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!serverRecord) {
+      return mutation.operation === 'delete' ? { status: 'applied', updatedAt: null } : { status: 'conflict' };
+    }
+    if (mutation.base_updated_at && serverRecord.updated_at !== mutation.base_updated_at) {
+      return { status: 'conflict' };
+    }
+  }
+
+  if (mutation.operation === 'update') {
+    const { data, error } = await table
+      .update(mutation.payload as OfflineUpdate)
+      .eq(keyColumn, mutation.record_id)
+      .select('updated_at')
+      .maybeSingle();
+    if (error) throw error;
+    return { status: 'applied', updatedAt: data?.updated_at ?? null };
+  }
+
+  const { error } = await table.delete().eq(keyColumn, mutation.record_id);
+  if (error) throw error;
+  return { status: 'applied', updatedAt: null };
+}
+
+// Every queued edit of a record was based on the version cached before the first one, so once
+// an edit lands the ones queued after it are moved onto the version the server now holds.
+async function rebaseLaterMutations(queued: QueuedMutation[], applied: QueuedMutation, updatedAt: string | null) {
+  if (!updatedAt) return;
+
+  // The queue comes back in the order the edits were made
+  for (const later of queued.slice(queued.indexOf(applied) + 1)) {
+    if (later.status !== 'pending') continue;
+    if (later.table !== applied.table || later.record_id !== applied.record_id) continue;
+
+    later.base_updated_at = updatedAt;
+    await updateQueuedMutation(later);
+  }
+}
+
+export async function replayQueuedMutations(ranchId: string): Promise<ReplayResult> {
+  const result: ReplayResult = { applied: 0, conflicts: 0, errors: 0, stoppedOffline: false };
+  const queued = await getQueuedMutations(ranchId);
+
+  for (const mutation of queued) {
+    if (mutation.status !== 'pending') continue;
+
+    try {
+      const outcome = await replayMutation(mutation, false);
+      if (outcome.status === 'applied') {
+        await removeQueuedMutation(mutation.id!);
+        await rebaseLaterMutations(queued, mutation, outcome.updatedAt);
+        result.applied++;
+      } else {
+        await updateQueuedMutation({
+          ...mutation,
+          status: 'conflict',
+          error: 'This record was changed or deleted by someone else while you were offline',
+        });
+        result.conflicts++;
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.stoppedOffline = true;
+        break;
+      }
+      console.error('Error replaying offline edit:', error);
+      await updateQueuedMutation({ ...mutation, status: 'error', error: getErrorMessage(error) || 'Unknown error' });
+      result.errors++;
+    }
+  }
+
+  return result;
+}
+
+// Keep mine: write the offline edit over the server copy. Keep theirs: drop the offline edit.
+export async function resolveQueuedMutation(mutation: QueuedMutation, keep: 'mine' | 'theirs'): Promise<void> {
+  if (keep === 'mine') {
+    const outcome = await replayMutation(mutation, true);
+    if (outcome.status === 'applied') {
+      const queued = await getQueuedMutations(mutation.ranch_id);
+      await rebaseLaterMutations(queued, queued.find(m => m.id === mutation.id) || mutation, outcome.updatedAt);
+    }
+  }
+  await removeQueuedMutation(mutation.id!);
+}
@@ -0,0 +1,67 @@
+import type { AnimalMove, Pasture } from '../lib/database.types';
+import type { Animal } from '../data/types';
+
+export const PASTURE_KIND_LABELS: Record<Pasture['kind'], string> = {
+  PASTURE: 'Pasture',
+  PADDOCK: 'Paddock',
+};
+
+// A type rather than an interface so count reports can still be saved as JSON snapshots
+export type PastureHeadCount = {
+  // Null for animals that haven't been put in a pasture
+  pastureId: string | null;
+  headCount: number;
+};
+
+// Paddocks are shown under the pasture they were split from, e.g. "North Pasture / Paddock 2"
+export function getPastureLabel(pasture: Pasture, pastures: Pasture[]): string {
+  const parent = pasture.parent_pasture_id ? pastures.find(p => p.id === pasture.parent_pasture_id) : null;
+  return parent ? `${parent.name} / ${pasture.name}` : pasture.name;
+}
+
+export function getPastureName(pastureId: string | null, pastures: Pasture[]): string {
+  if (!pastureId) return 'Unassigned';
+  const pasture = pastures.find(p => p.id === pastureId);
+  return pasture ? getPastureLabel(pasture, pastures) : 'Unknown pasture';
+}
+
+// Pastures in the order pickers and reports list them: each pasture followed by its paddocks
+export function sortPastures(pastures: Pasture[]): Pasture[] {
+  const byName = (a: Pasture, b: Pasture) => a.name.localeCompare(b.name, undefined, { numeric: true });
+  const ids = new Set(pastures.map(p => p.id));
+  const topLevel = pastures.filter(p => !p.parent_pasture_id || !ids.has(p.parent_pasture_id)).sort(byName);
+  return topLevel.flatMap(parent => [
+    parent,
+    ...pastures.filter(p => p.parent_pasture_id === parent.id).sort(byName),
+  ]);
+}
+
+// Where each animal was at the end of a date, from its move history. Animals with no moves on or
+// before the date fall back to their current pasture only if they have never been moved.
+export function getPastureLocationsOn(animals: Animal[], moves: AnimalMove[], date: string): Map<string, string | null> {
+  const movesByAnimal = new Map<string, AnimalMove[]>();
+  for (const move of moves) {
+    const list = movesByAnimal.get(move.animal_id) || [];
+    list.push(move);
+    movesByAnimal.set(move.animal_id, list);
+  }
+
+  return new Map(animals.map(animal => {
+    const history = movesByAnimal.get(animal.id);
+    if (!history) return [animal.id, animal.current_pasture_id];
+
+    const latest = history
+      .filter(m => m.moved_on <= date)
+      .sort((a, b) => b.moved_on.localeCompare(a.moved_on) || (b.created_at || '').localeCompare(a.created_at || ''))[0];
+    return [animal.id, latest ? latest.to_pasture_id : null];
+  }));
+}
+
+export function countHeadByPasture(animals: Animal[], locations: Map<string, string | null>): PastureHeadCount[] {
+  const counts = new Map<string | null, number>();
+  for (const animal of animals) {
+    const pastureId = locations.get(animal.id) ?? null;
+    counts.set(pastureId, (counts.get(pastureId) || 0) + 1);
+  }
+  return Array.from(counts.entries()).map(([pastureId, headCount]) => ({ pastureId, headCount }));
+}
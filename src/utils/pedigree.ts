@@ -0,0 +1,140 @@
+import type { Animal } from '../data/types';
+
+export const PEDIGREE_GENERATIONS = 4;
+
+// Coefficients at or above these values are flagged on the pedigree and mating check.
+// 6.25% is a first-cousin mating, 12.5% half siblings, 25% parent/offspring or full siblings.
+export const INBREEDING_WARNING_THRESHOLD = 0.0625;
+export const INBREEDING_HIGH_THRESHOLD = 0.125;
+
+export const FEMALE_SEXES = ['COW', 'HEIFER', 'MARE', 'FILLY', 'EWE', 'DOE', 'SOW', 'GILT', 'FEMALE'];
+export const BREEDING_MALE_SEXES = ['BULL', 'STALLION', 'RAM', 'BUCK', 'BOAR'];
+
+export interface PedigreeNode {
+  // The id may point at an animal that is no longer in the herd list, in which case animal is null
+  id: string;
+  animal: Animal | null;
+  generation: number;
+  sire: PedigreeNode | null;
+  dam: PedigreeNode | null;
+}
+
+export interface InbreedingCalculator {
+  // Wright's coefficient of inbreeding for an animal in the herd
+  coefficient: (animalId: string) => number;
+  // Coefficient of coancestry; equals the inbreeding coefficient of offspring from the pair
+  kinship: (firstId: string, secondId: string) => number;
+}
+
+export function buildPedigreeTree(
+  animalId: string,
+  animalsById: Map<string, Animal>,
+  generations = PEDIGREE_GENERATIONS
+): PedigreeNode {
+  const build = (id: string, generation: number, lineage: Set<string>): PedigreeNode => {
+    const animal = animalsById.get(id) || null;
+    const node: PedigreeNode = { id, animal, generation, sire: null, dam: null };
+    if (!animal || generation >= generations) return node;
+
+    // A parent link that loops back to a descendant is bad data, not an ancestor
+    const nextLineage = new Set(lineage).add(id);
+    if (animal.father_id && !nextLineage.has(animal.father_id)) {
+      node.sire = build(animal.father_id, generation + 1, nextLineage);
+    }
+    if (animal.mother_id && !nextLineage.has(animal.mother_id)) {
+      node.dam = build(animal.mother_id, generation + 1, nextLineage);
+    }
+    return node;
+  };
+
+  return build(animalId, 0, new Set());
+}
+
+export function createInbreedingCalculator(animals: Animal[]): InbreedingCalculator {
+  const animalsById = new Map(animals.map(animal => [animal.id, animal]));
+  const depths = new Map<string, number>();
+  const kinships = new Map<string, number>();
+
+  // Parents recorded for an animal that is missing from the list are treated as unknown
+  const parentsOf = (id: string): [string | null, string | null] => {
+    const animal = animalsById.get(id);
+    if (!animal) return [null, null];
+    return [
+      animal.father_id && animalsById.has(animal.father_id) ? animal.father_id : null,
+      animal.mother_id && animalsById.has(animal.mother_id) ? animal.mother_id : null,
+    ];
+  };
+
+  // Generations of known ancestry behind an animal; an ancestor always has a smaller depth
+  // than its descendants, which decides which side of a pair to trace back first.
+  const depthOf = (id: string, visiting = new Set<string>()): number => {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return 0;
+
+    visiting.add(id);
+    const parentDepths = parentsOf(id)
+      .filter((parentId): parentId is string => parentId !== null && !visiting.has(parentId))
+      .map(parentId => depthOf(parentId, visiting) + 1);
+    visiting.delete(id);
+
+    const depth = Math.max(0, ...parentDepths);
+    depths.set(id, depth);
+    return depth;
+  };
+
+  const kinship = (firstId: string, secondId: string): number => {
+    const key = firstId < secondId ? `${firstId}|${secondId}` : `${secondId}|${firstId}`;
+    const known = kinships.get(key);
+    if (known !== undefined) return known;
+
+    // Stops recursion through parent links that loop back on themselves
+    kinships.set(key, 0);
+
+    let value: number;
+    if (firstId === secondId) {
+      const [sireId, damId] = parentsOf(firstId);
+      value = (1 + (sireId && damId ? kinship(sireId, damId) : 0)) / 2;
+    } else {
+      const [younger, older] = depthOf(firstId) >= depthOf(secondId) ? [firstId, secondId] : [secondId, firstId];
+      const [sireId, damId] = parentsOf(younger);
+      value = ((sireId ? kinship(sireId, older) : 0) + (damId ? kinship(damId, older) : 0)) / 2;
+    }
+
+    kinships.set(key, value);
+    return value;
+  };
+
+  return {
+    coefficient: (animalId) => {
+      const [sireId, damId] = parentsOf(animalId);
+      return sireId && damId ? kinship(sireId, damId) : 0;
+    },
+    kinship: (firstId, secondId) => {
+      if (!animalsById.has(firstId) || !animalsById.has(secondId)) return 0;
+      return kinship(firstId, secondId);
+    },
+  };
+}
+
+export function formatInbreedingCoefficient(coefficient: number): string {
+  return `${(coefficient * 100).toFixed(coefficient > 0 && coefficient < 0.01 ? 2 : 1)}%`;
+}
+
+export function getInbreedingLevel(coefficient: number): 'none' | 'low' | 'warning' | 'high' {
+  if (coefficient <= 0) return 'none';
+  if (coefficient >= INBREEDING_HIGH_THRESHOLD) return 'high';
+  if (coefficient >= INBREEDING_WARNING_THRESHOLD) return 'warning';
+  return 'low';
+}
+
+export function getMatingCandidates(animal: Animal, allAnimals: Animal[]): Animal[] {
+  const animalType = animal.animal_type || 'Cattle';
+  const candidateSexes = FEMALE_SEXES.includes(animal.sex.toUpperCase()) ? BREEDING_MALE_SEXES : FEMALE_SEXES;
+
+  return allAnimals.filter(candidate =>
+    candidate.id !== animal.id &&
+    (candidate.animal_type || 'Cattle') === animalType &&
+    candidateSexes.includes(candidate.sex.toUpperCase())
+  );
+}
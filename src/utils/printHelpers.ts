@@ -87,3 +87,21 @@ export function getTodayLocalDate(): string {
   const today = new Date();
   return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
 }
+
+// Today's date on the ranch, which can differ from the browser's when someone checks in
+// from another time zone. Falls back to the browser's date if the zone isn't recognised.
+export function getTodayInTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return getTodayLocalDate();
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(new Date());
+  } catch (error) {
+    console.error(`Unknown time zone ${timeZone}:`, error);
+    return getTodayLocalDate();
+  }
+}
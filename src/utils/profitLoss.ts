@@ -0,0 +1,155 @@
+import type { Expense, ExpenseAllocation } from '../lib/database.types';
+import type { Animal } from '../data/types';
+import { getArrivalDate } from './herdInventory';
+
+export const EXPENSE_CATEGORY_LABELS: Record<Expense['category'], string> = {
+  FEED: 'Feed',
+  VET: 'Vet',
+  TRUCKING: 'Trucking',
+  OTHER: 'Other',
+};
+
+export const EXPENSE_ALLOCATION_LABELS: Record<Expense['allocation'], string> = {
+  ANIMAL: 'One animal',
+  GROUP: 'Group',
+  HERD: 'Whole herd',
+};
+
+export interface ProfitLoss {
+  salePrice: number;
+  purchaseCost: number;
+  expenses: number;
+  expensesByCategory: Record<Expense['category'], number>;
+  net: number;
+}
+
+export interface AnimalProfitLoss extends ProfitLoss {
+  animal: Animal;
+  // False while the animal is still on the ranch, so its net is costs to date
+  isSold: boolean;
+}
+
+export interface GroupProfitLoss extends ProfitLoss {
+  groupName: string;
+  headCount: number;
+  soldCount: number;
+}
+
+const emptyByCategory = (): Record<Expense['category'], number> => ({ FEED: 0, VET: 0, TRUCKING: 0, OTHER: 0 });
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Splits a total into equal shares that add back up to the cent; the first shares take the
+// leftover cents. record_expense splits expenses the same way.
+export function splitAmountEvenly(total: number, count: number): number[] {
+  if (count <= 0) return [];
+  const cents = Math.round(total * 100);
+  const share = Math.floor(cents / count);
+  const remainder = cents - share * count;
+  return Array.from({ length: count }, (_, i) => (share + (i < remainder ? 1 : 0)) / 100);
+}
+
+// Present animals on the expense date, which is who a whole-herd expense is charged to
+export function getHerdOnDate(animals: Animal[], date: string): Animal[] {
+  return animals.filter(a => {
+    const arrival = getArrivalDate(a);
+    const arrived = !arrival || arrival <= date;
+    const stillHere = a.status === 'PRESENT' || (!!a.exit_date && a.exit_date >= date);
+    return arrived && stillHere;
+  });
+}
+
+function sumProfitLoss(entries: ProfitLoss[]): ProfitLoss {
+  const expensesByCategory = emptyByCategory();
+  for (const entry of entries) {
+    for (const category of Object.keys(expensesByCategory) as Expense['category'][]) {
+      expensesByCategory[category] += entry.expensesByCategory[category];
+    }
+  }
+  const salePrice = entries.reduce((sum, e) => sum + e.salePrice, 0);
+  const purchaseCost = entries.reduce((sum, e) => sum + e.purchaseCost, 0);
+  const expenses = entries.reduce((sum, e) => sum + e.expenses, 0);
+
+  return {
+    salePrice: roundCents(salePrice),
+    purchaseCost: roundCents(purchaseCost),
+    expenses: roundCents(expenses),
+    expensesByCategory,
+    net: roundCents(salePrice - purchaseCost - expenses),
+  };
+}
+
+export function calculateAnimalProfitLoss(
+  animals: Animal[],
+  expenses: Expense[],
+  allocations: ExpenseAllocation[]
+): AnimalProfitLoss[] {
+  const expensesById = new Map(expenses.map(e => [e.id, e]));
+  const allocationsByAnimal = new Map<string, ExpenseAllocation[]>();
+  for (const allocation of allocations) {
+    const list = allocationsByAnimal.get(allocation.animal_id) || [];
+    list.push(allocation);
+    allocationsByAnimal.set(allocation.animal_id, list);
+  }
+
+  return animals.map(animal => {
+    const expensesByCategory = emptyByCategory();
+    for (const allocation of allocationsByAnimal.get(animal.id) || []) {
+      const expense = expensesById.get(allocation.expense_id);
+      if (expense) expensesByCategory[expense.category] += Number(allocation.amount);
+    }
+
+    const salePrice = animal.status === 'SOLD' && animal.sale_price != null ? Number(animal.sale_price) : 0;
+    const purchaseCost = animal.purchase_price != null ? Number(animal.purchase_price) : 0;
+    const totalExpenses = Object.values(expensesByCategory).reduce((sum, amount) => sum + amount, 0);
+
+    return {
+      animal,
+      isSold: animal.status === 'SOLD',
+      salePrice,
+      purchaseCost,
+      expenses: roundCents(totalExpenses),
+      expensesByCategory,
+      net: roundCents(salePrice - purchaseCost - totalExpenses),
+    };
+  });
+}
+
+// One row per named group that expenses were charged to, totalling the full profit/loss of every
+// animal in it, plus a row for the whole herd
+export function calculateGroupProfitLoss(
+  animalProfitLoss: AnimalProfitLoss[],
+  expenses: Expense[],
+  allocations: ExpenseAllocation[]
+): GroupProfitLoss[] {
+  const byAnimalId = new Map(animalProfitLoss.map(entry => [entry.animal.id, entry]));
+  const groupMembers = new Map<string, Set<string>>();
+
+  for (const expense of expenses) {
+    if (expense.allocation !== 'GROUP') continue;
+    const groupName = expense.group_name || 'Unnamed group';
+    const members = groupMembers.get(groupName) || new Set<string>();
+    for (const allocation of allocations) {
+      if (allocation.expense_id === expense.id) members.add(allocation.animal_id);
+    }
+    groupMembers.set(groupName, members);
+  }
+
+  const toGroup = (groupName: string, entries: AnimalProfitLoss[]): GroupProfitLoss => ({
+    groupName,
+    headCount: entries.length,
+    soldCount: entries.filter(e => e.isSold).length,
+    ...sumProfitLoss(entries),
+  });
+
+  const groups = Array.from(groupMembers.entries())
+    .map(([groupName, members]) => toGroup(
+      groupName,
+      Array.from(members)
+        .map(id => byAnimalId.get(id))
+        .filter((entry): entry is AnimalProfitLoss => entry !== undefined)
+    ))
+    .sort((a, b) => a.groupName.localeCompare(b.groupName));
+
+  return [...groups, toGroup('Whole herd', animalProfitLoss)];
+}
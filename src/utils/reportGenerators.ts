@@ -1,12 +1,26 @@
-import type { Database } from '../lib/database.types';
+import type { AnimalMove, Database } from '../lib/database.types';
+import type { Animal } from '../data/types';
+import { calculateExpectedDueDate, getAdultAgeYears, getGestationDays, type AnimalType } from './animalTypes';
+import { formatDose, formatTreatmentDetails, TREATMENT_ROUTE_LABELS } from './medicalRecords';
+import { summarizeDrugStock, type DrugStockSummary, type InventoryDrug } from './drugInventory';
+import { formatBreedComposition, getBreedComposition } from './breedComposition';
+import { daysBetween } from './weightHistory';
+import { getTodayLocalDate } from './printHelpers';
+import { getArrivalDate, isAdultOn, reconstructHerdAsOf } from './herdInventory';
+import { BREEDING_MALE_SEXES } from './pedigree';
+import { getCalfPerformance, CALVING_EASE_LABELS, type CalfPerformance } from './calfPerformance';
+import { countHeadByPasture, getPastureLocationsOn, type PastureHeadCount } from './pastures';
 
-type Animal = Database['public']['Tables']['animals']['Row'];
 type MedicalHistory = Database['public']['Tables']['medical_history']['Row'];
 type RanchSettings = Database['public']['Tables']['ranch_settings']['Row'];
 type CustomFieldDefinition = Database['public']['Tables']['custom_field_definitions']['Row'];
 type CustomFieldValue = Database['public']['Tables']['custom_field_values']['Row'];
+type BreedingRecord = Database['public']['Tables']['breeding_records']['Row'];
+type DrugLot = Database['public']['Tables']['drug_lots']['Row'];
 
-export interface CountsReport {
+// A type alias rather than an interface so it stays assignable to Json for count_report_snapshots.data
+export type CountsReport = {
+  asOfDate: string;
   totalPresent: number;
   totalSold: number;
   totalDead: number;
@@ -16,7 +30,8 @@ export interface CountsReport {
   presentHeifers: number;
   presentCalves: number;
   presentAdults: number;
-}
+  presentByPasture: PastureHeadCount[];
+};
 
 export interface OffspringByParentReport {
   parentId: string;
@@ -27,25 +42,120 @@ export interface OffspringByParentReport {
   daysSinceLastOffspring: number | null;
 }
 
+export interface OffspringByMotherReport extends OffspringByParentReport {
+  calfPerformance: CalfPerformance[];
+  averageBirthWeight: number | null;
+  averageCalvingEase: number | null;
+  averageAdjusted205DayWeight: number | null;
+  // Dam's average adjusted 205-day weight as a percent of the average across all dams in the report
+  weaningRatio: number | null;
+}
+
+export interface DueToCalveEntry {
+  recordId: string;
+  damId: string;
+  damTag: string | null;
+  damName: string | null;
+  animalType: AnimalType;
+  breedingMethod: BreedingRecord['breeding_method'];
+  breedingDate: string;
+  sire: string;
+  pregnancyStatus: BreedingRecord['pregnancy_status'];
+  expectedDueDate: string;
+  daysUntilDue: number;
+}
+
+export interface TreatmentRecordEntry {
+  recordId: string;
+  date: string;
+  animalId: string;
+  animalTag: string | null;
+  animalName: string | null;
+  animalType: AnimalType;
+  drugName: string;
+  dose: string;
+  route: string;
+  injectionSite: string;
+  lotNumber: string;
+  administeredBy: string;
+  reason: string;
+  description: string;
+}
+
+export interface CowProductivityEntry {
+  animal: Animal;
+  animalType: AnimalType;
+  ageYears: number | null;
+  offspringCount: number;
+  offspringDates: string[];
+  // Days between each birth and the one before it, oldest first
+  calvingIntervals: number[];
+  averageCalvingInterval: number | null;
+  daysSinceLastOffspring: number | null;
+  isOpen: boolean;
+  isLate: boolean;
+  isPregnant: boolean;
+  averageAdjusted205DayWeight: number | null;
+  weaningRatio: number | null;
+  averageCalvingEase: number | null;
+  cullScore: number;
+  cullReasons: string[];
+}
+
+export interface RegistrySubmissionEntry {
+  calf: Animal;
+  sire: Animal | null;
+  dam: Animal | null;
+  registry: string;
+  // Details the registry needs that are not on file yet
+  missing: string[];
+}
+
+export type LivestockSaleGroup = 'purchased' | 'raised' | 'breeding-stock';
+
+export interface LivestockSaleEntry {
+  animal: Animal;
+  group: LivestockSaleGroup;
+  arrivalDate: string | null;
+  heldMonths: number | null;
+  salePrice: number | null;
+  isBreedingStock: boolean;
+  // Breeding stock sold before the holding period that moves it to Form 4797
+  heldShort: boolean;
+}
+
+export interface ScheduleFReport {
+  year: number;
+  sales: LivestockSaleEntry[];
+  salesTotals: Record<LivestockSaleGroup, number>;
+  deaths: { raised: Animal[]; purchased: Animal[] };
+  butchered: Animal[];
+  // Totals of each dollar custom field over the animals sold, by sale group
+  customFieldTotals: { field: CustomFieldDefinition; totals: Record<LivestockSaleGroup, number> }[];
+  missingSalePrices: number;
+}
+
+// Counts the herd as it stood at the end of asOfDate (today by default), with calves and adults
+// split by each species' adult age from ranch settings. Head per pasture comes from the move
+// history when given, otherwise from where each animal is now.
 export function generateCountsReport(
   animals: Animal[],
-  settings: RanchSettings
+  settings: RanchSettings | null,
+  asOfDate: string = getTodayLocalDate(),
+  moves: AnimalMove[] = []
 ): CountsReport {
-  const adultAge = Number(settings.adult_age_years) || 1.1;
-  const present = animals.filter(a => a.status === 'PRESENT');
-  const sold = animals.filter(a => a.status === 'SOLD');
-  const dead = animals.filter(a => a.status === 'DEAD');
-
-  const isAdult = (animal: Animal) => {
-    if (!animal.birth_date) return true;
-    const ageYears = (Date.now() - new Date(animal.birth_date).getTime()) / (365.25 * 24 * 60 * 60 * 1000);
-    return ageYears >= adultAge;
-  };
+  const herd = reconstructHerdAsOf(animals, settings, asOfDate);
+  const present = herd.filter(a => a.status === 'PRESENT');
+  const sold = herd.filter(a => a.status === 'SOLD');
+  const dead = herd.filter(a => a.status === 'DEAD');
+
+  const isAdult = (animal: Animal) => isAdultOn(animal, asOfDate, settings);
 
   const presentAdults = present.filter(isAdult);
   const presentCalves = present.filter(a => !isAdult(a));
 
   return {
+    asOfDate,
     totalPresent: present.length,
     totalSold: sold.length,
     totalDead: dead.length,
@@ -55,12 +165,18 @@ export function generateCountsReport(
     presentHeifers: present.filter(a => a.sex === 'HEIFER').length,
     presentCalves: presentCalves.length,
     presentAdults: presentAdults.length,
+    presentByPasture: countHeadByPasture(present, getPastureLocationsOn(present, moves, asOfDate)),
   };
 }
 
-export function generateOffspringByMotherReport(animals: Animal[]): OffspringByParentReport[] {
+const average = (values: (number | null)[]): number | null => {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : null;
+};
+
+export function generateOffspringByMotherReport(animals: Animal[]): OffspringByMotherReport[] {
   const potentialMothers = animals.filter(a =>
-    a.status === 'PRESENT' && (a.sex === 'COW' || a.sex === 'HEIFER' || a.sex === 'EWE' || a.sex === 'DOE' || a.sex === 'SOW' || a.sex === 'MARE' || a.sex === 'JENNET')
+    a.status === 'PRESENT' && (a.sex === 'COW' || a.sex === 'HEIFER' || a.sex === 'EWE' || a.sex === 'DOE' || a.sex === 'SOW' || a.sex === 'MARE')
   );
 
   const reports = potentialMothers.map(mother => {
@@ -75,6 +191,8 @@ export function generateOffspringByMotherReport(animals: Animal[]): OffspringByP
       ? Math.floor((Date.now() - new Date(mostRecentBirthDate).getTime()) / (1000 * 60 * 60 * 24))
       : null;
 
+    const calfPerformance = offspring.map(calf => getCalfPerformance(calf, mother));
+
     return {
       parentId: mother.id,
       parentTag: mother.tag_number,
@@ -82,9 +200,23 @@ export function generateOffspringByMotherReport(animals: Animal[]): OffspringByP
       offspring,
       mostRecentBirthDate,
       daysSinceLastOffspring,
+      calfPerformance,
+      averageBirthWeight: average(calfPerformance.map(p => p.birthWeight)),
+      averageCalvingEase: average(offspring.map(calf => calf.calving_ease)),
+      averageAdjusted205DayWeight: average(calfPerformance.map(p => p.adjusted205DayWeight)),
+      weaningRatio: null as number | null,
     };
   });
 
+  const herdAdjusted205DayWeight = average(reports.flatMap(r => r.calfPerformance.map(p => p.adjusted205DayWeight)));
+  if (herdAdjusted205DayWeight) {
+    reports.forEach(report => {
+      if (report.averageAdjusted205DayWeight !== null) {
+        report.weaningRatio = Math.round((report.averageAdjusted205DayWeight / herdAdjusted205DayWeight) * 100);
+      }
+    });
+  }
+
   return reports.sort((a, b) => {
     if (a.daysSinceLastOffspring === null && b.daysSinceLastOffspring === null) return 0;
     if (a.daysSinceLastOffspring === null) return -1;
@@ -95,7 +227,7 @@ export function generateOffspringByMotherReport(animals: Animal[]): OffspringByP
 
 export function generateOffspringByFatherReport(animals: Animal[]): OffspringByParentReport[] {
   const potentialFathers = animals.filter(a =>
-    a.status === 'PRESENT' && (a.sex === 'BULL' || a.sex === 'STEER' || a.sex === 'RAM' || a.sex === 'BUCK' || a.sex === 'BOAR' || a.sex === 'STALLION' || a.sex === 'JACK')
+    a.status === 'PRESENT' && (a.sex === 'BULL' || a.sex === 'STEER' || a.sex === 'RAM' || a.sex === 'BUCK' || a.sex === 'BOAR' || a.sex === 'STALLION')
   );
 
   const reports = potentialFathers.map(father => {
@@ -130,12 +262,345 @@ export function generateOffspringByFatherReport(animals: Animal[]): OffspringByP
 
 export const generateCalvesByMotherReport = generateOffspringByMotherReport;
 
+// Dams with at least one calf that has an adjusted 205-day weight, best calf performance first
+export function rankDamsByCalfPerformance(report: OffspringByMotherReport[]): OffspringByMotherReport[] {
+  return report
+    .filter(r => r.averageAdjusted205DayWeight !== null)
+    .sort((a, b) => b.averageAdjusted205DayWeight! - a.averageAdjusted205DayWeight!);
+}
+
+export function generateDueToCalveReport(animals: Animal[], breedingRecords: BreedingRecord[]): DueToCalveEntry[] {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const entries: DueToCalveEntry[] = [];
+
+  breedingRecords
+    .filter(r => r.outcome === 'PENDING' && r.pregnancy_status !== 'OPEN')
+    .forEach(record => {
+      const dam = animals.find(a => a.id === record.dam_id);
+      if (!dam || dam.status !== 'PRESENT') return;
+
+      const animalType = dam.animal_type || 'Cattle';
+      const expectedDueDate = calculateExpectedDueDate(animalType, record.breeding_date);
+      if (!expectedDueDate) return;
+
+      const sireAnimal = record.sire_id ? animals.find(a => a.id === record.sire_id) : null;
+      const sireParts = [
+        sireAnimal ? (sireAnimal.tag_number ? `#${sireAnimal.tag_number}` : sireAnimal.name || 'Unknown') : null,
+        record.sire_identifier,
+      ].filter(Boolean);
+
+      const [year, month, day] = expectedDueDate.split('-').map(Number);
+      const daysUntilDue = Math.round((new Date(year, month - 1, day).getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+
+      entries.push({
+        recordId: record.id,
+        damId: dam.id,
+        damTag: dam.tag_number,
+        damName: dam.name,
+        animalType,
+        breedingMethod: record.breeding_method,
+        breedingDate: record.breeding_date,
+        sire: sireParts.join(' / '),
+        pregnancyStatus: record.pregnancy_status,
+        expectedDueDate,
+        daysUntilDue,
+      });
+    });
+
+  return entries.sort((a, b) => a.expectedDueDate.localeCompare(b.expectedDueDate));
+}
+
+export function generateTreatmentRecordsReport(animals: Animal[], medicalRecords: MedicalHistory[]): TreatmentRecordEntry[] {
+  const entries: TreatmentRecordEntry[] = [];
+
+  medicalRecords.forEach(record => {
+    const animal = animals.find(a => a.id === record.animal_id);
+    if (!animal) return;
+
+    entries.push({
+      recordId: record.id,
+      date: record.date,
+      animalId: animal.id,
+      animalTag: animal.tag_number,
+      animalName: animal.name,
+      animalType: animal.animal_type || 'Cattle',
+      drugName: record.drug_name || '',
+      dose: formatDose(record),
+      route: record.route ? TREATMENT_ROUTE_LABELS[record.route] : '',
+      injectionSite: record.injection_site || '',
+      lotNumber: record.lot_number || '',
+      administeredBy: record.administered_by || '',
+      reason: record.reason || '',
+      description: record.description,
+    });
+  });
+
+  return entries.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+export function generateDrugInventoryReport(drugs: InventoryDrug[], lots: DrugLot[], onDate: string): DrugStockSummary[] {
+  return drugs
+    .map(drug => summarizeDrugStock(drug, lots, onDate))
+    .sort((a, b) => a.animalType.localeCompare(b.animalType) || a.drugName.localeCompare(b.drugName));
+}
+
+// Age past which a female is flagged for culling on age alone
+const CULL_AGE_YEARS: Record<AnimalType, number | null> = {
+  Cattle: 12,
+  Horse: 20,
+  Sheep: 7,
+  Goat: 8,
+  Pig: 5,
+  Donkey: 25,
+  Other: null,
+};
+
+// Cull list points per problem; a higher total means a stronger candidate
+const CULL_POINTS = {
+  open: 3,
+  neverBred: 3,
+  late: 2,
+  poorWeaning: 2,
+  longInterval: 1,
+  hardCalving: 1,
+  age: 1,
+};
+
+const LATE_GRACE_DAYS = 60;
+const POOR_WEANING_RATIO = 90;
+const HARD_CALVING_EASE = 3;
+
+// Females that have one offspring a year are on target; species that carry longer than a year
+// are held to gestation plus a month
+function targetOffspringIntervalDays(animalType: AnimalType): number | null {
+  const gestationDays = getGestationDays(animalType);
+  if (!gestationDays) return null;
+  return Math.max(365, gestationDays + 30);
+}
+
+export function generateCowProductivityReport(
+  animals: Animal[],
+  breedingRecords: BreedingRecord[],
+  settings: RanchSettings | null,
+  onDate: string
+): CowProductivityEntry[] {
+  return generateOffspringByMotherReport(animals).map(mother => {
+    const animal = animals.find(a => a.id === mother.parentId)!;
+    const animalType = animal.animal_type || 'Cattle';
+    const targetInterval = targetOffspringIntervalDays(animalType);
+    const gestationDays = getGestationDays(animalType);
+
+    const ageYears = animal.birth_date ? Math.round((daysBetween(animal.birth_date, onDate) / 365.25) * 10) / 10 : null;
+
+    // Twins share a birth date, so intervals are measured between distinct dates
+    const offspringDates = [...new Set(mother.offspring.map(o => o.birth_date).filter((d): d is string => d !== null))].sort();
+    const calvingIntervals = offspringDates.slice(1).map((date, i) => daysBetween(offspringDates[i], date));
+    const averageCalvingInterval = calvingIntervals.length > 0
+      ? Math.round(calvingIntervals.reduce((sum, days) => sum + days, 0) / calvingIntervals.length)
+      : null;
+    const lastOffspringDate = offspringDates[offspringDates.length - 1] || null;
+    const daysSinceLastOffspring = lastOffspringDate ? daysBetween(lastOffspringDate, onDate) : null;
+
+    const latestBreeding = breedingRecords
+      .filter(r => r.dam_id === animal.id)
+      .sort((a, b) => b.breeding_date.localeCompare(a.breeding_date))[0];
+    const isPregnant = latestBreeding?.pregnancy_status === 'PREGNANT' && latestBreeding.outcome === 'PENDING';
+    // An open check from before her last offspring is history, not a current problem
+    const isOpen = latestBreeding?.pregnancy_status === 'OPEN' &&
+      (!lastOffspringDate || latestBreeding.breeding_date > lastOffspringDate);
+
+    const firstOffspringAge = getAdultAgeYears(animalType, settings) + (gestationDays || 0) / 365 + 0.5;
+    const isLate = !isPregnant && targetInterval !== null && (
+      daysSinceLastOffspring !== null
+        ? daysSinceLastOffspring > targetInterval + LATE_GRACE_DAYS
+        : ageYears !== null && ageYears > firstOffspringAge
+    );
+
+    const cullReasons: string[] = [];
+    let cullScore = 0;
+    const flag = (points: number, reason: string) => {
+      cullScore += points;
+      cullReasons.push(reason);
+    };
+
+    if (isOpen) {
+      flag(CULL_POINTS.open, `Open at last pregnancy check${latestBreeding.pregnancy_check_date ? ` (${latestBreeding.pregnancy_check_date})` : ''}`);
+    }
+    if (isLate && daysSinceLastOffspring === null) {
+      flag(CULL_POINTS.neverBred, `No offspring recorded at ${ageYears} years old`);
+    } else if (isLate) {
+      flag(CULL_POINTS.late, `${daysSinceLastOffspring} days since last offspring (target ${targetInterval})`);
+    }
+    if (averageCalvingInterval !== null && targetInterval !== null && averageCalvingInterval > targetInterval + 30) {
+      flag(CULL_POINTS.longInterval, `Average interval between offspring is ${averageCalvingInterval} days`);
+    }
+    if (mother.weaningRatio !== null && mother.weaningRatio < POOR_WEANING_RATIO) {
+      flag(CULL_POINTS.poorWeaning, `Calves wean at ${mother.weaningRatio}% of the herd average`);
+    }
+    if (mother.averageCalvingEase !== null && mother.averageCalvingEase >= HARD_CALVING_EASE) {
+      flag(CULL_POINTS.hardCalving, `Average calving ease score ${mother.averageCalvingEase.toFixed(1)}`);
+    }
+    const cullAge = CULL_AGE_YEARS[animalType];
+    if (cullAge !== null && ageYears !== null && ageYears >= cullAge) {
+      flag(CULL_POINTS.age, `${Math.floor(ageYears)} years old`);
+    }
+
+    return {
+      animal,
+      animalType,
+      ageYears,
+      offspringCount: mother.offspring.length,
+      offspringDates,
+      calvingIntervals,
+      averageCalvingInterval,
+      daysSinceLastOffspring,
+      isOpen,
+      isLate,
+      isPregnant,
+      averageAdjusted205DayWeight: mother.averageAdjusted205DayWeight,
+      weaningRatio: mother.weaningRatio,
+      averageCalvingEase: mother.averageCalvingEase,
+      cullScore,
+      cullReasons,
+    };
+  });
+}
+
+// Females with at least one cull reason, strongest candidates first
+export function generateCullList(report: CowProductivityEntry[]): CowProductivityEntry[] {
+  return report
+    .filter(entry => entry.cullScore > 0)
+    .sort((a, b) =>
+      b.cullScore - a.cullScore ||
+      (b.daysSinceLastOffspring ?? Number.MAX_SAFE_INTEGER) - (a.daysSinceLastOffspring ?? Number.MAX_SAFE_INTEGER)
+    );
+}
+
+// Calves born on the ranch that are still present and not yet registered
+export function generateRegistrySubmissionReport(animals: Animal[]): RegistrySubmissionEntry[] {
+  const animalsById = new Map(animals.map(a => [a.id, a]));
+
+  return animals
+    .filter(a => a.source === 'BORN' && a.status === 'PRESENT' && !a.registration_number)
+    .map(calf => {
+      const sire = calf.father_id ? animalsById.get(calf.father_id) || null : null;
+      const dam = calf.mother_id ? animalsById.get(calf.mother_id) || null : null;
+      const missing: string[] = [];
+
+      if (!calf.birth_date) missing.push('birth date');
+      if (!sire) missing.push('sire');
+      else if (!sire.registration_number) missing.push('sire registration number');
+      if (!dam) missing.push('dam');
+      else if (!dam.registration_number) missing.push('dam registration number');
+
+      return {
+        calf,
+        sire,
+        dam,
+        registry: calf.registry_name || dam?.registry_name || sire?.registry_name || '',
+        missing,
+      };
+    })
+    .sort((a, b) => (a.calf.birth_date || '').localeCompare(b.calf.birth_date || ''));
+}
+
+// Grouped as on the tax forms: purchased animals sold go on Schedule F line 1a, raised animals on
+// line 2, and breeding stock held past the IRS holding period on Form 4797
+export const LIVESTOCK_SALE_GROUP_LABELS: Record<LivestockSaleGroup, string> = {
+  'purchased': 'Schedule F Line 1a - Livestock Bought for Resale',
+  'raised': 'Schedule F Line 2 - Raised Livestock',
+  'breeding-stock': 'Form 4797 - Breeding Stock',
+};
+
+export const LIVESTOCK_SALE_GROUPS: LivestockSaleGroup[] = ['purchased', 'raised', 'breeding-stock'];
+
+// Cattle and horses must be held 24 months, other livestock 12, for a breeding stock sale to
+// be reported on Form 4797
+export const BREEDING_STOCK_HOLDING_MONTHS: Record<AnimalType, number> = {
+  Cattle: 24,
+  Horse: 24,
+  Donkey: 24,
+  Sheep: 12,
+  Goat: 12,
+  Pig: 12,
+  Other: 12,
+};
+
+// Mature females and intact males; heifers, fillies and gilts are not yet breeding stock
+const BREEDING_STOCK_SEXES = [...BREEDING_MALE_SEXES, 'COW', 'MARE', 'EWE', 'DOE', 'SOW'];
+
+const emptySaleTotals = (): Record<LivestockSaleGroup, number> => ({ 'purchased': 0, 'raised': 0, 'breeding-stock': 0 });
+
+export function generateScheduleFReport(
+  animals: Animal[],
+  year: number,
+  customFields: CustomFieldDefinition[] = [],
+  customFieldValues: CustomFieldValue[] = []
+): ScheduleFReport {
+  const inYear = (a: Animal) => !!a.exit_date && a.exit_date.startsWith(`${year}-`);
+
+  const sales = animals
+    .filter(a => a.status === 'SOLD' && inYear(a))
+    .map((animal): LivestockSaleEntry => {
+      const arrivalDate = getArrivalDate(animal);
+      const heldMonths = arrivalDate ? Math.floor(daysBetween(arrivalDate, animal.exit_date!) / (365.25 / 12)) : null;
+      const isBreedingStock = BREEDING_STOCK_SEXES.includes(animal.sex.toUpperCase());
+      const requiredMonths = BREEDING_STOCK_HOLDING_MONTHS[animal.animal_type || 'Cattle'];
+      const qualifies = isBreedingStock && heldMonths !== null && heldMonths >= requiredMonths;
+
+      return {
+        animal,
+        group: qualifies ? 'breeding-stock' : animal.source === 'PURCHASED' ? 'purchased' : 'raised',
+        arrivalDate,
+        heldMonths,
+        salePrice: animal.sale_price != null ? Number(animal.sale_price) : null,
+        isBreedingStock,
+        heldShort: isBreedingStock && !qualifies,
+      };
+    })
+    .sort((a, b) => a.animal.exit_date!.localeCompare(b.animal.exit_date!));
+
+  const salesTotals = emptySaleTotals();
+  for (const sale of sales) {
+    salesTotals[sale.group] += sale.salePrice || 0;
+  }
+
+  const customFieldTotals = customFields
+    .filter(field => field.field_type === 'dollar')
+    .map(field => {
+      const totals = emptySaleTotals();
+      for (const sale of sales) {
+        const value = customFieldValues.find(v => v.animal_id === sale.animal.id && v.field_id === field.id);
+        const amount = value?.value ? parseFloat(value.value) : NaN;
+        if (!isNaN(amount)) totals[sale.group] += amount;
+      }
+      return { field, totals };
+    });
+
+  const deaths = animals.filter(a => a.status === 'DEAD' && inYear(a));
+
+  return {
+    year,
+    sales,
+    salesTotals,
+    deaths: {
+      raised: deaths.filter(a => a.source !== 'PURCHASED'),
+      purchased: deaths.filter(a => a.source === 'PURCHASED'),
+    },
+    butchered: animals.filter(a => a.status === 'BUTCHERED' && inYear(a)),
+    customFieldTotals,
+    missingSalePrices: sales.filter(sale => sale.salePrice === null).length,
+  };
+}
+
 export function exportToCSV(data: any[], headers: string[], filename: string) {
   const csvContent = [
     headers.join(','),
     ...data.map(row => headers.map(h => {
       const value = row[h] || '';
-      if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
+      if (typeof value === 'string' && (value.includes(',') || value.includes('"') || value.includes('\n'))) {
         return `"${value.replace(/"/g, '""')}"`;
       }
       return value;
@@ -183,9 +648,21 @@ export function formatAnimalForExport(
     'Sex': animal.sex,
     'Status': animal.status,
     'Source': animal.source,
+    'Purchase Date': animal.purchase_date || '',
+    'Purchase Price': animal.purchase_price != null ? Number(animal.purchase_price).toFixed(2) : '',
+    'Seller': animal.seller || '',
     'Birth Date': animal.birth_date || '',
     'Weaning Date': animal.weaning_date || '',
     'Exit Date': animal.exit_date || '',
+    'Sale Weight': animal.sale_weight_lbs != null ? Number(animal.sale_weight_lbs).toString() : '',
+    'Breed': animal.breed || '',
+    'Percentage Blood': animal.percentage_blood != null ? Number(animal.percentage_blood).toString() : '',
+    'Breed Composition': formatBreedComposition(getBreedComposition(animal)),
+    'Registry': animal.registry_name || '',
+    'Registration Number': animal.registration_number || '',
+    'Calving Ease': animal.calving_ease ? CALVING_EASE_LABELS[animal.calving_ease] : '',
+    'Birth Weight': animal.birth_weight_lbs != null ? Number(animal.birth_weight_lbs).toString() : '',
+    'Weaning Weight': animal.weaning_weight_lbs != null ? Number(animal.weaning_weight_lbs).toString() : '',
     'Description': animal.description || '',
     'Notes': animal.notes || '',
   };
@@ -209,7 +686,10 @@ export function formatAnimalWithMedicalForExport(
   const base = formatAnimalForExport(animal, customFields, customFieldValues);
   const medical = medicalRecords
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-    .map(m => `${m.date}: ${m.description}`)
+    .map(m => {
+      const details = formatTreatmentDetails(m);
+      return details ? `${m.date}: ${m.description} (${details})` : `${m.date}: ${m.description}`;
+    })
     .join(' | ');
 
   return {
@@ -218,3 +698,74 @@ export function formatAnimalWithMedicalForExport(
     'Sale Price': animal.sale_price ? `$${Number(animal.sale_price).toFixed(2)}` : '',
   };
 }
+
+export function formatRegistrySubmissionForExport(
+  entry: RegistrySubmissionEntry,
+  customFields?: CustomFieldDefinition[],
+  customFieldValues?: CustomFieldValue[]
+) {
+  const { sire, dam } = entry;
+
+  return {
+    ...formatAnimalForExport(entry.calf, customFields, customFieldValues),
+    'Registry': entry.registry,
+    'Sire Registration Number': sire?.registration_number || '',
+    'Sire Name': sire?.name || '',
+    'Sire Tag': sire?.tag_number || '',
+    'Dam Registration Number': dam?.registration_number || '',
+    'Dam Name': dam?.name || '',
+    'Dam Tag': dam?.tag_number || '',
+    'Missing Information': entry.missing.join('; '),
+  };
+}
+
+export const SCHEDULE_F_EXPORT_HEADERS = [
+  'Section', 'Tag Number', 'Name', 'Animal Type', 'Sex', 'Source', 'Date', 'Months Held', 'Breeding Stock', 'Amount',
+];
+
+// One row per animal under its tax form heading, then the totals an accountant carries to the forms
+export function formatScheduleFForExport(report: ScheduleFReport): Record<string, string>[] {
+  const formatMoney = (amount: number) => amount.toFixed(2);
+  const row = (values: Record<string, string>) =>
+    Object.fromEntries(SCHEDULE_F_EXPORT_HEADERS.map(header => [header, values[header] || '']));
+  const animalRow = (section: string, animal: Animal, details: Record<string, string> = {}) => row({
+    'Section': section,
+    'Tag Number': animal.tag_number || '',
+    'Name': animal.name || '',
+    'Animal Type': animal.animal_type || 'Cattle',
+    'Sex': animal.sex,
+    'Source': animal.source,
+    'Date': animal.exit_date || '',
+    ...details,
+  });
+
+  const rows: Record<string, string>[] = [];
+
+  for (const group of LIVESTOCK_SALE_GROUPS) {
+    for (const sale of report.sales.filter(s => s.group === group)) {
+      rows.push(animalRow(LIVESTOCK_SALE_GROUP_LABELS[group], sale.animal, {
+        'Months Held': sale.heldMonths !== null ? sale.heldMonths.toString() : '',
+        'Breeding Stock': sale.isBreedingStock ? (sale.heldShort ? 'Yes - held short' : 'Yes') : 'No',
+        'Amount': sale.salePrice !== null ? formatMoney(sale.salePrice) : '',
+      }));
+    }
+  }
+  for (const animal of report.deaths.purchased) rows.push(animalRow('Death Loss - Purchased', animal));
+  for (const animal of report.deaths.raised) rows.push(animalRow('Death Loss - Raised', animal));
+  for (const animal of report.butchered) rows.push(animalRow('Butchered for Home Use', animal));
+
+  rows.push(row({}));
+  for (const group of LIVESTOCK_SALE_GROUPS) {
+    rows.push(row({ 'Section': `TOTAL ${LIVESTOCK_SALE_GROUP_LABELS[group]}`, 'Amount': formatMoney(report.salesTotals[group]) }));
+  }
+  rows.push(row({ 'Section': 'TOTAL Death Losses - Purchased (head)', 'Amount': report.deaths.purchased.length.toString() }));
+  rows.push(row({ 'Section': 'TOTAL Death Losses - Raised (head)', 'Amount': report.deaths.raised.length.toString() }));
+  rows.push(row({ 'Section': 'TOTAL Butchered for Home Use (head)', 'Amount': report.butchered.length.toString() }));
+  for (const { field, totals } of report.customFieldTotals) {
+    for (const group of LIVESTOCK_SALE_GROUPS) {
+      rows.push(row({ 'Section': `TOTAL ${field.field_name} - ${LIVESTOCK_SALE_GROUP_LABELS[group]}`, 'Amount': formatMoney(totals[group]) }));
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,117 @@
+import type { Sale } from '../lib/database.types';
+import { splitAmountEvenly } from './profitLoss';
+
+export type SaleDeduction = 'commission' | 'yardage' | 'checkoff' | 'trucking';
+
+export type SaleAmounts = Pick<Sale, 'gross_amount' | SaleDeduction>;
+
+export const SALE_SPLIT_METHOD_LABELS: Record<Sale['split_method'], string> = {
+  EVEN: 'Evenly per head',
+  WEIGHT: 'By weight',
+  MANUAL: 'Manual prices',
+};
+
+export const SALE_DEDUCTIONS: { key: SaleDeduction; label: string }[] = [
+  { key: 'commission', label: 'Commission' },
+  { key: 'yardage', label: 'Yardage' },
+  { key: 'checkoff', label: 'Checkoff' },
+  { key: 'trucking', label: 'Trucking' },
+];
+
+export interface SaleShareInput {
+  // Weight the animal sold at, when it was weighed
+  weight: number | null;
+  // Price typed in for this animal; only used by the MANUAL split
+  manualPrice: number | null;
+}
+
+export interface SaleSplit {
+  shares: number[];
+  // Why the net can't be split, in which case shares is empty
+  problem: string | null;
+}
+
+const toCents = (value: number) => Math.round(value * 100);
+
+export function calculateSaleNet(amounts: SaleAmounts): number {
+  const deductions = SALE_DEDUCTIONS.reduce((sum, { key }) => sum + toCents(Number(amounts[key]) || 0), 0);
+  return (toCents(Number(amounts.gross_amount) || 0) - deductions) / 100;
+}
+
+// Splits a total in proportion to the weights. Each share is rounded down to the cent and the
+// leftover cents go to the shares that lost the most in rounding, so the shares add up exactly.
+export function splitAmountByWeight(total: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (weights.length === 0 || totalWeight <= 0) return [];
+
+  const cents = toCents(total);
+  const exact = weights.map(w => (cents * w) / totalWeight);
+  const shares = exact.map(Math.floor);
+  const remainder = cents - shares.reduce((sum, s) => sum + s, 0);
+
+  exact
+    .map((value, i) => ({ i, fraction: value - shares[i] }))
+    .sort((a, b) => b.fraction - a.fraction || a.i - b.i)
+    .slice(0, remainder)
+    .forEach(({ i }) => { shares[i] += 1; });
+
+  return shares.map(s => s / 100);
+}
+
+// Works out each animal's share of the net. MANUAL keeps the typed prices and splits whatever is
+// left evenly across the animals without one.
+export function splitSaleProceeds(net: number, method: Sale['split_method'], entries: SaleShareInput[]): SaleSplit {
+  const fail = (problem: string): SaleSplit => ({ shares: [], problem });
+
+  if (entries.length === 0) return fail('Select at least one animal to sell');
+  if (net < 0) return fail('Deductions are more than the gross amount');
+
+  if (method === 'EVEN') {
+    return { shares: splitAmountEvenly(net, entries.length), problem: null };
+  }
+
+  if (method === 'WEIGHT') {
+    const unweighed = entries.filter(e => !e.weight || e.weight <= 0).length;
+    if (unweighed > 0) {
+      return fail(`${unweighed} animal${unweighed === 1 ? ' needs a sale weight' : 's need sale weights'} to split by weight`);
+    }
+    return { shares: splitAmountByWeight(net, entries.map(e => e.weight!)), problem: null };
+  }
+
+  const manualCents = entries.reduce((sum, e) => sum + (e.manualPrice != null ? toCents(e.manualPrice) : 0), 0);
+  const leftoverCents = toCents(net) - manualCents;
+  const unpriced = entries.filter(e => e.manualPrice == null).length;
+
+  if (leftoverCents < 0) {
+    return fail(`Manual prices are $${(-leftoverCents / 100).toFixed(2)} more than the net proceeds`);
+  }
+  if (unpriced === 0 && leftoverCents !== 0) {
+    return fail(`Manual prices are $${(leftoverCents / 100).toFixed(2)} short of the net proceeds`);
+  }
+
+  const evenShares = splitAmountEvenly(leftoverCents / 100, unpriced);
+  let next = 0;
+  return {
+    shares: entries.map(e => (e.manualPrice != null ? toCents(e.manualPrice) / 100 : evenShares[next++])),
+    problem: null,
+  };
+}
+
+// One price per hundredweight for animals weighing at least minWeight lbs, so a load can be priced
+// like "under 600 lbs at $260/cwt, 600 and up at $240/cwt"
+export interface CwtPriceClass {
+  minWeight: number;
+  pricePerCwt: number;
+}
+
+export function getCwtPriceClass(weight: number, classes: CwtPriceClass[]): CwtPriceClass | null {
+  return classes
+    .filter(c => weight >= c.minWeight)
+    .reduce<CwtPriceClass | null>((best, c) => (!best || c.minWeight > best.minWeight ? c : best), null);
+}
+
+// What an animal brings at its weight class's price, rounded to the cent
+export function calculateCwtValue(weight: number, classes: CwtPriceClass[]): number | null {
+  const priceClass = getCwtPriceClass(weight, classes);
+  return priceClass ? toCents((weight / 100) * priceClass.pricePerCwt) / 100 : null;
+}
@@ -0,0 +1,61 @@
+import type { TreatmentRoute } from '../lib/database.types';
+import { calculateDrugDose } from './medicalRecords';
+
+export interface ProtocolDrug {
+  id: string;
+  drug_name: string;
+  animal_type: string;
+  ccs_per_pound: number | null;
+  fixed_dose_ml: number | null;
+}
+
+export interface ProtocolDoseAnimal {
+  id: string;
+  tag_number: string | null;
+  name: string | null;
+  animal_type: string;
+  weight_lbs: number | null;
+}
+
+export interface ProtocolDoseItem {
+  drug: ProtocolDrug;
+  route: TreatmentRoute | null;
+  injection_site: string | null;
+}
+
+export interface ProtocolDoseLine {
+  drugName: string;
+  dose: number | null;
+  needsWeight: boolean;
+}
+
+export interface ProtocolDosePreview {
+  animal: ProtocolDoseAnimal;
+  lines: ProtocolDoseLine[];
+  wrongAnimalType: boolean;
+}
+
+// Rounded to the hundredth of a mL, matching what apply_treatment_protocol records.
+export function calculateProtocolDose(drug: ProtocolDrug, weightLbs: number | null): number | null {
+  const dose = calculateDrugDose(drug, weightLbs !== null ? Number(weightLbs) : null);
+  return dose !== null ? Math.round(dose * 100) / 100 : null;
+}
+
+export function buildProtocolDosePreview(
+  animals: ProtocolDoseAnimal[],
+  items: ProtocolDoseItem[],
+  protocolAnimalType: string
+): ProtocolDosePreview[] {
+  return animals.map(animal => ({
+    animal,
+    wrongAnimalType: (animal.animal_type || 'Cattle') !== protocolAnimalType,
+    lines: items.map(item => {
+      const dose = calculateProtocolDose(item.drug, animal.weight_lbs);
+      return {
+        drugName: item.drug.drug_name,
+        dose,
+        needsWeight: dose === null && item.drug.ccs_per_pound !== null,
+      };
+    }),
+  }));
+}
@@ -0,0 +1,68 @@
+import type { Database } from '../lib/database.types';
+import { parseLocalDate } from './printHelpers';
+
+type WeightRecord = Database['public']['Tables']['weight_records']['Row'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface WeightGainInterval {
+  recordId: string;
+  fromDate: string;
+  toDate: string;
+  days: number;
+  gainLbs: number;
+  averageDailyGain: number | null;
+}
+
+export function sortWeightRecords(records: WeightRecord[]): WeightRecord[] {
+  return [...records].sort((a, b) => {
+    const byDate = parseLocalDate(a.weigh_date).getTime() - parseLocalDate(b.weigh_date).getTime();
+    if (byDate !== 0) return byDate;
+    return (a.created_at || '').localeCompare(b.created_at || '');
+  });
+}
+
+export function daysBetween(fromDate: string, toDate: string): number {
+  return Math.round((parseLocalDate(toDate).getTime() - parseLocalDate(fromDate).getTime()) / MS_PER_DAY);
+}
+
+export function calculateWeightGains(records: WeightRecord[]): WeightGainInterval[] {
+  const sorted = sortWeightRecords(records);
+  const intervals: WeightGainInterval[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    const days = daysBetween(previous.weigh_date, current.weigh_date);
+    const gainLbs = Number(current.weight_lbs) - Number(previous.weight_lbs);
+
+    intervals.push({
+      recordId: current.id,
+      fromDate: previous.weigh_date,
+      toDate: current.weigh_date,
+      days,
+      gainLbs,
+      averageDailyGain: days > 0 ? gainLbs / days : null,
+    });
+  }
+
+  return intervals;
+}
+
+export function calculateOverallAverageDailyGain(records: WeightRecord[]): number | null {
+  if (records.length < 2) return null;
+
+  const sorted = sortWeightRecords(records);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const days = daysBetween(first.weigh_date, last.weigh_date);
+  if (days <= 0) return null;
+
+  return (Number(last.weight_lbs) - Number(first.weight_lbs)) / days;
+}
+
+export function getLatestWeightRecord(records: WeightRecord[]): WeightRecord | null {
+  if (records.length === 0) return null;
+  const sorted = sortWeightRecords(records);
+  return sorted[sorted.length - 1];
+}
@@ -0,0 +1,26 @@
+import { parseLocalDate } from './printHelpers';
+
+export const WITHDRAWAL_RESTRICTED_STATUSES = ['SOLD', 'BUTCHERED'] as const;
+
+function toLocalDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function calculateWithdrawalClearDate(administeredDate: string, withdrawalDays: number | null | undefined): string | null {
+  if (!withdrawalDays || withdrawalDays <= 0) return null;
+
+  const clearDate = parseLocalDate(administeredDate);
+  clearDate.setDate(clearDate.getDate() + withdrawalDays);
+  return toLocalDateString(clearDate);
+}
+
+export function laterClearDate(current: string | null | undefined, candidate: string | null): string | null {
+  if (!candidate) return current || null;
+  if (!current) return candidate;
+  return parseLocalDate(candidate).getTime() > parseLocalDate(current).getTime() ? candidate : current;
+}
+
+export function isWithinWithdrawal(clearDate: string | null | undefined, onDate: string): boolean {
+  if (!clearDate) return false;
+  return parseLocalDate(onDate).getTime() < parseLocalDate(clearDate).getTime();
+}
@@ -0,0 +1,175 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+// Saves a herd count snapshot for every ranch that has auto_count_snapshots turned on.
+// Run by pg_cron on the first of each month (see 20260203150000_add_automatic_count_snapshots.sql);
+// a ranch that already has an automatic snapshot for the current month is skipped, so a retry is safe.
+// The month comes from the UTC run date rather than each ranch's time zone: at 07:00 UTC on the 1st,
+// Alaska and Hawaii are still on the last day of the previous month.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// Mirrors getAdultAgeYears in src/utils/animalTypes.ts
+const ADULT_AGE_SETTING_KEYS: Record<string, string | null> = {
+  Cattle: "cattle_adult_age",
+  Horse: "horse_adult_age",
+  Donkey: "horse_adult_age",
+  Sheep: "sheep_adult_age",
+  Goat: "goat_adult_age",
+  Pig: "pig_adult_age",
+  Other: null,
+};
+
+const DEFAULT_ADULT_AGES: Record<string, number> = {
+  cattle_adult_age: 2.0,
+  horse_adult_age: 4.0,
+  sheep_adult_age: 1.0,
+  goat_adult_age: 1.0,
+  pig_adult_age: 0.75,
+};
+
+interface SnapshotAnimal {
+  animal_type: string | null;
+  sex: string;
+  status: string | null;
+  birth_date: string | null;
+}
+
+function getAdultAgeYears(animalType: string, settings: Record<string, unknown>): number {
+  const key = ADULT_AGE_SETTING_KEYS[animalType] ?? null;
+  if (!key) return Number(settings.adult_age_years) || 1.1;
+  return Number(settings[key]) || DEFAULT_ADULT_AGES[key];
+}
+
+// Same totals as generateCountsReport in src/utils/reportGenerators.ts as of the given date
+function countHerd(animals: SnapshotAnimal[], settings: Record<string, unknown>, asOfDate: string) {
+  const asOfTime = Date.parse(`${asOfDate}T00:00:00Z`);
+  const isAdult = (animal: SnapshotAnimal) => {
+    if (!animal.birth_date) return true;
+    const ageYears = (asOfTime - Date.parse(`${animal.birth_date}T00:00:00Z`)) / (1000 * 60 * 60 * 24 * 365.25);
+    return ageYears >= getAdultAgeYears(animal.animal_type || "Cattle", settings);
+  };
+
+  const present = animals.filter(a => a.status === "PRESENT");
+  const presentAdults = present.filter(isAdult);
+
+  return {
+    asOfDate,
+    totalPresent: present.length,
+    totalSold: animals.filter(a => a.status === "SOLD").length,
+    totalDead: animals.filter(a => a.status === "DEAD").length,
+    presentBulls: present.filter(a => a.sex === "BULL").length,
+    presentCows: present.filter(a => a.sex === "COW").length,
+    presentSteers: present.filter(a => a.sex === "STEER").length,
+    presentHeifers: present.filter(a => a.sex === "HEIFER").length,
+    presentCalves: present.length - presentAdults.length,
+    presentAdults: presentAdults.length,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const authHeader = req.headers.get("Authorization") || "";
+
+    // Only the scheduler, which holds the service role key, may run this
+    if (authHeader.replace("Bearer ", "") !== supabaseServiceKey) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const { data: ranchSettings, error: settingsError } = await supabaseClient
+      .from("ranch_settings")
+      .select("*")
+      .eq("auto_count_snapshots", true);
+
+    if (settingsError) throw settingsError;
+
+    // First day of the month the job runs in, by the UTC clock
+    const snapshotDate = `${new Date().toISOString().slice(0, 7)}-01`;
+
+    const created: string[] = [];
+    const skipped: string[] = [];
+    const failed: { ranch_id: string; error: string }[] = [];
+
+    for (const settings of ranchSettings || []) {
+      try {
+        const { data: existing, error: existingError } = await supabaseClient
+          .from("count_report_snapshots")
+          .select("id")
+          .eq("ranch_id", settings.ranch_id)
+          .eq("source", "AUTO")
+          .gte("snapshot_date", snapshotDate)
+          .limit(1);
+
+        if (existingError) throw existingError;
+        if (existing && existing.length > 0) {
+          skipped.push(settings.ranch_id);
+          continue;
+        }
+
+        const { data: animals, error: animalsError } = await supabaseClient
+          .from("animals")
+          .select("animal_type, sex, status, birth_date")
+          .eq("ranch_id", settings.ranch_id);
+
+        if (animalsError) throw animalsError;
+
+        const { error: insertError } = await supabaseClient
+          .from("count_report_snapshots")
+          .insert({
+            ranch_id: settings.ranch_id,
+            snapshot_date: snapshotDate,
+            data: countHerd(animals || [], settings, snapshotDate),
+            source: "AUTO",
+          });
+
+        if (insertError) throw insertError;
+        created.push(settings.ranch_id);
+      } catch (error) {
+        console.error(`Error saving count snapshot for ranch ${settings.ranch_id}:`, error);
+        failed.push({
+          ranch_id: settings.ranch_id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: failed.length === 0, created, skipped, failed }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
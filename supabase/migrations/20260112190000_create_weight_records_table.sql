@@ -0,0 +1,135 @@
+/*
+  # Create weight records table
+
+  1. New Tables
+    - `weight_records`
+      - `id` (uuid, primary key) - Unique identifier for each weigh-in
+      - `animal_id` (uuid, foreign key) - Animal that was weighed
+      - `ranch_id` (uuid, foreign key) - Links weigh-in to a specific ranch
+      - `weigh_date` (date) - Date the animal was weighed
+      - `weight_lbs` (numeric) - Weight in pounds
+      - `notes` (text, nullable) - How the weight was taken (scale, tape, estimate)
+      - `created_by_user_id` (uuid, nullable) - User who recorded the weigh-in
+      - `created_at` (timestamptz) - Record creation timestamp
+      - `updated_at` (timestamptz) - Record last update timestamp
+
+  2. Changes
+    - `animals.weight_lbs` now holds the latest weight and is maintained by a
+      trigger on `weight_records` (latest `weigh_date`, then latest `created_at`)
+    - Existing `animals.weight_lbs` values are copied into `weight_records`
+      dated from the animal's last update so no weights are lost
+
+  3. Security
+    - Enable RLS on `weight_records` table
+    - Ranch members can view, insert, update and delete weigh-ins for their ranches
+*/
+
+CREATE TABLE IF NOT EXISTS weight_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  animal_id uuid NOT NULL REFERENCES animals(id) ON DELETE CASCADE,
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  weigh_date date NOT NULL,
+  weight_lbs numeric(8,2) NOT NULL CHECK (weight_lbs > 0),
+  notes text,
+  created_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_weight_records_animal_id ON weight_records(animal_id, weigh_date);
+CREATE INDEX IF NOT EXISTS idx_weight_records_ranch_id ON weight_records(ranch_id);
+
+ALTER TABLE weight_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view weight records in their ranches"
+  ON weight_records FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create weight records in their ranches"
+  ON weight_records FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update weight records in their ranches"
+  ON weight_records FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete weight records in their ranches"
+  ON weight_records FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_weight_records_updated_at BEFORE UPDATE ON weight_records
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Copy existing single weights into the history before the sync trigger exists
+INSERT INTO weight_records (animal_id, ranch_id, weigh_date, weight_lbs, notes)
+SELECT id, ranch_id, COALESCE(updated_at::date, CURRENT_DATE), weight_lbs, 'Imported from previous weight'
+FROM animals
+WHERE weight_lbs IS NOT NULL AND weight_lbs > 0;
+
+-- Keep animals.weight_lbs equal to the most recent weigh-in
+CREATE OR REPLACE FUNCTION sync_animal_latest_weight()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_animal_id uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_animal_id := OLD.animal_id;
+  ELSE
+    target_animal_id := NEW.animal_id;
+  END IF;
+
+  UPDATE animals
+  SET weight_lbs = (
+    SELECT weight_lbs FROM weight_records
+    WHERE weight_records.animal_id = target_animal_id
+    ORDER BY weigh_date DESC, created_at DESC
+    LIMIT 1
+  )
+  WHERE id = target_animal_id;
+
+  IF TG_OP = 'UPDATE' AND OLD.animal_id <> NEW.animal_id THEN
+    UPDATE animals
+    SET weight_lbs = (
+      SELECT weight_lbs FROM weight_records
+      WHERE weight_records.animal_id = OLD.animal_id
+      ORDER BY weigh_date DESC, created_at DESC
+      LIMIT 1
+    )
+    WHERE id = OLD.animal_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_animal_latest_weight_trigger ON weight_records;
+
+CREATE TRIGGER sync_animal_latest_weight_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON weight_records
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_animal_latest_weight();
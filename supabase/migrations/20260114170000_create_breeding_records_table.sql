@@ -0,0 +1,136 @@
+/*
+  # Create breeding records table
+
+  1. New Tables
+    - `breeding_records`
+      - `id` (uuid, primary key) - Unique identifier for each breeding event
+      - `ranch_id` (uuid, foreign key) - Links breeding to a specific ranch
+      - `dam_id` (uuid, foreign key) - Female that was bred
+      - `breeding_method` (text) - NATURAL, AI or EMBRYO_TRANSFER
+      - `breeding_date` (date) - Date of service, insemination or transfer
+      - `sire_id` (uuid, nullable) - Sire when he is an animal on the ranch
+      - `sire_identifier` (text, nullable) - AI straw/sire code, outside bull or embryo ID
+      - `technician` (text, nullable) - Person who performed the AI or transfer
+      - `pregnancy_status` (text) - UNCHECKED, PREGNANT or OPEN from the latest pregnancy check
+      - `pregnancy_check_date` (date, nullable) - Date of the latest pregnancy check
+      - `outcome` (text) - PENDING until the record is closed by a BIRTH or marked LOST
+      - `offspring_id` (uuid, nullable) - Animal born from this breeding
+      - `closed_date` (date, nullable) - Date the record was closed
+      - `notes` (text, nullable) - Free-form notes
+      - `created_by_user_id` (uuid, nullable) - User who recorded the breeding
+      - `created_at` (timestamptz) - Record creation timestamp
+      - `updated_at` (timestamptz) - Record last update timestamp
+
+  2. Changes
+    - Adding an animal (or editing one) with a mother and birth date closes the dam's
+      most recent PENDING breeding record on or before that birth date
+
+  3. Security
+    - Enable RLS on `breeding_records` table
+    - Ranch members can view, insert, update and delete breeding records for their ranches
+*/
+
+CREATE TABLE IF NOT EXISTS breeding_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  dam_id uuid NOT NULL REFERENCES animals(id) ON DELETE CASCADE,
+  breeding_method text NOT NULL DEFAULT 'NATURAL' CHECK (breeding_method IN ('NATURAL', 'AI', 'EMBRYO_TRANSFER')),
+  breeding_date date NOT NULL,
+  sire_id uuid REFERENCES animals(id) ON DELETE SET NULL,
+  sire_identifier text,
+  technician text,
+  pregnancy_status text NOT NULL DEFAULT 'UNCHECKED' CHECK (pregnancy_status IN ('UNCHECKED', 'PREGNANT', 'OPEN')),
+  pregnancy_check_date date,
+  outcome text NOT NULL DEFAULT 'PENDING' CHECK (outcome IN ('PENDING', 'BIRTH', 'LOST')),
+  offspring_id uuid REFERENCES animals(id) ON DELETE SET NULL,
+  closed_date date,
+  notes text,
+  created_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_breeding_records_dam_id ON breeding_records(dam_id, breeding_date);
+CREATE INDEX IF NOT EXISTS idx_breeding_records_ranch_id ON breeding_records(ranch_id);
+
+ALTER TABLE breeding_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view breeding records in their ranches"
+  ON breeding_records FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create breeding records in their ranches"
+  ON breeding_records FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update breeding records in their ranches"
+  ON breeding_records FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete breeding records in their ranches"
+  ON breeding_records FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_breeding_records_updated_at BEFORE UPDATE ON breeding_records
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Close the dam's open breeding record when her offspring is recorded
+CREATE OR REPLACE FUNCTION close_breeding_record_on_birth()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.mother_id IS NULL OR NEW.birth_date IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM breeding_records WHERE offspring_id = NEW.id) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE breeding_records
+  SET outcome = 'BIRTH',
+      offspring_id = NEW.id,
+      closed_date = NEW.birth_date
+  WHERE id = (
+    SELECT id FROM breeding_records
+    WHERE dam_id = NEW.mother_id
+    AND outcome = 'PENDING'
+    AND breeding_date <= NEW.birth_date
+    ORDER BY breeding_date DESC
+    LIMIT 1
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS close_breeding_record_on_birth_trigger ON animals;
+
+CREATE TRIGGER close_breeding_record_on_birth_trigger
+  AFTER INSERT OR UPDATE OF mother_id, birth_date ON animals
+  FOR EACH ROW
+  EXECUTE FUNCTION close_breeding_record_on_birth();
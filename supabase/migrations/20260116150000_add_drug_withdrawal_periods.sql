@@ -0,0 +1,94 @@
+/*
+  # Add drug withdrawal periods and withdrawal overrides
+
+  1. Modified Tables
+    - `drugs`
+      - `meat_withdrawal_days` (integer) - Days after administration before the animal may be slaughtered
+      - `milk_withdrawal_days` (integer) - Days after administration before milk may be sold
+    - `animals`
+      - `meat_withdrawal_clear_date` (date, nullable) - First date the animal is clear of all meat withdrawals
+      - `milk_withdrawal_clear_date` (date, nullable) - First date the animal is clear of all milk withdrawals
+
+  2. New Tables
+    - `withdrawal_overrides`
+      - `id` (uuid, primary key) - Unique identifier for each override
+      - `ranch_id` (uuid, foreign key) - Links override to a specific ranch
+      - `animal_id` (uuid, foreign key) - Animal that was sold or butchered during withdrawal
+      - `status` (text) - Status the animal was changed to (SOLD or BUTCHERED)
+      - `exit_date` (date) - Exit date recorded with the status change
+      - `meat_withdrawal_clear_date` (date) - Clear date that was overridden
+      - `reason` (text) - Reason given by the user for the override
+      - `overridden_by_user_id` (uuid, nullable) - User who made the override
+      - `created_at` (timestamptz) - Record creation timestamp
+
+  3. Security
+    - Enable RLS on `withdrawal_overrides` table
+    - Ranch members can view and insert overrides for their ranches
+    - Overrides are an audit trail and cannot be updated or deleted
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'drugs' AND column_name = 'meat_withdrawal_days'
+  ) THEN
+    ALTER TABLE drugs ADD COLUMN meat_withdrawal_days integer NOT NULL DEFAULT 0 CHECK (meat_withdrawal_days >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'drugs' AND column_name = 'milk_withdrawal_days'
+  ) THEN
+    ALTER TABLE drugs ADD COLUMN milk_withdrawal_days integer NOT NULL DEFAULT 0 CHECK (milk_withdrawal_days >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'meat_withdrawal_clear_date'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN meat_withdrawal_clear_date date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'milk_withdrawal_clear_date'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN milk_withdrawal_clear_date date;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS withdrawal_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  animal_id uuid NOT NULL REFERENCES animals(id) ON DELETE CASCADE,
+  status text NOT NULL CHECK (status IN ('SOLD', 'BUTCHERED')),
+  exit_date date NOT NULL,
+  meat_withdrawal_clear_date date NOT NULL,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  overridden_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_overrides_animal_id ON withdrawal_overrides(animal_id);
+CREATE INDEX IF NOT EXISTS idx_withdrawal_overrides_ranch_id ON withdrawal_overrides(ranch_id);
+
+ALTER TABLE withdrawal_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view withdrawal overrides in their ranches"
+  ON withdrawal_overrides FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create withdrawal overrides in their ranches"
+  ON withdrawal_overrides FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
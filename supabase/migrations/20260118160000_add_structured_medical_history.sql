@@ -0,0 +1,109 @@
+/*
+  # Add structured treatment columns to medical history
+
+  1. Modified Tables
+    - `medical_history`
+      - `drug_id` (uuid, nullable) - Drug from the ranch drug list that was given
+      - `drug_name` (text, nullable) - Drug name at the time of treatment (kept if the drug is deleted)
+      - `dose` (numeric, nullable) - Amount given
+      - `dose_units` (text, nullable) - Units for the dose (ml, cc, mg, ...)
+      - `route` (text, nullable) - IM, SC, IV, ORAL, TOPICAL, POUR_ON, INTRANASAL, INTRAMAMMARY or OTHER
+      - `injection_site` (text, nullable) - Where on the animal the drug was given
+      - `lot_number` (text, nullable) - Manufacturer lot/serial number of the product
+      - `administered_by` (text, nullable) - Person who gave the treatment
+      - `reason` (text, nullable) - Why the treatment was given
+
+  2. Data Migration
+    - Existing descriptions written by the injection screen ("<drug> - <dose> ml") are parsed
+      into `drug_name`, `dose` and `dose_units`, and linked to the matching ranch drug by name
+    - Descriptions are left unchanged
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'drug_id'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN drug_id uuid REFERENCES drugs(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'drug_name'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN drug_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'dose'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN dose numeric(10, 2) CHECK (dose IS NULL OR dose >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'dose_units'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN dose_units text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'route'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN route text CHECK (
+      route IS NULL OR route IN ('IM', 'SC', 'IV', 'ORAL', 'TOPICAL', 'POUR_ON', 'INTRANASAL', 'INTRAMAMMARY', 'OTHER')
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'injection_site'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN injection_site text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'lot_number'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN lot_number text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'administered_by'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN administered_by text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'reason'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN reason text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_medical_history_drug_id ON medical_history(drug_id);
+
+-- Backfill from descriptions written as "<drug> - <dose> ml" with optional notes on following lines
+UPDATE medical_history mh
+SET drug_name = parsed.match[1],
+    dose = parsed.match[2]::numeric,
+    dose_units = 'ml',
+    drug_id = (
+      SELECT d.id FROM drugs d
+      WHERE d.ranch_id = mh.ranch_id
+      AND lower(d.drug_name) = lower(parsed.match[1])
+      LIMIT 1
+    )
+FROM (
+  SELECT id, regexp_match(description, '^([^\n]+) - ([0-9]+\.[0-9]{2}) ml(\n|$)') AS match
+  FROM medical_history
+) parsed
+WHERE parsed.id = mh.id
+AND parsed.match IS NOT NULL
+AND mh.drug_name IS NULL;
@@ -0,0 +1,153 @@
+/*
+  # Create drug lots table for drug inventory
+
+  1. New Tables
+    - `drug_lots`
+      - `id` (uuid, primary key) - Unique identifier for each lot received
+      - `ranch_id` (uuid, foreign key) - Links lot to a specific ranch
+      - `drug_id` (uuid, foreign key) - Drug this lot belongs to
+      - `lot_number` (text) - Manufacturer lot/serial number printed on the bottle
+      - `received_date` (date) - Date the bottles were received
+      - `expiration_date` (date, nullable) - Expiration date printed on the bottle
+      - `bottles_received` (integer) - Number of bottles received
+      - `bottle_size_ml` (numeric, nullable) - Volume of each bottle in mL
+      - `volume_on_hand_ml` (numeric) - Volume remaining in mL
+      - `cost_per_ml` (numeric, nullable) - Purchase cost per mL
+      - `notes` (text, nullable) - Free-form notes
+      - `created_at` (timestamptz) - Record creation timestamp
+      - `updated_at` (timestamptz) - Record last update timestamp
+
+  2. Modified Tables
+    - `drugs`
+      - `low_stock_ml` (numeric, nullable) - Warn when usable volume on hand falls below this amount
+    - `medical_history`
+      - `drug_lot_id` (uuid, nullable) - Lot the dose was drawn from
+
+  3. Changes
+    - Inserting, updating or deleting a medical history row with a lot and a dose in mL or cc
+      adjusts that lot's volume on hand, so every administration path keeps inventory in step
+
+  4. Security
+    - Enable RLS on `drug_lots` table
+    - Ranch members can view, insert, update and delete lots for their ranches
+*/
+
+CREATE TABLE IF NOT EXISTS drug_lots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  drug_id uuid NOT NULL REFERENCES drugs(id) ON DELETE CASCADE,
+  lot_number text NOT NULL,
+  received_date date NOT NULL DEFAULT CURRENT_DATE,
+  expiration_date date,
+  bottles_received integer NOT NULL DEFAULT 1 CHECK (bottles_received >= 0),
+  bottle_size_ml numeric(10, 2) CHECK (bottle_size_ml IS NULL OR bottle_size_ml > 0),
+  volume_on_hand_ml numeric(10, 2) NOT NULL DEFAULT 0,
+  cost_per_ml numeric(10, 4) CHECK (cost_per_ml IS NULL OR cost_per_ml >= 0),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_drug_lots_drug_id ON drug_lots(drug_id, expiration_date);
+CREATE INDEX IF NOT EXISTS idx_drug_lots_ranch_id ON drug_lots(ranch_id);
+
+ALTER TABLE drug_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view drug lots in their ranches"
+  ON drug_lots FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create drug lots in their ranches"
+  ON drug_lots FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update drug lots in their ranches"
+  ON drug_lots FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete drug lots in their ranches"
+  ON drug_lots FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_drug_lots_updated_at BEFORE UPDATE ON drug_lots
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'drugs' AND column_name = 'low_stock_ml'
+  ) THEN
+    ALTER TABLE drugs ADD COLUMN low_stock_ml numeric(10, 2) CHECK (low_stock_ml IS NULL OR low_stock_ml >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'medical_history' AND column_name = 'drug_lot_id'
+  ) THEN
+    ALTER TABLE medical_history ADD COLUMN drug_lot_id uuid REFERENCES drug_lots(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_medical_history_drug_lot_id ON medical_history(drug_lot_id);
+
+-- Keep each lot's volume on hand in step with the doses drawn from it
+CREATE OR REPLACE FUNCTION apply_medical_history_to_drug_lot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE')
+    AND OLD.drug_lot_id IS NOT NULL
+    AND OLD.dose IS NOT NULL
+    AND lower(coalesce(OLD.dose_units, 'ml')) IN ('ml', 'cc') THEN
+    UPDATE drug_lots
+    SET volume_on_hand_ml = volume_on_hand_ml + OLD.dose
+    WHERE id = OLD.drug_lot_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE')
+    AND NEW.drug_lot_id IS NOT NULL
+    AND NEW.dose IS NOT NULL
+    AND lower(coalesce(NEW.dose_units, 'ml')) IN ('ml', 'cc') THEN
+    UPDATE drug_lots
+    SET volume_on_hand_ml = volume_on_hand_ml - NEW.dose
+    WHERE id = NEW.drug_lot_id;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_medical_history_to_drug_lot_trigger ON medical_history;
+
+CREATE TRIGGER apply_medical_history_to_drug_lot_trigger
+  AFTER INSERT OR UPDATE OF drug_lot_id, dose, dose_units OR DELETE ON medical_history
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_medical_history_to_drug_lot();
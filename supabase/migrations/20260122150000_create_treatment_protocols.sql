@@ -0,0 +1,260 @@
+/*
+  # Create treatment protocols for herd-wide vaccinations and treatments
+
+  1. New Tables
+    - `treatment_protocols`
+      - `id` (uuid, primary key) - Unique identifier for each protocol
+      - `ranch_id` (uuid, foreign key) - Links protocol to a specific ranch
+      - `name` (text) - Protocol name (e.g., "Spring branding")
+      - `animal_type` (text) - Animal type the protocol is given to
+      - `notes` (text, nullable) - Free-form notes
+      - `created_at` (timestamptz) - Record creation timestamp
+      - `updated_at` (timestamptz) - Record last update timestamp
+    - `treatment_protocol_items`
+      - `id` (uuid, primary key) - Unique identifier for each protocol entry
+      - `protocol_id` (uuid, foreign key) - Protocol this entry belongs to
+      - `drug_id` (uuid, foreign key) - Drug from the ranch drug list to give
+      - `route` (text, nullable) - Route of administration, same values as `medical_history.route`
+      - `injection_site` (text, nullable) - Where on the animal the drug is given
+      - `sort_order` (integer) - Order the drugs are given in
+
+  2. New Functions
+    - `apply_treatment_protocol(p_protocol_id, p_animal_ids, p_date, p_administered_by, p_reason)`
+      - Calculates each animal's dose for every drug in the protocol from `animals.weight_lbs`
+        (or the drug's fixed dose) and writes one `medical_history` row per animal and drug
+      - Draws each dose from the first-expiring unexpired lot with stock, if the drug has lots
+      - Extends the animals' meat and milk withdrawal clear dates
+      - Runs as a single transaction: if any animal is missing a weight needed for a
+        per-pound drug, nothing is written
+      - Returns the number of medical history rows written
+
+  3. Security
+    - Enable RLS on both tables
+    - Ranch members can view, insert, update and delete protocols for their ranches
+    - Protocol entries follow the access rules of their protocol
+    - `apply_treatment_protocol` runs with the caller's permissions, so the existing
+      `medical_history` and `animals` policies still apply
+*/
+
+CREATE TABLE IF NOT EXISTS treatment_protocols (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  animal_type text NOT NULL DEFAULT 'Cattle',
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS treatment_protocol_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  protocol_id uuid NOT NULL REFERENCES treatment_protocols(id) ON DELETE CASCADE,
+  drug_id uuid NOT NULL REFERENCES drugs(id) ON DELETE CASCADE,
+  route text CHECK (
+    route IS NULL OR route IN ('IM', 'SC', 'IV', 'ORAL', 'TOPICAL', 'POUR_ON', 'INTRANASAL', 'INTRAMAMMARY', 'OTHER')
+  ),
+  injection_site text,
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_treatment_protocols_ranch_id ON treatment_protocols(ranch_id);
+CREATE INDEX IF NOT EXISTS idx_treatment_protocol_items_protocol_id ON treatment_protocol_items(protocol_id, sort_order);
+
+ALTER TABLE treatment_protocols ENABLE ROW LEVEL SECURITY;
+ALTER TABLE treatment_protocol_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view treatment protocols in their ranches"
+  ON treatment_protocols FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create treatment protocols in their ranches"
+  ON treatment_protocols FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update treatment protocols in their ranches"
+  ON treatment_protocols FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete treatment protocols in their ranches"
+  ON treatment_protocols FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view treatment protocol items in their ranches"
+  ON treatment_protocol_items FOR SELECT
+  TO authenticated
+  USING (
+    protocol_id IN (
+      SELECT id FROM treatment_protocols
+      WHERE ranch_id IN (
+        SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can create treatment protocol items in their ranches"
+  ON treatment_protocol_items FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    protocol_id IN (
+      SELECT id FROM treatment_protocols
+      WHERE ranch_id IN (
+        SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update treatment protocol items in their ranches"
+  ON treatment_protocol_items FOR UPDATE
+  TO authenticated
+  USING (
+    protocol_id IN (
+      SELECT id FROM treatment_protocols
+      WHERE ranch_id IN (
+        SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+      )
+    )
+  )
+  WITH CHECK (
+    protocol_id IN (
+      SELECT id FROM treatment_protocols
+      WHERE ranch_id IN (
+        SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete treatment protocol items in their ranches"
+  ON treatment_protocol_items FOR DELETE
+  TO authenticated
+  USING (
+    protocol_id IN (
+      SELECT id FROM treatment_protocols
+      WHERE ranch_id IN (
+        SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE TRIGGER update_treatment_protocols_updated_at BEFORE UPDATE ON treatment_protocols
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Give every drug in a protocol to every selected animal as one transaction.
+-- Dose rounding and description format match the single-animal injection screen.
+CREATE OR REPLACE FUNCTION apply_treatment_protocol(
+  p_protocol_id uuid,
+  p_animal_ids uuid[],
+  p_date date,
+  p_administered_by text DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_protocol treatment_protocols%ROWTYPE;
+  v_animal animals%ROWTYPE;
+  v_item record;
+  v_lot drug_lots%ROWTYPE;
+  v_dose numeric(10, 2);
+  v_count integer := 0;
+BEGIN
+  SELECT * INTO v_protocol FROM treatment_protocols WHERE id = p_protocol_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Treatment protocol not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM treatment_protocol_items WHERE protocol_id = p_protocol_id) THEN
+    RAISE EXCEPTION 'Protocol "%" has no drugs', v_protocol.name;
+  END IF;
+
+  FOR v_animal IN
+    SELECT * FROM animals
+    WHERE id = ANY(p_animal_ids)
+    AND ranch_id = v_protocol.ranch_id
+    ORDER BY tag_number NULLS FIRST
+  LOOP
+    FOR v_item IN
+      SELECT i.route, i.injection_site, d.id AS drug_id, d.drug_name, d.ccs_per_pound, d.fixed_dose_ml,
+             d.meat_withdrawal_days, d.milk_withdrawal_days
+      FROM treatment_protocol_items i
+      JOIN drugs d ON d.id = i.drug_id
+      WHERE i.protocol_id = p_protocol_id
+      ORDER BY i.sort_order, d.drug_name
+    LOOP
+      IF v_item.fixed_dose_ml IS NOT NULL THEN
+        v_dose := round(v_item.fixed_dose_ml, 2);
+      ELSIF v_item.ccs_per_pound IS NOT NULL THEN
+        IF v_animal.weight_lbs IS NULL OR v_animal.weight_lbs <= 0 THEN
+          RAISE EXCEPTION 'Animal % has no weight recorded, which % needs to calculate a dose',
+            coalesce(v_animal.tag_number, v_animal.name, v_animal.id::text), v_item.drug_name;
+        END IF;
+        v_dose := round(v_animal.weight_lbs * v_item.ccs_per_pound, 2);
+      ELSE
+        RAISE EXCEPTION 'Drug % has no dosage defined', v_item.drug_name;
+      END IF;
+
+      SELECT * INTO v_lot FROM drug_lots
+      WHERE drug_id = v_item.drug_id
+      AND volume_on_hand_ml > 0
+      AND (expiration_date IS NULL OR expiration_date >= p_date)
+      ORDER BY expiration_date NULLS LAST, received_date
+      LIMIT 1;
+
+      INSERT INTO medical_history (
+        animal_id, ranch_id, date, description,
+        drug_id, drug_name, dose, dose_units, route, injection_site,
+        drug_lot_id, lot_number, administered_by, reason, created_by_user_id
+      ) VALUES (
+        v_animal.id, v_animal.ranch_id, p_date,
+        v_item.drug_name || ' - ' || to_char(v_dose, 'FM999999990.00') || ' ml',
+        v_item.drug_id, v_item.drug_name, v_dose, 'ml', v_item.route, v_item.injection_site,
+        v_lot.id, v_lot.lot_number,
+        nullif(trim(p_administered_by), ''), nullif(trim(p_reason), ''), auth.uid()
+      );
+
+      UPDATE animals
+      SET meat_withdrawal_clear_date = CASE
+            WHEN v_item.meat_withdrawal_days > 0 THEN
+              GREATEST(meat_withdrawal_clear_date, p_date + v_item.meat_withdrawal_days)
+            ELSE meat_withdrawal_clear_date
+          END,
+          milk_withdrawal_clear_date = CASE
+            WHEN v_item.milk_withdrawal_days > 0 THEN
+              GREATEST(milk_withdrawal_clear_date, p_date + v_item.milk_withdrawal_days)
+            ELSE milk_withdrawal_clear_date
+          END
+      WHERE id = v_animal.id
+      AND (v_item.meat_withdrawal_days > 0 OR v_item.milk_withdrawal_days > 0);
+
+      v_count := v_count + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION apply_treatment_protocol(uuid, uuid[], date, text, text) TO authenticated;
@@ -0,0 +1,28 @@
+/*
+  # Add updated_at to fences
+
+  1. Modified Tables
+    - `fences`
+      - `updated_at` (timestamptz) - Record last update timestamp, maintained by trigger
+
+  2. Notes
+    - Edits made offline are replayed against the server later; `updated_at` lets the app
+      tell whether a fence was changed by someone else in the meantime, the same way it
+      already can for animals, medical history and ranch settings
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'fences' AND column_name = 'updated_at'
+  ) THEN
+    ALTER TABLE fences ADD COLUMN updated_at timestamptz DEFAULT now();
+    UPDATE fences SET updated_at = created_at WHERE created_at IS NOT NULL;
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_fences_updated_at ON fences;
+
+CREATE TRIGGER update_fences_updated_at BEFORE UPDATE ON fences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,119 @@
+/*
+  # Restore messages table
+
+  1. Tables
+    - `messages` (recreated when missing)
+      - `id` (uuid, primary key)
+      - `ranch_id` (uuid, foreign key) - Links to ranches table
+      - `from_admin` (boolean) - True if message is from admin, false if from ranch user
+      - `content` (text) - Message body
+      - `read` (boolean) - Read/unread status
+      - `created_at` (timestamptz) - When message was sent
+
+  2. Security
+    - Same policies as the original messaging migration: admins can read, send and mark
+      any message; ranch members can do the same for their own ranches
+
+  3. Notes
+    - 20251211224550_fix_complete_schema dropped `messages` and never recreated it, so a
+      database built from the migrations alone had no messages table even though the
+      admin messaging screens use it. Databases that still have the table are unchanged.
+*/
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  from_admin boolean NOT NULL DEFAULT false,
+  content text NOT NULL,
+  read boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS messages_ranch_id_created_at_idx ON messages(ranch_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS messages_read_idx ON messages(read) WHERE read = false;
+
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read all messages" ON messages;
+CREATE POLICY "Admins can read all messages"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM admins
+      WHERE admins.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read messages for their ranches" ON messages;
+CREATE POLICY "Users can read messages for their ranches"
+  ON messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches
+      WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can send messages" ON messages;
+CREATE POLICY "Admins can send messages"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM admins
+      WHERE admins.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can send messages for their ranches" ON messages;
+CREATE POLICY "Users can send messages for their ranches"
+  ON messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches
+      WHERE user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can update all messages" ON messages;
+CREATE POLICY "Admins can update all messages"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM admins
+      WHERE admins.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM admins
+      WHERE admins.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can update messages for their ranches" ON messages;
+CREATE POLICY "Users can update messages for their ranches"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches
+      WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches
+      WHERE user_id = auth.uid()
+    )
+  );
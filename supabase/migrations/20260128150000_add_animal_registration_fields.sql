@@ -0,0 +1,57 @@
+/*
+  # Add breed and registration fields to animals
+
+  1. Modified Tables
+    - `animals`
+      - `breed` (text, nullable) - Primary breed, e.g. Angus
+      - `percentage_blood` (numeric, nullable) - Percent of the primary breed, 0-100
+      - `breed_composition` (jsonb, nullable) - Percent of each breed, e.g. {"Angus": 75, "Hereford": 25}
+      - `registry_name` (text, nullable) - Breed association the animal is registered with
+      - `registration_number` (text, nullable) - Registration number issued by that registry
+
+  2. Notes
+    - Calves born on the ranch get their breed composition from the average of the sire's
+      and dam's compositions when it is not entered by hand; that is done in the app
+    - Index on (ranch_id, registration_number) for looking up sires and dams by registration
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'breed'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN breed text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'percentage_blood'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN percentage_blood numeric(5,2) CHECK (percentage_blood >= 0 AND percentage_blood <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'breed_composition'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN breed_composition jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'registry_name'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN registry_name text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'registration_number'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN registration_number text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_animals_registration_number ON animals(ranch_id, registration_number)
+  WHERE registration_number IS NOT NULL;
@@ -0,0 +1,38 @@
+/*
+  # Add calving ease, birth weight and weaning weight to animals
+
+  1. Modified Tables
+    - `animals`
+      - `calving_ease` (integer, nullable) - BIF calving ease score for the animal's own birth:
+        1 no assistance, 2 easy pull, 3 hard pull, 4 caesarean, 5 abnormal presentation
+      - `birth_weight_lbs` (numeric, nullable) - Weight at birth in pounds
+      - `weaning_weight_lbs` (numeric, nullable) - Weight on `weaning_date` in pounds
+
+  2. Notes
+    - Adjusted 205-day weaning weights and dam age at calving are calculated in the app from
+      these fields, `birth_date`, `weaning_date` and the dam's `birth_date`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'calving_ease'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN calving_ease integer CHECK (calving_ease BETWEEN 1 AND 5);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'birth_weight_lbs'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN birth_weight_lbs numeric(6,2) CHECK (birth_weight_lbs > 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'weaning_weight_lbs'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN weaning_weight_lbs numeric(7,2) CHECK (weaning_weight_lbs > 0);
+  END IF;
+END $$;
@@ -0,0 +1,22 @@
+/*
+  # Add purchase date to animals
+
+  1. Modified Tables
+    - `animals`
+      - `purchase_date` (date, nullable) - Date a purchased animal arrived on the ranch
+
+  2. Notes
+    - Herd inventory for a past date counts an animal from its `birth_date` when born on the
+      ranch, or from its `purchase_date` when purchased, until its `exit_date`
+    - Purchased animals without a purchase date are counted from their birth date
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'purchase_date'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN purchase_date date;
+  END IF;
+END $$;
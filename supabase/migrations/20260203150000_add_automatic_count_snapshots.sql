@@ -0,0 +1,54 @@
+/*
+  # Automatic monthly count snapshots
+
+  1. Modified Tables
+    - `count_report_snapshots`
+      - `source` (text, default 'MANUAL') - 'MANUAL' when saved from the Reports page, 'AUTO' when
+        made by the monthly-count-snapshots function
+    - `ranch_settings`
+      - `auto_count_snapshots` (boolean, default false) - Opt a ranch in to a count snapshot on the
+        first of every month
+
+  2. Scheduling
+    - pg_cron calls the monthly-count-snapshots edge function at 07:00 UTC on the first of each month
+    - The call reads the project URL and service role key from Vault secrets named `project_url`
+      and `service_role_key`; create both before the first run
+
+  3. Notes
+    - Existing snapshots are all marked 'MANUAL'
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'count_report_snapshots' AND column_name = 'source'
+  ) THEN
+    ALTER TABLE count_report_snapshots ADD COLUMN source text NOT NULL DEFAULT 'MANUAL' CHECK (source IN ('MANUAL', 'AUTO'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'ranch_settings' AND column_name = 'auto_count_snapshots'
+  ) THEN
+    ALTER TABLE ranch_settings ADD COLUMN auto_count_snapshots boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'monthly-count-snapshots',
+  '0 7 1 * *',
+  $cron$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/monthly-count-snapshots',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $cron$
+);
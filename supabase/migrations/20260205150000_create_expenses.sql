@@ -0,0 +1,226 @@
+/*
+  # Purchase details and an expense ledger for profit/loss
+
+  1. Modified Tables
+    - `animals`
+      - `purchase_price` (numeric(10,2), nullable) - What a purchased animal cost, including commission
+      - `seller` (text, nullable) - Who the animal was bought from
+
+  2. New Tables
+    - `expenses`
+      - `id` (uuid, primary key) - Unique identifier for each expense
+      - `ranch_id` (uuid, foreign key) - Links the expense to a specific ranch
+      - `expense_date` (date) - Date the expense was paid
+      - `category` (text) - FEED, VET, TRUCKING or OTHER
+      - `description` (text, nullable) - What was bought
+      - `amount` (numeric(10,2)) - Total amount paid
+      - `allocation` (text) - ANIMAL, GROUP or HERD: who the cost was charged to
+      - `group_name` (text, nullable) - Name of the group when charged to a group
+      - `created_by_user_id` (uuid, nullable) - User who recorded the expense
+      - `created_at` (timestamptz) - Record creation timestamp
+      - `updated_at` (timestamptz) - Record last update timestamp
+    - `expense_allocations`
+      - `id` (uuid, primary key) - Unique identifier for each share
+      - `expense_id` (uuid, foreign key) - Expense this share belongs to
+      - `animal_id` (uuid, foreign key) - Animal the share is charged to
+      - `amount` (numeric(10,2)) - This animal's share of the expense
+
+  3. New Functions
+    - `record_expense(p_ranch_id, p_expense_date, p_category, p_amount, p_allocation, p_animal_ids, p_description, p_group_name)`
+      - Writes the expense and splits its amount evenly across the given animals, the same way a
+        prorated sale is split; leftover cents go to the first animals so the shares add up exactly
+      - Runs as a single transaction and returns the new expense id
+
+  4. Security
+    - Enable RLS on both tables
+    - Ranch members can view, insert, update and delete expenses for their ranches
+    - Allocations follow the access rules of their expense
+    - `record_expense` runs with the caller's permissions
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'purchase_price'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN purchase_price numeric(10,2);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'seller'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN seller text;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS expenses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  expense_date date NOT NULL,
+  category text NOT NULL CHECK (category IN ('FEED', 'VET', 'TRUCKING', 'OTHER')),
+  description text,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  allocation text NOT NULL CHECK (allocation IN ('ANIMAL', 'GROUP', 'HERD')),
+  group_name text,
+  created_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS expense_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  expense_id uuid NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+  animal_id uuid NOT NULL REFERENCES animals(id) ON DELETE CASCADE,
+  amount numeric(10,2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_expenses_ranch_id ON expenses(ranch_id, expense_date DESC);
+CREATE INDEX IF NOT EXISTS idx_expense_allocations_expense_id ON expense_allocations(expense_id);
+CREATE INDEX IF NOT EXISTS idx_expense_allocations_animal_id ON expense_allocations(animal_id);
+
+ALTER TABLE expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE expense_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view expenses in their ranches"
+  ON expenses FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create expenses in their ranches"
+  ON expenses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update expenses in their ranches"
+  ON expenses FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete expenses in their ranches"
+  ON expenses FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view expense allocations in their ranches"
+  ON expense_allocations FOR SELECT
+  TO authenticated
+  USING (
+    expense_id IN (
+      SELECT id FROM expenses
+      WHERE ranch_id IN (
+        SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can create expense allocations in their ranches"
+  ON expense_allocations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    expense_id IN (
+      SELECT id FROM expenses
+      WHERE ranch_id IN (
+        SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete expense allocations in their ranches"
+  ON expense_allocations FOR DELETE
+  TO authenticated
+  USING (
+    expense_id IN (
+      SELECT id FROM expenses
+      WHERE ranch_id IN (
+        SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE TRIGGER update_expenses_updated_at BEFORE UPDATE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Record an expense and its per-animal shares as one transaction.
+-- The split matches splitAmountEvenly in src/utils/profitLoss.ts.
+CREATE OR REPLACE FUNCTION record_expense(
+  p_ranch_id uuid,
+  p_expense_date date,
+  p_category text,
+  p_amount numeric,
+  p_allocation text,
+  p_animal_ids uuid[],
+  p_description text DEFAULT NULL,
+  p_group_name text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_expense_id uuid;
+  v_animal_ids uuid[];
+  v_count integer;
+  v_cents bigint;
+  v_share_cents bigint;
+  v_remainder bigint;
+  v_index integer := 0;
+  v_animal_id uuid;
+BEGIN
+  SELECT array_agg(id ORDER BY tag_number NULLS LAST, id) INTO v_animal_ids
+  FROM animals
+  WHERE id = ANY(p_animal_ids)
+  AND ranch_id = p_ranch_id;
+
+  v_count := coalesce(array_length(v_animal_ids, 1), 0);
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'An expense must be charged to at least one animal';
+  END IF;
+
+  INSERT INTO expenses (
+    ranch_id, expense_date, category, description, amount, allocation, group_name, created_by_user_id
+  ) VALUES (
+    p_ranch_id, p_expense_date, p_category, nullif(trim(p_description), ''), round(p_amount, 2), p_allocation,
+    CASE WHEN p_allocation = 'GROUP' THEN nullif(trim(p_group_name), '') END, auth.uid()
+  )
+  RETURNING id INTO v_expense_id;
+
+  v_cents := round(p_amount * 100);
+  v_share_cents := v_cents / v_count;
+  v_remainder := v_cents - v_share_cents * v_count;
+
+  FOREACH v_animal_id IN ARRAY v_animal_ids
+  LOOP
+    INSERT INTO expense_allocations (expense_id, animal_id, amount)
+    VALUES (
+      v_expense_id,
+      v_animal_id,
+      (v_share_cents + CASE WHEN v_index < v_remainder THEN 1 ELSE 0 END) / 100.0
+    );
+    v_index := v_index + 1;
+  END LOOP;
+
+  RETURN v_expense_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION record_expense(uuid, date, text, numeric, text, uuid[], text, text) TO authenticated;
@@ -0,0 +1,223 @@
+/*
+  # Sale records with deductions and per-animal proceeds
+
+  1. New Tables
+    - `sales`
+      - `id` (uuid, primary key) - Unique identifier for each sale
+      - `ranch_id` (uuid, foreign key) - Links the sale to a specific ranch
+      - `sale_date` (date) - Date the animals were sold
+      - `buyer` (text, nullable) - Who bought the animals
+      - `sale_barn` (text, nullable) - Sale barn or auction the animals went through
+      - `gross_amount` (numeric(10,2)) - Gross proceeds before deductions
+      - `commission` (numeric(10,2)) - Sale barn commission
+      - `yardage` (numeric(10,2)) - Yardage fees
+      - `checkoff` (numeric(10,2)) - Beef checkoff and brand inspection
+      - `trucking` (numeric(10,2)) - Trucking deducted from the check
+      - `net_amount` (numeric(10,2)) - Gross less deductions; the amount split across the animals
+      - `split_method` (text) - EVEN, WEIGHT or MANUAL: how the net was split
+      - `notes` (text, nullable) - Free-form notes for the sale sheet
+      - `created_by_user_id` (uuid, nullable) - User who recorded the sale
+      - `created_at` (timestamptz) - Record creation timestamp
+      - `updated_at` (timestamptz) - Record last update timestamp
+
+  2. Modified Tables
+    - `animals`
+      - `sale_id` (uuid, nullable, foreign key) - Sale the animal was sold in
+      - `sale_weight_lbs` (numeric(7,1), nullable) - Weight the animal sold at
+
+  3. New Functions
+    - `record_sale(...)`
+      - Writes the sale and marks each animal SOLD on the sale date with its share of the net
+      - The shares are worked out by the app and must add up to the net to the cent
+      - Animals still within a meat withdrawal period need an override reason, which is logged in
+        `withdrawal_overrides` the same way as a single animal's status change
+      - Runs as a single transaction and returns the new sale id
+
+  4. Security
+    - Enable RLS on `sales`
+    - Ranch members can view, insert, update and delete sales for their ranches
+    - `record_sale` runs with the caller's permissions
+
+  5. Notes
+    - Deleting a sale leaves its animals SOLD with their prices; only the link to the sale is cleared
+*/
+
+CREATE TABLE IF NOT EXISTS sales (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  sale_date date NOT NULL,
+  buyer text,
+  sale_barn text,
+  gross_amount numeric(10,2) NOT NULL CHECK (gross_amount >= 0),
+  commission numeric(10,2) NOT NULL DEFAULT 0 CHECK (commission >= 0),
+  yardage numeric(10,2) NOT NULL DEFAULT 0 CHECK (yardage >= 0),
+  checkoff numeric(10,2) NOT NULL DEFAULT 0 CHECK (checkoff >= 0),
+  trucking numeric(10,2) NOT NULL DEFAULT 0 CHECK (trucking >= 0),
+  net_amount numeric(10,2) NOT NULL,
+  split_method text NOT NULL DEFAULT 'EVEN' CHECK (split_method IN ('EVEN', 'WEIGHT', 'MANUAL')),
+  notes text,
+  created_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (net_amount = gross_amount - commission - yardage - checkoff - trucking)
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'sale_id'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN sale_id uuid REFERENCES sales(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'sale_weight_lbs'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN sale_weight_lbs numeric(7,1) CHECK (sale_weight_lbs > 0);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_sales_ranch_id ON sales(ranch_id, sale_date DESC);
+CREATE INDEX IF NOT EXISTS idx_animals_sale_id ON animals(sale_id);
+
+ALTER TABLE sales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view sales in their ranches"
+  ON sales FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create sales in their ranches"
+  ON sales FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update sales in their ranches"
+  ON sales FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete sales in their ranches"
+  ON sales FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_sales_updated_at BEFORE UPDATE ON sales
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Record a sale and mark its animals sold as one transaction.
+-- p_animal_ids, p_sale_prices and p_sale_weights line up index by index; a weight of 0 means
+-- the animal was not weighed.
+CREATE OR REPLACE FUNCTION record_sale(
+  p_ranch_id uuid,
+  p_sale_date date,
+  p_gross_amount numeric,
+  p_commission numeric,
+  p_yardage numeric,
+  p_checkoff numeric,
+  p_trucking numeric,
+  p_split_method text,
+  p_animal_ids uuid[],
+  p_sale_prices numeric[],
+  p_sale_weights numeric[],
+  p_buyer text DEFAULT NULL,
+  p_sale_barn text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_withdrawal_override_reason text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_sale_id uuid;
+  v_net numeric;
+  v_count integer;
+  v_animal record;
+BEGIN
+  v_count := coalesce(array_length(p_animal_ids, 1), 0);
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'A sale must include at least one animal';
+  END IF;
+
+  IF coalesce(array_length(p_sale_prices, 1), 0) <> v_count
+    OR coalesce(array_length(p_sale_weights, 1), 0) <> v_count THEN
+    RAISE EXCEPTION 'Each animal in the sale needs a price and a weight entry';
+  END IF;
+
+  IF (
+    SELECT count(*) FROM animals
+    WHERE id = ANY(p_animal_ids) AND ranch_id = p_ranch_id AND sale_id IS NULL
+  ) <> v_count THEN
+    RAISE EXCEPTION 'Some animals do not belong to this ranch or are already part of another sale';
+  END IF;
+
+  v_net := round(p_gross_amount, 2) - round(p_commission, 2) - round(p_yardage, 2)
+    - round(p_checkoff, 2) - round(p_trucking, 2);
+
+  IF (SELECT sum(round(price, 2)) FROM unnest(p_sale_prices) AS price) <> v_net THEN
+    RAISE EXCEPTION 'Animal sale prices must add up to the net proceeds of %', v_net;
+  END IF;
+
+  INSERT INTO sales (
+    ranch_id, sale_date, buyer, sale_barn, gross_amount, commission, yardage, checkoff, trucking,
+    net_amount, split_method, notes, created_by_user_id
+  ) VALUES (
+    p_ranch_id, p_sale_date, nullif(trim(p_buyer), ''), nullif(trim(p_sale_barn), ''),
+    round(p_gross_amount, 2), round(p_commission, 2), round(p_yardage, 2), round(p_checkoff, 2), round(p_trucking, 2),
+    v_net, p_split_method, nullif(trim(p_notes), ''), auth.uid()
+  )
+  RETURNING id INTO v_sale_id;
+
+  FOR v_animal IN
+    SELECT a.id, a.meat_withdrawal_clear_date, t.price, t.weight
+    FROM unnest(p_animal_ids, p_sale_prices, p_sale_weights) AS t(animal_id, price, weight)
+    JOIN animals a ON a.id = t.animal_id
+  LOOP
+    IF v_animal.meat_withdrawal_clear_date IS NOT NULL AND p_sale_date < v_animal.meat_withdrawal_clear_date THEN
+      IF nullif(trim(p_withdrawal_override_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'An animal in this sale is within its withdrawal period until %', v_animal.meat_withdrawal_clear_date;
+      END IF;
+
+      INSERT INTO withdrawal_overrides (
+        ranch_id, animal_id, status, exit_date, meat_withdrawal_clear_date, reason, overridden_by_user_id
+      ) VALUES (
+        p_ranch_id, v_animal.id, 'SOLD', p_sale_date, v_animal.meat_withdrawal_clear_date,
+        trim(p_withdrawal_override_reason), auth.uid()
+      );
+    END IF;
+
+    UPDATE animals
+    SET status = 'SOLD',
+        exit_date = p_sale_date,
+        sale_price = round(v_animal.price, 2),
+        sale_weight_lbs = nullif(v_animal.weight, 0),
+        sale_id = v_sale_id
+    WHERE id = v_animal.id;
+  END LOOP;
+
+  RETURN v_sale_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION record_sale(uuid, date, numeric, numeric, numeric, numeric, numeric, text, uuid[], numeric[], numeric[], text, text, text, text) TO authenticated;
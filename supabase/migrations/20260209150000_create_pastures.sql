@@ -0,0 +1,218 @@
+/*
+  # Pastures, paddocks and animal moves
+
+  1. New Tables
+    - `pastures`
+      - `id` (uuid, primary key) - Unique identifier for each pasture
+      - `ranch_id` (uuid, foreign key) - Links the pasture to a specific ranch
+      - `name` (text) - Name of the pasture or paddock, unique within the ranch
+      - `kind` (text) - PASTURE or PADDOCK
+      - `parent_pasture_id` (uuid, nullable, foreign key) - Pasture a paddock was split from
+      - `acreage` (numeric(10,2), nullable) - Size in acres
+      - `capacity_head` (integer, nullable) - Most head the pasture should carry
+      - `notes` (text, nullable) - Water, gates and other notes
+      - `created_at` (timestamptz) - Record creation timestamp
+      - `updated_at` (timestamptz) - Record last update timestamp
+    - `animal_moves`
+      - `id` (uuid, primary key) - Unique identifier for each move
+      - `ranch_id` (uuid, foreign key) - Links the move to a specific ranch
+      - `animal_id` (uuid, foreign key) - Animal that was moved
+      - `from_pasture_id` (uuid, nullable, foreign key) - Where the animal was, if known
+      - `to_pasture_id` (uuid, foreign key) - Where the animal was moved to
+      - `moved_on` (date) - Date of the move
+      - `notes` (text, nullable) - Notes about the move
+      - `created_by_user_id` (uuid, nullable) - User who recorded the move
+      - `created_at` (timestamptz) - Record creation timestamp
+
+  2. Modified Tables
+    - `animals`
+      - `current_pasture_id` (uuid, nullable, foreign key) - Where the animal is now, from its latest move
+
+  3. New Functions
+    - `move_animals(p_ranch_id, p_animal_ids, p_to_pasture_id, p_moved_on, p_notes)`
+      - Records one move per animal, taking each animal's location on that date as where it came from
+      - Updates `current_pasture_id` unless the animal already has a later move
+      - Runs as a single transaction and returns the number of animals moved
+
+  4. Security
+    - Enable RLS on both tables
+    - Ranch members can view, insert, update and delete pastures for their ranches
+    - Ranch members can view, insert and delete moves for their ranches
+    - `move_animals` runs with the caller's permissions
+
+  5. Notes
+    - Deleting a pasture clears it from animals and moves rather than deleting the move history
+*/
+
+CREATE TABLE IF NOT EXISTS pastures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  kind text NOT NULL DEFAULT 'PASTURE' CHECK (kind IN ('PASTURE', 'PADDOCK')),
+  parent_pasture_id uuid REFERENCES pastures(id) ON DELETE SET NULL,
+  acreage numeric(10,2) CHECK (acreage > 0),
+  capacity_head integer CHECK (capacity_head >= 0),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (ranch_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS animal_moves (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  animal_id uuid NOT NULL REFERENCES animals(id) ON DELETE CASCADE,
+  from_pasture_id uuid REFERENCES pastures(id) ON DELETE SET NULL,
+  to_pasture_id uuid REFERENCES pastures(id) ON DELETE SET NULL,
+  moved_on date NOT NULL,
+  notes text,
+  created_by_user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'current_pasture_id'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN current_pasture_id uuid REFERENCES pastures(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_pastures_ranch_id ON pastures(ranch_id);
+CREATE INDEX IF NOT EXISTS idx_animal_moves_ranch_id ON animal_moves(ranch_id, moved_on DESC);
+CREATE INDEX IF NOT EXISTS idx_animal_moves_animal_id ON animal_moves(animal_id, moved_on DESC);
+CREATE INDEX IF NOT EXISTS idx_animals_current_pasture_id ON animals(current_pasture_id);
+
+ALTER TABLE pastures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE animal_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pastures in their ranches"
+  ON pastures FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create pastures in their ranches"
+  ON pastures FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update pastures in their ranches"
+  ON pastures FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete pastures in their ranches"
+  ON pastures FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view animal moves in their ranches"
+  ON animal_moves FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create animal moves in their ranches"
+  ON animal_moves FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete animal moves in their ranches"
+  ON animal_moves FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_pastures_updated_at BEFORE UPDATE ON pastures
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Move a group of animals in one transaction, one move record per animal
+CREATE OR REPLACE FUNCTION move_animals(
+  p_ranch_id uuid,
+  p_animal_ids uuid[],
+  p_to_pasture_id uuid,
+  p_moved_on date,
+  p_notes text DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_animal record;
+  v_from_pasture_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pastures WHERE id = p_to_pasture_id AND ranch_id = p_ranch_id) THEN
+    RAISE EXCEPTION 'Pasture not found on this ranch';
+  END IF;
+
+  FOR v_animal IN
+    SELECT id, current_pasture_id FROM animals
+    WHERE id = ANY(p_animal_ids) AND ranch_id = p_ranch_id
+  LOOP
+    -- Where the animal was on the move date; animals with no moves yet are wherever they are now
+    SELECT to_pasture_id INTO v_from_pasture_id
+    FROM animal_moves
+    WHERE animal_id = v_animal.id AND moved_on <= p_moved_on
+    ORDER BY moved_on DESC, created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_from_pasture_id := CASE
+        WHEN EXISTS (SELECT 1 FROM animal_moves WHERE animal_id = v_animal.id) THEN NULL
+        ELSE v_animal.current_pasture_id
+      END;
+    END IF;
+
+    INSERT INTO animal_moves (
+      ranch_id, animal_id, from_pasture_id, to_pasture_id, moved_on, notes, created_by_user_id
+    ) VALUES (
+      p_ranch_id, v_animal.id, v_from_pasture_id, p_to_pasture_id, p_moved_on, nullif(trim(p_notes), ''), auth.uid()
+    );
+
+    UPDATE animals
+    SET current_pasture_id = p_to_pasture_id
+    WHERE id = v_animal.id
+    AND NOT EXISTS (
+      SELECT 1 FROM animal_moves WHERE animal_id = v_animal.id AND moved_on > p_moved_on
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION move_animals(uuid, uuid[], uuid, date, text) TO authenticated;
@@ -0,0 +1,129 @@
+/*
+  # Rotational grazing planning
+
+  1. Modified Tables
+    - `pastures`
+      - `forage_lbs_per_acre` (numeric(8,1), nullable) - Estimated standing forage, dry matter lbs per acre
+      - `forage_estimated_on` (date, nullable) - Date the forage estimate was made
+      - `utilization_pct` (integer) - Share of the forage to graze before moving, default 50 ("take half, leave half")
+      - `min_rest_days` (integer) - Days a pasture should rest before it is grazed again, default 30
+      - `max_graze_days` (integer, nullable) - Most days animals should stay in one go
+
+  2. New Tables
+    - `grazing_plans`
+      - `id` (uuid, primary key) - Unique identifier for each planned grazing period
+      - `ranch_id` (uuid, foreign key) - Links the plan to a specific ranch
+      - `pasture_id` (uuid, foreign key) - Pasture to be grazed
+      - `start_date` (date) - Planned move-in date
+      - `end_date` (date) - Planned move-out date
+      - `notes` (text, nullable) - Which group is going in, water hauling and similar notes
+      - `created_at` (timestamptz) - Record creation timestamp
+      - `updated_at` (timestamptz) - Record last update timestamp
+
+  3. Security
+    - Enable RLS on `grazing_plans`
+    - Ranch members can view, insert, update and delete plans for their ranches
+
+  4. Notes
+    - Plans are only a calendar; animals are still moved with `move_animals`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pastures' AND column_name = 'forage_lbs_per_acre'
+  ) THEN
+    ALTER TABLE pastures ADD COLUMN forage_lbs_per_acre numeric(8,1) CHECK (forage_lbs_per_acre >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pastures' AND column_name = 'forage_estimated_on'
+  ) THEN
+    ALTER TABLE pastures ADD COLUMN forage_estimated_on date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pastures' AND column_name = 'utilization_pct'
+  ) THEN
+    ALTER TABLE pastures ADD COLUMN utilization_pct integer NOT NULL DEFAULT 50 CHECK (utilization_pct > 0 AND utilization_pct <= 100);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pastures' AND column_name = 'min_rest_days'
+  ) THEN
+    ALTER TABLE pastures ADD COLUMN min_rest_days integer NOT NULL DEFAULT 30 CHECK (min_rest_days >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pastures' AND column_name = 'max_graze_days'
+  ) THEN
+    ALTER TABLE pastures ADD COLUMN max_graze_days integer CHECK (max_graze_days > 0);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS grazing_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  pasture_id uuid NOT NULL REFERENCES pastures(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grazing_plans_ranch_id ON grazing_plans(ranch_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_grazing_plans_pasture_id ON grazing_plans(pasture_id);
+CREATE INDEX IF NOT EXISTS idx_animal_moves_from_pasture_id ON animal_moves(from_pasture_id, moved_on DESC);
+
+ALTER TABLE grazing_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view grazing plans in their ranches"
+  ON grazing_plans FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create grazing plans in their ranches"
+  ON grazing_plans FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update grazing plans in their ranches"
+  ON grazing_plans FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete grazing plans in their ranches"
+  ON grazing_plans FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_grazing_plans_updated_at BEFORE UPDATE ON grazing_plans
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,173 @@
+/*
+  # Fence inspection log
+
+  1. New Tables
+    - `fence_inspections`
+      - `id` (uuid, primary key) - Unique identifier for each inspection
+      - `ranch_id` (uuid, foreign key) - Links the inspection to a specific ranch
+      - `fence_id` (uuid, foreign key) - Fence that was checked
+      - `inspected_on` (date) - Date the fence was checked
+      - `inspector` (text, nullable) - Name of the person who checked it
+      - `condition_rating` (smallint, nullable) - 1 (down) to 5 (good); null for checks carried over from before ratings
+      - `issues_found` (text, nullable) - Problems found; an inspection with issues stays open until repaired
+      - `repair_completed_on` (date, nullable) - Date the issues were fixed
+      - `repair_notes` (text, nullable) - What was done to fix them
+      - `created_by_user_id` (uuid, nullable) - User who recorded the inspection, defaults to the caller
+      - `created_at` (timestamptz) - Record creation timestamp
+      - `updated_at` (timestamptz) - Record last update timestamp
+    - `fence_inspection_photos`
+      - `id` (uuid, primary key) - Unique identifier for each photo
+      - `ranch_id` (uuid, foreign key) - Links the photo to a specific ranch
+      - `inspection_id` (uuid, foreign key) - Inspection the photo was taken on
+      - `storage_url` (text) - Public URL of the photo in the animal-photos bucket
+      - `file_size_bytes` (bigint, nullable) - Size of the uploaded file
+      - `created_at` (timestamptz) - Record creation timestamp
+
+  2. Modified Tables
+    - `fences`
+      - `last_checked_date` and `last_checked_by` are now kept in step with the latest inspection
+
+  3. Security
+    - Enable RLS on both tables
+    - Ranch members can view inspections and photos for their ranches
+    - Owners and managers can insert, update and delete them, as with fences
+
+  4. Notes
+    - Each fence's existing last check is copied into the log as its first inspection
+    - Photos are stored under `<ranch_id>/fences/` in the animal-photos bucket, which the
+      existing ranch folder storage policies already cover
+*/
+
+CREATE TABLE IF NOT EXISTS fence_inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  fence_id uuid NOT NULL REFERENCES fences(id) ON DELETE CASCADE,
+  inspected_on date NOT NULL,
+  inspector text,
+  condition_rating smallint CHECK (condition_rating BETWEEN 1 AND 5),
+  issues_found text,
+  repair_completed_on date,
+  repair_notes text,
+  created_by_user_id uuid DEFAULT auth.uid() REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (repair_completed_on IS NULL OR repair_completed_on >= inspected_on)
+);
+
+CREATE TABLE IF NOT EXISTS fence_inspection_photos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranch_id uuid NOT NULL REFERENCES ranches(id) ON DELETE CASCADE,
+  inspection_id uuid NOT NULL REFERENCES fence_inspections(id) ON DELETE CASCADE,
+  storage_url text NOT NULL,
+  file_size_bytes bigint,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fence_inspections_ranch_id ON fence_inspections(ranch_id);
+CREATE INDEX IF NOT EXISTS idx_fence_inspections_fence_id ON fence_inspections(fence_id, inspected_on DESC);
+CREATE INDEX IF NOT EXISTS idx_fence_inspection_photos_inspection_id ON fence_inspection_photos(inspection_id);
+
+ALTER TABLE fence_inspections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fence_inspection_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view fence inspections in their ranches"
+  ON fence_inspections FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners and managers can insert fence inspections"
+  ON fence_inspections FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid() AND role IN ('OWNER', 'MANAGER')
+    )
+  );
+
+CREATE POLICY "Owners and managers can update fence inspections"
+  ON fence_inspections FOR UPDATE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid() AND role IN ('OWNER', 'MANAGER')
+    )
+  )
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid() AND role IN ('OWNER', 'MANAGER')
+    )
+  );
+
+CREATE POLICY "Owners and managers can delete fence inspections"
+  ON fence_inspections FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid() AND role IN ('OWNER', 'MANAGER')
+    )
+  );
+
+CREATE POLICY "Users can view fence inspection photos in their ranches"
+  ON fence_inspection_photos FOR SELECT
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners and managers can insert fence inspection photos"
+  ON fence_inspection_photos FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid() AND role IN ('OWNER', 'MANAGER')
+    )
+  );
+
+CREATE POLICY "Owners and managers can delete fence inspection photos"
+  ON fence_inspection_photos FOR DELETE
+  TO authenticated
+  USING (
+    ranch_id IN (
+      SELECT ranch_id FROM user_ranches WHERE user_id = auth.uid() AND role IN ('OWNER', 'MANAGER')
+    )
+  );
+
+CREATE TRIGGER update_fence_inspections_updated_at BEFORE UPDATE ON fence_inspections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO fence_inspections (ranch_id, fence_id, inspected_on, inspector)
+SELECT f.ranch_id, f.id, f.last_checked_date, f.last_checked_by
+FROM fences f
+WHERE f.last_checked_date IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM fence_inspections i WHERE i.fence_id = f.id);
+
+-- Keep the fence's last-checked columns showing its latest inspection
+CREATE OR REPLACE FUNCTION sync_fence_last_checked()
+RETURNS trigger AS $$
+DECLARE
+  v_fence_id uuid := COALESCE(NEW.fence_id, OLD.fence_id);
+BEGIN
+  UPDATE fences f
+  SET last_checked_date = latest.inspected_on,
+      last_checked_by = latest.inspector
+  FROM (
+    SELECT
+      (SELECT inspected_on FROM fence_inspections WHERE fence_id = v_fence_id ORDER BY inspected_on DESC, created_at DESC LIMIT 1) AS inspected_on,
+      (SELECT inspector FROM fence_inspections WHERE fence_id = v_fence_id ORDER BY inspected_on DESC, created_at DESC LIMIT 1) AS inspector
+  ) latest
+  WHERE f.id = v_fence_id
+  AND (f.last_checked_date IS DISTINCT FROM latest.inspected_on OR f.last_checked_by IS DISTINCT FROM latest.inspector);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+CREATE TRIGGER sync_fence_last_checked_on_inspection
+  AFTER INSERT OR UPDATE OR DELETE ON fence_inspections
+  FOR EACH ROW EXECUTE FUNCTION sync_fence_last_checked();
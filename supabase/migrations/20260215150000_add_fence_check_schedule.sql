@@ -0,0 +1,33 @@
+/*
+  # Fence check scheduling
+
+  1. Modified Tables
+    - `fences`
+      - `check_frequency` (text) - How often the fence should be ridden: WEEKLY, BIWEEKLY, MONTHLY,
+        QUARTERLY or YEARLY, or on an event: BEFORE_TURNOUT or AFTER_STORMS
+      - `check_due_date` (date, nullable) - A one-off check requested by this date, such as the
+        turnout date or the day a storm came through; met by an inspection on or after it, or in the
+        two weeks before it for turnout
+
+  2. Notes
+    - Existing fences default to MONTHLY
+    - Overdue status is worked out in the app against the ranch's `ranch_settings.time_zone`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'fences' AND column_name = 'check_frequency'
+  ) THEN
+    ALTER TABLE fences ADD COLUMN check_frequency text NOT NULL DEFAULT 'MONTHLY'
+      CHECK (check_frequency IN ('WEEKLY', 'BIWEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY', 'BEFORE_TURNOUT', 'AFTER_STORMS'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'fences' AND column_name = 'check_due_date'
+  ) THEN
+    ALTER TABLE fences ADD COLUMN check_due_date date;
+  END IF;
+END $$;
@@ -0,0 +1,44 @@
+/*
+  # Map geometry for fences, pastures and infrastructure
+
+  1. Modified Tables
+    - `fences`
+      - `geometry` (jsonb, nullable) - GeoJSON LineString or MultiLineString tracing the fence
+    - `pastures`
+      - `geometry` (jsonb, nullable) - GeoJSON Polygon or MultiPolygon outlining the pasture
+    - `animals`
+      - `geometry` (jsonb, nullable) - GeoJSON Point locating an infrastructure item (animal_type
+        'Other') such as a water tank or gate
+
+  2. Notes
+    - Coordinates are WGS84 longitude/latitude, as GeoJSON and KML both use
+    - Only the geometry object is stored; names come from the row's own description or name
+    - All three columns are optional, so existing rows are left without a shape
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'fences' AND column_name = 'geometry'
+  ) THEN
+    ALTER TABLE fences ADD COLUMN geometry jsonb
+      CHECK (geometry IS NULL OR geometry->>'type' IN ('LineString', 'MultiLineString'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'pastures' AND column_name = 'geometry'
+  ) THEN
+    ALTER TABLE pastures ADD COLUMN geometry jsonb
+      CHECK (geometry IS NULL OR geometry->>'type' IN ('Polygon', 'MultiPolygon'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'animals' AND column_name = 'geometry'
+  ) THEN
+    ALTER TABLE animals ADD COLUMN geometry jsonb
+      CHECK (geometry IS NULL OR geometry->>'type' = 'Point');
+  END IF;
+END $$;